@@ -6,6 +6,10 @@ import { Task } from '../../models/Task';
 import { Event } from '../../models/Event';
 import { AssistantType } from '../../config/prompts';
 import { getStreamFeedsService } from '../../utils/getstreamFeedsService';
+import { getChannelWorkflowStatuses, getInitialStatus } from '../../utils/taskWorkflow';
+import { findTemplateForUser, instantiateTaskTemplate } from '../../utils/taskTemplates';
+import { recordTaskHistory } from '../../utils/taskHistory';
+import { findEventConflicts, findFreeSlot } from '../../utils/eventAvailability';
 
 interface FetchGroupConversationArguments {
   groupId: string;
@@ -24,6 +28,13 @@ interface CreateTaskArguments {
   assignees?: string[];
 }
 
+interface CreateTaskFromTemplateArguments {
+  templateName: string;
+  title?: string;
+  startDate?: string;
+  assignees?: string[];
+}
+
 interface CreateEventArguments {
   title: string;
   description?: string;
@@ -34,6 +45,13 @@ interface CreateEventArguments {
   reminder?: number;
 }
 
+interface FindFreeSlotArguments {
+  attendees?: string[];
+  durationMinutes?: number;
+  earliestStart?: string;
+  latestEnd?: string;
+}
+
 interface GetTasksArguments {
   status?: 'todo' | 'in_progress' | 'completed' | 'all';
   limit?: number;
@@ -263,12 +281,24 @@ export class ClaudeResponseHandler {
           result = JSON.stringify(taskResult);
           break;
 
+        case 'create_task_from_template':
+          const templateArgs = toolUse.input as CreateTaskFromTemplateArguments;
+          const templateResult = await this.createTaskFromTemplate(templateArgs);
+          result = JSON.stringify(templateResult);
+          break;
+
         case 'create_event':
           const eventArgs = toolUse.input as CreateEventArguments;
           const eventResult = await this.createEvent(eventArgs);
           result = JSON.stringify(eventResult);
           break;
 
+        case 'find_free_slot':
+          const freeSlotArgs = toolUse.input as FindFreeSlotArguments;
+          const freeSlotResult = await this.findFreeSlot(freeSlotArgs);
+          result = JSON.stringify(freeSlotResult);
+          break;
+
         case 'get_tasks':
           const getTasksArgs = toolUse.input as GetTasksArguments;
           const tasksResult = await this.getTasks(getTasksArgs);
@@ -628,13 +658,14 @@ export class ClaudeResponseHandler {
         assignee: assigneeIds,
         createdBy: this.user.id,
         channelId: this.channel.id,
-        status: 'todo',
+        status: getInitialStatus(await getChannelWorkflowStatuses(this.channel.id)),
         completed: false,
         // Store creator's timezone for proper display across timezones
         timezone: timezone,
       });
 
       await task.save();
+      await recordTaskHistory('created', task, this.user.id);
       const taskId = (task._id as any).toString();
       console.log('Task created:', taskId, 'Assignees:', assigneeIds, 'Timezone:', timezone);
 
@@ -667,9 +698,58 @@ export class ClaudeResponseHandler {
     }
   };
 
+  private createTaskFromTemplate = async (
+    args: CreateTaskFromTemplateArguments
+  ): Promise<{ success: boolean; task?: any; error?: string; availableTemplates?: string[] }> => {
+    try {
+      console.log('Creating task from template via Claude:', args.templateName);
+
+      const { template, availableNames } = await findTemplateForUser(args.templateName, this.user.id, this.channel.id);
+      if (!template) {
+        return {
+          success: false,
+          error: `No task template named "${args.templateName}"`,
+          availableTemplates: availableNames,
+        };
+      }
+
+      const timezone = this.timezoneContext?.timezone || 'UTC';
+      const assigneeIds = args.assignees?.length ? this.getAssigneeIds(args.assignees) : undefined;
+
+      const { task, subtasks } = await instantiateTaskTemplate(template, {
+        requesterId: this.user.id,
+        name: args.title,
+        assignees: assigneeIds,
+        startDate: args.startDate ? new Date(args.startDate) : undefined,
+        timezone,
+      });
+      const taskId = (task._id as any).toString();
+
+      return {
+        success: true,
+        task: {
+          id: taskId,
+          title: task.name,
+          template: template.name,
+          priority: task.priority,
+          dueDate: task.completionDate,
+          assignees: this.getAssigneeNames(task.assignee),
+          subtasks: subtasks.map((subtask) => ({ title: subtask.name, dueDate: subtask.completionDate })),
+          timezone: timezone,
+        },
+      };
+    } catch (error) {
+      console.error('Error creating task from template:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create task from template',
+      };
+    }
+  };
+
   private createEvent = async (
     args: CreateEventArguments
-  ): Promise<{ success: boolean; event?: any; error?: string }> => {
+  ): Promise<{ success: boolean; event?: any; conflicts?: any[]; error?: string }> => {
     try {
       console.log('Creating event via Claude:', args.title);
       console.log('Timezone context:', this.timezoneContext?.timezone || 'UTC (default)');
@@ -716,8 +796,11 @@ export class ClaudeResponseHandler {
         // Don't fail the event creation if notifications fail
       }
 
+      const conflicts = await this.getEventConflicts(event.toObject());
+
       return {
         success: true,
+        ...(conflicts.length > 0 && { conflicts }),
         event: {
           id: eventId,
           title: event.title,
@@ -737,6 +820,65 @@ export class ClaudeResponseHandler {
     }
   };
 
+  /**
+   * Other events the new event's attendees already have at that time, for Kai to mention
+   */
+  private getEventConflicts = async (event: any): Promise<any[]> => {
+    try {
+      const conflicts = await findEventConflicts(event, this.user.id);
+      return conflicts.map((conflict) => ({
+        attendee: this.getAssigneeNames([conflict.userId])[0],
+        startDate: conflict.startDate,
+        busyFrom: conflict.conflictsWith.start,
+        busyUntil: conflict.conflictsWith.end,
+        ...(conflict.conflictsWith.title && { conflictingEvent: conflict.conflictsWith.title }),
+      }));
+    } catch (error) {
+      console.error('Error checking event conflicts:', error);
+      return [];
+    }
+  };
+
+  private findFreeSlot = async (
+    args: FindFreeSlotArguments
+  ): Promise<{ success: boolean; slot?: any; error?: string }> => {
+    try {
+      console.log('Finding free slot via Claude:', args);
+
+      const userIds = [...new Set([this.user.id, ...this.getAssigneeIds(args.attendees)])];
+      const from = args.earliestStart ? new Date(args.earliestStart) : new Date();
+      const to = args.latestEnd ? new Date(args.latestEnd) : new Date(from.getTime() + 14 * 24 * 60 * 60 * 1000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+        return { success: false, error: 'Invalid time range' };
+      }
+
+      const slot = await findFreeSlot(userIds, args.durationMinutes || 30, { from, to });
+      if (!slot) {
+        return { success: false, error: 'No time found when everyone is free in that range' };
+      }
+
+      return {
+        success: true,
+        slot: {
+          startDate: slot.startDate,
+          endDate: slot.endDate,
+          attendees: slot.attendees.map((attendee) => ({
+            name: this.getAssigneeNames([attendee.userId])[0],
+            timezone: attendee.timezone,
+            localStart: attendee.localStart,
+            localEnd: attendee.localEnd,
+          })),
+        },
+      };
+    } catch (error) {
+      console.error('Error finding free slot:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to find a free slot',
+      };
+    }
+  };
+
   private getTasks = async (
     args: GetTasksArguments
   ): Promise<{ success: boolean; tasks?: any[]; error?: string }> => {
@@ -752,7 +894,10 @@ export class ClaudeResponseHandler {
       };
 
       // Filter by status
-      if (args.status && args.status !== 'all') {
+      if (args.status === 'completed') {
+        // Custom channel workflows can finish in terminal statuses other than 'completed'
+        query.completed = true;
+      } else if (args.status && args.status !== 'all') {
         query.status = args.status;
       }
 
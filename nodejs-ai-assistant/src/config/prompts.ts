@@ -107,6 +107,33 @@ export const TOOL_DEFINITIONS: Record<string, ToolDefinition> = {
       required: ['title'],
     },
   },
+  create_task_from_template: {
+    name: 'create_task_from_template',
+    description: 'Create a task with its checklist of subtasks from a saved task template (e.g. "Site handover", "Safety walk"). Prefer this over create_task when the user asks for a task that matches a template. If the template is not found, the result lists the available template names.',
+    parameters: {
+      type: 'object',
+      properties: {
+        templateName: {
+          type: 'string',
+          description: 'Name of the template to use',
+        },
+        title: {
+          type: 'string',
+          description: 'Optional title to use instead of the template name',
+        },
+        startDate: {
+          type: 'string',
+          description: 'Optional start date in UTC ISO format (must end with Z). Due dates of the task and subtasks are counted from this date. Defaults to now.',
+        },
+        assignees: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional usernames to assign instead of the template\'s default roles',
+        },
+      },
+      required: ['templateName'],
+    },
+  },
   create_event: {
     name: 'create_event',
     description: 'Create a new calendar event or meeting. IMPORTANT: Convert user\'s local time to UTC before calling this tool.',
@@ -146,6 +173,33 @@ export const TOOL_DEFINITIONS: Record<string, ToolDefinition> = {
       required: ['title', 'startDate'],
     },
   },
+  find_free_slot: {
+    name: 'find_free_slot',
+    description: 'Find the earliest time when the current user and the given attendees are all free, within each person\'s working hours in their own timezone. Use before create_event when no time was given, or when create_event reports conflicts.',
+    parameters: {
+      type: 'object',
+      properties: {
+        attendees: {
+          type: 'array',
+          items: { type: 'string', description: 'Username' },
+          description: 'Usernames who need to attend (the current user is always included)',
+        },
+        durationMinutes: {
+          type: 'number',
+          description: 'Length of the meeting in minutes (default: 30)',
+        },
+        earliestStart: {
+          type: 'string',
+          description: 'Earliest start in UTC ISO format (must end with Z). Defaults to now.',
+        },
+        latestEnd: {
+          type: 'string',
+          description: 'Latest end in UTC ISO format (must end with Z). Defaults to 14 days after earliestStart.',
+        },
+      },
+      required: [],
+    },
+  },
   get_tasks: {
     name: 'get_tasks',
     description: 'Get tasks for the current user. Can filter by status (todo, in_progress, completed, all).',
@@ -292,9 +346,15 @@ When user asks to create a task:
 - Use the create_task tool
 - Confirm what was created
 
+When user asks for a standard checklist task (e.g. "site handover", "safety walk"):
+- Use the create_task_from_template tool instead of inventing subtasks
+- If no template matches, offer the available templates or fall back to create_task
+
 When user asks to schedule a meeting/event:
+- If no time was given ("find a time", "sometime this week"), use the find_free_slot tool first
 - Use the create_event tool
 - Confirm the details
+- If create_event returns conflicts, say who is double-booked and offer to find a free slot
 
 EXAMPLES:
 User: "Create a task to review the proposal by Friday"
@@ -378,7 +438,7 @@ After discussing tasks:
 ---END_ACTIONS---
 
 Be helpful, be human, be Kai.`,
-    tools: [TOOL_DEFINITIONS.create_task, TOOL_DEFINITIONS.create_event, TOOL_DEFINITIONS.get_tasks, TOOL_DEFINITIONS.get_events],
+    tools: [TOOL_DEFINITIONS.create_task, TOOL_DEFINITIONS.create_task_from_template, TOOL_DEFINITIONS.create_event, TOOL_DEFINITIONS.find_free_slot, TOOL_DEFINITIONS.get_tasks, TOOL_DEFINITIONS.get_events],
   },
 
   task_detection: {
@@ -3,6 +3,7 @@ import { serverClient } from '../serverClient';
 import { Attendance } from '../models/Attendance';
 import { AttendanceLog } from '../models/AttendanceLog';
 import { ProjectDetails } from '../models/Project'; // Added import
+import { isAttendanceLocked } from '../utils/timesheets';
 
 // Export this function for testing
 export const handleAttendancePost = async (req: Request, res: Response) => {
@@ -51,6 +52,11 @@ export const handleAttendancePost = async (req: Request, res: Response) => {
       return;
     }
 
+    if (await isAttendanceLocked(userId, projectId, new Date(datetime), status)) {
+      res.status(409).json({ error: 'The timesheet for this week is approved and locked' });
+      return;
+    }
+
     const attendance = new Attendance({
       userId,
       projectId,
@@ -0,0 +1,36 @@
+import express, { Request, Response, Router } from 'express';
+import moment from 'moment-timezone';
+import { User } from '../models/User';
+import { buildCalendarFeed } from '../utils/eventCalendar';
+
+const router: Router = express.Router();
+
+/**
+ * GET /calendar-feed/:token.ics
+ * A user's events as an iCalendar feed, for subscribing from calendar apps.
+ * Public: calendar apps cannot send our access tokens, so the secret in the URL identifies the user.
+ */
+router.get('/:token', async (req: Request, res: Response) => {
+  try {
+    const token = req.params.token.replace(/\.ics$/i, '');
+
+    const user = await User.findOne({ calendarFeedToken: token }).select('userId timezone').lean() as any;
+    if (!token || !user) {
+      res.status(404).json({ error: 'Calendar feed not found' });
+      return;
+    }
+
+    const timezone = user.timezone && moment.tz.zone(user.timezone) ? user.timezone : 'UTC';
+    const calendar = await buildCalendarFeed(user.userId, timezone);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="convoe.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.status(200).send(calendar);
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    res.status(500).json({ error: 'Failed to build calendar feed' });
+  }
+});
+
+export default router;
@@ -2,12 +2,13 @@ import express, { Request, Response, Router } from 'express';
 import { Comment } from '../models/Comment';
 import { Task } from '../models/Task';
 import { getStreamFeedsService } from '../utils/getstreamFeedsService';
+import { handleCommentMentions, parseUserIds } from '../utils/taskWatchers';
 
 const router: Router = express.Router();
 
 
 
-// Post comment on task
+// Post comment on task. Optional mentionedUsers: userIds @mentioned in the message, they start watching the task
 router.post('/:taskId/comments', async (req: Request, res: Response) => {
   try {
     const { taskId } = req.params;
@@ -18,6 +19,12 @@ router.post('/:taskId/comments', async (req: Request, res: Response) => {
       return;
     }
 
+    const mentionedUsers = req.body.mentionedUsers === undefined ? [] : parseUserIds(req.body.mentionedUsers);
+    if (!mentionedUsers) {
+      res.status(400).json({ error: 'mentionedUsers must be an array of user IDs' });
+      return;
+    }
+
     // Verify task exists
     const task = await Task.findById(taskId);
     if (!task) {
@@ -30,9 +37,17 @@ router.post('/:taskId/comments', async (req: Request, res: Response) => {
       taskId,
       userId,
       message,
+      mentionedUsers,
     });
     await comment.save();
 
+    let notifiedMentions: string[] = [];
+    try {
+      notifiedMentions = await handleCommentMentions(task, mentionedUsers, userId, (comment._id as any).toString(), message);
+    } catch (error) {
+      console.error('Error handling comment mentions:', error);
+    }
+
     // Add comment to GetStream Activity Feeds
     let getstreamComment: any = null;
     try {
@@ -40,7 +55,8 @@ router.post('/:taskId/comments', async (req: Request, res: Response) => {
         taskId,
         userId,
         message,
-        (comment._id as any).toString()
+        (comment._id as any).toString(),
+        notifiedMentions
       );
 
       // Update database comment with GetStream ID if successful
@@ -150,6 +166,12 @@ router.put('/:taskId/comments/:commentId', async (req: Request, res: Response) =
       return;
     }
 
+    const mentionedUsers = req.body.mentionedUsers === undefined ? undefined : parseUserIds(req.body.mentionedUsers);
+    if (mentionedUsers === null) {
+      res.status(400).json({ error: 'mentionedUsers must be an array of user IDs' });
+      return;
+    }
+
     // Verify task exists
     const task = await Task.findById(taskId);
     if (!task) {
@@ -157,17 +179,28 @@ router.put('/:taskId/comments/:commentId', async (req: Request, res: Response) =
       return;
     }
 
-    // Update comment in database
-    const comment = await Comment.findByIdAndUpdate(
-      commentId,
-      { message },
-      { new: true }
-    );
-
+    const comment = await Comment.findById(commentId);
     if (!comment) {
       res.status(404).json({ error: 'Comment not found' });
       return;
     }
+    const alreadyMentioned = new Set(comment.mentionedUsers || []);
+
+    // Update comment in database
+    comment.message = message;
+    if (mentionedUsers) {
+      comment.mentionedUsers = mentionedUsers;
+    }
+    await comment.save();
+
+    // Only people newly mentioned by the edit are notified
+    if (mentionedUsers) {
+      try {
+        await handleCommentMentions(task, mentionedUsers.filter((id) => !alreadyMentioned.has(id)), userId, commentId, message);
+      } catch (error) {
+        console.error('Error handling comment mentions:', error);
+      }
+    }
 
     // Update comment in GetStream if it has a GetStream ID
     let getstreamComment: any = null;
@@ -0,0 +1,357 @@
+jest.mock('../serverClient', () => ({
+  serverClient: {
+    queryUsers: jest.fn(async () => ({ users: [] })),
+    channel: jest.fn(() => ({
+      queryMembers: jest.fn(async ({ user_id }: { user_id: string }) => ({ members: user_id === 'owner' ? [{ user_id }] : [] })),
+    })),
+  },
+}));
+jest.mock('../utils/getstreamFeedsService', () => ({
+  getStreamFeedsService: { createNotification: jest.fn(), createTaskActivity: jest.fn() },
+}));
+jest.mock('../services/transcriptionService', () => ({ summarizeTranscription: jest.fn() }));
+jest.mock('../utils/taskHistory', () => ({ recordTaskHistory: jest.fn() }));
+jest.mock('../utils/eventAvailability', () => ({
+  ...jest.requireActual('../utils/eventAvailability'),
+  findEventConflicts: jest.fn(async () => []),
+}));
+jest.mock('../utils/eventCalendar', () => ({
+  ...jest.requireActual('../utils/eventCalendar'),
+  importCalendarEvents: jest.fn(async () => ({ results: [] })),
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { Event } from '../models/Event';
+import { EventInvite } from '../models/EventInvite';
+import { Task } from '../models/Task';
+import { User } from '../models/User';
+import { summarizeTranscription } from '../services/transcriptionService';
+import { findEventConflicts } from '../utils/eventAvailability';
+import { importCalendarEvents } from '../utils/eventCalendar';
+import router from './eventController';
+
+const app = express();
+app.use(express.json());
+app.use('/event', router);
+
+const ics = 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n';
+const eventId = '64b000000000000000000010';
+
+const day = (n: number, hour = 9) => new Date(Date.UTC(2026, 2, n, hour));
+
+// A daily stand-up from March 2 at 09:00 UTC, as a saved document
+const standup = (fields: Record<string, any> = {}) => new Event({
+  _id: eventId,
+  title: 'Stand-up',
+  startDate: day(2),
+  endDate: day(2, 10),
+  organizer: 'owner',
+  timezone: 'UTC',
+  recurrence: { type: 'daily', interval: 1 },
+  attendees: [
+    { userId: 'owner', status: 'yes', respondedAt: day(1) },
+    { userId: 'worker', status: 'waitlisted', waitlistedAt: day(1) },
+  ],
+  ...fields,
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('POST /event/import', () => {
+  it('requires an authenticated user', async () => {
+    const response = await request(app).post('/event/import').send({ ics, userId: 'owner', timezone: 'UTC' });
+
+    expect(response.status).toBe(401);
+    expect(importCalendarEvents).not.toHaveBeenCalled();
+  });
+
+  it('imports for the authenticated user rather than the body userId', async () => {
+    const response = await request(app)
+      .post('/event/import')
+      .set('x-stream-user-id', 'member')
+      .send({ ics, userId: 'owner', timezone: 'UTC' });
+
+    expect(response.status).toBe(201);
+    expect(importCalendarEvents).toHaveBeenCalledWith(ics, expect.objectContaining({ userId: 'member' }));
+  });
+
+  it('refuses to import into a channel the user is not a member of', async () => {
+    const response = await request(app)
+      .post('/event/import')
+      .set('x-stream-user-id', 'member')
+      .send({ ics, channelId: 'messaging:site-1', timezone: 'UTC' });
+
+    expect(response.status).toBe(403);
+    expect(importCalendarEvents).not.toHaveBeenCalled();
+  });
+});
+
+describe('PUT /event/:eventId', () => {
+  it('keeps the occurrence changes that still fall on an occurrence of the changed series', async () => {
+    jest.spyOn(Event, 'findById').mockResolvedValue(standup({
+      exceptions: [
+        { originalStartDate: day(3), cancelled: true },
+        { originalStartDate: day(4), cancelled: false, title: 'Planning' },
+      ],
+    }) as any);
+    const update = jest.spyOn(Event, 'findByIdAndUpdate').mockImplementation((async (id: string, data: any) => standup(data)) as any);
+
+    const response = await request(app)
+      .put(`/event/${eventId}`)
+      .set('x-stream-user-id', 'owner')
+      .send({ recurrence: { type: 'daily', interval: 2 } });
+
+    expect(response.status).toBe(200);
+    const exceptions = (update.mock.calls[0] as any[])[1].exceptions;
+    expect(exceptions.map((exception: any) => exception.originalStartDate)).toEqual([day(4)]);
+  });
+});
+
+describe('PUT /event/:eventId/occurrences/:occurrenceStart', () => {
+  it('starts the following series without the guests, proposals, minutes, UID and RSVPs of the old one', async () => {
+    const event = standup({
+      icsUid: 'standup@example.com',
+      guests: [{ phoneNumber: '+15551234567', status: 'yes', invitedBy: 'owner', invitedAt: day(1) }],
+      proposals: [{ userId: 'worker', startDate: day(5, 11), status: 'open', createdAt: day(1) }],
+      minutes: { source: 'notes', summary: 'Kick-off', keyPoints: [], actionItems: [], createdBy: 'owner', createdAt: day(2) },
+    });
+    jest.spyOn(Event, 'findById').mockResolvedValue(event);
+    const saved: any[] = [];
+    jest.spyOn(Event.prototype, 'save').mockImplementation(async function (this: any) {
+      saved.push(this);
+      return this;
+    });
+
+    const response = await request(app)
+      .put(`/event/${eventId}/occurrences/${day(5).toISOString()}`)
+      .set('x-stream-user-id', 'owner')
+      .send({ scope: 'following', title: 'Late stand-up', startDate: day(5, 10).toISOString() });
+
+    expect(response.status).toBe(200);
+    const following = saved.find((doc) => doc !== event).toObject();
+    expect(following).toMatchObject({ title: 'Late stand-up', startDate: day(5, 10), seriesId: eventId, guests: [], proposals: [] });
+    expect(following.icsUid).toBeUndefined();
+    expect(following.minutes).toBeFalsy();
+    expect(following.attendees.map((attendee: any) => [attendee.userId, attendee.status, attendee.respondedAt, attendee.waitlistedAt]))
+      .toEqual([['owner', 'pending', undefined, undefined], ['worker', 'pending', undefined, undefined]]);
+    expect(event.guests).toHaveLength(1);
+    expect(event.icsUid).toBe('standup@example.com');
+  });
+});
+
+describe('event visibility in availability', () => {
+  it('shows free/busy titles for the authenticated user, not the query userId', async () => {
+    jest.spyOn(Event, 'find').mockReturnValue({ sort: () => ({ lean: async () => [standup().toObject()] }) } as any);
+    jest.spyOn(User, 'find').mockReturnValue({ select: () => ({ lean: async () => [] }) } as any);
+
+    const response = await request(app)
+      .get('/event/free-busy')
+      .set('x-stream-user-id', 'stranger')
+      .query({ userIds: 'owner', startDate: day(2, 0).toISOString(), endDate: day(3, 0).toISOString(), userId: 'owner' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.users[0].busy).toHaveLength(1);
+    expect(response.body.users[0].busy[0].title).toBeUndefined();
+  });
+
+  it('checks conflicts after an update as the authenticated user', async () => {
+    jest.spyOn(Event, 'findById').mockResolvedValue(standup() as any);
+    jest.spyOn(Event, 'findByIdAndUpdate').mockImplementation((async (id: string, data: any) => standup(data)) as any);
+
+    const response = await request(app)
+      .put(`/event/${eventId}`)
+      .set('x-stream-user-id', 'worker')
+      .send({ title: 'Daily stand-up', userId: 'owner' });
+
+    expect(response.status).toBe(200);
+    expect(findEventConflicts).toHaveBeenCalledWith(expect.anything(), 'worker');
+  });
+});
+
+describe('/event/reminder-settings', () => {
+  it('reads the authenticated user\'s settings, not the query userId', async () => {
+    const findOne = jest.spyOn(User, 'findOne').mockReturnValue({ select: () => ({ lean: async () => ({ eventReminderChannel: 'kai' }) }) } as any);
+
+    const response = await request(app).get('/event/reminder-settings').set('x-stream-user-id', 'worker').query({ userId: 'owner' });
+
+    expect(response.status).toBe(200);
+    expect(findOne).toHaveBeenCalledWith({ userId: 'worker' });
+  });
+
+  it('changes only the authenticated user\'s settings', async () => {
+    const update = jest.spyOn(User, 'findOneAndUpdate').mockResolvedValue(null);
+
+    const unauthenticated = await request(app).put('/event/reminder-settings').send({ userId: 'owner', channel: 'kai' });
+    const response = await request(app).put('/event/reminder-settings').set('x-stream-user-id', 'worker').send({ userId: 'owner', channel: 'kai' });
+
+    expect(unauthenticated.status).toBe(401);
+    expect(response.status).toBe(200);
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(update).toHaveBeenCalledWith({ userId: 'worker' }, expect.anything(), expect.anything());
+  });
+});
+
+describe('deciding on proposed times', () => {
+  const withProposal = () => standup({
+    recurrence: undefined,
+    guests: [{ phoneNumber: '+15551234567', status: 'yes', respondedAt: day(1), invitedBy: 'owner', invitedAt: day(1) }],
+    proposals: [{ userId: 'worker', startDate: day(2, 11), status: 'open', createdAt: day(1) }],
+  });
+
+  beforeEach(() => {
+    jest.spyOn(Event.prototype, 'save').mockImplementation(async function (this: any) {
+      return this;
+    });
+  });
+
+  it('lets only the authenticated organizer accept or decline', async () => {
+    const event = withProposal();
+    jest.spyOn(Event, 'findById').mockResolvedValue(event);
+    const proposalId = String(event.proposals[0]._id);
+
+    for (const decision of ['accept', 'decline']) {
+      const response = await request(app)
+        .post(`/event/${eventId}/proposals/${proposalId}/${decision}`)
+        .set('x-stream-user-id', 'worker')
+        .send({ userId: 'owner' });
+      expect(response.status).toBe(403);
+    }
+    expect(event.proposals[0].status).toBe('open');
+  });
+
+  it('moves the event and asks attendees and guests to respond again', async () => {
+    const event = withProposal();
+    jest.spyOn(Event, 'findById').mockResolvedValue(event);
+
+    const response = await request(app)
+      .post(`/event/${eventId}/proposals/${String(event.proposals[0]._id)}/accept`)
+      .set('x-stream-user-id', 'owner');
+
+    expect(response.status).toBe(200);
+    expect(event.startDate).toEqual(day(2, 11));
+    expect([...event.attendees, ...event.guests].map((invitee) => [invitee.status, invitee.respondedAt]))
+      .toEqual([['pending', undefined], ['pending', undefined], ['pending', undefined]]);
+  });
+});
+
+describe('guest links', () => {
+  const withGuest = () => standup({
+    recurrence: undefined,
+    guests: [{ phoneNumber: '+15551234567', status: 'pending', invitedBy: 'owner', invitedAt: day(1) }],
+  });
+
+  it('shows guest links only to the authenticated organizer', async () => {
+    const event = withGuest();
+    jest.spyOn(Event, 'findById').mockReturnValue({ select: () => ({ lean: async () => event.toObject() }) } as any);
+    jest.spyOn(EventInvite, 'find').mockReturnValue({
+      select: () => ({ lean: async () => [{ guestId: String(event.guests[0]._id), token: 'secret-token' }] }),
+    } as any);
+
+    const denied = await request(app).get(`/event/${eventId}/guests`).set('x-stream-user-id', 'worker').query({ userId: 'owner' });
+    const allowed = await request(app).get(`/event/${eventId}/guests`).set('x-stream-user-id', 'owner');
+
+    expect(denied.status).toBe(403);
+    expect(JSON.stringify(denied.body)).not.toContain('secret-token');
+    expect(allowed.status).toBe(200);
+    expect(allowed.body.guests[0].rsvpUrl).toContain('secret-token');
+  });
+
+  it('lets only the authenticated organizer invite or remove guests', async () => {
+    const event = withGuest();
+    jest.spyOn(Event, 'findById').mockResolvedValue(event);
+
+    const invite = await request(app)
+      .post(`/event/${eventId}/guests`)
+      .set('x-stream-user-id', 'worker')
+      .send({ userId: 'owner', phoneNumbers: ['+15557654321'] });
+    const remove = await request(app)
+      .delete(`/event/${eventId}/guests/${String(event.guests[0]._id)}`)
+      .set('x-stream-user-id', 'worker')
+      .query({ userId: 'owner' });
+
+    expect(invite.status).toBe(403);
+    expect(remove.status).toBe(403);
+    expect(event.guests).toHaveLength(1);
+  });
+});
+
+describe('event minutes', () => {
+  const withMinutes = () => standup({
+    recurrence: undefined,
+    minutes: {
+      source: 'notes',
+      summary: 'Crane booking',
+      keyPoints: [],
+      actionItems: [{ text: 'Book crane for Friday', assignees: ['worker'], taskId: 'task-1' }],
+      createdBy: 'owner',
+      createdAt: day(2),
+    },
+  });
+
+  beforeEach(() => {
+    (summarizeTranscription as jest.Mock).mockResolvedValue({
+      summary: 'Crane and rebar',
+      keyPoints: [],
+      actionItems: ['Book the crane for Friday', 'Order rebar'],
+    });
+    jest.spyOn(Event.prototype, 'save').mockImplementation(async function (this: any) {
+      return this;
+    });
+  });
+
+  it('lets only authenticated participants take or read minutes', async () => {
+    jest.spyOn(Event, 'findById').mockImplementation(((id: string) => {
+      const event = withMinutes();
+      return Object.assign(Promise.resolve(event), { select: () => ({ lean: async () => event.toObject() }) });
+    }) as any);
+
+    const take = await request(app).post(`/event/${eventId}/minutes`).set('x-stream-user-id', 'stranger').send({ userId: 'owner', notes: 'Crane' });
+    const read = await request(app).get(`/event/${eventId}/minutes`).set('x-stream-user-id', 'stranger').query({ userId: 'owner' });
+    const tasks = await request(app).post(`/event/${eventId}/minutes/tasks`).set('x-stream-user-id', 'stranger').send({ userId: 'owner' });
+
+    expect([take.status, read.status, tasks.status]).toEqual([403, 403, 403]);
+  });
+
+  it('keeps action items that have a task and creates no new tasks unless asked when minutes are replaced', async () => {
+    const event = withMinutes();
+    jest.spyOn(Event, 'findById').mockResolvedValue(event);
+    const saveTask = jest.spyOn(Task.prototype, 'save').mockImplementation(async function (this: any) {
+      return this;
+    });
+
+    const response = await request(app).post(`/event/${eventId}/minutes`).set('x-stream-user-id', 'owner').send({ notes: 'Crane and rebar' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.createdTaskIds).toEqual([]);
+    expect(saveTask).not.toHaveBeenCalled();
+    expect(response.body.minutes.actionItems.map((item: any) => [item.text, item.taskId])).toEqual([
+      ['Book crane for Friday', 'task-1'],
+      ['Book the crane for Friday', undefined],
+      ['Order rebar', undefined],
+    ]);
+  });
+
+  it('creates tasks for the new action items when asked', async () => {
+    const event = withMinutes();
+    jest.spyOn(Event, 'findById').mockResolvedValue(event);
+    jest.spyOn(Task.prototype, 'save').mockImplementation(async function (this: any) {
+      return this;
+    });
+
+    const response = await request(app)
+      .post(`/event/${eventId}/minutes`)
+      .set('x-stream-user-id', 'owner')
+      .send({ notes: 'Crane and rebar', createTasks: true });
+
+    expect(response.status).toBe(201);
+    expect(response.body.createdTaskIds).toHaveLength(2);
+    expect(response.body.minutes.actionItems[0].taskId).toBe('task-1');
+  });
+});
@@ -1,8 +1,35 @@
 import express, { Request, Response, Router } from 'express';
+import moment from 'moment-timezone';
+import multer from 'multer';
 import { Event, IEvent } from '../models/Event';
+import { User } from '../models/User';
 import { getStreamUserId } from '../middleware/auth';
 import { serverClient } from '../serverClient';
 import { getStreamFeedsService } from '../utils/getstreamFeedsService';
+import { findCalendarEvents, getCalendarFeedToken, importCalendarEvents } from '../utils/eventCalendar';
+import { findEventConflicts, getFreeBusy, MAX_FREE_BUSY_DAYS } from '../utils/eventAvailability';
+import {
+  buildReminderFields,
+  DEFAULT_REMINDER_MINUTES,
+  getEventReminderOffsets,
+  getReminderChannel,
+  getReminderRecipients,
+  getUserReminderOffsets,
+  parseReminderOffsets,
+} from '../utils/eventReminders';
+import { EventReminderDelivery } from '../models/EventReminderDelivery';
+import { buildRsvpSummary, formatProposal, getRsvpCounts } from '../utils/eventRsvp';
+import { applyRsvp, getWaitlistPosition, notifyPromoted, promoteWaitlist } from '../utils/eventCapacity';
+import { inviteGuests, MAX_GUESTS_PER_REQUEST, normalizePhoneNumber, removeGuest } from '../utils/eventGuests';
+import { EventInvite } from '../models/EventInvite';
+import { createActionItemTasks, generateEventMinutes } from '../utils/eventMinutes';
+import {
+  activeAfterQuery,
+  expandEvents,
+  findException,
+  isOccurrenceStart,
+  isRecurringEvent,
+} from '../utils/eventRecurrence';
 
 // Helper function to normalize user IDs (remove prefixes like auth0|, sms|, +)
 const normalizeUserId = (id: string): string => {
@@ -43,6 +70,68 @@ const isChannelMember = async (channelId: string, userId: string): Promise<boole
 
 const router: Router = express.Router();
 
+// Calendar (.ics) files to import are read from memory
+const icsUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024,
+  },
+});
+
+// Recordings for event minutes are read from memory and transcribed
+const minutesUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 100 * 1024 * 1024, // 100MB, as for /transcribe/upload
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('audio/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only audio files are allowed'));
+    }
+  }
+});
+
+// Recurring events are looked ahead this far for the upcoming list
+const UPCOMING_HORIZON_DAYS = 365;
+
+// Fields that can be changed on a single occurrence of a recurring event
+const OCCURRENCE_FIELDS = ['title', 'description', 'location', 'allDay'] as const;
+
+// Public address of a user's calendar feed (see calendarFeedController)
+const buildFeedUrls = (req: Request, token: string) => {
+  const host = req.get('host');
+  return {
+    feedUrl: `${req.protocol}://${host}/calendar-feed/${token}.ics`,
+    webcalUrl: `webcal://${host}/calendar-feed/${token}.ics`,
+  };
+};
+
+// Public RSVP link of a guest invited by phone number (see eventInviteController)
+const buildInviteUrl = (req: Request, token: string): string =>
+  `${req.protocol}://${req.get('host')}/event-invite/${token}`;
+
+// Capacity from a request: a positive whole number, or null for unlimited
+const parseCapacity = (value: unknown): { capacity?: number | null; error?: string } => {
+  if (value === null || value === '' || value === 0) return { capacity: null };
+  const capacity = Number(value);
+  return Number.isInteger(capacity) && capacity > 0
+    ? { capacity }
+    : { error: 'capacity must be a positive whole number, or null for no limit' };
+};
+
+// Conflicts of a saved event. They are informational, so a failed check reports none rather than
+// failing a request whose change is already stored (and would be repeated on retry).
+const findConflictsAfterSave = async (event: IEvent, viewerId?: string) => {
+  try {
+    return await findEventConflicts(event.toObject(), viewerId);
+  } catch (error) {
+    console.error('Error checking event conflicts:', error);
+    return [];
+  }
+};
+
 // POST /event - Create a new event
 router.post('/', async (req: Request, res: Response) => {
   try {
@@ -58,8 +147,10 @@ router.post('/', async (req: Request, res: Response) => {
       channelId,
       messageId,
       reminder,
+      reminders,
       recurrence,
-      timezone
+      timezone,
+      capacity
     } = req.body;
 
     // Validation
@@ -73,6 +164,18 @@ router.post('/', async (req: Request, res: Response) => {
       return;
     }
 
+    const { fields: reminderFields, error: reminderError } = buildReminderFields(reminders, reminder || DEFAULT_REMINDER_MINUTES);
+    if (reminderError) {
+      res.status(400).json({ error: reminderError });
+      return;
+    }
+
+    const { capacity: seats, error: capacityError } = parseCapacity(capacity);
+    if (capacityError) {
+      res.status(400).json({ error: capacityError });
+      return;
+    }
+
     const event: IEvent = new Event({
       title,
       description,
@@ -85,7 +188,8 @@ router.post('/', async (req: Request, res: Response) => {
       channelId,
       messageId,
       status: 'scheduled',
-      reminder: reminder || 15,
+      ...reminderFields,
+      capacity: seats,
       recurrence,
       // Store the creator's timezone for proper display across timezones
       timezone: timezone || 'UTC',
@@ -95,9 +199,13 @@ router.post('/', async (req: Request, res: Response) => {
 
     console.log('📅 Event created:', event._id, 'Attendees:', attendees);
 
+    // Double bookings are reported, not refused
+    const conflicts = await findConflictsAfterSave(event, organizer);
+
     res.status(201).json({
       status: 'success',
-      event
+      event,
+      conflicts
     });
   } catch (error) {
     console.error('Error creating event:', error);
@@ -211,28 +319,8 @@ router.get('/calendar', async (req: Request, res: Response) => {
     const start = new Date(startDate as string);
     const end = new Date(endDate as string);
 
-    // Get events where user is attendee or organizer
-    const events = await Event.find({
-      $or: [
-        { 'attendees.userId': { $in: [userId as string] } },
-        { organizer: userId as string }
-      ],
-      $and: [
-        {
-          $or: [
-            // Events that start within the range
-            { startDate: { $gte: start, $lte: end } },
-            // Events that span across the range (started before, ends after)
-            { startDate: { $lte: start }, endDate: { $gte: start } },
-            // All-day events on start date
-            { startDate: { $lte: end }, allDay: true }
-          ]
-        }
-      ],
-      status: { $ne: 'cancelled' }
-    })
-    .sort({ startDate: 1 })
-    .lean();
+    // Get events where user is attendee or organizer, with recurring events expanded into their occurrences
+    const events = expandEvents(await findCalendarEvents(userId as string, start, end, { includeRecurring: true }), start, end);
 
     res.status(200).json({
       status: 'success',
@@ -245,6 +333,48 @@ router.get('/calendar', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /event/free-busy - Busy times of users between startDate and endDate
+ * Query: userIds (comma separated), startDate, endDate, includeShifts (also count attendance shifts as busy)
+ * Titles are only shown for events the requester organizes or attends.
+ */
+router.get('/free-busy', async (req: Request, res: Response) => {
+  try {
+    const { userIds, startDate, endDate, includeShifts } = req.query;
+
+    if (!userIds || !startDate || !endDate) {
+      res.status(400).json({ error: 'Missing required parameters: userIds, startDate, endDate' });
+      return;
+    }
+
+    const start = new Date(startDate as string);
+    const end = new Date(endDate as string);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      res.status(400).json({ error: 'startDate and endDate must be valid dates, with endDate after startDate' });
+      return;
+    }
+    if (moment(end).diff(start, 'days', true) > MAX_FREE_BUSY_DAYS) {
+      res.status(400).json({ error: `The range can be at most ${MAX_FREE_BUSY_DAYS} days` });
+      return;
+    }
+
+    const ids = [...new Set((userIds as string).split(',').map((id) => id.trim()).filter(Boolean))];
+    const users = await getFreeBusy(ids, start, end, {
+      includeShifts: includeShifts === 'true',
+      viewerId: getStreamUserId(req) || undefined,
+    });
+
+    res.status(200).json({
+      status: 'success',
+      users,
+      dateRange: { startDate: start, endDate: end }
+    });
+  } catch (error) {
+    console.error('Error fetching free/busy:', error);
+    res.status(500).json({ error: 'Failed to fetch free/busy' });
+  }
+});
+
 // GET /event/upcoming - Get upcoming events for a user
 router.get('/upcoming', async (req: Request, res: Response) => {
   try {
@@ -257,18 +387,27 @@ router.get('/upcoming', async (req: Request, res: Response) => {
 
     const now = new Date();
     const limitNum = parseInt(limit as string, 10);
-
-    const events = await Event.find({
+    const userFilter = {
       $or: [
         { 'attendees.userId': { $in: [userId as string] } },
         { organizer: userId as string }
       ],
-      startDate: { $gte: now },
       status: 'scheduled'
-    })
-    .sort({ startDate: 1 })
-    .limit(limitNum)
-    .lean();
+    };
+
+    const [singleEvents, recurringEvents] = await Promise.all([
+      Event.find({ ...userFilter, startDate: { $gte: now }, 'recurrence.type': null })
+        .sort({ startDate: 1 })
+        .limit(limitNum)
+        .lean(),
+      Event.find({ ...userFilter, $and: [activeAfterQuery(now)], 'recurrence.type': { $ne: null } }).lean(),
+    ]);
+
+    // Next occurrences of recurring events, merged with single events
+    const horizon = new Date(now.getTime() + UPCOMING_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+    const events = expandEvents([...singleEvents, ...recurringEvents], now, horizon)
+      .filter((occurrence) => occurrence.startDate >= now)
+      .slice(0, limitNum);
 
     res.status(200).json({
       status: 'success',
@@ -280,6 +419,177 @@ router.get('/upcoming', async (req: Request, res: Response) => {
   }
 });
 
+// GET /event/calendar-feed - The user's private iCalendar feed address, for subscribing from calendar apps
+router.get('/calendar-feed', async (req: Request, res: Response) => {
+  try {
+    // The feed is readable by anyone with its address, so only its owner can get or reset it
+    const userId = getStreamUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const token = await getCalendarFeedToken(userId);
+    if (!token) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      ...buildFeedUrls(req, token)
+    });
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    res.status(500).json({ error: 'Failed to fetch calendar feed' });
+  }
+});
+
+// POST /event/calendar-feed/reset - Replace the feed token, so previously shared feed addresses stop working
+router.post('/calendar-feed/reset', async (req: Request, res: Response) => {
+  try {
+    // The feed is readable by anyone with its address, so only its owner can get or reset it
+    const userId = getStreamUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const token = await getCalendarFeedToken(userId, true);
+    if (!token) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      ...buildFeedUrls(req, token)
+    });
+  } catch (error) {
+    console.error('Error resetting calendar feed:', error);
+    res.status(500).json({ error: 'Failed to reset calendar feed' });
+  }
+});
+
+// GET /event/reminder-settings - How the user receives event reminders
+router.get('/reminder-settings', async (req: Request, res: Response) => {
+  try {
+    const userId = getStreamUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const user = await User.findOne({ userId }).select('eventReminderChannel').lean();
+
+    res.status(200).json({
+      status: 'success',
+      channel: (user as any)?.eventReminderChannel || 'push'
+    });
+  } catch (error) {
+    console.error('Error fetching reminder settings:', error);
+    res.status(500).json({ error: 'Failed to fetch reminder settings' });
+  }
+});
+
+// PUT /event/reminder-settings - Choose push notifications or messages from Kai (in the kai channel) for event reminders
+router.put('/reminder-settings', async (req: Request, res: Response) => {
+  try {
+    const userId = getStreamUserId(req);
+    const { channel } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    if (!['push', 'kai'].includes(channel)) {
+      res.status(400).json({ error: "channel must be 'push' or 'kai'" });
+      return;
+    }
+
+    await User.findOneAndUpdate(
+      { userId },
+      { $set: { eventReminderChannel: channel }, $setOnInsert: { userId } },
+      { upsert: true }
+    );
+
+    res.status(200).json({
+      status: 'success',
+      channel
+    });
+  } catch (error) {
+    console.error('Error updating reminder settings:', error);
+    res.status(500).json({ error: 'Failed to update reminder settings' });
+  }
+});
+
+/**
+ * POST /event/import
+ * An .ics file (multipart field "file") or its text as "ics", plus { channelId?, timezone?, dryRun? }.
+ * Events are imported for the authenticated user, into a channel only if they are a member of it.
+ * Times without a timezone are read in `timezone`, defaulting to the user's timezone.
+ * Events already imported (same UID) are updated instead of duplicated.
+ */
+router.post('/import', icsUpload.single('file'), async (req: Request, res: Response) => {
+  try {
+    const userId = getStreamUserId(req);
+    const { channelId } = req.body;
+    const dryRun = req.body.dryRun === true || req.body.dryRun === 'true';
+    const text = req.file ? req.file.buffer.toString('utf8') : req.body.ics;
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    if (!text) {
+      res.status(400).json({ error: 'Missing required field: an .ics file (or ics text)' });
+      return;
+    }
+    if (channelId && !(await isChannelMember(channelId, userId))) {
+      res.status(403).json({ error: 'You are not a member of this channel' });
+      return;
+    }
+
+    let timezone = req.body.timezone;
+    if (!timezone) {
+      const user = await User.findOne({ userId }).select('timezone').lean() as any;
+      timezone = user?.timezone || 'UTC';
+    }
+    if (!moment.tz.zone(timezone)) {
+      res.status(400).json({ error: 'Invalid timezone' });
+      return;
+    }
+
+    const { results, error } = await importCalendarEvents(String(text), { userId, timezone, channelId, dryRun });
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+
+    const summary = {
+      total: results.length,
+      created: results.filter((result) => result.action === 'created').length,
+      updated: results.filter((result) => result.action === 'updated').length,
+      skipped: results.filter((result) => result.action === 'skipped').length,
+    };
+    console.log(`📅 Calendar import for ${userId}${dryRun ? ' (dry run)' : ''}:`, summary);
+
+    res.status(dryRun ? 200 : 201).json({
+      status: 'success',
+      dryRun,
+      timezone,
+      summary,
+      results
+    });
+  } catch (error) {
+    console.error('Error importing calendar:', error);
+    res.status(500).json({ error: 'Failed to import calendar' });
+  }
+});
+
 // GET /event/:eventId - Get event details
 router.get('/:eventId', async (req: Request, res: Response) => {
   try {
@@ -310,7 +620,8 @@ router.get('/:eventId', async (req: Request, res: Response) => {
 
     res.status(200).json({
       status: 'success',
-      event
+      event,
+      rsvpSummary: buildRsvpSummary(event)
     });
   } catch (error) {
     console.error('Error fetching event details:', error);
@@ -344,8 +655,10 @@ router.put('/:eventId', async (req: Request, res: Response) => {
       attendees,
       status,
       reminder,
+      reminders,
       recurrence,
-      timezone
+      timezone,
+      capacity
     } = req.body;
 
     const updateData: any = {};
@@ -364,10 +677,38 @@ router.put('/:eventId', async (req: Request, res: Response) => {
       updateData.attendees = attendees;
     }
     if (status !== undefined) updateData.status = status;
-    if (reminder !== undefined) updateData.reminder = reminder;
+    const { fields: reminderFields, error: reminderError } = buildReminderFields(reminders, reminder);
+    if (reminderError) {
+      res.status(400).json({ error: reminderError });
+      return;
+    }
+    Object.assign(updateData, reminderFields);
+    if (capacity !== undefined) {
+      const { capacity: seats, error: capacityError } = parseCapacity(capacity);
+      if (capacityError) {
+        res.status(400).json({ error: capacityError });
+        return;
+      }
+      updateData.capacity = seats;
+    }
     if (recurrence !== undefined) updateData.recurrence = recurrence;
     if (timezone !== undefined) updateData.timezone = timezone;
 
+    // Occurrence changes are keyed by the occurrence's original start, which moves with the series;
+    // only those that still fall on an occurrence of the changed series are kept
+    const movesOccurrences = (updateData.startDate !== undefined && updateData.startDate.getTime() !== event.startDate.getTime()) ||
+      recurrence !== undefined || timezone !== undefined;
+    if (movesOccurrences && event.exceptions?.length > 0) {
+      const changedSeries = { ...event.toObject(), ...updateData };
+      updateData.exceptions = isRecurringEvent(changedSeries)
+        ? event.exceptions.filter((exception) => isOccurrenceStart(changedSeries, exception.originalStartDate))
+        : [];
+    }
+    // Reminders are tracked per start time, so a moved event is reminded about again
+    if (movesOccurrences && event.reminderSent) {
+      updateData.reminderSent = false;
+    }
+
     const updatedEvent = await Event.findByIdAndUpdate(
       eventId,
       updateData,
@@ -381,9 +722,21 @@ router.put('/:eventId', async (req: Request, res: Response) => {
 
     console.log('📅 Event updated:', updatedEvent._id);
 
+    // More seats, or attendees taken off the list, can make room for the waitlist
+    if (capacity !== undefined || attendees !== undefined) {
+      const promoted = promoteWaitlist(updatedEvent);
+      if (promoted.length > 0) {
+        await updatedEvent.save();
+        await notifyPromoted(updatedEvent, promoted);
+      }
+    }
+
+    const conflicts = await findConflictsAfterSave(updatedEvent, getStreamUserId(req) || undefined);
+
     res.status(200).json({
       status: 'success',
-      event: updatedEvent
+      event: updatedEvent,
+      conflicts
     });
   } catch (error) {
     console.error('Error updating event:', error);
@@ -391,11 +744,281 @@ router.put('/:eventId', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PUT /event/:eventId/occurrences/:occurrenceStart - Change one occurrence of a recurring event
+ * occurrenceStart is the occurrence's original start (ISO date, as in originalStartDate).
+ * Body: { scope: 'this' | 'following', title?, description?, location?, allDay?, startDate?, endDate? }
+ * 'following' ends the series before this occurrence and starts a new series with the changes from it on.
+ */
+router.put('/:eventId/occurrences/:occurrenceStart', async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req.params;
+    const occurrenceStart = new Date(req.params.occurrenceStart);
+    const { scope = 'this', startDate, endDate } = req.body;
+
+    if (!['this', 'following'].includes(scope)) {
+      res.status(400).json({ error: "scope must be 'this' or 'following'" });
+      return;
+    }
+    if (isNaN(occurrenceStart.getTime())) {
+      res.status(400).json({ error: 'Invalid occurrence start date' });
+      return;
+    }
+    if ((startDate && isNaN(new Date(startDate).getTime())) || (endDate && isNaN(new Date(endDate).getTime()))) {
+      res.status(400).json({ error: 'startDate and endDate must be valid dates' });
+      return;
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    if (!isRecurringEvent(event) || !isOccurrenceStart(event, occurrenceStart)) {
+      res.status(404).json({ error: 'Occurrence not found' });
+      return;
+    }
+
+    const changes: Record<string, any> = {};
+    for (const field of OCCURRENCE_FIELDS) {
+      if (req.body[field] !== undefined) changes[field] = req.body[field];
+    }
+
+    if (scope === 'this') {
+      // Earlier changes to the same occurrence are kept
+      const previous = findException(event, occurrenceStart);
+      const exception = {
+        ...(previous && (previous as any).toObject()),
+        ...changes,
+        originalStartDate: occurrenceStart,
+        cancelled: false,
+        ...(startDate !== undefined && { startDate: new Date(startDate) }),
+        ...(endDate !== undefined && { endDate: endDate ? new Date(endDate) : null }),
+      };
+      event.exceptions = [
+        ...event.exceptions.filter((item) => item.originalStartDate.getTime() !== occurrenceStart.getTime()),
+        exception,
+      ];
+      await event.save();
+
+      console.log(`📅 Event ${eventId} occurrence ${occurrenceStart.toISOString()} updated`);
+      res.status(200).json({ status: 'success', event });
+      return;
+    }
+
+    // Occurrences from this one on move by the same amount as this one does
+    const shiftMs = startDate ? new Date(startDate).getTime() - occurrenceStart.getTime() : 0;
+    const durationMs = event.endDate ? event.endDate.getTime() - event.startDate.getTime() : null;
+    const newStart = new Date(occurrenceStart.getTime() + shiftMs);
+    const newEnd = endDate !== undefined
+      ? (endDate ? new Date(endDate) : null)
+      : (durationMs !== null ? new Date(newStart.getTime() + durationMs) : null);
+    // Changes to later single occurrences only still line up if the times did not move
+    const laterExceptions = shiftMs === 0
+      ? event.exceptions.filter((item) => item.originalStartDate >= occurrenceStart)
+      : [];
+
+    if (occurrenceStart.getTime() === event.startDate.getTime()) {
+      // From the first occurrence on is the whole series
+      event.set({ ...changes, startDate: newStart, endDate: newEnd, exceptions: laterExceptions });
+      await event.save();
+      console.log(`📅 Event series ${eventId} updated`);
+      res.status(200).json({ status: 'success', event });
+      return;
+    }
+
+    // Guests, proposals, minutes and the iCalendar UID stay with the occurrences already held (guest invites
+    // point at this event's guest entries), and RSVPs were given for the old series, so attendees answer again
+    const {
+      _id, createdAt, updatedAt, exceptions, messageId, icsUid, proposals, minutes, guests, ...seriesFields
+    } = event.toObject();
+    const followingEvent = new Event({
+      ...seriesFields,
+      ...changes,
+      attendees: seriesFields.attendees.map(({ respondedAt, waitlistedAt, ...attendee }) => ({ ...attendee, status: 'pending' })),
+      startDate: newStart,
+      endDate: newEnd,
+      exceptions: laterExceptions,
+      seriesId: event.seriesId || String(event._id),
+      reminderSent: false,
+    });
+    await followingEvent.save();
+
+    event.recurrence!.endDate = new Date(occurrenceStart.getTime() - 1);
+    event.markModified('recurrence');
+    event.exceptions = event.exceptions.filter((item) => item.originalStartDate < occurrenceStart);
+    if (!event.seriesId) event.seriesId = String(event._id);
+    await event.save();
+
+    console.log(`📅 Event series ${eventId} split at ${occurrenceStart.toISOString()} into ${followingEvent._id}`);
+    res.status(200).json({ status: 'success', event, followingEvent });
+  } catch (error) {
+    console.error('Error updating event occurrence:', error);
+    res.status(500).json({ error: 'Failed to update event occurrence' });
+  }
+});
+
+/**
+ * DELETE /event/:eventId/occurrences/:occurrenceStart?scope=this|following
+ * Cancel one occurrence of a recurring event, or end the series before it
+ */
+router.delete('/:eventId/occurrences/:occurrenceStart', async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req.params;
+    const occurrenceStart = new Date(req.params.occurrenceStart);
+    const scope = (req.query.scope as string) || 'this';
+
+    if (!['this', 'following'].includes(scope)) {
+      res.status(400).json({ error: "scope must be 'this' or 'following'" });
+      return;
+    }
+    if (isNaN(occurrenceStart.getTime())) {
+      res.status(400).json({ error: 'Invalid occurrence start date' });
+      return;
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    if (!isRecurringEvent(event) || !isOccurrenceStart(event, occurrenceStart)) {
+      res.status(404).json({ error: 'Occurrence not found' });
+      return;
+    }
+
+    if (scope === 'this') {
+      event.exceptions = [
+        ...event.exceptions.filter((item) => item.originalStartDate.getTime() !== occurrenceStart.getTime()),
+        { originalStartDate: occurrenceStart, cancelled: true },
+      ];
+    } else if (occurrenceStart.getTime() === event.startDate.getTime()) {
+      // Nothing is left of the series
+      event.status = 'cancelled';
+    } else {
+      event.recurrence!.endDate = new Date(occurrenceStart.getTime() - 1);
+      event.markModified('recurrence');
+      event.exceptions = event.exceptions.filter((item) => item.originalStartDate < occurrenceStart);
+    }
+    await event.save();
+
+    console.log(`📅 Event ${eventId} occurrence ${occurrenceStart.toISOString()} cancelled (${scope})`);
+
+    res.status(200).json({
+      status: 'success',
+      event
+    });
+  } catch (error) {
+    console.error('Error cancelling event occurrence:', error);
+    res.status(500).json({ error: 'Failed to cancel event occurrence' });
+  }
+});
+
+/**
+ * GET /event/:eventId/reminders - Reminder offsets and channel per recipient, and which reminders were delivered
+ */
+router.get('/:eventId/reminders', async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req.params;
+
+    const event = await Event.findById(eventId).lean();
+    if (!event) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+
+    const userIds = getReminderRecipients(event);
+    const users = await User.find({ userId: { $in: userIds } }).select('userId eventReminderChannel').lean();
+    const defaultChannels = new Map(users.map((user: any) => [user.userId, user.eventReminderChannel]));
+
+    const deliveries = await EventReminderDelivery.find({ eventId })
+      .select('occurrenceStart userId offsetMinutes channel status sentAt error')
+      .sort({ occurrenceStart: -1, offsetMinutes: -1 })
+      .limit(500)
+      .lean();
+
+    res.status(200).json({
+      status: 'success',
+      reminders: getEventReminderOffsets(event),
+      recipients: userIds.map((userId) => ({
+        userId,
+        reminders: getUserReminderOffsets(event, userId),
+        custom: Array.isArray(event.attendees.find((attendee) => attendee.userId === userId)?.reminders),
+        channel: getReminderChannel(event, userId, defaultChannels.get(userId)),
+      })),
+      deliveries
+    });
+  } catch (error) {
+    console.error('Error fetching event reminders:', error);
+    res.status(500).json({ error: 'Failed to fetch event reminders' });
+  }
+});
+
+/**
+ * PUT /event/:eventId/attendees/:userId/reminders - An attendee's own reminders for this event
+ * Body: { reminders: number[] | null, channel?: 'push' | 'kai' | null } (null goes back to the event's / user's default)
+ */
+router.put('/:eventId/attendees/:userId/reminders', async (req: Request, res: Response) => {
+  try {
+    const { eventId, userId } = req.params;
+    const { reminders, channel } = req.body;
+
+    const requesterId = req.body.requesterId || getStreamUserId(req);
+    if (requesterId && normalizeUserId(requesterId) !== normalizeUserId(userId)) {
+      res.status(403).json({ error: 'Attendees can only change their own reminders' });
+      return;
+    }
+
+    if (channel !== undefined && channel !== null && !['push', 'kai'].includes(channel)) {
+      res.status(400).json({ error: "channel must be 'push' or 'kai'" });
+      return;
+    }
+
+    let offsets: number[] | undefined;
+    if (reminders !== undefined && reminders !== null) {
+      const parsed = parseReminderOffsets(reminders);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+      offsets = parsed.offsets;
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+
+    const normalizedUserId = normalizeUserId(userId);
+    const attendee = event.attendees.find(a => a.userId === userId || normalizeUserId(a.userId) === normalizedUserId);
+    if (!attendee) {
+      res.status(403).json({ error: 'User is not an attendee of this event' });
+      return;
+    }
+
+    if (reminders !== undefined) attendee.reminders = offsets;
+    if (channel !== undefined) attendee.reminderChannel = channel || undefined;
+    event.markModified('attendees');
+    await event.save();
+
+    res.status(200).json({
+      status: 'success',
+      reminders: getUserReminderOffsets(event, attendee.userId),
+      custom: Array.isArray(attendee.reminders),
+      channel: attendee.reminderChannel || null
+    });
+  } catch (error) {
+    console.error('Error updating attendee reminders:', error);
+    res.status(500).json({ error: 'Failed to update attendee reminders' });
+  }
+});
+
 // PATCH /event/:eventId/rsvp - RSVP to event
 router.patch('/:eventId/rsvp', async (req: Request, res: Response) => {
   try {
     const { eventId } = req.params;
-    const { userId, response: rsvpResponse, userName } = req.body;
+    const { userId, response: rsvpResponse, userName, proposedStartDate, proposedEndDate, comment } = req.body;
 
     if (!eventId || !userId || !rsvpResponse) {
       res.status(400).json({ error: 'Missing required fields: eventId, userId, response' });
@@ -407,12 +1030,32 @@ router.patch('/:eventId/rsvp', async (req: Request, res: Response) => {
       return;
     }
 
+    const proposedStart = proposedStartDate ? new Date(proposedStartDate) : null;
+    const proposedEnd = proposedEndDate ? new Date(proposedEndDate) : null;
+    if (proposedStart && isNaN(proposedStart.getTime())) {
+      res.status(400).json({ error: 'Invalid proposedStartDate' });
+      return;
+    }
+    if (!proposedStart && proposedEnd) {
+      res.status(400).json({ error: 'proposedEndDate requires proposedStartDate' });
+      return;
+    }
+    if (proposedStart && proposedEnd && (isNaN(proposedEnd.getTime()) || proposedEnd < proposedStart)) {
+      res.status(400).json({ error: 'proposedEndDate must be a valid date after proposedStartDate' });
+      return;
+    }
+
     const event = await Event.findById(eventId);
     if (!event) {
       res.status(404).json({ error: 'Event not found' });
       return;
     }
 
+    if (proposedStart && isRecurringEvent(event)) {
+      res.status(400).json({ error: 'New times can only be proposed for single events' });
+      return;
+    }
+
     // Find the attendee in the array (use normalized IDs for flexible matching)
     const normalizedUserId = normalizeUserId(userId);
     const attendeeIndex = event.attendees.findIndex(a =>
@@ -426,12 +1069,35 @@ router.patch('/:eventId/rsvp', async (req: Request, res: Response) => {
     }
     console.log(`✅ RSVP: Found attendee at index ${attendeeIndex} for user ${userId}`);
 
-    // Update the attendee's RSVP status
-    event.attendees[attendeeIndex].status = rsvpResponse as 'yes' | 'no' | 'maybe';
-    event.attendees[attendeeIndex].respondedAt = new Date();
+    // Update the attendee's RSVP status. A "yes" to a full event joins the waitlist.
+    const { status: rsvpStatus, promoted } = applyRsvp(event, event.attendees[attendeeIndex], rsvpResponse as 'yes' | 'no' | 'maybe');
+
+    // A proposal replaces the attendee's earlier open one. Without an end, it keeps the event's length.
+    const attendeeId = event.attendees[attendeeIndex].userId;
+    let proposal = null;
+    if (proposedStart) {
+      event.proposals
+        .filter((item) => item.userId === attendeeId && item.status === 'open')
+        .forEach((item) => {
+          item.status = 'superseded';
+          item.decidedAt = new Date();
+        });
+      const duration = event.endDate ? event.endDate.getTime() - event.startDate.getTime() : null;
+      event.proposals.push({
+        userId: attendeeId,
+        startDate: proposedStart,
+        endDate: proposedEnd || (duration !== null ? new Date(proposedStart.getTime() + duration) : null),
+        comment,
+        status: 'open',
+        createdAt: new Date(),
+      } as any);
+      proposal = event.proposals[event.proposals.length - 1];
+    }
 
     await event.save();
-    console.log(`📅 RSVP for event ${eventId}: User ${userId} responded ${rsvpResponse}`);
+    console.log(`📅 RSVP for event ${eventId}: User ${userId} responded ${rsvpResponse}${rsvpStatus === 'waitlisted' ? ' (waitlisted)' : ''}${proposal ? ` and proposed ${proposal.startDate.toISOString()}` : ''}`);
+
+    await notifyPromoted(event, promoted);
 
     // Notify the organizer about the RSVP response
     try {
@@ -444,27 +1110,42 @@ router.patch('/:eventId/rsvp', async (req: Request, res: Response) => {
         eventTitle: event.title,
         responderId: userId,
         responderName: responderDisplayName,
-        response: rsvpResponse
+        response: rsvpStatus
       });
       console.log(`📬 Notified organizer ${event.organizer} about RSVP from ${responderDisplayName}`);
+
+      if (proposal) {
+        const organizer = await User.findOne({ userId: event.organizer }).select('timezone').lean();
+        const organizerTimezone = (organizer as any)?.timezone || event.timezone || 'UTC';
+        await getStreamFeedsService.createNotification(event.organizer, 'event_time_proposed', eventId, {
+          eventId: eventId,
+          eventTitle: event.title,
+          responderId: userId,
+          responderName: responderDisplayName,
+          proposalId: String(proposal._id),
+          proposedStartDate: proposal.startDate.toISOString(),
+          proposedEndDate: proposal.endDate ? proposal.endDate.toISOString() : null,
+          proposedTimeFormatted: moment.tz(proposal.startDate, organizerTimezone).format('ddd, MMM D, h:mm A z'),
+          comment: proposal.comment,
+          openProposals: event.proposals.filter((item) => item.status === 'open').length
+        });
+      }
     } catch (notifError) {
       console.error('Failed to notify organizer:', notifError);
     }
 
     // Calculate RSVP counts
-    const rsvpCounts = {
-      yes: event.attendees.filter(a => a.status === 'yes').length,
-      no: event.attendees.filter(a => a.status === 'no').length,
-      maybe: event.attendees.filter(a => a.status === 'maybe').length,
-      pending: event.attendees.filter(a => a.status === 'pending').length,
-    };
+    const rsvpCounts = getRsvpCounts(event.attendees);
 
     res.status(200).json({
       status: 'success',
       eventId,
       userId,
       rsvpResponse,
+      rsvpStatus,
+      waitlistPosition: getWaitlistPosition(event, { userId: attendeeId }),
       rsvpCounts,
+      ...(proposal && { proposal: formatProposal(proposal) }),
       message: 'RSVP recorded successfully'
     });
   } catch (error) {
@@ -473,6 +1154,386 @@ router.patch('/:eventId/rsvp', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /event/:eventId/proposals/:proposalId/accept - The organizer moves the event to a proposed time
+ * Everyone's RSVP, guests' included, goes back to pending, since they answered for the old time, and attendees are notified.
+ */
+router.post('/:eventId/proposals/:proposalId/accept', async (req: Request, res: Response) => {
+  try {
+    const { eventId, proposalId } = req.params;
+    const userId = getStreamUserId(req);
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    if (!userId || normalizeUserId(userId) !== normalizeUserId(event.organizer)) {
+      res.status(403).json({ error: 'Only the organizer can accept a proposed time' });
+      return;
+    }
+
+    const proposal = event.proposals.find((item) => String(item._id) === proposalId);
+    if (!proposal) {
+      res.status(404).json({ error: 'Proposal not found' });
+      return;
+    }
+    if (proposal.status !== 'open') {
+      res.status(400).json({ error: `Proposal is already ${proposal.status}` });
+      return;
+    }
+
+    const previousStartDate = event.startDate;
+    const now = new Date();
+    event.startDate = proposal.startDate;
+    event.endDate = proposal.endDate || undefined;
+    event.reminderSent = false;
+    [...event.attendees, ...event.guests].forEach((invitee) => {
+      invitee.status = 'pending';
+      invitee.respondedAt = undefined;
+      invitee.waitlistedAt = undefined;
+    });
+    event.proposals.forEach((item) => {
+      if (item.status !== 'open') return;
+      item.status = String(item._id) === proposalId ? 'accepted' : 'superseded';
+      item.decidedAt = now;
+    });
+    await event.save();
+
+    console.log(`📅 Event ${eventId} moved from ${previousStartDate.toISOString()} to proposed time ${proposal.startDate.toISOString()}`);
+
+    // Ask everyone to respond again for the new time
+    for (const attendee of event.attendees) {
+      if (attendee.userId === event.organizer) continue;
+      try {
+        await getStreamFeedsService.createNotification(attendee.userId, 'event_rescheduled', eventId, {
+          eventId: eventId,
+          eventTitle: event.title,
+          startDate: event.startDate.toISOString(),
+          previousStartDate: previousStartDate.toISOString(),
+          proposedBy: proposal.userId,
+          organizer: event.organizer
+        });
+      } catch (notifError) {
+        console.error(`Failed to notify ${attendee.userId} about new event time:`, notifError);
+      }
+    }
+
+    const conflicts = await findConflictsAfterSave(event, userId);
+
+    res.status(200).json({
+      status: 'success',
+      event,
+      rsvpSummary: buildRsvpSummary(event),
+      conflicts
+    });
+  } catch (error) {
+    console.error('Error accepting proposed time:', error);
+    res.status(500).json({ error: 'Failed to accept proposed time' });
+  }
+});
+
+// POST /event/:eventId/proposals/:proposalId/decline - The organizer keeps the current time
+router.post('/:eventId/proposals/:proposalId/decline', async (req: Request, res: Response) => {
+  try {
+    const { eventId, proposalId } = req.params;
+    const userId = getStreamUserId(req);
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    if (!userId || normalizeUserId(userId) !== normalizeUserId(event.organizer)) {
+      res.status(403).json({ error: 'Only the organizer can decline a proposed time' });
+      return;
+    }
+
+    const proposal = event.proposals.find((item) => String(item._id) === proposalId);
+    if (!proposal) {
+      res.status(404).json({ error: 'Proposal not found' });
+      return;
+    }
+    if (proposal.status !== 'open') {
+      res.status(400).json({ error: `Proposal is already ${proposal.status}` });
+      return;
+    }
+
+    proposal.status = 'declined';
+    proposal.decidedAt = new Date();
+    await event.save();
+
+    res.status(200).json({
+      status: 'success',
+      proposal: formatProposal(proposal),
+      rsvpSummary: buildRsvpSummary(event)
+    });
+  } catch (error) {
+    console.error('Error declining proposed time:', error);
+    res.status(500).json({ error: 'Failed to decline proposed time' });
+  }
+});
+
+/**
+ * POST /event/:eventId/guests - Invite people who are not users (yet) by phone number
+ * Body: { guests: [{ phoneNumber, name? }] } or { phoneNumbers: string[] }
+ * Each guest gets an RSVP link to share with them. When they join after opening the link (its token is sent
+ * to /join as inviteTokens) they become an attendee, keeping their RSVP.
+ */
+router.post('/:eventId/guests', async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req.params;
+    const userId = getStreamUserId(req);
+    const entries: any[] = Array.isArray(req.body.guests)
+      ? req.body.guests
+      : (Array.isArray(req.body.phoneNumbers) ? req.body.phoneNumbers.map((phoneNumber: string) => ({ phoneNumber })) : []);
+
+    if (entries.length === 0) {
+      res.status(400).json({ error: 'Provide guests ([{ phoneNumber, name }]) or phoneNumbers' });
+      return;
+    }
+    if (entries.length > MAX_GUESTS_PER_REQUEST) {
+      res.status(400).json({ error: `At most ${MAX_GUESTS_PER_REQUEST} guests can be invited at once` });
+      return;
+    }
+
+    const guests: Array<{ phoneNumber: string; name?: string }> = [];
+    for (const entry of entries) {
+      const phoneNumber = normalizePhoneNumber(entry?.phoneNumber);
+      if (!phoneNumber) {
+        res.status(400).json({ error: `Invalid phone number: ${entry?.phoneNumber}` });
+        return;
+      }
+      if (!guests.some((guest) => guest.phoneNumber === phoneNumber)) {
+        guests.push({ phoneNumber, name: typeof entry.name === 'string' ? entry.name.trim() || undefined : undefined });
+      }
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    if (!userId || normalizeUserId(userId) !== normalizeUserId(event.organizer)) {
+      res.status(403).json({ error: 'Only the organizer can invite guests' });
+      return;
+    }
+
+    const invited = await inviteGuests(event, guests, userId);
+    console.log(`📅 Invited ${invited.length} guest(s) to event ${eventId}`);
+
+    res.status(201).json({
+      status: 'success',
+      guests: invited.map(({ guest, token }) => ({
+        guestId: String(guest._id),
+        phoneNumber: guest.phoneNumber,
+        name: guest.name || null,
+        status: guest.status,
+        rsvpUrl: buildInviteUrl(req, token)
+      }))
+    });
+  } catch (error) {
+    console.error('Error inviting guests:', error);
+    res.status(500).json({ error: 'Failed to invite guests' });
+  }
+});
+
+// GET /event/:eventId/guests - Guests with their RSVP links (organizer only)
+router.get('/:eventId/guests', async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req.params;
+    const userId = getStreamUserId(req);
+
+    const event = await Event.findById(eventId).select('organizer guests').lean();
+    if (!event) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    if (!userId || normalizeUserId(userId) !== normalizeUserId(event.organizer)) {
+      res.status(403).json({ error: 'Only the organizer can see guest links' });
+      return;
+    }
+
+    const invites = await EventInvite.find({ eventId }).select('guestId token').lean();
+    const tokens = new Map(invites.map((invite) => [invite.guestId, invite.token]));
+
+    res.status(200).json({
+      status: 'success',
+      guests: event.guests.map((guest) => {
+        const token = tokens.get(String(guest._id));
+        return {
+          guestId: String(guest._id),
+          phoneNumber: guest.phoneNumber,
+          name: guest.name || null,
+          status: guest.status,
+          respondedAt: guest.respondedAt || null,
+          userId: guest.userId || null,
+          rsvpUrl: token ? buildInviteUrl(req, token) : null
+        };
+      })
+    });
+  } catch (error) {
+    console.error('Error fetching guests:', error);
+    res.status(500).json({ error: 'Failed to fetch guests' });
+  }
+});
+
+// DELETE /event/:eventId/guests/:guestId - Uninvite a guest; their link stops working
+router.delete('/:eventId/guests/:guestId', async (req: Request, res: Response) => {
+  try {
+    const { eventId, guestId } = req.params;
+    const userId = getStreamUserId(req);
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    if (!userId || normalizeUserId(userId) !== normalizeUserId(event.organizer)) {
+      res.status(403).json({ error: 'Only the organizer can remove guests' });
+      return;
+    }
+
+    const promoted = await removeGuest(event, guestId);
+    if (!promoted) {
+      res.status(404).json({ error: 'Guest not found' });
+      return;
+    }
+    await notifyPromoted(event, promoted);
+
+    res.status(200).json({
+      status: 'success',
+      rsvpSummary: buildRsvpSummary(event)
+    });
+  } catch (error) {
+    console.error('Error removing guest:', error);
+    res.status(500).json({ error: 'Failed to remove guest' });
+  }
+});
+
+// Whether a user organizes or attends an event, and so can read and take its minutes
+const isEventParticipant = (event: Pick<IEvent, 'organizer' | 'attendees'>, userId: string): boolean =>
+  normalizeUserId(userId) === normalizeUserId(event.organizer) ||
+  event.attendees.some((attendee) => normalizeUserId(attendee.userId) === normalizeUserId(userId));
+
+// POST /event/:eventId/minutes - Take minutes from notes and/or a recording (audioFile upload or audioUrl).
+// Replaces earlier minutes, keeping the action items that already have a task. New action items become tasks
+// for the attendees they name unless createTasks is false; when earlier minutes already created tasks,
+// only if createTasks is true, since the new items are often the old ones reworded.
+router.post('/:eventId/minutes', minutesUpload.single('audioFile'), async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req.params;
+    const userId = getStreamUserId(req);
+    const { notes, audioUrl, language } = req.body;
+
+    if (!req.file && !audioUrl && !(typeof notes === 'string' && notes.trim())) {
+      res.status(400).json({ error: 'Provide notes, an audioFile or an audioUrl' });
+      return;
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    if (!userId || !isEventParticipant(event, userId)) {
+      res.status(403).json({ error: 'Only the organizer and attendees can take minutes' });
+      return;
+    }
+
+    const hadTasks = !!event.minutes?.actionItems.some((item) => item.taskId);
+    const createTasks = req.body.createTasks === undefined
+      ? !hadTasks
+      : req.body.createTasks !== false && req.body.createTasks !== 'false';
+
+    const minutes = await generateEventMinutes(event, {
+      notes: typeof notes === 'string' ? notes : undefined,
+      audio: req.file && { buffer: req.file.buffer, fileName: req.file.originalname, mimeType: req.file.mimetype },
+      audioUrl: req.file ? undefined : audioUrl,
+      language,
+    }, userId);
+    const tasks = createTasks ? await createActionItemTasks(event, minutes.actionItems, userId) : [];
+
+    event.minutes = minutes;
+    await event.save();
+    console.log(`📝 Minutes taken for event ${eventId} with ${minutes.actionItems.length} action item(s), ${tasks.length} task(s) created`);
+
+    res.status(201).json({
+      status: 'success',
+      minutes: event.minutes,
+      createdTaskIds: tasks
+    });
+  } catch (error) {
+    console.error('Error taking event minutes:', error);
+    res.status(500).json({ error: 'Failed to take event minutes' });
+  }
+});
+
+// GET /event/:eventId/minutes - Minutes of an event (organizer and attendees)
+router.get('/:eventId/minutes', async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req.params;
+    const userId = getStreamUserId(req);
+
+    const event = await Event.findById(eventId).select('organizer attendees minutes').lean();
+    if (!event) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    if (!userId || !isEventParticipant(event, userId)) {
+      res.status(403).json({ error: 'Only the organizer and attendees can see the minutes' });
+      return;
+    }
+    if (!event.minutes) {
+      res.status(404).json({ error: 'No minutes for this event' });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      minutes: event.minutes
+    });
+  } catch (error) {
+    console.error('Error fetching event minutes:', error);
+    res.status(500).json({ error: 'Failed to fetch event minutes' });
+  }
+});
+
+// POST /event/:eventId/minutes/tasks - Create tasks for action items that have none yet
+router.post('/:eventId/minutes/tasks', async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req.params;
+    const userId = getStreamUserId(req);
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    if (!userId || !isEventParticipant(event, userId)) {
+      res.status(403).json({ error: 'Only the organizer and attendees can create tasks from the minutes' });
+      return;
+    }
+    if (!event.minutes) {
+      res.status(404).json({ error: 'No minutes for this event' });
+      return;
+    }
+
+    const tasks = await createActionItemTasks(event, event.minutes.actionItems, userId);
+    event.markModified('minutes');
+    await event.save();
+
+    res.status(201).json({
+      status: 'success',
+      minutes: event.minutes,
+      createdTaskIds: tasks
+    });
+  } catch (error) {
+    console.error('Error creating tasks from event minutes:', error);
+    res.status(500).json({ error: 'Failed to create tasks from event minutes' });
+  }
+});
+
 // PATCH /event/:eventId/cancel - Cancel event
 router.patch('/:eventId/cancel', async (req: Request, res: Response) => {
   try {
@@ -549,12 +1610,13 @@ router.get('/count/upcoming', async (req: Request, res: Response) => {
 
     const now = new Date();
 
+    // A recurring series counts once while it has occurrences ahead
     const count = await Event.countDocuments({
       $or: [
         { 'attendees.userId': { $in: [userId as string] } },
         { organizer: userId as string }
       ],
-      startDate: { $gte: now },
+      $and: [activeAfterQuery(now)],
       status: 'scheduled'
     });
 
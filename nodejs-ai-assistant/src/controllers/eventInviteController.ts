@@ -0,0 +1,111 @@
+import express, { Request, Response, Router } from 'express';
+import { getStreamFeedsService } from '../utils/getstreamFeedsService';
+import { applyRsvp, getSeatsLeft, getWaitlistPosition, notifyPromoted } from '../utils/eventCapacity';
+import { findInvite } from '../utils/eventGuests';
+
+const router: Router = express.Router();
+
+/**
+ * GET /event-invite/:token
+ * The event a guest was invited to by phone number, and their RSVP.
+ * Public: guests may not have an account yet, so the secret in the link identifies them.
+ */
+router.get('/:token', async (req: Request, res: Response) => {
+  try {
+    const found = await findInvite(req.params.token);
+    if (!found || found.event.status === 'cancelled') {
+      res.status(404).json({ error: 'Invitation not found' });
+      return;
+    }
+
+    const { event, guest } = found;
+    const attendee = guest.userId ? event.attendees.find((item) => item.userId === guest.userId) : undefined;
+    const organizerName = await getStreamFeedsService.getUserName(event.organizer);
+
+    res.status(200).json({
+      status: 'success',
+      event: {
+        id: String(event._id),
+        title: event.title,
+        description: event.description,
+        startDate: event.startDate,
+        endDate: event.endDate,
+        allDay: event.allDay,
+        location: event.location,
+        timezone: event.timezone,
+        organizerName,
+        capacity: event.capacity || null,
+        seatsLeft: getSeatsLeft(event)
+      },
+      guest: {
+        name: guest.name || null,
+        status: attendee?.status || guest.status,
+        waitlistPosition: getWaitlistPosition(event, guest.userId ? { userId: guest.userId } : { guestId: String(guest._id) }),
+        joined: !!guest.userId
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching event invitation:', error);
+    res.status(500).json({ error: 'Failed to fetch event invitation' });
+  }
+});
+
+/**
+ * POST /event-invite/:token/rsvp
+ * Body: { response: 'yes' | 'no' | 'maybe', name? }
+ * Guests who have since joined answer as the attendee they became.
+ */
+router.post('/:token/rsvp', async (req: Request, res: Response) => {
+  try {
+    const { response: rsvpResponse, name } = req.body;
+
+    if (!['yes', 'no', 'maybe'].includes(rsvpResponse)) {
+      res.status(400).json({ error: 'Invalid RSVP response. Must be: yes, no, or maybe' });
+      return;
+    }
+
+    const found = await findInvite(req.params.token);
+    if (!found || found.event.status === 'cancelled') {
+      res.status(404).json({ error: 'Invitation not found' });
+      return;
+    }
+
+    const { event, guest } = found;
+    const attendee = guest.userId ? event.attendees.find((item) => item.userId === guest.userId) : undefined;
+    const { status: rsvpStatus, promoted } = applyRsvp(event, attendee || guest, rsvpResponse);
+    if (typeof name === 'string' && name.trim()) {
+      guest.name = name.trim();
+    }
+    await event.save();
+
+    const eventId = String(event._id);
+    console.log(`📅 Guest RSVP for event ${eventId}: ${guest.phoneNumber} responded ${rsvpResponse} (${rsvpStatus})`);
+
+    await notifyPromoted(event, promoted);
+
+    try {
+      await getStreamFeedsService.createNotification(event.organizer, 'event_rsvp', eventId, {
+        eventId,
+        eventTitle: event.title,
+        responderId: guest.userId,
+        responderName: guest.name || guest.phoneNumber,
+        response: rsvpStatus,
+        guest: true
+      });
+    } catch (notifError) {
+      console.error('Failed to notify organizer:', notifError);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      rsvpStatus,
+      waitlistPosition: getWaitlistPosition(event, guest.userId ? { userId: guest.userId } : { guestId: String(guest._id) }),
+      seatsLeft: getSeatsLeft(event)
+    });
+  } catch (error) {
+    console.error('Error recording guest RSVP:', error);
+    res.status(500).json({ error: 'Failed to record RSVP' });
+  }
+});
+
+export default router;
@@ -0,0 +1,77 @@
+jest.mock('../serverClient', () => ({ serverClient: {} }));
+jest.mock('../utils/getstreamFeedsService', () => ({ getStreamFeedsService: {} }));
+jest.mock('../utils/channelRoles', () => ({
+  ...jest.requireActual('../utils/channelRoles'),
+  isChannelAdmin: jest.fn(async (channelId: string, userId: string) => userId === 'owner'),
+}));
+jest.mock('../utils/geofence', () => ({
+  ...jest.requireActual('../utils/geofence'),
+  processLocationPing: jest.fn(async () => []),
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { GeofenceState } from '../models/GeofenceState';
+import { ProjectDetails } from '../models/Project';
+import { processLocationPing } from '../utils/geofence';
+import router from './geofenceController';
+
+const app = express();
+app.use(express.json());
+app.use('/geofence', router);
+
+const project = { channelId: 'site-1', location: { lat: 52.37, lng: 4.89 }, geofenceRadius: 100, save: jest.fn() };
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('POST /geofence/ping', () => {
+  it('requires an authenticated user', async () => {
+    const response = await request(app).post('/geofence/ping').send({ userId: 'worker', lat: 52.37, lng: 4.89 });
+
+    expect(response.status).toBe(401);
+    expect(processLocationPing).not.toHaveBeenCalled();
+  });
+
+  it('records the ping for the authenticated user, not the body userId', async () => {
+    const response = await request(app)
+      .post('/geofence/ping')
+      .set('x-stream-user-id', 'worker')
+      .send({ userId: 'owner', lat: 52.37, lng: 4.89, accuracy: 12 });
+
+    expect(response.status).toBe(200);
+    expect(processLocationPing).toHaveBeenCalledWith('worker', expect.objectContaining({ lat: 52.37, lng: 4.89, accuracy: 12 }));
+  });
+
+  it('rejects invalid coordinates', async () => {
+    const response = await request(app).post('/geofence/ping').set('x-stream-user-id', 'worker').send({ lat: 91, lng: 4.89 });
+
+    expect(response.status).toBe(400);
+    expect(processLocationPing).not.toHaveBeenCalled();
+  });
+});
+
+describe('/geofence/projects/:projectId', () => {
+  it('shows the authenticated user\'s presence, not the query userId\'s', async () => {
+    jest.spyOn(ProjectDetails, 'findOne').mockResolvedValue(project as any);
+    const findState = jest.spyOn(GeofenceState, 'findOne').mockReturnValue({ lean: async () => null } as any);
+
+    const response = await request(app).get('/geofence/projects/site-1').set('x-stream-user-id', 'worker').query({ userId: 'owner' });
+
+    expect(response.status).toBe(200);
+    expect(findState).toHaveBeenCalledWith({ userId: 'worker', projectId: 'site-1' });
+  });
+
+  it('lets only the authenticated channel owner or moderators change the geofence', async () => {
+    jest.spyOn(ProjectDetails, 'findOne').mockResolvedValue(project as any);
+
+    const response = await request(app)
+      .put('/geofence/projects/site-1')
+      .set('x-stream-user-id', 'worker')
+      .send({ userId: 'owner', radius: 250 });
+
+    expect(response.status).toBe(403);
+    expect(project.save).not.toHaveBeenCalled();
+  });
+});
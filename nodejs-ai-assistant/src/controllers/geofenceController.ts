@@ -0,0 +1,139 @@
+import express, { Request, Response, Router } from 'express';
+import { getStreamUserId } from '../middleware/auth';
+import { GeofenceState } from '../models/GeofenceState';
+import { MAX_GEOFENCE_RADIUS } from '../models/Project';
+import { isChannelAdmin } from '../utils/channelRoles';
+import { formatGeofence, processLocationPing, validateGeofencePolygon } from '../utils/geofence';
+import { findProjectDetails } from '../utils/projectTimezone';
+
+const router: Router = express.Router();
+
+/**
+ * POST /geofence/ping
+ * Report the user's location. It is checked against the geofences of their projects on the server;
+ * entering or leaving a site is logged to attendance and prompts the user to check in or out.
+ *
+ * Body: { lat: number, lng: number, accuracy?: number (meters), timestamp?: string }
+ */
+router.post('/ping', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = getStreamUserId(req);
+    const lat = Number(req.body.lat);
+    const lng = Number(req.body.lng);
+    const accuracy = req.body.accuracy !== undefined && req.body.accuracy !== null ? Number(req.body.accuracy) : undefined;
+    const timestamp = req.body.timestamp ? new Date(req.body.timestamp) : new Date();
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    if (!Number.isFinite(lat) || Math.abs(lat) > 90 || !Number.isFinite(lng) || Math.abs(lng) > 180) {
+      res.status(400).json({ error: 'lat and lng must be valid coordinates' });
+      return;
+    }
+    if (accuracy !== undefined && (!Number.isFinite(accuracy) || accuracy < 0)) {
+      res.status(400).json({ error: 'accuracy must be a non-negative number of meters' });
+      return;
+    }
+    if (isNaN(timestamp.getTime()) || timestamp.getTime() > Date.now() + 60 * 1000) {
+      res.status(400).json({ error: 'Invalid timestamp' });
+      return;
+    }
+
+    const projects = await processLocationPing(userId, { lat, lng, accuracy, timestamp });
+
+    res.status(200).json({
+      status: 'success',
+      projects
+    });
+  } catch (error) {
+    console.error('Error processing location ping:', error);
+    res.status(500).json({ error: 'Failed to process location ping' });
+  }
+});
+
+/**
+ * GET /geofence/projects/:projectId
+ * Geofence of a project, and whether the requester is currently inside it
+ */
+router.get('/projects/:projectId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = getStreamUserId(req);
+
+    const project = await findProjectDetails(req.params.projectId);
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    const state = userId
+      ? await GeofenceState.findOne({ userId, projectId: project.channelId }).lean()
+      : null;
+
+    res.status(200).json({
+      status: 'success',
+      geofence: formatGeofence(project),
+      presence: state
+        ? { state: state.state, lastPingAt: state.lastPingAt, lastTransitionAt: state.lastTransitionAt || null }
+        : null
+    });
+  } catch (error) {
+    console.error('Error fetching geofence:', error);
+    res.status(500).json({ error: 'Failed to fetch geofence' });
+  }
+});
+
+/**
+ * PUT /geofence/projects/:projectId
+ * Set a project's geofence (channel owner or moderators)
+ *
+ * Body:
+ * - radius?: number - meters around the project location
+ * - polygon?: GeoJSON Polygon | null - site boundary, used instead of the radius; null removes it
+ */
+router.put('/projects/:projectId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { radius, polygon } = req.body;
+    const userId = getStreamUserId(req);
+
+    if (radius === undefined && polygon === undefined) {
+      res.status(400).json({ error: 'Provide radius and/or polygon' });
+      return;
+    }
+    if (radius !== undefined && (!Number.isFinite(radius) || radius < 1 || radius > MAX_GEOFENCE_RADIUS)) {
+      res.status(400).json({ error: `radius must be between 1 and ${MAX_GEOFENCE_RADIUS} meters` });
+      return;
+    }
+    if (polygon !== undefined && polygon !== null) {
+      const polygonError = validateGeofencePolygon(polygon);
+      if (polygonError) {
+        res.status(400).json({ error: polygonError });
+        return;
+      }
+    }
+
+    const project = await findProjectDetails(req.params.projectId);
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    if (!userId || !(await isChannelAdmin(project.channelId, userId))) {
+      res.status(403).json({ error: 'Only the channel owner or moderators can change the geofence' });
+      return;
+    }
+
+    if (radius !== undefined) project.geofenceRadius = radius;
+    if (polygon !== undefined) project.geofence = polygon ? { type: 'Polygon', coordinates: polygon.coordinates } : undefined;
+    await project.save();
+
+    res.status(200).json({
+      status: 'success',
+      geofence: formatGeofence(project)
+    });
+  } catch (error) {
+    console.error('Error updating geofence:', error);
+    res.status(500).json({ error: 'Failed to update geofence' });
+  }
+});
+
+export default router;
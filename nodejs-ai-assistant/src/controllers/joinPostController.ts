@@ -4,12 +4,13 @@ import { UserJoinLog } from '../models/UserJoinLog';
 import { DailyEventLog } from '../models/DailyEventLog';
 import { User } from '../models/User';
 import { createAgent, User as AgentUser } from '../agents/createAgent';
+import { attachEventInvites } from '../utils/eventGuests';
 
 const router: Router = express.Router();
 
 router.post('/', async (req: Request, res: Response): Promise<void> => {
   // Use 'name', 'image', and timezone from req.body
-  const { username, name, image, timezone, timezoneOffset, timezoneAbbreviation } = req.body;
+  const { username, name, image, timezone, timezoneOffset, timezoneAbbreviation, inviteTokens } = req.body;
   if (!username) {
     res.status(400).json({ err: "Username is required" });
     return;
@@ -38,6 +39,19 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
     console.error('Error upserting user:', err);
   }
 
+  // Events the user was invited to as a guest, through the RSVP links they opened
+  try {
+    const eventIds = await attachEventInvites(
+      username,
+      Array.isArray(inviteTokens) ? inviteTokens.filter((token: unknown) => typeof token === 'string') : []
+    );
+    if (eventIds.length > 0) {
+      console.log(`User ${username} added to events they were invited to as a guest: ${eventIds.join(', ')}`);
+    }
+  } catch (err) {
+    console.error('Error attaching event invites:', err);
+  }
+
   // Track unique user join
   try {
     await UserJoinLog.updateOne(
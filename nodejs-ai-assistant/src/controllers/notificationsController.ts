@@ -122,9 +122,12 @@ const getNotificationCategory = (notification: any): string => {
     return 'tasks_projects';
   } else if (verb === 'comment_added' || verb === 'mention' || verb === 'message') {
     return 'chat_messaging';
-  } else if (verb === 'event_created' || verb === 'event_updated' || verb === 'event_reminder') {
+  } else if (verb === 'event_created' || verb === 'event_updated' || verb === 'event_reminder' ||
+      verb === 'event_time_proposed' || verb === 'event_rescheduled' || verb === 'event_waitlist_promoted') {
     return 'calendar_reminder';
-  } else if (verb === 'location_checkin' || verb === 'attendance_marked') {
+  } else if (verb === 'location_checkin' || verb === 'attendance_marked' ||
+      verb === 'timesheet_ready' || verb === 'timesheet_submitted' || verb === 'timesheet_approved' ||
+      verb === 'timesheet_rejected' || verb === 'timesheet_reopened') {
     return 'location_attendance';
   } else {
     return 'activity';
@@ -162,11 +165,23 @@ const getNotificationIcon = (notification: any): string => {
       return 'trash-outline';
     case 'event_created':
     case 'event_reminder':
+    case 'event_rescheduled':
+    case 'event_waitlist_promoted':
       return 'calendar-outline';
+    case 'event_time_proposed':
+      return 'time-outline';
     case 'location_checkin':
       return 'location-outline';
     case 'attendance_marked':
       return 'time-outline';
+    case 'timesheet_ready':
+    case 'timesheet_submitted':
+    case 'timesheet_reopened':
+      return 'document-text-outline';
+    case 'timesheet_approved':
+      return 'checkmark-circle-outline';
+    case 'timesheet_rejected':
+      return 'close-circle-outline';
     default:
       return 'notifications-outline';
   }
@@ -208,10 +223,26 @@ const getNotificationTitle = (notification: any): string => {
       return 'New Event Created';
     case 'event_reminder':
       return 'Event Reminder';
+    case 'event_time_proposed':
+      return 'New Time Proposed';
+    case 'event_rescheduled':
+      return 'Event Time Changed';
+    case 'event_waitlist_promoted':
+      return 'You Got a Seat';
     case 'location_checkin':
       return 'Location Check-in';
     case 'attendance_marked':
       return 'Attendance Marked';
+    case 'timesheet_ready':
+      return 'Timesheet Ready';
+    case 'timesheet_submitted':
+      return 'Timesheet Submitted';
+    case 'timesheet_approved':
+      return 'Timesheet Approved';
+    case 'timesheet_rejected':
+      return 'Timesheet Rejected';
+    case 'timesheet_reopened':
+      return 'Timesheet Reopened';
     case 'system':
       return extra.title || 'System Notification';
     default:
@@ -275,10 +306,26 @@ const getNotificationMessage = (notification: any): string => {
       return `${actor} created a new event: "${extra.eventName || 'Untitled Event'}".`;
     case 'event_reminder':
       return `Reminder: "${extra.eventName || 'Untitled Event'}" starts ${extra.timeRemaining || 'soon'}.`;
+    case 'event_time_proposed':
+      return `${extra.responderName || actor} proposed ${extra.proposedTimeFormatted || 'a new time'} for "${extra.eventTitle || 'your event'}".${extra.comment ? ` "${extra.comment}"` : ''}`;
+    case 'event_rescheduled':
+      return `"${extra.eventTitle || 'An event'}" has a new time. Please RSVP again.`;
+    case 'event_waitlist_promoted':
+      return `A seat opened up for "${extra.eventTitle || 'an event'}". You're off the waitlist and going.`;
     case 'location_checkin':
       return `${actor} checked in at ${extra.locationName || 'a location'}.`;
     case 'attendance_marked':
       return `${actor} marked attendance for ${extra.eventName || 'an event'}.`;
+    case 'timesheet_ready':
+      return `Your timesheet for ${extra.weekLabel || 'last week'} is ready. Review it and submit it for approval.`;
+    case 'timesheet_submitted':
+      return `${extra.userName || actor} submitted their timesheet for ${extra.weekLabel || 'the week'}. Tap to review.`;
+    case 'timesheet_approved':
+      return `Your timesheet for ${extra.weekLabel || 'the week'} was approved.`;
+    case 'timesheet_rejected':
+      return `Your timesheet for ${extra.weekLabel || 'the week'} was sent back${extra.reason ? `: "${extra.reason}"` : ''}. Please correct it and submit again.`;
+    case 'timesheet_reopened':
+      return `Your timesheet for ${extra.weekLabel || 'the week'} was reopened for corrections${extra.reason ? `: "${extra.reason}"` : ''}.`;
     case 'system':
       return extra.message || 'You have a new notification from Convoe.';
     default:
@@ -0,0 +1,78 @@
+jest.mock('../serverClient', () => ({ serverClient: {} }));
+jest.mock('../utils/getstreamFeedsService', () => ({ getStreamFeedsService: {} }));
+jest.mock('../utils/channelRoles', () => ({
+  ...jest.requireActual('../utils/channelRoles'),
+  isChannelAdmin: jest.fn(async (channelId: string, userId: string) => userId === 'owner'),
+}));
+jest.mock('../utils/taskSearch', () => ({
+  ...jest.requireActual('../utils/taskSearch'),
+  getMemberChannelIds: jest.fn(async () => ['site-1']),
+}));
+jest.mock('../utils/payrollExport', () => ({
+  ...jest.requireActual('../utils/payrollExport'),
+  buildPayrollExport: jest.fn(async () => []),
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { ProjectDetails } from '../models/Project';
+import { buildPayrollExport } from '../utils/payrollExport';
+import { getMemberChannelIds } from '../utils/taskSearch';
+import router from './payrollExportController';
+
+const app = express();
+app.use(express.json());
+app.use('/attendance/export', router);
+
+const project = { channelId: 'site-1', projectName: 'Site 1', timezone: 'UTC' };
+const range = { from: '2026-03-02', to: '2026-03-08' };
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('GET /attendance/export', () => {
+  it('requires an authenticated user', async () => {
+    const response = await request(app).get('/attendance/export').query({ ...range, projectId: 'site-1', userId: 'owner' });
+
+    expect(response.status).toBe(401);
+    expect(buildPayrollExport).not.toHaveBeenCalled();
+  });
+
+  it('checks the authenticated user, not a userId in the query', async () => {
+    jest.spyOn(ProjectDetails, 'findOne').mockResolvedValue(project as any);
+
+    const response = await request(app)
+      .get('/attendance/export')
+      .set('x-stream-user-id', 'worker')
+      .query({ ...range, projectId: 'site-1', userId: 'owner' });
+
+    expect(response.status).toBe(403);
+    expect(buildPayrollExport).not.toHaveBeenCalled();
+  });
+
+  it('exports a project for its owner or moderators', async () => {
+    jest.spyOn(ProjectDetails, 'findOne').mockResolvedValue(project as any);
+
+    const response = await request(app)
+      .get('/attendance/export')
+      .set('x-stream-user-id', 'owner')
+      .query({ ...range, projectId: 'site-1' });
+
+    expect(response.status).toBe(200);
+    expect(buildPayrollExport).toHaveBeenCalledWith([project], expect.objectContaining(range));
+  });
+
+  it('exports only the projects the authenticated user administers when no project is given', async () => {
+    jest.spyOn(ProjectDetails, 'find').mockResolvedValue([project] as any);
+
+    const response = await request(app)
+      .get('/attendance/export')
+      .set('x-stream-user-id', 'worker')
+      .query({ ...range, userId: 'owner' });
+
+    expect(response.status).toBe(200);
+    expect(getMemberChannelIds).toHaveBeenCalledWith('worker');
+    expect(buildPayrollExport).toHaveBeenCalledWith([], expect.anything());
+  });
+});
@@ -0,0 +1,131 @@
+import express, { Request, Response, Router } from 'express';
+import moment from 'moment-timezone';
+import { getStreamUserId } from '../middleware/auth';
+import { ProjectDetails } from '../models/Project';
+import { isChannelAdmin } from '../utils/channelRoles';
+import {
+  buildPayrollExport,
+  MAX_PAYROLL_EXPORT_DAYS,
+  parseRoundingRules,
+  payrollToCsv,
+  summarizePayroll,
+} from '../utils/payrollExport';
+import { findProjectDetails } from '../utils/projectTimezone';
+import { getMemberChannelIds } from '../utils/taskSearch';
+
+const router: Router = express.Router();
+
+/**
+ * GET /attendance/export
+ * Payroll export: per user and day, worked hours, first check-in and last check-out, breaks and
+ * overtime, from attendance (check-outs that were never recorded are taken from geofence exits).
+ * Dates, times and the break and overtime rules are those of each project (see /timesheet/rules).
+ * Only the project owner or moderators can export a project; without projectId, every project the
+ * requester owns or moderates is exported.
+ *
+ * Query:
+ * - from, to: YYYY-MM-DD (inclusive), at most MAX_PAYROLL_EXPORT_DAYS apart
+ * - projectId?: one project
+ * - userIds?: comma-separated users to include (default everyone with attendance)
+ * - format?: json (default) | csv | excel (CSV that opens in Excel and imports into XLSX)
+ * - roundTo?: minutes (1, 5, 6, 10, 12, 15, 30 or 60), roundMode?: nearest | up | down,
+ *   roundApplyTo?: punches (each check-in and check-out) | daily (each day's totals)
+ * - approvedOnly?: true to include only weeks whose timesheet is approved, with the hours, rules and
+ *   timezone stored on the timesheet when it was approved
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = getStreamUserId(req);
+    const { from, to, projectId, format = 'json' } = req.query as Record<string, string | undefined>;
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    const fromDate = moment.utc(from, 'YYYY-MM-DD', true);
+    const toDate = moment.utc(to, 'YYYY-MM-DD', true);
+    if (!from || !to || !fromDate.isValid() || !toDate.isValid()) {
+      res.status(400).json({ error: 'from and to are required as YYYY-MM-DD dates' });
+      return;
+    }
+    if (toDate.isBefore(fromDate)) {
+      res.status(400).json({ error: 'to must not be before from' });
+      return;
+    }
+    if (toDate.diff(fromDate, 'days') + 1 > MAX_PAYROLL_EXPORT_DAYS) {
+      res.status(400).json({ error: `Date range cannot exceed ${MAX_PAYROLL_EXPORT_DAYS} days` });
+      return;
+    }
+    if (!['json', 'csv', 'excel'].includes(format)) {
+      res.status(400).json({ error: 'format must be json, csv or excel' });
+      return;
+    }
+    const { rounding, error } = parseRoundingRules(req.query);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+
+    let projects;
+    if (projectId) {
+      const project = await findProjectDetails(projectId);
+      if (!project) {
+        res.status(404).json({ error: 'Project not found' });
+        return;
+      }
+      if (!(await isChannelAdmin(project.channelId, userId))) {
+        res.status(403).json({ error: 'Only the project owner or moderators can export attendance' });
+        return;
+      }
+      projects = [project];
+    } else {
+      const channelIds = await getMemberChannelIds(userId);
+      const memberProjects = await ProjectDetails.find({ channelId: { $in: channelIds } });
+      projects = [];
+      for (const project of memberProjects) {
+        if (await isChannelAdmin(project.channelId, userId)) projects.push(project);
+      }
+    }
+
+    const userIds = req.query.userIds
+      ? (req.query.userIds as string).split(',').map((id) => id.trim()).filter(Boolean)
+      : undefined;
+
+    const rows = await buildPayrollExport(projects, {
+      from,
+      to,
+      userIds,
+      rounding: rounding!,
+      approvedOnly: req.query.approvedOnly === 'true',
+    });
+    const fileName = `payroll-${projectId ? projectId.replace(/[^\w-]/g, '_') : 'all-projects'}-${from}-to-${to}`;
+
+    if (format === 'csv' || format === 'excel') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`);
+      res.status(200).send(payrollToCsv(rows, format));
+      return;
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.json"`);
+    res.status(200).json({
+      status: 'success',
+      from,
+      to,
+      rounding,
+      projects: projects.map((project) => ({
+        projectId: project.channelId,
+        projectName: project.projectName,
+        timezone: project.timezone || 'UTC',
+      })),
+      exportedAt: new Date(),
+      totals: summarizePayroll(rows),
+      days: rows
+    });
+  } catch (error) {
+    console.error('Error exporting payroll:', error);
+    res.status(500).json({ error: 'Failed to export payroll' });
+  }
+});
+
+export default router;
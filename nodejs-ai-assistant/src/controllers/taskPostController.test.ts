@@ -0,0 +1,380 @@
+jest.mock('../serverClient', () => ({
+  serverClient: {
+    queryChannels: jest.fn(async () => []),
+    channel: jest.fn(() => ({
+      queryMembers: jest.fn(async ({ user_id }: { user_id: string }) => ({ members: user_id === 'owner' ? [{ user_id }] : [] })),
+    })),
+  },
+}));
+jest.mock('../utils/getstreamFeedsService', () => ({
+  getStreamFeedsService: {
+    getUserName: jest.fn(async (userId: string) => userId),
+    createTaskUpdateNotifications: jest.fn(),
+    createTaskDigestNotifications: jest.fn(),
+    getstreamClient: { feed: jest.fn() },
+  },
+}));
+jest.mock('../utils/taskHistory', () => ({
+  recordTaskHistory: jest.fn(),
+  recordTaskUpdates: jest.fn(),
+  recordTaskEvents: jest.fn(),
+  getHistoryActivities: jest.fn(),
+}));
+jest.mock('../utils/channelRoles', () => ({
+  ...jest.requireActual('../utils/channelRoles'),
+  isChannelAdmin: jest.fn(async (channelId: string, userId: string) => userId === 'owner'),
+}));
+jest.mock('../utils/taskTrash', () => ({
+  ...jest.requireActual('../utils/taskTrash'),
+  softDeleteTasks: jest.fn(async (taskIds: string[]) => taskIds),
+}));
+
+import express from 'express';
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { Comment } from '../models/Comment';
+import { Task } from '../models/Task';
+import { TaskWorkflow } from '../models/TaskWorkflow';
+import { getStreamFeedsService } from '../utils/getstreamFeedsService';
+import { recordTaskEvents, recordTaskHistory } from '../utils/taskHistory';
+import { softDeleteTasks } from '../utils/taskTrash';
+import router from './taskPostController';
+
+const app = express();
+app.use(express.json());
+app.use('/task', router);
+
+const taskId = '64b000000000000000000001';
+const blockerId = '64b000000000000000000002';
+
+const task = (id: string, fields: Record<string, any> = {}) => ({
+  _id: id,
+  name: `Task ${id.slice(-1)}`,
+  channelId: 'messaging:site-1',
+  createdBy: 'owner',
+  blockedBy: [],
+  completed: false,
+  status: 'todo',
+  ...fields,
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('task dependencies', () => {
+  it('refuses to complete a task while a blocker is open', async () => {
+    jest.spyOn(Task, 'findById').mockResolvedValue(task(taskId, { blockedBy: [blockerId] }) as any);
+    jest.spyOn(Task, 'find').mockResolvedValue([task(blockerId)] as any);
+    const update = jest.spyOn(Task, 'findByIdAndUpdate');
+
+    const response = await request(app).patch(`/task/${taskId}/complete`).set('x-stream-user-id', 'owner');
+
+    expect(response.status).toBe(409);
+    expect(response.body.blockers.map((blocker: any) => blocker._id)).toEqual([blockerId]);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('refuses a link that would make a task block itself', async () => {
+    jest.spyOn(Task, 'findById').mockImplementation((async (id: string) => task(id)) as any);
+    const update = jest.spyOn(Task, 'findByIdAndUpdate');
+
+    const response = await request(app)
+      .post(`/task/${taskId}/dependencies`)
+      .set('x-stream-user-id', 'owner')
+      .send({ blockedBy: taskId });
+
+    expect(response.status).toBe(409);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('posts the dependency activity as the authenticated user', async () => {
+    const addActivity = jest.fn();
+    (getStreamFeedsService as any).getstreamClient.feed.mockReturnValue({ addActivity });
+    jest.spyOn(Task, 'findById').mockImplementation((async (id: string) => task(id)) as any);
+    jest.spyOn(Task, 'find').mockReturnValue({ select: () => ({ lean: async () => [task(blockerId)] }) } as any);
+    jest.spyOn(Task, 'findByIdAndUpdate').mockResolvedValue(task(taskId, { blockedBy: [blockerId] }) as any);
+
+    const response = await request(app)
+      .post(`/task/${taskId}/dependencies`)
+      .set('x-stream-user-id', 'member')
+      .send({ blockedBy: blockerId, userId: 'owner' });
+
+    expect(response.status).toBe(200);
+    expect(addActivity).toHaveBeenCalledWith(expect.objectContaining({ actor: 'member', verb: 'task_dependency_added' }));
+  });
+});
+
+describe('workflow transitions', () => {
+  const statuses = [
+    { key: 'todo', label: 'To do', isTerminal: false, transitionsTo: ['in_review'] },
+    { key: 'in_review', label: 'In review', isTerminal: false },
+    { key: 'done', label: 'Done', isTerminal: true },
+  ];
+
+  beforeEach(() => {
+    jest.spyOn(TaskWorkflow, 'findOne').mockReturnValue({ lean: async () => ({ statuses }) } as any);
+  });
+
+  it('refuses to complete a task whose status cannot move to done', async () => {
+    jest.spyOn(Task, 'findById').mockResolvedValue(task(taskId) as any);
+    const update = jest.spyOn(Task, 'findByIdAndUpdate');
+
+    const response = await request(app).patch(`/task/${taskId}/complete`).set('x-stream-user-id', 'owner');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Cannot move task from "To do" to "Done"');
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('refuses completed: true on update when the status cannot move to done', async () => {
+    jest.spyOn(Task, 'findById').mockResolvedValue(task(taskId) as any);
+    const update = jest.spyOn(Task, 'findByIdAndUpdate');
+
+    const response = await request(app).put(`/task/${taskId}`).set('x-stream-user-id', 'owner').send({ completed: true });
+
+    expect(response.status).toBe(400);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
+
+describe('PATCH /task/:taskId/move', () => {
+  const statuses = [
+    { key: 'todo', label: 'To do', isTerminal: false },
+    { key: 'in_review', label: 'In review', isTerminal: false },
+    { key: 'done', label: 'Done', isTerminal: true },
+  ];
+
+  beforeEach(() => {
+    jest.spyOn(TaskWorkflow, 'findOne').mockReturnValue({ lean: async () => ({ statuses }) } as any);
+  });
+
+  it('refuses a drop next to a task from another column', async () => {
+    jest.spyOn(Task, 'findById').mockImplementation(((id: string) => id === taskId
+      ? Promise.resolve(task(taskId))
+      : { select: () => ({ lean: async () => task(id, { rank: 'm', status: 'done' }) }) }) as any);
+    const update = jest.spyOn(Task, 'findOneAndUpdate');
+
+    const response = await request(app)
+      .patch(`/task/${taskId}/move`)
+      .set('x-stream-user-id', 'owner')
+      .send({ status: 'in_review', prevTaskId: blockerId });
+
+    expect(response.status).toBe(409);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('moves the task as the authenticated user', async () => {
+    jest.spyOn(Task, 'findById').mockResolvedValue(task(taskId) as any);
+    jest.spyOn(Task, 'exists').mockResolvedValue(null);
+    jest.spyOn(Task, 'findOneAndUpdate').mockResolvedValue(task(taskId, { status: 'in_review', rank: 'i' }) as any);
+
+    const response = await request(app)
+      .patch(`/task/${taskId}/move`)
+      .set('x-stream-user-id', 'member')
+      .send({ status: 'in_review', userId: 'owner' });
+
+    expect(response.status).toBe(200);
+    expect(getStreamFeedsService.createTaskUpdateNotifications).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({ status: 'in_review', actor: 'member' })
+    );
+  });
+});
+
+describe('GET /task/search', () => {
+  const query = (results: any[]) => {
+    const chain: any = { select: () => chain, sort: () => chain, limit: () => chain, lean: async () => results };
+    return chain;
+  };
+
+  it('requires an authenticated user', async () => {
+    const response = await request(app).get('/task/search').query({ q: 'crane', userId: 'owner' });
+    expect(response.status).toBe(401);
+  });
+
+  it('searches as the authenticated user and filters comments by access before the limit', async () => {
+    const find = jest.spyOn(Task, 'find')
+      .mockReturnValueOnce(query([]))
+      .mockReturnValueOnce(query([task(taskId, { updatedAt: new Date() })]));
+    const aggregate = jest.spyOn(Comment, 'aggregate').mockResolvedValue([
+      { _id: 'comment-1', message: 'Crane inspection is booked', score: 2, task: { _id: taskId } },
+    ]);
+
+    const response = await request(app).get('/task/search').set('x-stream-user-id', 'member').query({ q: 'crane', userId: 'owner' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.tasks.map((result: any) => result._id)).toEqual([taskId]);
+    expect(response.body.tasks[0].highlights[0]).toMatchObject({ field: 'comment', sourceId: 'comment-1' });
+
+    const accessFilter = { $or: expect.arrayContaining([{ createdBy: 'member' }]) };
+    expect((find.mock.calls[0] as any[])[0]).toMatchObject(accessFilter);
+    const pipeline = aggregate.mock.calls[0][0] as any[];
+    const lookup = pipeline.findIndex((stage) => stage.$lookup);
+    expect(pipeline[lookup].$lookup.pipeline[0].$match).toMatchObject(accessFilter);
+    expect(lookup).toBeLessThan(pipeline.findIndex((stage) => stage.$limit));
+  });
+});
+
+describe('POST /task/bulk', () => {
+  it('requires an authenticated user', async () => {
+    const response = await request(app).post('/task/bulk').send({ taskIds: [taskId], action: 'reprioritize', priority: 'high', userId: 'owner' });
+    expect(response.status).toBe(401);
+  });
+
+  it('makes the changes as the authenticated user', async () => {
+    jest.spyOn(mongoose, 'startSession').mockRejectedValue(Object.assign(new Error('Transaction numbers are only allowed on a replica set member'), { code: 20 }));
+    jest.spyOn(Task, 'find')
+      .mockResolvedValueOnce([task(taskId, { priority: 'low', assignee: ['worker'] })] as any)
+      .mockResolvedValueOnce([task(taskId, { priority: 'high', assignee: ['worker'] })] as any);
+    jest.spyOn(Task, 'bulkWrite').mockResolvedValue({} as any);
+
+    const response = await request(app)
+      .post('/task/bulk')
+      .set('x-stream-user-id', 'member')
+      .send({ taskIds: [taskId], action: 'reprioritize', priority: 'high', userId: 'owner' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.summary).toEqual({ total: 1, succeeded: 1, failed: 0 });
+    expect(recordTaskHistory).toHaveBeenCalledWith('updated', expect.anything(), 'member', expect.anything());
+    const [actor, action, digest] = (getStreamFeedsService.createTaskDigestNotifications as jest.Mock).mock.calls[0];
+    expect([actor, action]).toEqual(['member', 'reprioritize']);
+    expect(digest.get('owner')).toEqual([{ taskId, taskName: 'Task 1', change: 'priority changed to high' }]);
+  });
+});
+
+describe('task trash', () => {
+  const query = (results: any[]) => {
+    const chain: any = { select: () => chain, sort: () => chain, skip: () => chain, limit: () => chain, lean: async () => results };
+    return chain;
+  };
+
+  it('trashes the task as the authenticated user', async () => {
+    jest.spyOn(Task, 'findById').mockResolvedValue(task(taskId) as any);
+
+    const response = await request(app).delete(`/task/${taskId}`).set('x-stream-user-id', 'member').query({ userId: 'owner' });
+
+    expect(response.status).toBe(200);
+    expect(softDeleteTasks).toHaveBeenCalledWith([taskId], 'member');
+    expect(recordTaskEvents).toHaveBeenCalledWith('deleted', [taskId], 'member');
+  });
+
+  it('lists the requester\'s own trash rather than the userId asked for', async () => {
+    const find = jest.spyOn(Task, 'find').mockReturnValue(query([]));
+    jest.spyOn(Task, 'countDocuments').mockResolvedValue(0 as any);
+    jest.spyOn(Task, 'aggregate').mockResolvedValue([]);
+
+    const response = await request(app).get('/task/trash').set('x-stream-user-id', 'member').query({ userId: 'owner' });
+
+    expect(response.status).toBe(200);
+    expect((find.mock.calls[0] as any[])[0].$and[0].$or).toContainEqual({ createdBy: 'member' });
+  });
+
+  it('refuses the channel trash to non-members', async () => {
+    const find = jest.spyOn(Task, 'find');
+
+    const response = await request(app).get('/task/trash').set('x-stream-user-id', 'member').query({ channelId: 'messaging:site-1' });
+
+    expect(response.status).toBe(403);
+    expect(find).not.toHaveBeenCalled();
+  });
+});
+
+describe('task history actor', () => {
+  beforeEach(() => {
+    jest.spyOn(TaskWorkflow, 'findOne').mockReturnValue({ lean: async () => null } as any);
+  });
+
+  it('records an update as the authenticated user rather than the body userId', async () => {
+    jest.spyOn(Task, 'findById').mockResolvedValue(task(taskId) as any);
+    jest.spyOn(Task, 'findByIdAndUpdate').mockResolvedValue(task(taskId, { name: 'Renamed' }) as any);
+
+    const response = await request(app)
+      .put(`/task/${taskId}`)
+      .set('x-stream-user-id', 'member')
+      .send({ name: 'Renamed', userId: 'owner' });
+
+    expect(response.status).toBe(200);
+    expect(recordTaskHistory).toHaveBeenCalledWith('updated', expect.objectContaining({ name: 'Renamed' }), 'member', expect.anything());
+  });
+
+  it('records a removed dependency as the authenticated user rather than the query userId', async () => {
+    jest.spyOn(Task, 'findById').mockResolvedValue(task(taskId, { blockedBy: [blockerId] }) as any);
+    jest.spyOn(Task, 'findByIdAndUpdate').mockResolvedValue(task(taskId) as any);
+
+    const response = await request(app)
+      .delete(`/task/${taskId}/dependencies/${blockerId}`)
+      .set('x-stream-user-id', 'member')
+      .query({ userId: 'owner' });
+
+    expect(response.status).toBe(200);
+    expect(recordTaskHistory).toHaveBeenCalledWith('updated', expect.anything(), 'member', expect.anything());
+  });
+});
+
+describe('task watchers', () => {
+  it('follows a task as the authenticated user', async () => {
+    jest.spyOn(Task, 'findById').mockResolvedValue(task(taskId) as any);
+    const update = jest.spyOn(Task, 'findByIdAndUpdate').mockResolvedValue(task(taskId, { watchers: ['owner'] }) as any);
+
+    const response = await request(app).post(`/task/${taskId}/watchers`).set('x-stream-user-id', 'owner').send({ userId: 'member' });
+
+    expect(response.status).toBe(200);
+    expect(update).toHaveBeenCalledWith(taskId, expect.objectContaining({ $addToSet: { watchers: { $each: ['owner'] } } }), expect.anything());
+  });
+
+  it('refuses to follow a task the user cannot see', async () => {
+    jest.spyOn(Task, 'findById').mockResolvedValue(task(taskId) as any);
+    const update = jest.spyOn(Task, 'findByIdAndUpdate');
+
+    const response = await request(app).post(`/task/${taskId}/watchers`).set('x-stream-user-id', 'stranger');
+
+    expect(response.status).toBe(403);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('checks removal of another watcher against the authenticated user', async () => {
+    jest.spyOn(Task, 'findById').mockResolvedValue(task(taskId, { watchers: ['worker'] }) as any);
+    const update = jest.spyOn(Task, 'findByIdAndUpdate');
+
+    const response = await request(app)
+      .delete(`/task/${taskId}/watchers/worker`)
+      .set('x-stream-user-id', 'member')
+      .query({ userId: 'owner' });
+
+    expect(response.status).toBe(403);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
+
+describe('task export and import', () => {
+  it('checks export access against the authenticated user, not the query userId', async () => {
+    const response = await request(app)
+      .get('/task/export')
+      .set('x-stream-user-id', 'member')
+      .query({ channelId: 'messaging:site-1', userId: 'owner' });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('requires an authenticated user to import', async () => {
+    const insert = jest.spyOn(Task, 'insertMany');
+
+    const response = await request(app)
+      .post('/task/import')
+      .send({ channelId: 'messaging:site-1', userId: 'owner', csv: 'name\r\nPour slab\r\n' });
+
+    expect(response.status).toBe(401);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('refuses an import into a channel the authenticated user is not in', async () => {
+    const response = await request(app)
+      .post('/task/import')
+      .set('x-stream-user-id', 'member')
+      .send({ channelId: 'messaging:site-1', userId: 'owner', csv: 'name\r\nPour slab\r\n' });
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -1,11 +1,56 @@
 import express, { Request, Response, Router } from 'express';
 import { Task, ITask } from '../models/Task';
 import { Comment } from '../models/Comment';
+import { TaskHistory } from '../models/TaskHistory';
 import { getStreamFeedsService } from '../utils/getstreamFeedsService';
+import mongoose from 'mongoose';
 import multer from 'multer';
-import { uploadToS3 } from '../utils/s3';
 import { getUserId, getStreamUserId } from '../middleware/auth';
 import { serverClient } from '../serverClient';
+import { validateRecurrence, normalizeRecurrence, spawnNextTaskInstance } from '../utils/taskRecurrence';
+import {
+  getOpenBlockers,
+  wouldCreateCycle,
+  buildDependencyGraph,
+  notifyUnblockedTasks,
+} from '../utils/taskDependencies';
+import {
+  getChannelWorkflowStatuses,
+  getInitialStatus,
+  getDefaultTerminalStatus,
+  getTerminalStatusKeys,
+  findStatus,
+  getStatusLabel,
+  isTerminalStatus,
+  validateStatusTransition,
+} from '../utils/taskWorkflow';
+import { IWorkflowStatus } from '../models/TaskWorkflow';
+import { BulkItemResult, validateBulkRequest, withOptionalTransaction } from '../utils/taskBulk';
+import { softDeleteTasks, restoreTask, getPurgeDate } from '../utils/taskTrash';
+import { rankBetween, ranksAfter, getBottomRank } from '../utils/taskRank';
+import { searchTasks, DUE_BUCKETS, TaskSearchFilters } from '../utils/taskSearch';
+import { recordTaskHistory, recordTaskUpdates, recordTaskEvents, getHistoryActivities } from '../utils/taskHistory';
+import { addTaskWatchers, removeTaskWatcher } from '../utils/taskWatchers';
+import { isChannelAdmin } from '../utils/channelRoles';
+import { validateEstimate, normalizeEstimate } from '../utils/taskWorkload';
+import { parseCsv } from '../utils/csv';
+import {
+  MAX_IMPORT_ROWS,
+  ImportRow,
+  buildTaskExport,
+  taskExportToCsv,
+  rowsFromCsv,
+  rowsFromJson,
+  validateImportRows,
+  createImportedTasks,
+} from '../utils/taskImportExport';
+import {
+  isAttachmentId,
+  formatAttachment,
+  getAttachmentVersions,
+  mergeClientAttachments,
+  saveTaskAttachment,
+} from '../utils/taskAttachments';
 
 // Helper function to check if user is a member of a channel
 const isChannelMember = async (channelId: string, userId: string): Promise<boolean> => {
@@ -34,13 +79,51 @@ const isChannelMember = async (channelId: string, userId: string): Promise<boole
   }
 };
 
-interface TaskAttachment {
-  uri: string;
-  name: string;
-  type: string;
-  size?: number;
-  commentId?: string;
-}
+// Match tasks stored with any of the channel ID formats the clients send
+const channelIdConditions = (channelId: string) => {
+  const extractedId = channelId.includes(':') ? channelId.split(':')[1] : channelId;
+  return [
+    { channelId: extractedId },
+    { channelId: `messaging:${extractedId}` }
+  ];
+};
+
+// Status key of a task as shown on the board (legacy tasks may have no status stored)
+const getBoardStatus = (task: Pick<ITask, 'status' | 'completed'>): string =>
+  task.status || (task.completed ? 'completed' : 'todo');
+
+// Spawn the next recurring instance and notify unblocked dependents once a task is completed
+const handleTaskCompleted = async (originalTask: ITask, updatedTask: ITask, actor: string): Promise<ITask | null> => {
+  let nextInstance: ITask | null = null;
+  try {
+    nextInstance = await spawnNextTaskInstance(updatedTask);
+  } catch (error) {
+    console.error('Error spawning next recurring task instance:', error);
+  }
+
+  if (!originalTask.completed) {
+    try {
+      await notifyUnblockedTasks(updatedTask, actor);
+    } catch (error) {
+      console.error('Error notifying unblocked tasks:', error);
+    }
+  }
+
+  return nextInstance;
+};
+
+// Respond with 409 listing the open blockers that prevent a status change
+const sendBlockedResponse = (res: Response, blockers: ITask[]) => {
+  res.status(409).json({
+    error: 'Task is blocked by tasks that are not completed yet',
+    blockers: blockers.map((blocker) => ({
+      _id: blocker._id,
+      name: blocker.name,
+      status: blocker.status,
+      assignee: blocker.assignee,
+    })),
+  });
+};
 
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -58,15 +141,55 @@ const upload = multer({
   }
 });
 
+// Task import files (CSV or JSON) are read from memory
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024,
+  },
+});
+
 export const handleTaskPost = async (req: Request, res: Response) => {
   try {
-    const { name, assignee, priority, completionDate, channelId, description, subtasks, createdBy, parentTaskId, attachments, timezone } = req.body;
+    const { name, assignee, priority, completionDate, channelId, description, subtasks, createdBy, parentTaskId, attachments, timezone, recurrence, blockedBy, estimate } = req.body;
 
     if (!name || !assignee || !Array.isArray(assignee) || assignee.length === 0 || !priority) {
       res.status(400).json({ error: 'Missing required fields or assignee must be a non-empty array' });
       return;
     }
 
+    if (recurrence) {
+      const recurrenceError = parentTaskId ? 'Subtasks cannot recur on their own' : validateRecurrence(recurrence);
+      if (recurrenceError) {
+        res.status(400).json({ error: recurrenceError });
+        return;
+      }
+    }
+
+    const estimateError = [estimate, ...(Array.isArray(subtasks) ? subtasks.map((subtask: any) => subtask.estimate) : [])]
+      .filter((value) => value !== undefined)
+      .map(validateEstimate)
+      .find(Boolean);
+    if (estimateError) {
+      res.status(400).json({ error: estimateError });
+      return;
+    }
+
+    if (blockedBy !== undefined) {
+      if (!Array.isArray(blockedBy) || !blockedBy.every((id) => mongoose.isValidObjectId(id))) {
+        res.status(400).json({ error: 'blockedBy must be an array of task IDs' });
+        return;
+      }
+      const blockerCount = await Task.countDocuments({ _id: { $in: blockedBy } });
+      if (blockerCount !== new Set(blockedBy).size) {
+        res.status(400).json({ error: 'One or more blocking tasks do not exist' });
+        return;
+      }
+    }
+
+    const workflowStatuses = await getChannelWorkflowStatuses(channelId);
+    const initialStatus = getInitialStatus(workflowStatuses);
+
     const task: ITask = new Task({
       name,
       assignee,
@@ -74,13 +197,25 @@ export const handleTaskPost = async (req: Request, res: Response) => {
       ...(completionDate && { completionDate: new Date(completionDate) }),
       channelId,
       description,
+      ...(estimate && { estimate: normalizeEstimate(estimate) }),
       createdBy: createdBy || assignee[0],
       parentTaskId,
+      status: initialStatus,
       attachments: attachments || [],
       // Store the creator's timezone for proper display across timezones
       timezone: timezone || 'UTC',
+      ...(recurrence && { recurrence: normalizeRecurrence(recurrence) }),
+      blockedBy: blockedBy ? [...new Set(blockedBy.map(String))] : [],
     });
+    if (recurrence) {
+      // The first instance anchors the series
+      task.seriesId = String(task._id);
+    }
+    if (channelId && !parentTaskId) {
+      task.rank = await getBottomRank(channelId, initialStatus);
+    }
     await task.save();
+    await recordTaskHistory('created', task, createdBy || assignee[0]);
 
     const createdSubtasks = [];
     if (subtasks && Array.isArray(subtasks)) {
@@ -92,12 +227,15 @@ export const handleTaskPost = async (req: Request, res: Response) => {
           ...(subtask.completionDate ? { completionDate: new Date(subtask.completionDate) } : (completionDate ? { completionDate: new Date(completionDate) } : {})),
           channelId,
           description: subtask.description,
+          ...(subtask.estimate && { estimate: normalizeEstimate(subtask.estimate) }),
           createdBy: createdBy || assignee[0],
           parentTaskId: task._id,
+          status: initialStatus,
           // Inherit timezone from parent task
           timezone: subtask.timezone || timezone || 'UTC',
         });
         await newSubtask.save();
+        await recordTaskHistory('created', newSubtask, createdBy || assignee[0]);
 
         const taskCreator = createdBy || assignee[0];
         const actorName = await getStreamFeedsService.getUserName(taskCreator);
@@ -143,7 +281,7 @@ export const handleTaskPost = async (req: Request, res: Response) => {
         }
       });
     } else {
-      await getStreamFeedsService.createTaskActivity(task._id as string, task);
+      await getStreamFeedsService.createTaskActivity(String(task._id), task);
     }
 
     res.status(201).json({
@@ -244,7 +382,7 @@ router.get('/', async (req: Request, res: Response) => {
     const totalCount = await Task.countDocuments(query);
 
     const tasks = await Task.find(query)
-      .select('_id name status priority completionDate channelId createdAt createdBy assignee description completed updatedAt')
+      .select('_id name status priority completionDate channelId createdAt createdBy assignee description completed updatedAt recurrence seriesId blockedBy')
       .limit(limitNum)
       .skip(offsetNum)
       .sort({ createdAt: -1 })
@@ -324,6 +462,10 @@ router.get('/count/open', async (req: Request, res: Response) => {
           { channelId: fullCid }
         ]
       });
+
+      // Channels with a custom workflow may have terminal statuses other than 'completed'
+      const terminalStatuses = getTerminalStatusKeys(await getChannelWorkflowStatuses(channelIdStr));
+      query.$and.push({ status: { $nin: terminalStatuses } });
     }
 
     // Filter by assignee or createdBy if provided
@@ -352,273 +494,1218 @@ router.get('/count/open', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/:taskId', async (req: Request, res: Response) => {
+// Parse a facet filter given as a comma-separated list or repeated query parameter
+const parseListParam = (value: any): string[] | undefined => {
+  if (!value) return undefined;
+  const values = (Array.isArray(value) ? value : [value])
+    .flatMap((v: any) => String(v).split(','))
+    .map((v: string) => v.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+};
+
+// Search tasks by text across names, descriptions, subtasks and comments.
+// Only tasks the requester (x-stream-user-id) can see are searched.
+// Query: q, priority, status, assignee, channelId, due (comma-separated), timezone, limit, offset
+router.get('/search', async (req: Request, res: Response) => {
   try {
-    const { taskId } = req.params;
-    if (!taskId) {
-      res.status(400).json({ error: 'Missing required parameter: taskId' });
+    const { q, timezone, limit = '20', offset = '0' } = req.query;
+    const userId = getStreamUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
       return;
     }
-
-    const task = await Task.findById(taskId);
-    if (!task) {
-      res.status(404).json({ error: 'Task not found' });
+    if (!q || typeof q !== 'string' || q.trim().length < 2) {
+      res.status(400).json({ error: 'Search query q must be at least 2 characters' });
       return;
     }
 
-    // Permission check: user must be creator, assignee, or channel member
-    // Uses GetStream user ID from x-stream-user-id header (sent by mobile app)
-    const userId = getStreamUserId(req);
-    const isCreator = task.createdBy === userId;
-    const isAssignee = task.assignee?.includes(userId || '');
-    const isMember = task.channelId ? await isChannelMember(task.channelId, userId || '') : false;
-
-    console.log('Permission check:', { userId, taskCreatedBy: task.createdBy, isCreator, isAssignee, isMember });
-
-    if (!isCreator && !isAssignee && !isMember) {
-      res.status(403).json({ error: 'You do not have access to this task' });
+    const due = parseListParam(req.query.due);
+    const invalidBucket = due?.find((bucket) => !(DUE_BUCKETS as readonly string[]).includes(bucket));
+    if (invalidBucket) {
+      res.status(400).json({ error: `Invalid due bucket "${invalidBucket}". Allowed: ${DUE_BUCKETS.join(', ')}` });
       return;
     }
 
-    const comments = await Comment.find({ taskId }).sort({ createdAt: 1 });
-    const subtasks = await Task.find({ parentTaskId: taskId });
+    // Filter values use the same keys as the facets, so channel IDs are matched without the "messaging:" prefix
+    const filters: TaskSearchFilters = {
+      priority: parseListParam(req.query.priority),
+      status: parseListParam(req.query.status),
+      assignee: parseListParam(req.query.assignee),
+      channelId: parseListParam(req.query.channelId)?.map((id) => (id.includes(':') ? id.split(':')[1] : id)),
+      due: due as TaskSearchFilters['due'],
+    };
 
-    const taskObj = task.toObject();
-    if (!taskObj.status) {
-      taskObj.status = taskObj.completed ? 'completed' : 'todo';
-    }
+    const limitNum = Math.min(Math.max(parseInt(limit as string, 10) || 20, 1), 50);
+    const offsetNum = Math.max(parseInt(offset as string, 10) || 0, 0);
+
+    const { total, results, facets } = await searchTasks({
+      query: q.trim(),
+      userId,
+      filters,
+      timezone: timezone as string | undefined,
+      limit: limitNum,
+      offset: offsetNum,
+    });
 
     res.status(200).json({
       status: 'success',
-      task: taskObj,
-      subtasks,
-      comments
+      query: q.trim(),
+      tasks: results,
+      facets,
+      pagination: {
+        total,
+        limit: limitNum,
+        offset: offsetNum,
+        hasMore: offsetNum + results.length < total
+      }
     });
   } catch (error) {
-    console.error('Error fetching task details:', error);
-    res.status(500).json({ error: 'Failed to fetch task details' });
+    console.error('Error searching tasks:', error);
+    res.status(500).json({ error: 'Failed to search tasks' });
   }
 });
 
-router.patch('/:taskId/complete', async (req: Request, res: Response) => {
+// Kanban board for a channel: top-level tasks grouped by workflow status, in manual order
+router.get('/board', async (req: Request, res: Response) => {
   try {
-    const { taskId } = req.params;
-    const { completeSubtasks, completed } = req.query;
+    const { channelId, assignee, maxAgeDays = '30' } = req.query;
 
-    if (!taskId) {
-      res.status(400).json({ error: 'Missing required parameter: taskId' });
+    if (!channelId) {
+      res.status(400).json({ error: 'Missing required parameter: channelId' });
       return;
     }
 
-    const currentTask = await Task.findById(taskId);
-    if (!currentTask) {
-      res.status(404).json({ error: 'Task not found' });
-      return;
-    }
+    const channelIdStr = channelId as string;
+    const statuses = await getChannelWorkflowStatuses(channelIdStr);
+    const terminalStatuses = getTerminalStatusKeys(statuses);
 
-    const newCompletedStatus = completed !== undefined ? completed === 'true' : !currentTask.completed;
+    // Terminal columns only show recently finished tasks so they do not grow forever
+    const maxAge = parseInt(maxAgeDays as string, 10) || 30;
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - maxAge);
 
-    const task = await Task.findByIdAndUpdate(
-      taskId,
-      { completed: newCompletedStatus },
-      { new: true }
-    );
+    const query: any = {
+      $and: [
+        { $or: channelIdConditions(channelIdStr) },
+        { $or: [{ status: { $nin: terminalStatuses } }, { updatedAt: { $gte: cutoffDate } }] }
+      ],
+      parentTaskId: { $exists: false }
+    };
+    if (assignee) {
+      query.assignee = { $in: [assignee as string] };
+    }
 
-    if (completeSubtasks === 'true') {
-      await Task.updateMany(
-        { parentTaskId: taskId },
-        { completed: newCompletedStatus }
-      );
+    const tasks = await Task.find(query)
+      .select('_id name status priority completionDate channelId createdAt createdBy assignee completed updatedAt rank blockedBy')
+      .sort({ createdAt: 1 })
+      .lean();
+
+    const initialStatus = getInitialStatus(statuses);
+    const defaultTerminalStatus = getDefaultTerminalStatus(statuses);
+    const columns = new Map<string, any[]>(statuses.map((s) => [s.key, []]));
+    for (const task of tasks) {
+      // Tasks in statuses the workflow no longer has are shown in the initial or terminal column
+      const boardStatus = getBoardStatus(task);
+      const columnKey = findStatus(statuses, boardStatus)
+        ? boardStatus
+        : (task.completed ? defaultTerminalStatus : initialStatus);
+      columns.get(columnKey)!.push(task);
     }
 
-    const subtasks = completeSubtasks === 'true'
-      ? await Task.find({ parentTaskId: taskId })
-      : [];
+    // Tasks created before manual ordering existed get ranks below the ranked ones
+    const rankUpdates: any[] = [];
+    for (const columnTasks of columns.values()) {
+      const ranked = columnTasks.filter((t) => t.rank).sort((a, b) => (a.rank < b.rank ? -1 : a.rank > b.rank ? 1 : 0));
+      const unranked = columnTasks.filter((t) => !t.rank);
+      const newRanks = ranksAfter(ranked[ranked.length - 1]?.rank, unranked.length);
+      unranked.forEach((task, i) => {
+        task.rank = newRanks[i];
+        rankUpdates.push({
+          updateOne: {
+            filter: { _id: task._id, rank: { $exists: false } },
+            update: { $set: { rank: task.rank } }
+          }
+        });
+      });
+      columnTasks.splice(0, columnTasks.length, ...ranked, ...unranked);
+    }
+    if (rankUpdates.length > 0) {
+      await Task.bulkWrite(rankUpdates);
+    }
 
     res.status(200).json({
       status: 'success',
-      task,
-      subtasks: completeSubtasks === 'true' ? subtasks : undefined
+      channelId: channelIdStr,
+      columns: statuses.map((s) => ({
+        key: s.key,
+        label: s.label,
+        isTerminal: s.isTerminal,
+        tasks: columns.get(s.key) || []
+      }))
     });
   } catch (error) {
-    console.error('Error toggling task completion:', error);
-    res.status(500).json({ error: 'Failed to toggle task completion' });
+    console.error('Error fetching task board:', error);
+    res.status(500).json({ error: 'Failed to fetch task board' });
   }
 });
 
-router.put('/:taskId', async (req: Request, res: Response) => {
+// Apply one change to many tasks at once.
+// Body: { taskIds, action, assignee? | priority? | status? | completionDate? }; the changes are made by x-stream-user-id.
+// Each task gets its own result; everyone affected receives one digest notification instead of one per task.
+router.post('/bulk', async (req: Request, res: Response) => {
   try {
-    const { taskId } = req.params;
-    if (!taskId) {
-      res.status(400).json({ error: 'Missing required parameter: taskId' });
+    const actor = getStreamUserId(req);
+    if (!actor) {
+      res.status(401).json({ error: 'User not authenticated' });
       return;
     }
 
-    const originalTask = await Task.findById(taskId);
-    if (!originalTask) {
-      res.status(404).json({ error: 'Task not found' });
+    const validationError = validateBulkRequest(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
       return;
     }
 
-    const {
-      name, assignee, priority, completionDate, channelId,
-      description, completed, status, parentTaskId, attachments,
-      userId, timezone
-    } = req.body;
+    const { action, assignee, priority, status, completionDate } = req.body;
+    const taskIds: string[] = [...new Set<string>(req.body.taskIds.map(String))];
+
+    const results = new Map<string, BulkItemResult>();
+    const fail = (taskId: string, error: string) => results.set(taskId, { taskId, success: false, error });
+
+    const validIds = taskIds.filter((id) => mongoose.isValidObjectId(id));
+    taskIds.filter((id) => !mongoose.isValidObjectId(id)).forEach((id) => fail(id, 'Invalid task ID'));
+
+    const tasks = await Task.find({ _id: { $in: validIds } });
+    const originalById = new Map(tasks.map((task) => [String(task._id), task]));
+    validIds.filter((id) => !originalById.has(id)).forEach((id) => fail(id, 'Task not found'));
+
+    // Work out each task's update up front so the writes can go out in one batch
+    const updates = new Map<string, any>();
+    const workflowCache = new Map<string, IWorkflowStatus[]>();
+    for (const task of tasks) {
+      const id = String(task._id);
+      switch (action) {
+        case 'reassign':
+          updates.set(id, { assignee });
+          break;
+        case 'reprioritize':
+          updates.set(id, { priority });
+          break;
+        case 'change_due_date':
+          updates.set(id, { completionDate: completionDate ? new Date(completionDate) : null });
+          break;
+        case 'change_status': {
+          const cacheKey = task.channelId || '';
+          if (!workflowCache.has(cacheKey)) {
+            workflowCache.set(cacheKey, await getChannelWorkflowStatuses(task.channelId));
+          }
+          const workflowStatuses = workflowCache.get(cacheKey)!;
 
-    const updateData: any = {};
-    if (name !== undefined) updateData.name = name;
-    if (assignee !== undefined) {
-      if (!Array.isArray(assignee) || assignee.length === 0) {
-        res.status(400).json({ error: 'Assignee must be a non-empty array' });
-        return;
+          const transitionError = validateStatusTransition(workflowStatuses, task.status, status);
+          if (transitionError) {
+            fail(id, transitionError);
+            continue;
+          }
+          const completed = isTerminalStatus(workflowStatuses, status);
+          const movingToBlockedStatus = (status !== task.status && status !== getInitialStatus(workflowStatuses)) ||
+            (completed && !task.completed);
+          if (movingToBlockedStatus) {
+            const openBlockers = await getOpenBlockers(task);
+            if (openBlockers.length > 0) {
+              fail(id, `Blocked by: ${openBlockers.map((blocker) => blocker.name).join(', ')}`);
+              continue;
+            }
+          }
+          updates.set(id, { status, completed });
+          break;
+        }
+        case 'delete':
+          updates.set(id, {});
+          break;
       }
-      updateData.assignee = assignee;
     }
-    if (priority !== undefined) updateData.priority = priority;
-    if (completionDate !== undefined) {
-      // Allow clearing completionDate by passing empty string or null
-      updateData.completionDate = completionDate ? new Date(completionDate) : null;
+
+    const targetIds = Array.from(updates.keys());
+    let deletedIds: string[] = [];
+    let transactional = false;
+
+    if (targetIds.length > 0) {
+      ({ transactional } = await withOptionalTransaction(async (session) => {
+        if (action === 'delete') {
+          deletedIds = await softDeleteTasks(targetIds, actor, session);
+        } else {
+          await Task.bulkWrite(targetIds.map((id) => ({
+            updateOne: { filter: { _id: id }, update: { $set: updates.get(id) } }
+          })), { session });
+        }
+      }));
     }
-    if (channelId !== undefined) updateData.channelId = channelId;
-    if (description !== undefined) updateData.description = description;
-    if (completed !== undefined) updateData.completed = completed;
-    if (status !== undefined) updateData.status = status;
-    if (parentTaskId !== undefined) updateData.parentTaskId = parentTaskId;
-    if (attachments !== undefined) updateData.attachments = attachments;
-    if (timezone !== undefined) updateData.timezone = timezone;
 
-    const updatedTask = await Task.findByIdAndUpdate(
-      taskId,
-      updateData,
-      { new: true, runValidators: true }
-    );
+    // Collect one line per task for everyone involved, except the person making the change
+    const digest = new Map<string, Array<{ taskId: string; taskName: string; change: string }>>();
+    const addToDigest = (userIds: string[], task: ITask, change: string) => {
+      for (const userId of new Set(userIds.filter(Boolean))) {
+        if (userId === actor) continue;
+        const changes = digest.get(userId) || [];
+        changes.push({ taskId: String(task._id), taskName: task.name || 'Untitled Task', change });
+        digest.set(userId, changes);
+      }
+    };
 
-    if (!updatedTask) {
-      res.status(404).json({ error: 'Task not found' });
-      return;
+    if (action === 'delete') {
+      await recordTaskEvents('deleted', deletedIds, actor);
+      for (const id of targetIds) {
+        const original = originalById.get(id)!;
+        results.set(id, { taskId: id, success: true });
+        addToDigest([...(original.assignee || []), original.createdBy, ...(original.watchers || [])], original, 'moved to trash');
+      }
+    } else {
+      const updatedTasks = await Task.find({ _id: { $in: targetIds } });
+      for (const updated of updatedTasks) {
+        const id = String(updated._id);
+        const original = originalById.get(id)!;
+        results.set(id, { taskId: id, success: true, task: updated });
+        await recordTaskHistory('updated', updated, actor, original);
+
+        try {
+          await getStreamFeedsService.createTaskUpdateNotifications(
+            original,
+            updated,
+            { ...updates.get(id), actor, userId: actor },
+            { notifyUsers: false }
+          );
+        } catch (error) {
+          console.error('Error creating task update activities:', error);
+        }
+
+        const involved = [
+          ...(original.assignee || []),
+          ...(updated.assignee || []),
+          updated.createdBy,
+          ...(updated.watchers || [])
+        ];
+        if (action === 'reassign') {
+          const before = new Set(original.assignee || []);
+          const after = new Set(updated.assignee || []);
+          if (before.size !== after.size || ![...before].every((userId) => after.has(userId))) {
+            involved.forEach((userId) => addToDigest([userId], updated,
+              !before.has(userId) && after.has(userId) ? 'assigned to you'
+                : before.has(userId) && !after.has(userId) ? 'unassigned from you' : 'reassigned'));
+          }
+        } else if (action === 'reprioritize' && original.priority !== updated.priority) {
+          addToDigest(involved, updated, `priority changed to ${updated.priority}`);
+        } else if (action === 'change_status' && original.status !== updated.status) {
+          const workflowStatuses = workflowCache.get(updated.channelId || '') || [];
+          addToDigest(involved, updated, `status changed to ${getStatusLabel(workflowStatuses, updated.status)}`);
+        } else if (action === 'change_due_date' &&
+            (original.completionDate?.getTime() ?? null) !== (updated.completionDate?.getTime() ?? null)) {
+          addToDigest(involved, updated, updated.completionDate ? 'due date changed' : 'due date removed');
+        }
+
+        if (updated.completed && !original.completed) {
+          await handleTaskCompleted(original, updated, actor);
+        }
+      }
     }
 
     try {
-      const actorUserId = userId || updatedTask.createdBy || 'system';
-      const updateDataWithActor = {
-        ...updateData,
-        actor: actorUserId,
-        userId: actorUserId
-      };
-      await getStreamFeedsService.createTaskUpdateNotifications(originalTask, updatedTask, updateDataWithActor);
+      await getStreamFeedsService.createTaskDigestNotifications(actor, action, digest);
     } catch (error) {
-      console.error('Error creating task update notifications:', error);
+      console.error('Error sending task digest notifications:', error);
     }
 
-    res.status(200).json({ status: 'success', task: updatedTask });
+    const orderedResults = taskIds.map((id) => results.get(id) || { taskId: id, success: false, error: 'Task not found' });
+    const succeeded = orderedResults.filter((result) => result.success).length;
+
+    res.status(200).json({
+      status: 'success',
+      action,
+      transactional,
+      summary: {
+        total: orderedResults.length,
+        succeeded,
+        failed: orderedResults.length - succeeded
+      },
+      results: orderedResults,
+      ...(action === 'delete' && { deletedTaskIds: deletedIds })
+    });
   } catch (error) {
-    console.error('Error updating task:', error);
-    res.status(500).json({ error: 'Failed to update task' });
+    console.error('Error running bulk task operation:', error);
+    res.status(500).json({ error: 'Failed to run bulk task operation' });
   }
 });
 
-router.delete('/:taskId', async (req: Request, res: Response) => {
+// Export a channel's tasks with subtasks, assignees, comments and attachment links.
+// Query: channelId, format=json|csv, includeCompleted (default true)
+router.get('/export', async (req: Request, res: Response) => {
   try {
-    const { taskId } = req.params;
-    if (!taskId) {
-      res.status(400).json({ error: 'Missing required parameter: taskId' });
+    const { channelId, format = 'json', includeCompleted } = req.query;
+    const userId = getStreamUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
       return;
     }
-
-    const task = await Task.findById(taskId);
-    if (!task) {
-      res.status(404).json({ error: 'Task not found' });
+    if (!channelId) {
+      res.status(400).json({ error: 'Missing required parameter: channelId' });
       return;
     }
-
-    if (!task.parentTaskId) {
-      await Task.deleteMany({ parentTaskId: taskId });
+    if (format !== 'json' && format !== 'csv') {
+      res.status(400).json({ error: 'format must be json or csv' });
+      return;
+    }
+    if (!(await isChannelMember(channelId as string, userId))) {
+      res.status(403).json({ error: 'You are not a member of this channel' });
+      return;
     }
 
-    await Task.findByIdAndDelete(taskId);
+    const tasks = await buildTaskExport(channelId as string, { includeCompleted: includeCompleted !== 'false' });
+    const fileName = `tasks-${(channelId as string).replace(/[^\w-]/g, '_')}-${new Date().toISOString().slice(0, 10)}`;
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`);
+      res.status(200).send(taskExportToCsv(tasks));
+      return;
+    }
 
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.json"`);
     res.status(200).json({
       status: 'success',
-      message: 'Task deleted successfully',
-      deletedTaskId: taskId
+      channelId,
+      exportedAt: new Date(),
+      total: tasks.length,
+      tasks
     });
   } catch (error) {
-    console.error('Error deleting task:', error);
-    res.status(500).json({ error: 'Failed to delete task' });
+    console.error('Error exporting tasks:', error);
+    res.status(500).json({ error: 'Failed to export tasks' });
   }
 });
 
-router.post('/:taskId/attachments/upload', upload.single('file'), async (req: Request, res: Response) => {
+// Import tasks into a channel from a CSV or JSON file (multipart field "file"), or from the body as
+// { csv: "..." } or { tasks: [...] }. Other fields: channelId, timezone?, dryRun?
+// Rows are validated one by one; valid rows are created and invalid ones reported, nothing is created on a dry run.
+router.post('/import', importUpload.single('file'), async (req: Request, res: Response) => {
   try {
-    const { taskId } = req.params;
-    const file = req.file;
+    const { channelId, timezone = 'UTC' } = req.body;
+    const userId = getStreamUserId(req);
+    const dryRun = req.body.dryRun === true || req.body.dryRun === 'true';
 
-    if (!taskId || !file) {
-      res.status(400).json({ error: 'Missing required parameters' });
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
       return;
     }
-
-    const task = await Task.findById(taskId);
-    if (!task) {
-      res.status(404).json({ error: 'Task not found' });
+    if (!channelId) {
+      res.status(400).json({ error: 'Missing required field: channelId' });
+      return;
+    }
+    if (!(await isChannelMember(channelId, userId))) {
+      res.status(403).json({ error: 'You are not a member of this channel' });
       return;
     }
 
-    const uniqueFileName = `${Date.now()}-${file.originalname}`;
-    const fileUrl = await uploadToS3(file.buffer, uniqueFileName, file.mimetype);
-
-    const newAttachment = {
-      uri: fileUrl,
-      name: file.originalname,
-      type: file.mimetype,
-      size: file.size,
-      commentId: req.body.commentId ? String(req.body.commentId) : null,
-    };
+    let rows: ImportRow[];
+    try {
+      if (req.file) {
+        const content = req.file.buffer.toString('utf8');
+        const isJson = req.file.mimetype === 'application/json' || /\.json$/i.test(req.file.originalname);
+        const parsed = isJson ? JSON.parse(content) : null;
+        rows = isJson ? rowsFromJson(Array.isArray(parsed) ? parsed : parsed?.tasks || []) : rowsFromCsv(parseCsv(content));
+      } else if (Array.isArray(req.body.tasks)) {
+        rows = rowsFromJson(req.body.tasks);
+      } else if (typeof req.body.csv === 'string') {
+        rows = rowsFromCsv(parseCsv(req.body.csv));
+      } else {
+        res.status(400).json({ error: 'Provide a file, a csv string or a tasks array' });
+        return;
+      }
+    } catch (error) {
+      res.status(400).json({ error: 'The file could not be read as CSV or JSON' });
+      return;
+    }
 
-    const updatedAttachments = [...(task.attachments || []), newAttachment];
+    if (rows.length === 0) {
+      res.status(400).json({ error: 'No tasks found to import' });
+      return;
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      res.status(400).json({ error: `At most ${MAX_IMPORT_ROWS} tasks can be imported at once` });
+      return;
+    }
 
-    const updatedTask = await Task.findByIdAndUpdate(
-      taskId,
-      { attachments: updatedAttachments },
-      { new: true }
-    );
+    const results = await validateImportRows(rows, { importerId: userId, channelId, timezone });
 
-    try {
-      const attachmentUserId = req.body?.userId || req.query?.userId as string || task.createdBy || 'system';
-      const attachmentActorName = await getStreamFeedsService.getUserName(attachmentUserId);
+    let createdTasks: ITask[] = [];
+    if (!dryRun) {
+      createdTasks = await createImportedTasks(results, { importerId: userId, channelId });
 
-      const tasksFeed = await getStreamFeedsService['getstreamClient'].feed('tasks', taskId);
-      await tasksFeed.addActivity({
-        actor: attachmentUserId,
-        verb: 'task_attachment_added',
-        object: taskId,
-        extra: {
-          taskId: taskId,
-          taskName: task.name,
-          fileName: file.originalname,
-          fileType: file.mimetype,
-          actor: attachmentUserId,
-          actorName: attachmentActorName,
-          channelId: task.channelId
+      // One notification per assignee instead of one per task
+      const digest = new Map<string, Array<{ taskId: string; taskName: string; change: string }>>();
+      for (const task of createdTasks) {
+        for (const assigneeId of task.assignee || []) {
+          if (assigneeId === userId) continue;
+          const changes = digest.get(assigneeId) || [];
+          changes.push({ taskId: String(task._id), taskName: task.name, change: 'assigned to you' });
+          digest.set(assigneeId, changes);
         }
-      });
+      }
+      try {
+        await getStreamFeedsService.createTaskDigestNotifications(userId, 'import', digest);
+      } catch (error) {
+        console.error('Error sending task import notifications:', error);
+      }
+    }
 
-      const usersToNotify = new Set([
-        ...(task.assignee || []),
-        task.createdBy
-      ].filter(Boolean));
+    const valid = results.filter((result) => result.valid).length;
 
-      for (const userId of usersToNotify) {
-        await getStreamFeedsService.createNotification(
-          userId,
-          'task_attachment_added',
+    res.status(dryRun ? 200 : 201).json({
+      status: 'success',
+      dryRun,
+      summary: {
+        total: results.length,
+        valid,
+        invalid: results.length - valid,
+        created: createdTasks.length
+      },
+      results
+    });
+  } catch (error) {
+    console.error('Error importing tasks:', error);
+    res.status(500).json({ error: 'Failed to import tasks' });
+  }
+});
+
+// Trashed tasks the requester created, was assigned or deleted, or all trashed tasks of a channel they belong to
+router.get('/trash', async (req: Request, res: Response) => {
+  try {
+    const { channelId, limit = '50', offset = '0' } = req.query;
+    const userId = getStreamUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    if (channelId && !(await isChannelMember(channelId as string, userId))) {
+      res.status(403).json({ error: 'You do not have access to this channel' });
+      return;
+    }
+
+    // Only list tasks that were deleted on their own, not subtasks trashed along with their parent
+    const query: any = {
+      deletedAt: { $ne: null },
+      $expr: { $eq: ['$deletionId', { $toString: '$_id' }] }
+    };
+    query.$and = [channelId
+      ? { $or: channelIdConditions(channelId as string) }
+      : {
+        $or: [
+          { createdBy: userId },
+          { assignee: { $in: [userId] } },
+          { deletedBy: userId }
+        ]
+      }];
+
+    const limitNum = Math.min(parseInt(limit as string, 10) || 50, 100);
+    const offsetNum = parseInt(offset as string, 10) || 0;
+
+    const [tasks, totalCount] = await Promise.all([
+      Task.find(query)
+        .select('_id name status priority completionDate channelId createdBy assignee parentTaskId deletedAt deletedBy attachments')
+        .sort({ deletedAt: -1 })
+        .skip(offsetNum)
+        .limit(limitNum)
+        .lean(),
+      Task.countDocuments(query)
+    ]);
+
+    const subtaskCounts = await Task.aggregate([
+      { $match: { deletedAt: { $ne: null }, deletionId: { $in: tasks.map((t) => String(t._id)) }, parentTaskId: { $exists: true } } },
+      { $group: { _id: '$deletionId', count: { $sum: 1 } } }
+    ]);
+    const subtaskCountById = new Map(subtaskCounts.map((c) => [c._id, c.count]));
+
+    res.status(200).json({
+      status: 'success',
+      tasks: tasks.map((task) => ({
+        ...task,
+        subtaskCount: subtaskCountById.get(String(task._id)) || 0,
+        purgeAt: getPurgeDate(task.deletedAt!)
+      })),
+      total: totalCount,
+      limit: limitNum,
+      offset: offsetNum,
+      hasMore: offsetNum + tasks.length < totalCount
+    });
+  } catch (error) {
+    console.error('Error fetching task trash:', error);
+    res.status(500).json({ error: 'Failed to fetch task trash' });
+  }
+});
+
+// Get all instances of a recurring task series (newest first)
+router.get('/series/:seriesId', async (req: Request, res: Response) => {
+  try {
+    const { seriesId } = req.params;
+
+    const instances = await Task.find({ seriesId, parentTaskId: { $exists: false } })
+      .sort({ completionDate: -1, createdAt: -1 })
+      .lean();
+
+    if (instances.length === 0) {
+      res.status(404).json({ error: 'Series not found' });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      seriesId,
+      recurrence: instances.find((t) => t.recurrence?.type)?.recurrence || null,
+      instances
+    });
+  } catch (error) {
+    console.error('Error fetching task series:', error);
+    res.status(500).json({ error: 'Failed to fetch task series' });
+  }
+});
+
+// Edit every open instance of a recurring task series at once
+router.put('/series/:seriesId', async (req: Request, res: Response) => {
+  try {
+    const { seriesId } = req.params;
+    const { name, assignee, priority, description, recurrence } = req.body;
+
+    const updateData: any = {};
+    if (name !== undefined) updateData.name = name;
+    if (assignee !== undefined) {
+      if (!Array.isArray(assignee) || assignee.length === 0) {
+        res.status(400).json({ error: 'Assignee must be a non-empty array' });
+        return;
+      }
+      updateData.assignee = assignee;
+    }
+    if (priority !== undefined) updateData.priority = priority;
+    if (description !== undefined) updateData.description = description;
+    if (recurrence !== undefined) {
+      const recurrenceError = validateRecurrence(recurrence);
+      if (recurrenceError) {
+        res.status(400).json({ error: recurrenceError });
+        return;
+      }
+      updateData.recurrence = normalizeRecurrence(recurrence);
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      res.status(400).json({ error: 'No series fields to update' });
+      return;
+    }
+
+    // Completed instances are history and stay as they were
+    const openInstancesFilter = { seriesId, parentTaskId: { $exists: false }, completed: { $ne: true } };
+    const previousInstances = await Task.find(openInstancesFilter).lean();
+    const result = await Task.updateMany(openInstancesFilter, updateData, { runValidators: true });
+
+    if (result.matchedCount === 0) {
+      res.status(404).json({ error: 'No open instances found for series' });
+      return;
+    }
+
+    await recordTaskUpdates(previousInstances, getStreamUserId(req));
+
+    const instances = await Task.find(openInstancesFilter);
+
+    res.status(200).json({
+      status: 'success',
+      seriesId,
+      updatedCount: result.modifiedCount,
+      instances
+    });
+  } catch (error) {
+    console.error('Error updating task series:', error);
+    res.status(500).json({ error: 'Failed to update task series' });
+  }
+});
+
+// Stop a recurring series - existing instances are kept, no new ones are spawned
+router.patch('/series/:seriesId/stop', async (req: Request, res: Response) => {
+  try {
+    const { seriesId } = req.params;
+
+    const previousInstances = await Task.find({ seriesId }).lean();
+    const result = await Task.updateMany(
+      { seriesId },
+      { $unset: { recurrence: 1 } }
+    );
+
+    if (result.matchedCount === 0) {
+      res.status(404).json({ error: 'Series not found' });
+      return;
+    }
+
+    await recordTaskUpdates(previousInstances, getStreamUserId(req));
+
+    res.status(200).json({
+      status: 'success',
+      seriesId,
+      message: 'Recurrence stopped'
+    });
+  } catch (error) {
+    console.error('Error stopping task series:', error);
+    res.status(500).json({ error: 'Failed to stop task series' });
+  }
+});
+
+router.get('/:taskId', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    if (!taskId) {
+      res.status(400).json({ error: 'Missing required parameter: taskId' });
+      return;
+    }
+
+    const task = await Task.findById(taskId);
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    // Permission check: user must be creator, assignee, or channel member
+    // Uses GetStream user ID from x-stream-user-id header (sent by mobile app)
+    const userId = getStreamUserId(req);
+    const isCreator = task.createdBy === userId;
+    const isAssignee = task.assignee?.includes(userId || '');
+    const isMember = task.channelId ? await isChannelMember(task.channelId, userId || '') : false;
+
+    console.log('Permission check:', { userId, taskCreatedBy: task.createdBy, isCreator, isAssignee, isMember });
+
+    if (!isCreator && !isAssignee && !isMember) {
+      res.status(403).json({ error: 'You do not have access to this task' });
+      return;
+    }
+
+    const comments = await Comment.find({ taskId }).sort({ createdAt: 1 });
+    const subtasks = await Task.find({ parentTaskId: taskId });
+
+    const taskObj = task.toObject();
+    if (!taskObj.status) {
+      taskObj.status = taskObj.completed ? 'completed' : 'todo';
+    }
+
+    res.status(200).json({
+      status: 'success',
+      task: taskObj,
+      subtasks,
+      comments
+    });
+  } catch (error) {
+    console.error('Error fetching task details:', error);
+    res.status(500).json({ error: 'Failed to fetch task details' });
+  }
+});
+
+router.patch('/:taskId/complete', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const { completeSubtasks, completed } = req.query;
+
+    if (!taskId) {
+      res.status(400).json({ error: 'Missing required parameter: taskId' });
+      return;
+    }
+
+    const currentTask = await Task.findById(taskId);
+    if (!currentTask) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const newCompletedStatus = completed !== undefined ? completed === 'true' : !currentTask.completed;
+
+    if (newCompletedStatus && !currentTask.completed) {
+      const openBlockers = await getOpenBlockers(currentTask);
+      if (openBlockers.length > 0) {
+        sendBlockedResponse(res, openBlockers);
+        return;
+      }
+    }
+
+    // Keep status in line with the completed flag using the channel's workflow
+    const workflowStatuses = await getChannelWorkflowStatuses(currentTask.channelId);
+    const newStatus = newCompletedStatus
+      ? (isTerminalStatus(workflowStatuses, currentTask.status) ? currentTask.status : getDefaultTerminalStatus(workflowStatuses))
+      : (isTerminalStatus(workflowStatuses, currentTask.status) ? getInitialStatus(workflowStatuses) : currentTask.status);
+    const transitionError = validateStatusTransition(workflowStatuses, currentTask.status, newStatus);
+    if (transitionError) {
+      res.status(400).json({ error: transitionError });
+      return;
+    }
+
+    const task = await Task.findByIdAndUpdate(
+      taskId,
+      { completed: newCompletedStatus, status: newStatus },
+      { new: true }
+    );
+    const historyActor = getStreamUserId(req);
+    await recordTaskHistory('updated', task, historyActor, currentTask);
+
+    if (completeSubtasks === 'true') {
+      const previousSubtasks = await Task.find({ parentTaskId: taskId }).lean();
+      await Task.updateMany(
+        { parentTaskId: taskId },
+        {
+          completed: newCompletedStatus,
+          status: newCompletedStatus ? getDefaultTerminalStatus(workflowStatuses) : getInitialStatus(workflowStatuses)
+        }
+      );
+      await recordTaskUpdates(previousSubtasks, historyActor);
+    }
+
+    if (task && newCompletedStatus !== currentTask.completed) {
+      try {
+        const actor = getStreamUserId(req) || task.createdBy;
+        await getStreamFeedsService.createTaskUpdateNotifications(currentTask, task, {
+          completed: newCompletedStatus,
+          status: newStatus,
+          actor,
+          userId: actor
+        });
+      } catch (error) {
+        console.error('Error creating task completion notifications:', error);
+      }
+    }
+
+    const subtasks = completeSubtasks === 'true'
+      ? await Task.find({ parentTaskId: taskId })
+      : [];
+
+    let nextInstance: ITask | null = null;
+    if (task && newCompletedStatus) {
+      const actor = getStreamUserId(req) || task.createdBy;
+      nextInstance = await handleTaskCompleted(currentTask, task, actor);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      task,
+      subtasks: completeSubtasks === 'true' ? subtasks : undefined,
+      nextInstance: nextInstance || undefined
+    });
+  } catch (error) {
+    console.error('Error toggling task completion:', error);
+    res.status(500).json({ error: 'Failed to toggle task completion' });
+  }
+});
+
+// Move a task on the board: change its column and position in one atomic write.
+// Body: { status?, prevTaskId?, nextTaskId? } - neighbours are the tasks directly above and below the drop position
+router.patch('/:taskId/move', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const { status, prevTaskId, nextTaskId } = req.body;
+
+    const task = await Task.findById(taskId);
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+    if (task.parentTaskId || !task.channelId) {
+      res.status(400).json({ error: 'Only top-level channel tasks can be moved on the board' });
+      return;
+    }
+
+    const statuses = await getChannelWorkflowStatuses(task.channelId);
+    const currentStatus = getBoardStatus(task);
+    const targetStatus = status || currentStatus;
+    const columnChanged = targetStatus !== currentStatus;
+
+    if (columnChanged) {
+      const transitionError = validateStatusTransition(statuses, currentStatus, targetStatus);
+      if (transitionError) {
+        res.status(400).json({ error: transitionError });
+        return;
+      }
+      if (targetStatus !== getInitialStatus(statuses)) {
+        const openBlockers = await getOpenBlockers(task);
+        if (openBlockers.length > 0) {
+          sendBlockedResponse(res, openBlockers);
+          return;
+        }
+      }
+    }
+
+    const [prevTask, nextTask] = await Promise.all([
+      prevTaskId ? Task.findById(prevTaskId).select('rank status completed channelId').lean() : null,
+      nextTaskId ? Task.findById(nextTaskId).select('rank status completed channelId').lean() : null,
+    ]);
+
+    // Neighbours that moved or were never ranked mean the client's board is stale
+    const isStaleNeighbour = (neighbour: any) =>
+      !neighbour.rank || getBoardStatus(neighbour) !== targetStatus || String(neighbour._id) === taskId;
+    if ((prevTaskId && !prevTask) || (nextTaskId && !nextTask) ||
+        (prevTask && isStaleNeighbour(prevTask)) || (nextTask && isStaleNeighbour(nextTask)) ||
+        (prevTask && nextTask && prevTask.rank! >= nextTask.rank!)) {
+      res.status(409).json({ error: 'The board has changed. Refresh and try again.' });
+      return;
+    }
+
+    let rank = rankBetween(prevTask?.rank, nextTask?.rank);
+    // Two people dropping into the same gap at once compute the same rank; step past any taken one
+    while (await Task.exists({ $or: channelIdConditions(task.channelId), status: targetStatus, rank, _id: { $ne: task._id } })) {
+      rank = rankBetween(rank, nextTask?.rank);
+    }
+
+    // Only apply the move if nobody changed the task's column in the meantime
+    const updatedTask = await Task.findOneAndUpdate(
+      { _id: taskId, status: task.status ?? { $exists: false } },
+      { status: targetStatus, rank, completed: isTerminalStatus(statuses, targetStatus) },
+      { new: true }
+    );
+    if (!updatedTask) {
+      const latest = await Task.findById(taskId);
+      res.status(409).json({ error: 'Task was moved by someone else. Refresh and try again.', task: latest });
+      return;
+    }
+
+    const actor = getStreamUserId(req) || updatedTask.createdBy;
+    await recordTaskHistory('updated', updatedTask, actor, task);
+    if (columnChanged) {
+      try {
+        await getStreamFeedsService.createTaskUpdateNotifications(task, updatedTask, {
+          status: targetStatus,
+          completed: updatedTask.completed,
+          actor,
+          userId: actor
+        });
+      } catch (error) {
+        console.error('Error creating task move notifications:', error);
+      }
+    }
+
+    let nextInstance: ITask | null = null;
+    if (updatedTask.completed && !task.completed) {
+      nextInstance = await handleTaskCompleted(task, updatedTask, actor);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      task: updatedTask,
+      nextInstance: nextInstance || undefined
+    });
+  } catch (error) {
+    console.error('Error moving task:', error);
+    res.status(500).json({ error: 'Failed to move task' });
+  }
+});
+
+router.put('/:taskId', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    if (!taskId) {
+      res.status(400).json({ error: 'Missing required parameter: taskId' });
+      return;
+    }
+
+    const originalTask = await Task.findById(taskId);
+    if (!originalTask) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const {
+      name, assignee, priority, completionDate, channelId,
+      description, completed, status, parentTaskId, attachments,
+      timezone, recurrence, estimate
+    } = req.body;
+
+    const updateData: any = {};
+    if (name !== undefined) updateData.name = name;
+    if (assignee !== undefined) {
+      if (!Array.isArray(assignee) || assignee.length === 0) {
+        res.status(400).json({ error: 'Assignee must be a non-empty array' });
+        return;
+      }
+      updateData.assignee = assignee;
+    }
+    if (priority !== undefined) updateData.priority = priority;
+    if (completionDate !== undefined) {
+      // Allow clearing completionDate by passing empty string or null
+      updateData.completionDate = completionDate ? new Date(completionDate) : null;
+    }
+    if (channelId !== undefined) updateData.channelId = channelId;
+    if (description !== undefined) updateData.description = description;
+    if (estimate !== undefined) {
+      // Allow clearing the estimate by passing null
+      const estimateError = validateEstimate(estimate);
+      if (estimateError) {
+        res.status(400).json({ error: estimateError });
+        return;
+      }
+      updateData.estimate = normalizeEstimate(estimate);
+    }
+
+    // Validate status against the channel's workflow and keep completed/status consistent
+    const workflowStatuses = await getChannelWorkflowStatuses(channelId !== undefined ? channelId : originalTask.channelId);
+    if (status !== undefined) {
+      const transitionError = validateStatusTransition(workflowStatuses, originalTask.status, status);
+      if (transitionError) {
+        res.status(400).json({ error: transitionError });
+        return;
+      }
+      updateData.status = status;
+      updateData.completed = isTerminalStatus(workflowStatuses, status);
+    } else if (completed !== undefined) {
+      updateData.completed = completed;
+      if (completed && !isTerminalStatus(workflowStatuses, originalTask.status)) {
+        updateData.status = getDefaultTerminalStatus(workflowStatuses);
+      } else if (!completed && isTerminalStatus(workflowStatuses, originalTask.status)) {
+        updateData.status = getInitialStatus(workflowStatuses);
+      }
+      const transitionError = updateData.status && validateStatusTransition(workflowStatuses, originalTask.status, updateData.status);
+      if (transitionError) {
+        res.status(400).json({ error: transitionError });
+        return;
+      }
+    }
+    if (parentTaskId !== undefined) updateData.parentTaskId = parentTaskId;
+    if (attachments !== undefined) {
+      updateData.attachments = Array.isArray(attachments)
+        ? mergeClientAttachments(originalTask.attachments, attachments)
+        : attachments;
+    }
+    if (timezone !== undefined) updateData.timezone = timezone;
+
+    // A blocked task may only stay in (or return to) the initial status
+    const movingToBlockedStatus = (updateData.status !== undefined &&
+      updateData.status !== originalTask.status &&
+      updateData.status !== getInitialStatus(workflowStatuses)) ||
+      (updateData.completed === true && !originalTask.completed);
+    if (movingToBlockedStatus) {
+      const openBlockers = await getOpenBlockers(originalTask);
+      if (openBlockers.length > 0) {
+        sendBlockedResponse(res, openBlockers);
+        return;
+      }
+    }
+
+    if (recurrence !== undefined) {
+      // Allow stopping recurrence by passing null
+      if (recurrence) {
+        const recurrenceError = originalTask.parentTaskId ? 'Subtasks cannot recur on their own' : validateRecurrence(recurrence);
+        if (recurrenceError) {
+          res.status(400).json({ error: recurrenceError });
+          return;
+        }
+        updateData.recurrence = normalizeRecurrence(recurrence);
+        updateData.seriesId = originalTask.seriesId || String(originalTask._id);
+      } else {
+        updateData.recurrence = null;
+      }
+    }
+
+    const updatedTask = await Task.findByIdAndUpdate(
+      taskId,
+      updateData,
+      { new: true, runValidators: true }
+    );
+
+    if (!updatedTask) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const userId = getStreamUserId(req);
+    await recordTaskHistory('updated', updatedTask, userId, originalTask);
+
+    try {
+      const actorUserId = userId || updatedTask.createdBy || 'system';
+      const updateDataWithActor = {
+        ...updateData,
+        actor: actorUserId,
+        userId: actorUserId
+      };
+      await getStreamFeedsService.createTaskUpdateNotifications(originalTask, updatedTask, updateDataWithActor);
+    } catch (error) {
+      console.error('Error creating task update notifications:', error);
+    }
+
+    let nextInstance: ITask | null = null;
+    if (updatedTask.completed) {
+      nextInstance = await handleTaskCompleted(originalTask, updatedTask, userId || updatedTask.createdBy || 'system');
+    }
+
+    res.status(200).json({ status: 'success', task: updatedTask, nextInstance: nextInstance || undefined });
+  } catch (error) {
+    console.error('Error updating task:', error);
+    res.status(500).json({ error: 'Failed to update task' });
+  }
+});
+
+// Move a task to the trash with its subtasks and comments; it can be restored until the retention job purges it
+router.delete('/:taskId', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    if (!taskId) {
+      res.status(400).json({ error: 'Missing required parameter: taskId' });
+      return;
+    }
+
+    const task = await Task.findById(taskId);
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const userId = getStreamUserId(req) || 'system';
+    const trashedIds = await softDeleteTasks([taskId], userId);
+    await recordTaskEvents('deleted', trashedIds, userId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Task moved to trash',
+      deletedTaskId: taskId,
+      trashedTaskIds: trashedIds,
+      purgeAt: getPurgeDate(new Date())
+    });
+  } catch (error) {
+    console.error('Error deleting task:', error);
+    res.status(500).json({ error: 'Failed to delete task' });
+  }
+});
+
+// Restore a trashed task together with the subtasks and comments trashed with it
+router.post('/:taskId/restore', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    if (!mongoose.isValidObjectId(taskId)) {
+      res.status(400).json({ error: 'Invalid task ID' });
+      return;
+    }
+
+    const task = await Task.findOne({ _id: taskId, deletedAt: { $ne: null } });
+    if (!task) {
+      res.status(404).json({ error: 'Task not found in trash' });
+      return;
+    }
+
+    if (task.deletionId !== taskId) {
+      res.status(409).json({
+        error: 'This task was deleted together with its parent task. Restore the parent task instead.',
+        parentTaskId: task.deletionId
+      });
+      return;
+    }
+    if (task.parentTaskId && !(await Task.exists({ _id: task.parentTaskId }))) {
+      res.status(409).json({
+        error: 'The parent task is deleted. Restore the parent task first.',
+        parentTaskId: task.parentTaskId
+      });
+      return;
+    }
+
+    const trashedTogether = await Task.find({ deletionId: taskId, deletedAt: { $ne: null } }).select('_id').lean();
+    const restoredCount = await restoreTask(taskId);
+    const restoredTask = await Task.findById(taskId);
+    await recordTaskEvents(
+      'restored',
+      trashedTogether.map((trashed) => String(trashed._id)),
+      getStreamUserId(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Task restored successfully',
+      task: restoredTask,
+      restoredCount
+    });
+  } catch (error) {
+    console.error('Error restoring task:', error);
+    res.status(500).json({ error: 'Failed to restore task' });
+  }
+});
+
+/**
+ * POST /task/:taskId/attachments/upload (multipart, field "file")
+ * Body: { commentId?, attachmentId? }. The uploader is the authenticated user.
+ * Uploading a file with the same name as an attachment, or with its attachmentId, adds a new version of it.
+ * Images get a thumbnail and PDFs a first-page preview.
+ */
+router.post('/:taskId/attachments/upload', upload.single('file'), async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const { attachmentId } = req.body;
+    const file = req.file;
+    const userId = getStreamUserId(req);
+
+    if (!taskId || !file) {
+      res.status(400).json({ error: 'Missing required parameters' });
+      return;
+    }
+
+    const task = await Task.findById(taskId);
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    if (attachmentId && !(task.attachments || []).some((attachment) => String(attachment._id) === String(attachmentId))) {
+      res.status(404).json({ error: 'Attachment not found' });
+      return;
+    }
+
+    const { task: updatedTask, attachment, isNewVersion } = await saveTaskAttachment(task, file, {
+      uploadedBy: userId || undefined,
+      commentId: req.body.commentId ? String(req.body.commentId) : null,
+      attachmentId: attachmentId ? String(attachmentId) : undefined,
+    });
+    if (!updatedTask || !attachment) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+    await recordTaskHistory('updated', updatedTask, getStreamUserId(req), task);
+
+    try {
+      const attachmentUserId = userId || task.createdBy || 'system';
+      const attachmentActorName = await getStreamFeedsService.getUserName(attachmentUserId);
+
+      const tasksFeed = await getStreamFeedsService['getstreamClient'].feed('tasks', taskId);
+      await tasksFeed.addActivity({
+        actor: attachmentUserId,
+        verb: 'task_attachment_added',
+        object: taskId,
+        extra: {
+          taskId: taskId,
+          taskName: task.name,
+          fileName: file.originalname,
+          fileType: file.mimetype,
+          attachmentId: String(attachment._id),
+          version: attachment.version,
+          thumbnailUri: attachment.thumbnailUri || null,
+          actor: attachmentUserId,
+          actorName: attachmentActorName,
+          channelId: task.channelId
+        }
+      });
+
+      const usersToNotify = new Set([
+        ...(task.assignee || []),
+        task.createdBy,
+        ...(task.watchers || [])
+      ].filter(Boolean));
+
+      for (const userId of usersToNotify) {
+        await getStreamFeedsService.createNotification(
+          userId,
+          'task_attachment_added',
           taskId,
           {
             taskId: taskId,
             taskName: task.name,
             fileName: file.originalname,
             fileType: file.mimetype,
+            attachmentId: String(attachment._id),
+            version: attachment.version,
             actor: attachmentUserId,
             channelId: task.channelId
           }
@@ -631,8 +1718,8 @@ router.post('/:taskId/attachments/upload', upload.single('file'), async (req: Re
     res.status(200).json({
       status: 'success',
       task: updatedTask,
-      attachment: newAttachment,
-      message: 'Attachment added successfully'
+      attachment: formatAttachment(attachment),
+      message: isNewVersion ? 'New attachment version added successfully' : 'Attachment added successfully'
     });
   } catch (error) {
     console.error('Error handling attachment upload:', error);
@@ -657,13 +1744,7 @@ router.get('/:taskId/attachments', async (req: Request, res: Response) => {
 
     res.status(200).json({
       status: 'success',
-      attachments: (task.attachments || []).map((att: TaskAttachment) => ({
-        uri: att.uri,
-        name: att.name,
-        type: att.type,
-        size: att.size,
-        commentId: att.commentId || null
-      })),
+      attachments: (task.attachments || []).map(formatAttachment),
       taskId
     });
   } catch (error) {
@@ -672,9 +1753,43 @@ router.get('/:taskId/attachments', async (req: Request, res: Response) => {
   }
 });
 
-router.delete('/:taskId/attachments/:attachmentIndex', async (req: Request, res: Response) => {
+// Version history of an attachment, newest first
+router.get('/:taskId/attachments/:attachmentId/versions', async (req: Request, res: Response) => {
+  try {
+    const { taskId, attachmentId } = req.params;
+
+    const task = await Task.findById(taskId).select('attachments');
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const attachment = (task.attachments || []).find((item) => String(item._id) === attachmentId);
+    if (!attachment) {
+      res.status(404).json({ error: 'Attachment not found' });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      attachment: formatAttachment(attachment),
+      versions: getAttachmentVersions(attachment),
+      taskId
+    });
+  } catch (error) {
+    console.error('Error fetching attachment versions:', error);
+    res.status(500).json({ error: 'Failed to fetch attachment versions' });
+  }
+});
+
+/**
+ * DELETE /task/:taskId/attachments/:attachmentId
+ * Removes the attachment with all its versions. A numeric position in the list is still accepted
+ * from older clients, but can hit the wrong file if the list changed since it was loaded.
+ */
+router.delete('/:taskId/attachments/:attachmentId', async (req: Request, res: Response) => {
   try {
-    const { taskId, attachmentIndex } = req.params;
+    const { taskId, attachmentId } = req.params;
     const userId = req.query.userId as string || req.body.userId;
 
     if (!taskId) {
@@ -682,9 +1797,10 @@ router.delete('/:taskId/attachments/:attachmentIndex', async (req: Request, res:
       return;
     }
 
-    const index = parseInt(attachmentIndex);
-    if (isNaN(index) || index < 0) {
-      res.status(400).json({ error: 'Invalid attachment index' });
+    const byId = isAttachmentId(attachmentId);
+    const index = byId ? -1 : parseInt(attachmentId);
+    if (!byId && (isNaN(index) || index < 0)) {
+      res.status(400).json({ error: 'Invalid attachment id' });
       return;
     }
 
@@ -694,19 +1810,21 @@ router.delete('/:taskId/attachments/:attachmentIndex', async (req: Request, res:
       return;
     }
 
-    if (!task.attachments || index >= task.attachments.length) {
+    const removedAttachment = byId
+      ? (task.attachments || []).find((attachment) => String(attachment._id) === attachmentId)
+      : task.attachments?.[index];
+    if (!removedAttachment) {
       res.status(404).json({ error: 'Attachment not found' });
       return;
     }
 
-    const removedAttachment = task.attachments[index];
-    const updatedAttachments = task.attachments.filter((_, i) => i !== index);
-
+    // Pulled by id, so attachments added or removed by others in the meantime are left alone
     const updatedTask = await Task.findByIdAndUpdate(
       taskId,
-      { attachments: updatedAttachments },
+      { $pull: { attachments: { _id: removedAttachment._id } } },
       { new: true }
     );
+    await recordTaskHistory('updated', updatedTask, getStreamUserId(req), task);
 
     try {
       const attachmentRemoveUserId = userId || 'system';
@@ -721,6 +1839,7 @@ router.delete('/:taskId/attachments/:attachmentIndex', async (req: Request, res:
           taskId: taskId,
           taskName: task.name,
           fileName: removedAttachment.name,
+          attachmentId: String(removedAttachment._id),
           actor: attachmentRemoveUserId,
           actorName: attachmentRemoveActorName,
           channelId: task.channelId
@@ -729,7 +1848,8 @@ router.delete('/:taskId/attachments/:attachmentIndex', async (req: Request, res:
 
       const usersToNotify = new Set([
         ...(task.assignee || []),
-        task.createdBy
+        task.createdBy,
+        ...(task.watchers || [])
       ].filter(Boolean));
 
       for (const userIdToNotify of usersToNotify) {
@@ -761,6 +1881,324 @@ router.delete('/:taskId/attachments/:attachmentIndex', async (req: Request, res:
   }
 });
 
+// Users following a task without being assigned to it
+router.get('/:taskId/watchers', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+
+    const task = await Task.findById(taskId).select('watchers');
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      taskId,
+      watchers: task.watchers || []
+    });
+  } catch (error) {
+    console.error('Error fetching task watchers:', error);
+    res.status(500).json({ error: 'Failed to fetch task watchers' });
+  }
+});
+
+// Follow a task as the authenticated user - anyone who can see the task can follow it
+router.post('/:taskId/watchers', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    // Users can only follow a task themselves; others start watching when they are @mentioned
+    const userId = getStreamUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const task = await Task.findById(taskId);
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const canSee = task.createdBy === userId || task.assignee?.includes(userId) ||
+      (task.channelId ? await isChannelMember(task.channelId, userId) : false);
+    if (!canSee) {
+      res.status(403).json({ error: 'You do not have access to this task' });
+      return;
+    }
+
+    const updatedTask = await addTaskWatchers(taskId, [userId], userId);
+
+    res.status(200).json({
+      status: 'success',
+      taskId,
+      watchers: updatedTask?.watchers || []
+    });
+  } catch (error) {
+    console.error('Error following task:', error);
+    res.status(500).json({ error: 'Failed to follow task' });
+  }
+});
+
+// Unfollow a task. Watchers remove themselves; the task creator and channel moderators can remove anyone.
+router.delete('/:taskId/watchers/:watcherId', async (req: Request, res: Response) => {
+  try {
+    const { taskId, watcherId } = req.params;
+    const userId = getStreamUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const task = await Task.findById(taskId);
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    if (!task.watchers?.includes(watcherId)) {
+      res.status(404).json({ error: 'User is not watching this task' });
+      return;
+    }
+
+    const canRemove = userId === watcherId || userId === task.createdBy ||
+      (task.channelId ? await isChannelAdmin(task.channelId, userId) : false);
+    if (!canRemove) {
+      res.status(403).json({ error: 'Only the watcher, the task creator or channel moderators can remove a watcher' });
+      return;
+    }
+
+    const updatedTask = await removeTaskWatcher(taskId, watcherId, userId);
+
+    res.status(200).json({
+      status: 'success',
+      taskId,
+      watchers: updatedTask?.watchers || []
+    });
+  } catch (error) {
+    console.error('Error unfollowing task:', error);
+    res.status(500).json({ error: 'Failed to unfollow task' });
+  }
+});
+
+// Get direct dependencies of a task: tasks blocking it and tasks it blocks
+router.get('/:taskId/dependencies', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+
+    const task = await Task.findById(taskId);
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const [blockedBy, blocking] = await Promise.all([
+      Task.find({ _id: { $in: task.blockedBy || [] } })
+        .select('_id name status completed assignee completionDate')
+        .lean(),
+      Task.find({ blockedBy: taskId })
+        .select('_id name status completed assignee completionDate')
+        .lean(),
+    ]);
+
+    const openBlockers = blockedBy.filter((blocker) => !blocker.completed && blocker.status !== 'completed');
+
+    res.status(200).json({
+      status: 'success',
+      taskId,
+      isBlocked: openBlockers.length > 0,
+      blockedBy,
+      blocking
+    });
+  } catch (error) {
+    console.error('Error fetching task dependencies:', error);
+    res.status(500).json({ error: 'Failed to fetch task dependencies' });
+  }
+});
+
+// Get the full dependency graph around a task, with cycle detection
+router.get('/:taskId/dependencies/graph', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+
+    const task = await Task.findById(taskId).select('_id');
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const graph = await buildDependencyGraph(taskId);
+
+    res.status(200).json({
+      status: 'success',
+      graph
+    });
+  } catch (error) {
+    console.error('Error building task dependency graph:', error);
+    res.status(500).json({ error: 'Failed to build task dependency graph' });
+  }
+});
+
+// Add a dependency link. Body: { blockedBy: taskId } or { blocks: taskId }
+router.post('/:taskId/dependencies', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const { blockedBy, blocks } = req.body;
+
+    if ((!blockedBy && !blocks) || (blockedBy && blocks)) {
+      res.status(400).json({ error: 'Provide exactly one of: blockedBy, blocks' });
+      return;
+    }
+
+    const otherTaskId = String(blockedBy || blocks);
+    if (!mongoose.isValidObjectId(otherTaskId)) {
+      res.status(400).json({ error: 'Invalid task ID' });
+      return;
+    }
+
+    // Normalize to "blockedTaskId is blocked by blockerTaskId"
+    const blockedTaskId = blockedBy ? taskId : otherTaskId;
+    const blockerTaskId = blockedBy ? otherTaskId : taskId;
+
+    const [blockedTask, blockerTask] = await Promise.all([
+      Task.findById(blockedTaskId),
+      Task.findById(blockerTaskId),
+    ]);
+    if (!blockedTask || !blockerTask) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    if (await wouldCreateCycle(blockedTaskId, blockerTaskId)) {
+      res.status(409).json({ error: 'Dependency would create a cycle' });
+      return;
+    }
+
+    const updatedTask = await Task.findByIdAndUpdate(
+      blockedTaskId,
+      { $addToSet: { blockedBy: blockerTaskId } },
+      { new: true }
+    );
+    await recordTaskHistory('updated', updatedTask, getStreamUserId(req), blockedTask);
+
+    try {
+      const actor = getStreamUserId(req) || blockedTask.createdBy;
+      const actorName = await getStreamFeedsService.getUserName(actor);
+      const tasksFeed = getStreamFeedsService['getstreamClient'].feed('tasks', blockedTaskId);
+      await tasksFeed.addActivity({
+        actor,
+        verb: 'task_dependency_added',
+        object: blockedTaskId,
+        extra: {
+          taskId: blockedTaskId,
+          taskName: blockedTask.name,
+          blockerTaskId,
+          blockerTaskName: blockerTask.name,
+          actor,
+          actorName,
+          channelId: blockedTask.channelId
+        }
+      });
+    } catch (error) {
+      console.error('Error creating dependency activity:', error);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      task: updatedTask
+    });
+  } catch (error) {
+    console.error('Error adding task dependency:', error);
+    res.status(500).json({ error: 'Failed to add task dependency' });
+  }
+});
+
+// Remove a dependency link: taskId is no longer blocked by blockerTaskId
+router.delete('/:taskId/dependencies/:blockerTaskId', async (req: Request, res: Response) => {
+  try {
+    const { taskId, blockerTaskId } = req.params;
+
+    const task = await Task.findById(taskId);
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    if (!task.blockedBy?.includes(blockerTaskId)) {
+      res.status(404).json({ error: 'Dependency not found' });
+      return;
+    }
+
+    const updatedTask = await Task.findByIdAndUpdate(
+      taskId,
+      { $pull: { blockedBy: blockerTaskId } },
+      { new: true }
+    );
+    await recordTaskHistory('updated', updatedTask, getStreamUserId(req), task);
+
+    res.status(200).json({
+      status: 'success',
+      task: updatedTask
+    });
+  } catch (error) {
+    console.error('Error removing task dependency:', error);
+    res.status(500).json({ error: 'Failed to remove task dependency' });
+  }
+});
+
+// Audit trail of a task: who changed which fields and when, newest first. Also works for trashed tasks.
+// Query: limit?, before? (ISO date of the oldest entry already loaded), includeSubtasks?
+router.get('/:taskId/history', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const { before, includeSubtasks } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+    if (!mongoose.isValidObjectId(taskId)) {
+      res.status(400).json({ error: 'Invalid task ID' });
+      return;
+    }
+    if (before && isNaN(new Date(before as string).getTime())) {
+      res.status(400).json({ error: 'before must be a valid date' });
+      return;
+    }
+
+    const task = await Task.findById(taskId).select('_id').setOptions({ withDeleted: true });
+    const hasHistory = task || await TaskHistory.exists({ taskId });
+    if (!hasHistory) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const query: any = includeSubtasks === 'true'
+      ? { $or: [{ taskId }, { parentTaskId: taskId }] }
+      : { taskId };
+    if (before) {
+      query.createdAt = { $lt: new Date(before as string) };
+    }
+
+    // One extra entry tells whether there is another page
+    const entries = await TaskHistory.find(query)
+      .sort({ createdAt: -1 })
+      .limit(limit + 1)
+      .lean();
+    const history = entries.slice(0, limit);
+
+    res.status(200).json({
+      status: 'success',
+      taskId,
+      history,
+      hasMore: entries.length > limit,
+      nextBefore: entries.length > limit ? history[history.length - 1].createdAt : null
+    });
+  } catch (error) {
+    console.error('Error fetching task history:', error);
+    res.status(500).json({ error: 'Failed to fetch task history' });
+  }
+});
+
 router.get('/:taskId/activities', async (req: Request, res: Response) => {
   try {
     const { taskId } = req.params;
@@ -770,7 +2208,26 @@ router.get('/:taskId/activities', async (req: Request, res: Response) => {
       return;
     }
 
-    const activities = await getStreamFeedsService.getTaskActivities(taskId);
+    let activities: any[] = [];
+    let feedAvailable = true;
+    try {
+      activities = await getStreamFeedsService.getTaskActivities(taskId, 100, { throwOnError: true });
+    } catch (error) {
+      feedAvailable = false;
+    }
+
+    // Fall back to the stored change history when GetStream is down or has nothing for the task
+    if (!feedAvailable || activities.length === 0) {
+      const historyActivities = await getHistoryActivities(taskId);
+      if (historyActivities.length > 0 || !feedAvailable) {
+        res.status(200).json({
+          status: 'success',
+          activities: historyActivities,
+          source: 'history'
+        });
+        return;
+      }
+    }
 
     res.status(200).json({
       status: 'success',
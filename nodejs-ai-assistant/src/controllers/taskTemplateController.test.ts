@@ -0,0 +1,61 @@
+jest.mock('../serverClient', () => ({ serverClient: {} }));
+jest.mock('../utils/getstreamFeedsService', () => ({ getStreamFeedsService: {} }));
+jest.mock('../utils/channelRoles', () => ({
+  ...jest.requireActual('../utils/channelRoles'),
+  isChannelAdmin: jest.fn(async (channelId: string, userId: string) => userId === 'owner'),
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { TaskTemplate } from '../models/TaskTemplate';
+import router from './taskTemplateController';
+
+const app = express();
+app.use(express.json());
+app.use('/task-template', router);
+
+const templateId = '64b000000000000000000003';
+const template = { _id: templateId, name: 'Site handover', channelId: 'site-1', createdBy: 'creator', set: jest.fn(), save: jest.fn() };
+
+beforeEach(() => {
+  jest.spyOn(TaskTemplate, 'findById').mockResolvedValue(template as any);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('managing task templates', () => {
+  it('checks the authenticated user, not a userId in the body', async () => {
+    const response = await request(app)
+      .put(`/task-template/${templateId}`)
+      .set('x-stream-user-id', 'member')
+      .send({ userId: 'creator', name: 'Renamed' });
+
+    expect(response.status).toBe(403);
+    expect(template.save).not.toHaveBeenCalled();
+  });
+
+  it('does not delete on behalf of a userId in the query', async () => {
+    const remove = jest.spyOn(TaskTemplate, 'findByIdAndDelete');
+
+    const response = await request(app).delete(`/task-template/${templateId}`).set('x-stream-user-id', 'member').query({ userId: 'creator' });
+
+    expect(response.status).toBe(403);
+    expect(remove).not.toHaveBeenCalled();
+  });
+
+  it('lets the channel owner delete a template', async () => {
+    const remove = jest.spyOn(TaskTemplate, 'findByIdAndDelete').mockResolvedValue(null);
+
+    const response = await request(app).delete(`/task-template/${templateId}`).set('x-stream-user-id', 'owner');
+
+    expect(response.status).toBe(200);
+    expect(remove).toHaveBeenCalledWith(templateId);
+  });
+
+  it('requires an authenticated user to create tasks from a template', async () => {
+    const response = await request(app).post(`/task-template/${templateId}/instantiate`).send({ userId: 'creator' });
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,211 @@
+import express, { Request, Response, Router } from 'express';
+import { TaskTemplate } from '../models/TaskTemplate';
+import { getStreamUserId } from '../middleware/auth';
+import { isChannelAdmin } from '../utils/channelRoles';
+import { normalizeWorkflowChannelId } from '../utils/taskWorkflow';
+import {
+  instantiateTaskTemplate,
+  normalizeTaskTemplate,
+  validateTaskTemplate,
+} from '../utils/taskTemplates';
+
+const router: Router = express.Router();
+
+// Templates can be changed by whoever created them, or the channel's owner and moderators
+const canManageTemplate = async (template: { createdBy: string; channelId: string }, userId?: string | null) =>
+  !!userId && (template.createdBy === userId || await isChannelAdmin(template.channelId, userId));
+
+/**
+ * GET /task-template?channelId=
+ * Templates available in a channel, sorted by name
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { channelId } = req.query;
+
+    if (!channelId) {
+      res.status(400).json({ error: 'Missing required parameter: channelId' });
+      return;
+    }
+
+    const templates = await TaskTemplate.find({ channelId: normalizeWorkflowChannelId(channelId as string) })
+      .sort({ name: 1 })
+      .lean();
+
+    res.status(200).json({ status: 'success', templates });
+  } catch (error) {
+    console.error('Error fetching task templates:', error);
+    res.status(500).json({ error: 'Failed to fetch task templates' });
+  }
+});
+
+router.get('/:templateId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const template = await TaskTemplate.findById(req.params.templateId).lean();
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    res.status(200).json({ status: 'success', template });
+  } catch (error) {
+    console.error('Error fetching task template:', error);
+    res.status(500).json({ error: 'Failed to fetch task template' });
+  }
+});
+
+/**
+ * POST /task-template
+ * Body: { channelId, name, description?, priority?, defaultAssigneeRoles?, dueOffsetDays?,
+ *         subtasks?: Array<{ name, description?, priority?, assigneeRoles?, dueOffsetDays? }> }
+ * The requester (x-stream-user-id) becomes the template's creator.
+ */
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { channelId } = req.body;
+    const userId = getStreamUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    if (!channelId) {
+      res.status(400).json({ error: 'Missing required field: channelId' });
+      return;
+    }
+
+    const validationError = validateTaskTemplate(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const template = new TaskTemplate({
+      ...normalizeTaskTemplate(req.body),
+      channelId: normalizeWorkflowChannelId(channelId),
+      createdBy: userId,
+    });
+    await template.save();
+
+    res.status(201).json({ status: 'success', template });
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      res.status(409).json({ error: 'A template with this name already exists in the channel' });
+      return;
+    }
+    console.error('Error creating task template:', error);
+    res.status(500).json({ error: 'Failed to create task template' });
+  }
+});
+
+/**
+ * PUT /task-template/:templateId
+ * Replace a template's definition. Body as for POST.
+ */
+router.put('/:templateId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = getStreamUserId(req);
+
+    const template = await TaskTemplate.findById(req.params.templateId);
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+    if (!(await canManageTemplate(template, userId))) {
+      res.status(403).json({ error: 'Only the template creator or channel moderators can change this template' });
+      return;
+    }
+
+    const validationError = validateTaskTemplate(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    template.set(normalizeTaskTemplate(req.body));
+    await template.save();
+
+    res.status(200).json({ status: 'success', template });
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      res.status(409).json({ error: 'A template with this name already exists in the channel' });
+      return;
+    }
+    console.error('Error updating task template:', error);
+    res.status(500).json({ error: 'Failed to update task template' });
+  }
+});
+
+router.delete('/:templateId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = getStreamUserId(req);
+
+    const template = await TaskTemplate.findById(req.params.templateId);
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+    if (!(await canManageTemplate(template, userId))) {
+      res.status(403).json({ error: 'Only the template creator or channel moderators can delete this template' });
+      return;
+    }
+
+    await TaskTemplate.findByIdAndDelete(template._id);
+
+    res.status(200).json({ status: 'success', message: 'Template deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting task template:', error);
+    res.status(500).json({ error: 'Failed to delete task template' });
+  }
+});
+
+/**
+ * POST /task-template/:templateId/instantiate
+ * Create a task with the template's subtasks, requested by x-stream-user-id.
+ * Body: { channelId?, name?, assignees?, startDate?, timezone? }
+ */
+router.post('/:templateId/instantiate', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { channelId, name, assignees, startDate, timezone } = req.body;
+    const userId = getStreamUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    if (assignees !== undefined && (!Array.isArray(assignees) || assignees.length === 0)) {
+      res.status(400).json({ error: 'assignees must be a non-empty array' });
+      return;
+    }
+    if (startDate && isNaN(new Date(startDate).getTime())) {
+      res.status(400).json({ error: 'startDate must be a valid date' });
+      return;
+    }
+
+    const template = await TaskTemplate.findById(req.params.templateId);
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    const { task, subtasks } = await instantiateTaskTemplate(template, {
+      requesterId: userId,
+      channelId,
+      name,
+      assignees,
+      startDate: startDate ? new Date(startDate) : undefined,
+      timezone,
+    });
+
+    res.status(201).json({
+      status: 'success',
+      task,
+      subtasks
+    });
+  } catch (error) {
+    console.error('Error instantiating task template:', error);
+    res.status(500).json({ error: 'Failed to create task from template' });
+  }
+});
+
+export default router;
@@ -0,0 +1,48 @@
+import express from 'express';
+import request from 'supertest';
+import { Task } from '../models/Task';
+import { TimeEntry } from '../models/TimeEntry';
+import router from './taskTimeController';
+
+const app = express();
+app.use(express.json());
+app.use('/task', router);
+
+const taskId = '64b000000000000000000001';
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('task time entries', () => {
+  it('logs time for the authenticated user, not a userId in the body', async () => {
+    jest.spyOn(Task, 'findById').mockReturnValue({ select: () => ({ lean: async () => ({ _id: taskId, channelId: 'messaging:site-1' }) }) } as any);
+    const save = jest.spyOn(TimeEntry.prototype, 'save').mockImplementation(async function (this: any) { return this; });
+
+    const response = await request(app)
+      .post(`/task/${taskId}/time-entries`)
+      .set('x-stream-user-id', 'member')
+      .send({ userId: 'someone-else', startTime: '2026-03-02T09:00:00Z', durationMinutes: 90 });
+
+    expect(response.status).toBe(201);
+    expect(response.body.entry).toMatchObject({ userId: 'member', projectId: 'site-1', durationSeconds: 5400 });
+    expect(save).toHaveBeenCalled();
+  });
+
+  it('requires an authenticated user to start a timer', async () => {
+    const response = await request(app).post(`/task/${taskId}/timer/start`).send({ userId: 'member' });
+    expect(response.status).toBe(401);
+  });
+
+  it('only stops the authenticated user\'s own timer', async () => {
+    const findOne = jest.spyOn(TimeEntry, 'findOne').mockResolvedValue(null);
+
+    const response = await request(app)
+      .post(`/task/${taskId}/timer/stop`)
+      .set('x-stream-user-id', 'member')
+      .send({ userId: 'someone-else' });
+
+    expect(response.status).toBe(404);
+    expect(findOne).toHaveBeenCalledWith({ taskId, userId: 'member', isRunning: true });
+  });
+});
@@ -0,0 +1,196 @@
+import express, { Request, Response, Router } from 'express';
+import { Task } from '../models/Task';
+import { TimeEntry } from '../models/TimeEntry';
+import { getStreamUserId } from '../middleware/auth';
+import { getTaskProjectId, stopTimeEntry, sumSecondsBy } from '../utils/timeTracking';
+
+const router: Router = express.Router();
+
+// Longest manual entry accepted, anything longer is almost certainly a typo
+const MAX_MANUAL_ENTRY_HOURS = 24;
+
+/**
+ * GET /task/:taskId/time-entries
+ * Time logged on a task and its subtasks, with totals per user
+ */
+router.get('/:taskId/time-entries', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+
+    const task = await Task.findById(taskId).select('_id name').lean();
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const subtasks = await Task.find({ parentTaskId: taskId }).select('_id').lean();
+    const taskIds = [taskId, ...subtasks.map((s) => String(s._id))];
+
+    const entries = await TimeEntry.find({ taskId: { $in: taskIds } }).sort({ startTime: -1 }).lean();
+    const ownEntries = entries.filter((e) => e.taskId === taskId);
+
+    const totalSeconds = Object.values(sumSecondsBy(ownEntries, () => 'total'))[0] || 0;
+    const totalSecondsWithSubtasks = Object.values(sumSecondsBy(entries, () => 'total'))[0] || 0;
+
+    res.status(200).json({
+      status: 'success',
+      entries,
+      totals: {
+        totalSeconds,
+        totalSecondsWithSubtasks,
+        byUser: sumSecondsBy(entries, (e) => e.userId),
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching time entries:', error);
+    res.status(500).json({ error: 'Failed to fetch time entries' });
+  }
+});
+
+/**
+ * POST /task/:taskId/time-entries
+ * Log time manually as the requester (x-stream-user-id). Body: { startTime, endTime? | durationMinutes?, note? }
+ */
+router.post('/:taskId/time-entries', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const { startTime, endTime, durationMinutes, note } = req.body;
+    const userId = getStreamUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    if (!startTime || (!endTime && durationMinutes === undefined)) {
+      res.status(400).json({ error: 'Missing required fields: startTime and endTime or durationMinutes' });
+      return;
+    }
+
+    const start = new Date(startTime);
+    const end = endTime ? new Date(endTime) : new Date(start.getTime() + Number(durationMinutes) * 60000);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      res.status(400).json({ error: 'startTime, endTime and durationMinutes must be valid' });
+      return;
+    }
+    if (end <= start || end.getTime() - start.getTime() > MAX_MANUAL_ENTRY_HOURS * 3600000) {
+      res.status(400).json({ error: `Time entries must be longer than zero and at most ${MAX_MANUAL_ENTRY_HOURS} hours` });
+      return;
+    }
+    if (end > new Date()) {
+      res.status(400).json({ error: 'Time entries cannot end in the future' });
+      return;
+    }
+
+    const task = await Task.findById(taskId).select('_id channelId').lean();
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const entry = new TimeEntry({
+      taskId,
+      userId,
+      projectId: getTaskProjectId(task.channelId),
+      startTime: start,
+      endTime: end,
+      durationSeconds: Math.round((end.getTime() - start.getTime()) / 1000),
+      source: 'manual',
+      note,
+    });
+    await entry.save();
+
+    res.status(201).json({ status: 'success', entry });
+  } catch (error) {
+    console.error('Error creating time entry:', error);
+    res.status(500).json({ error: 'Failed to create time entry' });
+  }
+});
+
+/**
+ * POST /task/:taskId/timer/start
+ * Start the requester's timer on a task. A timer they have running on another task is stopped first.
+ * Body: { note? }
+ */
+router.post('/:taskId/timer/start', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const { note } = req.body;
+    const userId = getStreamUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const task = await Task.findById(taskId).select('_id channelId').lean();
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const running = await TimeEntry.findOne({ userId, isRunning: true });
+    if (running && running.taskId === taskId) {
+      res.status(200).json({ status: 'success', entry: running });
+      return;
+    }
+
+    const now = new Date();
+    const stoppedEntry = running ? await stopTimeEntry(running, now) : null;
+
+    try {
+      const entry = new TimeEntry({
+        taskId,
+        userId,
+        projectId: getTaskProjectId(task.channelId),
+        startTime: now,
+        isRunning: true,
+        source: 'timer',
+        note,
+      });
+      await entry.save();
+
+      res.status(201).json({ status: 'success', entry, stoppedEntry: stoppedEntry || undefined });
+    } catch (error: any) {
+      // Another request started a timer for this user in the meantime
+      if (error?.code === 11000) {
+        res.status(409).json({ error: 'A timer is already running for this user' });
+        return;
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error starting timer:', error);
+    res.status(500).json({ error: 'Failed to start timer' });
+  }
+});
+
+/**
+ * POST /task/:taskId/timer/stop
+ * Stop the requester's running timer on a task
+ */
+router.post('/:taskId/timer/stop', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const userId = getStreamUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const running = await TimeEntry.findOne({ taskId, userId, isRunning: true });
+    if (!running) {
+      res.status(404).json({ error: 'No running timer on this task' });
+      return;
+    }
+
+    const entry = await stopTimeEntry(running);
+
+    res.status(200).json({ status: 'success', entry });
+  } catch (error) {
+    console.error('Error stopping timer:', error);
+    res.status(500).json({ error: 'Failed to stop timer' });
+  }
+});
+
+export default router;
@@ -0,0 +1,42 @@
+jest.mock('../serverClient', () => ({ serverClient: {} }));
+jest.mock('../utils/getstreamFeedsService', () => ({ getStreamFeedsService: {} }));
+jest.mock('../utils/channelRoles', () => ({
+  isChannelAdmin: jest.fn(async (channelId: string, userId: string) => userId === 'owner'),
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { TaskWorkflow } from '../models/TaskWorkflow';
+import router from './taskWorkflowController';
+
+const app = express();
+app.use(express.json());
+app.use('/task-workflow', router);
+
+const statuses = [
+  { key: 'todo', label: 'To do' },
+  { key: 'done', label: 'Done', isTerminal: true },
+];
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('PUT /task-workflow/:channelId', () => {
+  it('requires an authenticated user', async () => {
+    const response = await request(app).put('/task-workflow/site-1').send({ statuses, userId: 'owner' });
+    expect(response.status).toBe(401);
+  });
+
+  it('checks the authenticated user, not a userId in the body', async () => {
+    const update = jest.spyOn(TaskWorkflow, 'findOneAndUpdate');
+
+    const response = await request(app)
+      .put('/task-workflow/site-1')
+      .set('x-stream-user-id', 'member')
+      .send({ statuses, userId: 'owner' });
+
+    expect(response.status).toBe(403);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,139 @@
+import express, { Request, Response, Router } from 'express';
+import { TaskWorkflow } from '../models/TaskWorkflow';
+import { Task } from '../models/Task';
+import { isChannelAdmin } from '../utils/channelRoles';
+import { getStreamUserId } from '../middleware/auth';
+import { recordTaskUpdates } from '../utils/taskHistory';
+import {
+  DEFAULT_WORKFLOW_STATUSES,
+  getChannelWorkflowStatuses,
+  normalizeWorkflowChannelId,
+  validateWorkflowStatuses,
+} from '../utils/taskWorkflow';
+
+const router: Router = express.Router();
+
+// Match tasks stored with either channel ID format
+const channelIdConditions = (channelId: string) => [
+  { channelId },
+  { channelId: `messaging:${channelId}` },
+];
+
+/**
+ * GET /task-workflow/:channelId
+ * Get the ordered task statuses for a channel (default workflow if none is defined)
+ */
+router.get('/:channelId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const channelId = normalizeWorkflowChannelId(req.params.channelId);
+    const workflow = await TaskWorkflow.findOne({ channelId }).lean();
+
+    res.status(200).json({
+      status: 'success',
+      channelId,
+      isDefault: !workflow,
+      statuses: workflow?.statuses || DEFAULT_WORKFLOW_STATUSES,
+    });
+  } catch (error) {
+    console.error('Error fetching task workflow:', error);
+    res.status(500).json({ error: 'Failed to fetch task workflow' });
+  }
+});
+
+/**
+ * PUT /task-workflow/:channelId
+ * Define the channel's task statuses
+ *
+ * Body:
+ * - statuses: Array<{ key, label, isTerminal?, transitionsTo? }> - ordered board columns
+ * - statusMapping?: Record<string, string> - where to move tasks whose status is removed
+ *
+ * The requester (x-stream-user-id) must be the channel owner or a moderator.
+ */
+router.put('/:channelId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const channelId = normalizeWorkflowChannelId(req.params.channelId);
+    const { statuses, statusMapping = {} } = req.body;
+    const requesterId = getStreamUserId(req);
+
+    if (!requesterId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    if (!(await isChannelAdmin(channelId, requesterId))) {
+      res.status(403).json({ error: 'Only the channel owner or moderators can change the task workflow' });
+      return;
+    }
+
+    const validationError = validateWorkflowStatuses(statuses);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const newStatuses = statuses.map((s: any) => ({
+      key: s.key,
+      label: s.label.trim(),
+      isTerminal: s.isTerminal === true,
+      ...(s.transitionsTo && { transitionsTo: s.transitionsTo }),
+    }));
+    const newKeys = new Set<string>(newStatuses.map((s: any) => s.key));
+
+    // Tasks sitting in a removed status must be mapped to a status that still exists
+    const currentStatuses = await getChannelWorkflowStatuses(channelId);
+    const removedKeys = currentStatuses.map((s) => s.key).filter((key) => !newKeys.has(key));
+    const channelFilter = { $or: channelIdConditions(channelId) };
+
+    if (removedKeys.length > 0) {
+      const affected = await Task.aggregate([
+        { $match: { ...channelFilter, status: { $in: removedKeys } } },
+        { $group: { _id: '$status', count: { $sum: 1 } } },
+      ]);
+      const unmapped = affected.filter((group) => !newKeys.has(statusMapping[group._id]));
+
+      if (unmapped.length > 0) {
+        res.status(409).json({
+          error: 'Tasks exist in statuses that are being removed. Provide a statusMapping for them.',
+          unmappedStatuses: unmapped.map((group) => ({ status: group._id, taskCount: group.count })),
+        });
+        return;
+      }
+
+      for (const group of affected) {
+        const target = newStatuses.find((s: any) => s.key === statusMapping[group._id]);
+        const remapped = await Task.find({ ...channelFilter, status: group._id }).lean();
+        await Task.updateMany(
+          { ...channelFilter, status: group._id },
+          { status: target.key, completed: target.isTerminal }
+        );
+        await recordTaskUpdates(remapped, requesterId);
+      }
+    }
+
+    // Keep the completed flag in line with terminal statuses that changed meaning
+    for (const status of newStatuses) {
+      await Task.updateMany(
+        { ...channelFilter, status: status.key, completed: { $ne: status.isTerminal } },
+        { completed: status.isTerminal }
+      );
+    }
+
+    const workflow = await TaskWorkflow.findOneAndUpdate(
+      { channelId },
+      { channelId, statuses: newStatuses, updatedBy: requesterId },
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    res.status(200).json({
+      status: 'success',
+      channelId,
+      isDefault: false,
+      statuses: workflow.statuses,
+    });
+  } catch (error) {
+    console.error('Error updating task workflow:', error);
+    res.status(500).json({ error: 'Failed to update task workflow' });
+  }
+});
+
+export default router;
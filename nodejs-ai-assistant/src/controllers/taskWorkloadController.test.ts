@@ -0,0 +1,67 @@
+jest.mock('../serverClient', () => ({ serverClient: {} }));
+jest.mock('../utils/channelRoles', () => ({
+  ...jest.requireActual('../utils/channelRoles'),
+  isChannelAdmin: jest.fn(async (channelId: string, userId: string) => userId === 'owner'),
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { WorkloadCapacity } from '../models/WorkloadCapacity';
+import router from './taskWorkloadController';
+
+const app = express();
+app.use(express.json());
+app.use('/task-workload', router);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('PUT /task-workload/capacity/:memberId', () => {
+  it('requires an authenticated user', async () => {
+    const response = await request(app)
+      .put('/task-workload/capacity/worker')
+      .send({ channelId: 'site-1', userId: 'worker', hoursPerWeek: 10 });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('checks the authenticated user, not a userId in the body', async () => {
+    const update = jest.spyOn(WorkloadCapacity, 'findOneAndUpdate');
+
+    const response = await request(app)
+      .put('/task-workload/capacity/worker')
+      .set('x-stream-user-id', 'member')
+      .send({ channelId: 'site-1', userId: 'worker', hoursPerWeek: 10 });
+
+    expect(response.status).toBe(403);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('lets members set their own capacity and clears null values', async () => {
+    const update = jest.spyOn(WorkloadCapacity, 'findOneAndUpdate').mockResolvedValue({ userId: 'worker', hoursPerWeek: 30 } as any);
+
+    const response = await request(app)
+      .put('/task-workload/capacity/worker')
+      .set('x-stream-user-id', 'worker')
+      .send({ channelId: 'messaging:site-1', hoursPerWeek: 30, pointsPerWeek: null });
+
+    expect(response.status).toBe(200);
+    expect(update).toHaveBeenCalledWith(
+      { channelId: 'site-1', userId: 'worker' },
+      { $set: { updatedBy: 'worker', hoursPerWeek: 30 }, $unset: { pointsPerWeek: 1 } },
+      expect.anything()
+    );
+  });
+
+  it('lets channel moderators set anyone\'s capacity', async () => {
+    jest.spyOn(WorkloadCapacity, 'findOneAndUpdate').mockResolvedValue({ userId: 'worker', hoursPerWeek: 20 } as any);
+
+    const response = await request(app)
+      .put('/task-workload/capacity/worker')
+      .set('x-stream-user-id', 'owner')
+      .send({ channelId: 'site-1', hoursPerWeek: 20 });
+
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,134 @@
+import express, { Request, Response, Router } from 'express';
+import moment from 'moment-timezone';
+import { WorkloadCapacity } from '../models/WorkloadCapacity';
+import { getStreamUserId } from '../middleware/auth';
+import { isChannelAdmin } from '../utils/channelRoles';
+import { normalizeWorkflowChannelId } from '../utils/taskWorkflow';
+import { buildChannelWorkload, getDefaultCapacity, MAX_WORKLOAD_WEEKS } from '../utils/taskWorkload';
+
+const router: Router = express.Router();
+
+const isValidCapacity = (value: any): boolean =>
+  value === undefined || value === null || (typeof value === 'number' && isFinite(value) && value >= 0);
+
+/**
+ * GET /task-workload?channelId=&weeks=4&from=&timezone=
+ * Open estimated work per assignee per week, with over-allocation flags and reassignment suggestions
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { channelId, from, timezone = 'UTC' } = req.query;
+    const weeks = parseInt(req.query.weeks as string) || 4;
+
+    if (!channelId) {
+      res.status(400).json({ error: 'Missing required parameter: channelId' });
+      return;
+    }
+    if (weeks < 1 || weeks > MAX_WORKLOAD_WEEKS) {
+      res.status(400).json({ error: `weeks must be between 1 and ${MAX_WORKLOAD_WEEKS}` });
+      return;
+    }
+    if (!moment.tz.zone(timezone as string)) {
+      res.status(400).json({ error: 'Invalid timezone' });
+      return;
+    }
+    if (from && isNaN(new Date(from as string).getTime())) {
+      res.status(400).json({ error: 'from must be a valid date' });
+      return;
+    }
+
+    const workload = await buildChannelWorkload(channelId as string, {
+      from: from ? new Date(from as string) : undefined,
+      weeks,
+      timezone: timezone as string,
+    });
+
+    res.status(200).json({
+      status: 'success',
+      channelId: normalizeWorkflowChannelId(channelId as string),
+      timezone,
+      defaultCapacity: getDefaultCapacity(),
+      ...workload
+    });
+  } catch (error) {
+    console.error('Error building task workload:', error);
+    res.status(500).json({ error: 'Failed to build task workload' });
+  }
+});
+
+/**
+ * GET /task-workload/capacity?channelId=
+ * Weekly capacities set for members of a channel
+ */
+router.get('/capacity', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { channelId } = req.query;
+
+    if (!channelId) {
+      res.status(400).json({ error: 'Missing required parameter: channelId' });
+      return;
+    }
+
+    const capacities = await WorkloadCapacity.find({ channelId: normalizeWorkflowChannelId(channelId as string) })
+      .sort({ userId: 1 })
+      .lean();
+
+    res.status(200).json({ status: 'success', defaultCapacity: getDefaultCapacity(), capacities });
+  } catch (error) {
+    console.error('Error fetching workload capacities:', error);
+    res.status(500).json({ error: 'Failed to fetch workload capacities' });
+  }
+});
+
+/**
+ * PUT /task-workload/capacity/:memberId
+ * Body: { channelId, hoursPerWeek?, pointsPerWeek? } - null falls back to the default.
+ * Members set their own capacity; channel owners and moderators can set anyone's.
+ */
+router.put('/capacity/:memberId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { memberId } = req.params;
+    const { channelId, hoursPerWeek, pointsPerWeek } = req.body;
+    const userId = getStreamUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    if (!channelId) {
+      res.status(400).json({ error: 'Missing required field: channelId' });
+      return;
+    }
+    if (!isValidCapacity(hoursPerWeek) || !isValidCapacity(pointsPerWeek)) {
+      res.status(400).json({ error: 'hoursPerWeek and pointsPerWeek must be non-negative numbers or null' });
+      return;
+    }
+
+    const normalizedId = normalizeWorkflowChannelId(channelId);
+    if (userId !== memberId && !(await isChannelAdmin(normalizedId, userId))) {
+      res.status(403).json({ error: 'Only channel owners and moderators can change other members\' capacity' });
+      return;
+    }
+
+    const $set: any = { updatedBy: userId };
+    const $unset: any = {};
+    for (const [field, value] of Object.entries({ hoursPerWeek, pointsPerWeek })) {
+      if (value === null) $unset[field] = 1;
+      else if (value !== undefined) $set[field] = value;
+    }
+    const update = Object.keys($unset).length > 0 ? { $set, $unset } : { $set };
+
+    const capacity = await WorkloadCapacity.findOneAndUpdate(
+      { channelId: normalizedId, userId: memberId },
+      update,
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    res.status(200).json({ status: 'success', capacity });
+  } catch (error) {
+    console.error('Error updating workload capacity:', error);
+    res.status(500).json({ error: 'Failed to update workload capacity' });
+  }
+});
+
+export default router;
@@ -0,0 +1,71 @@
+jest.mock('../utils/channelRoles', () => ({
+  isChannelAdmin: jest.fn(async (channelId: string, userId: string) => userId === 'owner'),
+}));
+jest.mock('../utils/timeTracking', () => ({
+  ...jest.requireActual('../utils/timeTracking'),
+  buildReconciliationReport: jest.fn(async () => ({ timezone: 'UTC', days: [] })),
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { TimeEntry } from '../models/TimeEntry';
+import { buildReconciliationReport } from '../utils/timeTracking';
+import router from './timeTrackingController';
+
+const app = express();
+app.use(express.json());
+app.use('/time-tracking', router);
+
+const report = { projectId: 'site-1', from: '2026-03-02', to: '2026-03-08' };
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('GET /time-tracking/report', () => {
+  it('limits other users to their own days', async () => {
+    const response = await request(app).get('/time-tracking/report').set('x-stream-user-id', 'member').query(report);
+
+    expect(response.status).toBe(200);
+    expect(buildReconciliationReport).toHaveBeenCalledWith('site-1', '2026-03-02', '2026-03-08', 'member');
+  });
+
+  it('refuses another user\'s days to anyone but the project owner or moderators', async () => {
+    const response = await request(app)
+      .get('/time-tracking/report')
+      .set('x-stream-user-id', 'member')
+      .query({ ...report, userId: 'worker' });
+
+    expect(response.status).toBe(403);
+    expect(buildReconciliationReport).not.toHaveBeenCalled();
+  });
+
+  it('gives the project owner everyone', async () => {
+    const response = await request(app).get('/time-tracking/report').set('x-stream-user-id', 'owner').query(report);
+
+    expect(response.status).toBe(200);
+    expect(buildReconciliationReport).toHaveBeenCalledWith('site-1', '2026-03-02', '2026-03-08', undefined);
+  });
+});
+
+describe('time entries of a user', () => {
+  it('refuses another user\'s totals', async () => {
+    const find = jest.spyOn(TimeEntry, 'find');
+
+    const response = await request(app).get('/time-tracking/users/worker').set('x-stream-user-id', 'member');
+
+    expect(response.status).toBe(403);
+    expect(find).not.toHaveBeenCalled();
+  });
+
+  it('only edits the authenticated user\'s entries', async () => {
+    jest.spyOn(TimeEntry, 'findById').mockResolvedValue({ userId: 'worker', isRunning: false } as any);
+
+    const response = await request(app)
+      .put('/time-tracking/entries/64b000000000000000000009')
+      .set('x-stream-user-id', 'member')
+      .send({ userId: 'worker', note: 'Changed' });
+
+    expect(response.status).toBe(403);
+  });
+});
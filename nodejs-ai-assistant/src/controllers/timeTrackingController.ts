@@ -0,0 +1,230 @@
+import express, { Request, Response, Router } from 'express';
+import moment from 'moment-timezone';
+import { Task } from '../models/Task';
+import { TimeEntry } from '../models/TimeEntry';
+import { getStreamUserId } from '../middleware/auth';
+import { isChannelAdmin } from '../utils/channelRoles';
+import { MAX_REPORT_DAYS, buildReconciliationReport, sumSecondsBy } from '../utils/timeTracking';
+
+const router: Router = express.Router();
+
+/**
+ * GET /time-tracking/running
+ * The requester's running timer, if any
+ */
+router.get('/running', async (req: Request, res: Response) => {
+  try {
+    const userId = getStreamUserId(req);
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const entry = await TimeEntry.findOne({ userId, isRunning: true }).lean();
+    const task = entry ? await Task.findById(entry.taskId).select('_id name channelId').lean() : null;
+
+    res.status(200).json({ status: 'success', entry, task });
+  } catch (error) {
+    console.error('Error fetching running timer:', error);
+    res.status(500).json({ error: 'Failed to fetch running timer' });
+  }
+});
+
+/**
+ * GET /time-tracking/users/:userId?from=&to=
+ * Time a user logged in a period, with totals per task and per project. Users can only see their own.
+ */
+router.get('/users/:userId', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { from, to } = req.query;
+    const requesterId = getStreamUserId(req);
+
+    if (!requesterId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    if (requesterId !== userId) {
+      res.status(403).json({ error: 'You can only view your own time' });
+      return;
+    }
+
+    const query: any = { userId };
+    if (from || to) {
+      query.startTime = {};
+      if (from) query.startTime.$gte = new Date(from as string);
+      if (to) query.startTime.$lte = new Date(to as string);
+    }
+
+    const entries = await TimeEntry.find(query).sort({ startTime: -1 }).lean();
+    const byTask = sumSecondsBy(entries, (e) => e.taskId);
+
+    const tasks = await Task.find({ _id: { $in: Object.keys(byTask) } }).select('_id name channelId').lean();
+    const taskNames = new Map(tasks.map((t) => [String(t._id), t.name]));
+
+    res.status(200).json({
+      status: 'success',
+      userId,
+      totalSeconds: Object.values(byTask).reduce((sum, seconds) => sum + seconds, 0),
+      byTask: Object.entries(byTask).map(([taskId, totalSeconds]) => ({
+        taskId,
+        taskName: taskNames.get(taskId) || null,
+        totalSeconds
+      })),
+      byProject: sumSecondsBy(entries, (e) => e.projectId),
+      entries
+    });
+  } catch (error) {
+    console.error('Error fetching user time totals:', error);
+    res.status(500).json({ error: 'Failed to fetch user time totals' });
+  }
+});
+
+/**
+ * GET /time-tracking/report?projectId=&from=YYYY-MM-DD&to=YYYY-MM-DD&userId=
+ * Per user and day: on-site hours from attendance against time logged on the project's tasks,
+ * so supervisors can see site hours nobody booked to a task. The project owner and moderators see
+ * everyone; other users only their own days.
+ */
+router.get('/report', async (req: Request, res: Response) => {
+  try {
+    const { projectId, from, to } = req.query;
+    const requesterId = getStreamUserId(req);
+
+    if (!requesterId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    if (!projectId || !from || !to) {
+      res.status(400).json({ error: 'Missing required parameters: projectId, from, to' });
+      return;
+    }
+
+    const fromDate = moment(from as string, 'YYYY-MM-DD', true);
+    const toDate = moment(to as string, 'YYYY-MM-DD', true);
+    if (!fromDate.isValid() || !toDate.isValid() || toDate.isBefore(fromDate)) {
+      res.status(400).json({ error: 'from and to must be YYYY-MM-DD dates with from on or before to' });
+      return;
+    }
+    if (toDate.diff(fromDate, 'days') >= MAX_REPORT_DAYS) {
+      res.status(400).json({ error: `Reports can cover at most ${MAX_REPORT_DAYS} days` });
+      return;
+    }
+
+    const projectIdStr = projectId as string;
+    const normalizedProjectId = projectIdStr.includes(':') ? projectIdStr.split(':')[1] : projectIdStr;
+
+    let userId = req.query.userId as string | undefined;
+    if (!(await isChannelAdmin(normalizedProjectId, requesterId))) {
+      if (userId && userId !== requesterId) {
+        res.status(403).json({ error: 'Only the project owner or moderators can see other users\' time' });
+        return;
+      }
+      userId = requesterId;
+    }
+
+    const { timezone, days } = await buildReconciliationReport(
+      normalizedProjectId,
+      from as string,
+      to as string,
+      userId
+    );
+
+    const totals = days.reduce((sum, day) => ({
+      onSiteMinutes: sum.onSiteMinutes + day.onSiteMinutes,
+      loggedMinutes: sum.loggedMinutes + day.loggedMinutes,
+      allocatedMinutes: sum.allocatedMinutes + day.allocatedMinutes,
+      unallocatedMinutes: sum.unallocatedMinutes + day.unallocatedMinutes,
+      loggedOutsideSiteMinutes: sum.loggedOutsideSiteMinutes + day.loggedOutsideSiteMinutes,
+    }), { onSiteMinutes: 0, loggedMinutes: 0, allocatedMinutes: 0, unallocatedMinutes: 0, loggedOutsideSiteMinutes: 0 });
+
+    res.status(200).json({
+      status: 'success',
+      projectId: normalizedProjectId,
+      timezone,
+      from,
+      to,
+      totals,
+      days
+    });
+  } catch (error) {
+    console.error('Error building time reconciliation report:', error);
+    res.status(500).json({ error: 'Failed to build time reconciliation report' });
+  }
+});
+
+/**
+ * PUT /time-tracking/entries/:entryId
+ * Correct one of the requester's finished entries. Body: { startTime?, endTime?, note? }
+ */
+router.put('/entries/:entryId', async (req: Request, res: Response) => {
+  try {
+    const { entryId } = req.params;
+    const { startTime, endTime, note } = req.body;
+    const userId = getStreamUserId(req);
+
+    const entry = await TimeEntry.findById(entryId);
+    if (!entry) {
+      res.status(404).json({ error: 'Time entry not found' });
+      return;
+    }
+    if (entry.userId !== userId) {
+      res.status(403).json({ error: 'Only the owner can edit a time entry' });
+      return;
+    }
+    if (entry.isRunning && (startTime || endTime)) {
+      res.status(400).json({ error: 'Stop the timer before changing its times' });
+      return;
+    }
+
+    const start = startTime ? new Date(startTime) : entry.startTime;
+    const end = endTime ? new Date(endTime) : entry.endTime;
+    if (isNaN(start.getTime()) || (end && (isNaN(end.getTime()) || end <= start))) {
+      res.status(400).json({ error: 'endTime must be a valid date after startTime' });
+      return;
+    }
+
+    entry.startTime = start;
+    if (end) {
+      entry.endTime = end;
+      entry.durationSeconds = Math.round((end.getTime() - start.getTime()) / 1000);
+    }
+    if (note !== undefined) entry.note = note;
+    await entry.save();
+
+    res.status(200).json({ status: 'success', entry });
+  } catch (error) {
+    console.error('Error updating time entry:', error);
+    res.status(500).json({ error: 'Failed to update time entry' });
+  }
+});
+
+/**
+ * DELETE /time-tracking/entries/:entryId
+ * Delete one of the requester's entries
+ */
+router.delete('/entries/:entryId', async (req: Request, res: Response) => {
+  try {
+    const { entryId } = req.params;
+    const userId = getStreamUserId(req);
+
+    const entry = await TimeEntry.findById(entryId);
+    if (!entry) {
+      res.status(404).json({ error: 'Time entry not found' });
+      return;
+    }
+    if (entry.userId !== userId) {
+      res.status(403).json({ error: 'Only the owner can delete a time entry' });
+      return;
+    }
+
+    await TimeEntry.findByIdAndDelete(entryId);
+
+    res.status(200).json({ status: 'success', message: 'Time entry deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting time entry:', error);
+    res.status(500).json({ error: 'Failed to delete time entry' });
+  }
+});
+
+export default router;
@@ -0,0 +1,122 @@
+jest.mock('../serverClient', () => ({ serverClient: {} }));
+jest.mock('../utils/getstreamFeedsService', () => ({ getStreamFeedsService: {} }));
+jest.mock('../utils/channelRoles', () => ({
+  ...jest.requireActual('../utils/channelRoles'),
+  isChannelAdmin: jest.fn(async (channelId: string, userId: string) => userId === 'owner'),
+}));
+jest.mock('../utils/timesheets', () => ({
+  ...jest.requireActual('../utils/timesheets'),
+  notifyTimesheetChange: jest.fn(async () => {}),
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { Timesheet } from '../models/Timesheet';
+import { notifyTimesheetChange } from '../utils/timesheets';
+import router from './timesheetController';
+
+const app = express();
+app.use(express.json());
+app.use('/timesheet', router);
+
+const timesheetId = '64b000000000000000000001';
+
+const timesheet = (fields: Record<string, any>) => ({
+  _id: timesheetId,
+  userId: 'worker',
+  projectId: 'site-1',
+  status: 'submitted',
+  history: [] as any[],
+  save: jest.fn(async () => {}),
+  ...fields,
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('POST /timesheet/:timesheetId/approve', () => {
+  it('requires an authenticated user', async () => {
+    const findById = jest.spyOn(Timesheet, 'findById');
+
+    const response = await request(app).post(`/timesheet/${timesheetId}/approve`).send({ userId: 'owner' });
+
+    expect(response.status).toBe(401);
+    expect(findById).not.toHaveBeenCalled();
+  });
+
+  it('checks the authenticated user, not a userId in the body', async () => {
+    const submitted = timesheet({ userId: 'member' });
+    jest.spyOn(Timesheet, 'findById').mockResolvedValue(submitted as any);
+
+    const response = await request(app)
+      .post(`/timesheet/${timesheetId}/approve`)
+      .set('x-stream-user-id', 'member')
+      .send({ userId: 'owner' });
+
+    expect(response.status).toBe(403);
+    expect(submitted.status).toBe('submitted');
+    expect(submitted.save).not.toHaveBeenCalled();
+  });
+
+  it('does not let reviewers approve their own timesheet', async () => {
+    const submitted = timesheet({ userId: 'owner' });
+    jest.spyOn(Timesheet, 'findById').mockResolvedValue(submitted as any);
+
+    const response = await request(app).post(`/timesheet/${timesheetId}/approve`).set('x-stream-user-id', 'owner');
+
+    expect(response.status).toBe(403);
+    expect(submitted.save).not.toHaveBeenCalled();
+  });
+
+  it('approves as the authenticated reviewer', async () => {
+    const submitted = timesheet({});
+    jest.spyOn(Timesheet, 'findById').mockResolvedValue(submitted as any);
+
+    const response = await request(app)
+      .post(`/timesheet/${timesheetId}/approve`)
+      .set('x-stream-user-id', 'owner')
+      .send({ userId: 'someone-else' });
+
+    expect(response.status).toBe(200);
+    expect(submitted).toMatchObject({ status: 'approved', reviewedBy: 'owner' });
+    expect(submitted.history).toEqual([expect.objectContaining({ action: 'approved', by: 'owner' })]);
+    expect(notifyTimesheetChange).toHaveBeenCalledWith(submitted, 'timesheet_approved', 'owner');
+  });
+});
+
+describe('POST /timesheet/:timesheetId/reopen', () => {
+  it('requires an authenticated user', async () => {
+    const response = await request(app).post(`/timesheet/${timesheetId}/reopen`).send({ userId: 'owner' });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('refuses users who are not reviewers, even for their own timesheet', async () => {
+    const approved = timesheet({ status: 'approved' });
+    jest.spyOn(Timesheet, 'findById').mockResolvedValue(approved as any);
+
+    const response = await request(app)
+      .post(`/timesheet/${timesheetId}/reopen`)
+      .set('x-stream-user-id', 'worker')
+      .send({ userId: 'owner' });
+
+    expect(response.status).toBe(403);
+    expect(approved.status).toBe('approved');
+    expect(approved.save).not.toHaveBeenCalled();
+  });
+
+  it('reopens as the authenticated reviewer', async () => {
+    const approved = timesheet({ status: 'approved' });
+    jest.spyOn(Timesheet, 'findById').mockResolvedValue(approved as any);
+
+    const response = await request(app)
+      .post(`/timesheet/${timesheetId}/reopen`)
+      .set('x-stream-user-id', 'owner')
+      .send({ reason: 'Missed a shift' });
+
+    expect(response.status).toBe(200);
+    expect(approved.status).toBe('draft');
+    expect(approved.history).toEqual([expect.objectContaining({ action: 'reopened', by: 'owner', comment: 'Missed a shift' })]);
+  });
+});
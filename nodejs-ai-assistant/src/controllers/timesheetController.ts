@@ -0,0 +1,426 @@
+import express, { Request, Response, Router } from 'express';
+import mongoose from 'mongoose';
+import { getStreamUserId } from '../middleware/auth';
+import { ITimesheet, Timesheet } from '../models/Timesheet';
+import { isChannelAdmin } from '../utils/channelRoles';
+import { findProjectDetails } from '../utils/projectTimezone';
+import {
+  getTimesheetRules,
+  notifyTimesheetChange,
+  refreshTimesheet,
+  validateTimesheetRules,
+} from '../utils/timesheets';
+
+const router: Router = express.Router();
+
+// Week a request refers to: any date in it, default this week
+const parseWeekOf = (value: unknown): Date | null => {
+  const weekOf = value ? new Date(value as string) : new Date();
+  return isNaN(weekOf.getTime()) ? null : weekOf;
+};
+
+// Timesheet with the authenticated requester and their permissions, or an error response already sent
+const loadTimesheet = async (
+  req: Request,
+  res: Response
+): Promise<{ timesheet: ITimesheet; userId: string; isReviewer: boolean } | null> => {
+  const { timesheetId } = req.params;
+  const userId = getStreamUserId(req);
+  if (!userId) {
+    res.status(401).json({ error: 'User not authenticated' });
+    return null;
+  }
+  if (!mongoose.isValidObjectId(timesheetId)) {
+    res.status(400).json({ error: 'Invalid timesheet ID' });
+    return null;
+  }
+  const timesheet = await Timesheet.findById(timesheetId);
+  if (!timesheet) {
+    res.status(404).json({ error: 'Timesheet not found' });
+    return null;
+  }
+  const isReviewer = await isChannelAdmin(timesheet.projectId, userId);
+  if (timesheet.userId !== userId && !isReviewer) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+  return { timesheet, userId, isReviewer };
+};
+
+/**
+ * GET /timesheet
+ * The requester's timesheet for a project and week, recalculated from attendance unless it is
+ * submitted or approved
+ *
+ * Query: projectId, weekOf? (any date in the week, default today)
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = getStreamUserId(req);
+    const projectId = req.query.projectId as string;
+    const weekOf = parseWeekOf(req.query.weekOf);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    if (!projectId) {
+      res.status(400).json({ error: 'projectId is required' });
+      return;
+    }
+    if (!weekOf) {
+      res.status(400).json({ error: 'Invalid weekOf date' });
+      return;
+    }
+
+    const timesheet = await refreshTimesheet(userId, projectId, weekOf);
+
+    res.status(200).json({
+      status: 'success',
+      timesheet
+    });
+  } catch (error) {
+    console.error('Error fetching timesheet:', error);
+    res.status(500).json({ error: 'Failed to fetch timesheet' });
+  }
+});
+
+/**
+ * GET /timesheet/project/:projectId
+ * Timesheets of a project for review (project owner or moderators), newest weeks first
+ *
+ * Query: status?, weekOf?
+ */
+router.get('/project/:projectId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = getStreamUserId(req);
+    const { status } = req.query;
+
+    const project = await findProjectDetails(req.params.projectId);
+    const projectId = project?.channelId || req.params.projectId;
+    if (!userId || !(await isChannelAdmin(projectId, userId))) {
+      res.status(403).json({ error: 'Only the project owner or moderators can review timesheets' });
+      return;
+    }
+
+    const query: any = { projectId };
+    if (status) {
+      if (!['draft', 'submitted', 'approved', 'rejected'].includes(status as string)) {
+        res.status(400).json({ error: 'Invalid status' });
+        return;
+      }
+      query.status = status;
+    }
+    if (req.query.weekOf) {
+      const weekOf = parseWeekOf(req.query.weekOf);
+      if (!weekOf) {
+        res.status(400).json({ error: 'Invalid weekOf date' });
+        return;
+      }
+      query.weekStart = { $lte: weekOf };
+      query.weekEnd = { $gt: weekOf };
+    }
+
+    const timesheets = await Timesheet.find(query)
+      .select('-days')
+      .sort({ weekStart: -1, userId: 1 })
+      .limit(500)
+      .lean();
+
+    res.status(200).json({
+      status: 'success',
+      projectId,
+      timesheets
+    });
+  } catch (error) {
+    console.error('Error fetching project timesheets:', error);
+    res.status(500).json({ error: 'Failed to fetch project timesheets' });
+  }
+});
+
+/**
+ * GET /timesheet/rules/:projectId
+ * Break and overtime rules of a project
+ */
+router.get('/rules/:projectId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const project = await findProjectDetails(req.params.projectId);
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      projectId: project.channelId,
+      timeSheetRequirement: !!project.timeSheetRequirement,
+      rules: getTimesheetRules(project)
+    });
+  } catch (error) {
+    console.error('Error fetching timesheet rules:', error);
+    res.status(500).json({ error: 'Failed to fetch timesheet rules' });
+  }
+});
+
+/**
+ * PUT /timesheet/rules/:projectId
+ * Change a project's timesheet rules (project owner or moderators). Applies to timesheets that are
+ * recalculated afterwards; submitted and approved ones keep the rules they were calculated with.
+ *
+ * Body:
+ * - rules: { weekStartsOn?, breakAfterMinutes?, breakMinutes?, dailyOvertimeAfterMinutes?, weeklyOvertimeAfterMinutes? }
+ * - timeSheetRequirement?: boolean - whether weekly timesheets are prepared for members automatically
+ */
+router.put('/rules/:projectId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = getStreamUserId(req);
+    const { timeSheetRequirement } = req.body;
+
+    const { rules, error } = req.body.rules !== undefined ? validateTimesheetRules(req.body.rules) : { rules: {}, error: undefined };
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    if (timeSheetRequirement !== undefined && typeof timeSheetRequirement !== 'boolean') {
+      res.status(400).json({ error: 'timeSheetRequirement must be a boolean' });
+      return;
+    }
+
+    const project = await findProjectDetails(req.params.projectId);
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    if (!userId || !(await isChannelAdmin(project.channelId, userId))) {
+      res.status(403).json({ error: 'Only the project owner or moderators can change timesheet rules' });
+      return;
+    }
+
+    project.timesheetRules = { ...(project.toObject().timesheetRules || {}), ...rules };
+    if (timeSheetRequirement !== undefined) project.timeSheetRequirement = timeSheetRequirement;
+    await project.save();
+
+    res.status(200).json({
+      status: 'success',
+      projectId: project.channelId,
+      timeSheetRequirement: !!project.timeSheetRequirement,
+      rules: getTimesheetRules(project)
+    });
+  } catch (error) {
+    console.error('Error updating timesheet rules:', error);
+    res.status(500).json({ error: 'Failed to update timesheet rules' });
+  }
+});
+
+/**
+ * POST /timesheet/submit
+ * Submit the requester's timesheet for a week for approval. It is recalculated first, and cannot be
+ * submitted before the week has ended or while a shift in it has no check-out.
+ *
+ * Body: { projectId, weekOf?, note? }
+ */
+router.post('/submit', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = getStreamUserId(req);
+    const { projectId, note } = req.body;
+    const weekOf = parseWeekOf(req.body.weekOf);
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    if (!projectId) {
+      res.status(400).json({ error: 'projectId is required' });
+      return;
+    }
+    if (!weekOf) {
+      res.status(400).json({ error: 'Invalid weekOf date' });
+      return;
+    }
+
+    const timesheet = await refreshTimesheet(userId, projectId, weekOf);
+    if (timesheet.status === 'submitted' || timesheet.status === 'approved') {
+      res.status(409).json({ error: `Timesheet is already ${timesheet.status}`, timesheet });
+      return;
+    }
+    // Approval locks the week, so it must be over before it can be submitted
+    if (timesheet.weekEnd > new Date()) {
+      res.status(400).json({ error: `This week has not ended yet; it can be submitted from ${timesheet.weekEnd.toISOString()}`, timesheet });
+      return;
+    }
+    if (timesheet.openSessions > 0) {
+      res.status(400).json({ error: 'Check out of all shifts in this week before submitting', timesheet });
+      return;
+    }
+
+    timesheet.status = 'submitted';
+    timesheet.note = typeof note === 'string' ? note.trim() || undefined : undefined;
+    timesheet.submittedAt = new Date();
+    timesheet.reviewedBy = undefined;
+    timesheet.reviewedAt = undefined;
+    timesheet.rejectionReason = undefined;
+    timesheet.history.push({ action: 'submitted', by: userId, at: new Date(), comment: timesheet.note });
+    await timesheet.save();
+
+    await notifyTimesheetChange(timesheet, 'timesheet_submitted', userId);
+
+    res.status(200).json({
+      status: 'success',
+      timesheet
+    });
+  } catch (error) {
+    console.error('Error submitting timesheet:', error);
+    res.status(500).json({ error: 'Failed to submit timesheet' });
+  }
+});
+
+/**
+ * GET /timesheet/:timesheetId
+ * A timesheet, for its user or the project owner and moderators
+ */
+router.get('/:timesheetId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const loaded = await loadTimesheet(req, res);
+    if (!loaded) return;
+
+    res.status(200).json({
+      status: 'success',
+      timesheet: loaded.timesheet,
+      canReview: loaded.isReviewer
+    });
+  } catch (error) {
+    console.error('Error fetching timesheet:', error);
+    res.status(500).json({ error: 'Failed to fetch timesheet' });
+  }
+});
+
+/**
+ * POST /timesheet/:timesheetId/approve
+ * Approve a submitted timesheet (project owner or moderators, but not their own). Its week is then locked:
+ * attendance in it can no longer be recorded or changed.
+ */
+router.post('/:timesheetId/approve', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const loaded = await loadTimesheet(req, res);
+    if (!loaded) return;
+    const { timesheet, userId, isReviewer } = loaded;
+
+    if (!isReviewer) {
+      res.status(403).json({ error: 'Only the project owner or moderators can approve timesheets' });
+      return;
+    }
+    if (timesheet.userId === userId) {
+      res.status(403).json({ error: 'You cannot approve your own timesheet' });
+      return;
+    }
+    if (timesheet.status !== 'submitted') {
+      res.status(409).json({ error: `Only submitted timesheets can be approved (this one is ${timesheet.status})` });
+      return;
+    }
+
+    timesheet.status = 'approved';
+    timesheet.reviewedBy = userId;
+    timesheet.reviewedAt = new Date();
+    timesheet.history.push({ action: 'approved', by: userId, at: new Date(), comment: req.body.comment });
+    await timesheet.save();
+
+    await notifyTimesheetChange(timesheet, 'timesheet_approved', userId);
+
+    res.status(200).json({
+      status: 'success',
+      timesheet
+    });
+  } catch (error) {
+    console.error('Error approving timesheet:', error);
+    res.status(500).json({ error: 'Failed to approve timesheet' });
+  }
+});
+
+/**
+ * POST /timesheet/:timesheetId/reject
+ * Send a submitted timesheet back to its user (project owner or moderators)
+ *
+ * Body: { reason: string }
+ */
+router.post('/:timesheetId/reject', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+    if (!reason) {
+      res.status(400).json({ error: 'A reason is required to reject a timesheet' });
+      return;
+    }
+
+    const loaded = await loadTimesheet(req, res);
+    if (!loaded) return;
+    const { timesheet, userId, isReviewer } = loaded;
+
+    if (!isReviewer) {
+      res.status(403).json({ error: 'Only the project owner or moderators can reject timesheets' });
+      return;
+    }
+    if (timesheet.status !== 'submitted') {
+      res.status(409).json({ error: `Only submitted timesheets can be rejected (this one is ${timesheet.status})` });
+      return;
+    }
+
+    timesheet.status = 'rejected';
+    timesheet.reviewedBy = userId;
+    timesheet.reviewedAt = new Date();
+    timesheet.rejectionReason = reason;
+    timesheet.history.push({ action: 'rejected', by: userId, at: new Date(), comment: reason });
+    await timesheet.save();
+
+    await notifyTimesheetChange(timesheet, 'timesheet_rejected', userId, { reason });
+
+    res.status(200).json({
+      status: 'success',
+      timesheet
+    });
+  } catch (error) {
+    console.error('Error rejecting timesheet:', error);
+    res.status(500).json({ error: 'Failed to reject timesheet' });
+  }
+});
+
+/**
+ * POST /timesheet/:timesheetId/reopen
+ * Unlock an approved timesheet so attendance in its week can be corrected (project owner or moderators).
+ * It goes back to draft and has to be submitted again.
+ *
+ * Body: { reason?: string }
+ */
+router.post('/:timesheetId/reopen', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() || undefined : undefined;
+
+    const loaded = await loadTimesheet(req, res);
+    if (!loaded) return;
+    const { timesheet, userId, isReviewer } = loaded;
+
+    if (!isReviewer) {
+      res.status(403).json({ error: 'Only the project owner or moderators can reopen timesheets' });
+      return;
+    }
+    if (timesheet.status !== 'approved') {
+      res.status(409).json({ error: `Only approved timesheets can be reopened (this one is ${timesheet.status})` });
+      return;
+    }
+
+    timesheet.status = 'draft';
+    timesheet.history.push({ action: 'reopened', by: userId, at: new Date(), comment: reason });
+    await timesheet.save();
+
+    await notifyTimesheetChange(timesheet, 'timesheet_reopened', userId, { reason });
+
+    res.status(200).json({
+      status: 'success',
+      timesheet
+    });
+  } catch (error) {
+    console.error('Error reopening timesheet:', error);
+    res.status(500).json({ error: 'Failed to reopen timesheet' });
+  }
+});
+
+export default router;
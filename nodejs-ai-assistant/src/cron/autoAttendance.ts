@@ -2,6 +2,7 @@ import mongoose from 'mongoose';
 import cron from 'node-cron';
 import { Attendance } from '../models/Attendance';
 import { AttendanceLog } from '../models/AttendanceLog';
+import { isAttendanceLocked } from '../utils/timesheets';
 // import { connectDB } from '../config/mongodb'; // If using shared connection logic
 
 // Placeholder for DB connection if run standalone
@@ -65,7 +66,9 @@ export const processDailyAutoCheckins = async (processingDate: Date) => {
           datetime: { $gte: windowStart, $lte: windowEnd },
         });
 
-        if (!existingAttendance) {
+        if (!existingAttendance && await isAttendanceLocked(userId, projectId, firstEnterTime)) {
+          console.log(`INFO: Skipping auto check-in for userId: ${userId}, projectId: ${projectId}; the timesheet for ${firstEnterTime.toISOString()} is approved.`);
+        } else if (!existingAttendance) {
           const newAttendance = new Attendance({
             userId,
             projectId,
@@ -159,7 +162,9 @@ export const processDailyAutoCheckouts = async (processingDate: Date) => {
           },
         });
 
-        if (!existingCheckout) {
+        if (!existingCheckout && await isAttendanceLocked(userId, projectId, lastExitTime, 'checkout')) {
+          console.log(`INFO: Skipping auto check-out for userId: ${userId}, projectId: ${projectId}; the timesheet for ${lastExitTime.toISOString()} is approved.`);
+        } else if (!existingCheckout) {
           const newAttendance = new Attendance({
             userId,
             projectId,
@@ -11,8 +11,16 @@ import attendanceGetControllerRouter from './controllers/attendanceGetController
 import sendAttendanceMessagePostControllerRouter from './controllers/sendAttendanceMessagePostController';
 import checkMessageStatusGetControllerRouter from './controllers/checkMessageStatusGetController';
 import projectsGetControllerRouter from './controllers/projectsGetController';
+import geofenceControllerRouter from './controllers/geofenceController';
+import timesheetControllerRouter from './controllers/timesheetController';
+import payrollExportControllerRouter from './controllers/payrollExportController';
 import profileUpdatePostControllerRouter from './controllers/profileUpdatePostController';
 import taskPostControllerRouter from './controllers/taskPostController';
+import taskWorkflowControllerRouter from './controllers/taskWorkflowController';
+import taskTemplateControllerRouter from './controllers/taskTemplateController';
+import taskWorkloadControllerRouter from './controllers/taskWorkloadController';
+import taskTimeControllerRouter from './controllers/taskTimeController';
+import timeTrackingControllerRouter from './controllers/timeTrackingController';
 import commentControllerRouter from './controllers/commentController';
 import notificationsControllerRouter from './controllers/notificationsController';
 import audioUploadPostControllerRouter from './controllers/audioUploadPostController';
@@ -21,6 +29,8 @@ import homescreenControllerRouter from './controllers/homescreenController';
 import teamActivityControllerRouter from './controllers/teamActivityController';
 import contactsControllerRouter from './controllers/contactsController';
 import eventControllerRouter from './controllers/eventController';
+import calendarFeedControllerRouter from './controllers/calendarFeedController';
+import eventInviteControllerRouter from './controllers/eventInviteController';
 import transcriptionControllerRouter from './controllers/transcriptionController';
 import processVoiceMessageControllerRouter from './controllers/processVoiceMessageController';
 import { requireAuth, authErrorHandler } from './middleware/auth';
@@ -52,6 +62,12 @@ app.use('/auth', authControllerRouter);
 // Join endpoint - public (user authenticates via Auth0 first, then calls /join)
 app.use('/join', joinPostControllerRouter);
 
+// Calendar feed - public (calendar apps authenticate with the secret token in the URL)
+app.use('/calendar-feed', calendarFeedControllerRouter);
+
+// Event invitations - public (guests invited by phone number RSVP with the secret token in their link)
+app.use('/event-invite', eventInviteControllerRouter);
+
 // =============================================================================
 // PROTECTED ROUTES (Auth0 JWT validation required)
 // =============================================================================
@@ -74,18 +90,26 @@ app.use('/teamactivity', teamActivityControllerRouter);
 // Tasks
 app.use('/task', taskPostControllerRouter);
 app.use('/task', commentControllerRouter);
+app.use('/task', taskTimeControllerRouter);
+app.use('/task-workflow', taskWorkflowControllerRouter);
+app.use('/task-template', taskTemplateControllerRouter);
+app.use('/task-workload', taskWorkloadControllerRouter);
+app.use('/time-tracking', timeTrackingControllerRouter);
 
 // Events
 app.use('/event', eventControllerRouter);
 
 // Attendance
+app.use('/attendance/export', payrollExportControllerRouter);
 app.use('/attendance', attendancePostControllerRouter);
 app.use('/attendance', attendanceGetControllerRouter);
 app.use('/send-attendance-message', sendAttendanceMessagePostControllerRouter);
 app.use('/check-message-status', checkMessageStatusGetControllerRouter);
+app.use('/timesheet', timesheetControllerRouter);
 
 // Projects
 app.use('/projects', projectsGetControllerRouter);
+app.use('/geofence', geofenceControllerRouter);
 
 // Notifications & Uploads
 app.use('/notifications', notificationsControllerRouter);
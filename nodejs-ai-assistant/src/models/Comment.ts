@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { softDeletePlugin } from '../utils/softDelete';
 
 export interface ICommentReaction {
   type: string;
@@ -11,8 +12,11 @@ export interface IComment extends Document {
   taskId: string;
   userId: string;
   message: string;
+  mentionedUsers: string[]; // userIds @mentioned in the message
   getstreamCommentId?: string; // GetStream comment ID for sync
   reactions: ICommentReaction[];
+  deletedAt?: Date | null; // Set while the comment's task is in the trash
+  deletionId?: string; // _id of the trashed task this comment is restored with
   createdAt: Date;
   updatedAt: Date;
 }
@@ -51,6 +55,10 @@ const CommentSchema: Schema = new Schema({
     type: String,
     required: true,
   },
+  mentionedUsers: {
+    type: [String],
+    default: [],
+  },
   getstreamCommentId: {
     type: String,
     required: false,
@@ -60,8 +68,22 @@ const CommentSchema: Schema = new Schema({
     type: [CommentReactionSchema],
     default: [],
   },
+  deletedAt: {
+    type: Date,
+    required: false,
+    default: null,
+  },
+  deletionId: {
+    type: String,
+    required: false,
+    index: true,
+  },
 }, {
   timestamps: true,
 });
+// Full-text search over comments, matches are credited to the comment's task
+CommentSchema.index({ message: 'text' });
+
+CommentSchema.plugin(softDeletePlugin);
 
 export const Comment = mongoose.model<IComment>('Comment', CommentSchema); 
\ No newline at end of file
@@ -1,9 +1,75 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export type ReminderChannel = 'push' | 'kai'; // Push notification, or a message from Kai in the user's kai channel
+
+export type RsvpStatus = 'pending' | 'yes' | 'no' | 'maybe' | 'waitlisted'; // waitlisted: said yes when the event was full
+
 export interface IAttendee {
   userId: string;
-  status: 'pending' | 'yes' | 'no' | 'maybe';
+  status: RsvpStatus;
   respondedAt?: Date;
+  waitlistedAt?: Date; // Position on the waitlist: earliest is promoted first
+  reminders?: number[]; // The attendee's own reminder offsets (minutes before), instead of the event's
+  reminderChannel?: ReminderChannel; // Overrides the user's default reminder channel for this event
+}
+
+// Someone invited by phone number who is not (yet) a user. Their RSVP link is in EventInvite.
+export interface IEventGuest {
+  _id: mongoose.Types.ObjectId;
+  phoneNumber: string; // Normalized, e.g. +15551234567
+  name?: string;
+  status: RsvpStatus;
+  respondedAt?: Date;
+  waitlistedAt?: Date;
+  invitedBy: string;
+  invitedAt: Date;
+  userId?: string; // Set once the guest joined; from then on they RSVP as an attendee
+  joinedAt?: Date;
+}
+
+export interface IEventActionItem {
+  text: string;
+  assignees: string[]; // Attendees named in the action item, else the organizer
+  taskId?: string; // Task created for it
+}
+
+// What happened at the event: written notes or a recording, summarized
+export interface IEventMinutes {
+  source: 'notes' | 'recording';
+  notes?: string;
+  recordingUri?: string;
+  transcript?: string; // Text of the recording
+  duration?: number; // Seconds of recording
+  language?: string;
+  summary: string;
+  keyPoints: string[];
+  actionItems: IEventActionItem[];
+  createdBy: string;
+  createdAt: Date;
+}
+
+// A different time suggested by an attendee along with their RSVP
+export interface IEventProposal {
+  _id: mongoose.Types.ObjectId;
+  userId: string;
+  startDate: Date;
+  endDate?: Date | null;
+  comment?: string;
+  status: 'open' | 'accepted' | 'declined' | 'superseded'; // superseded: replaced by the attendee, or another was accepted
+  createdAt: Date;
+  decidedAt?: Date;
+}
+
+// A single occurrence of a recurring event that was changed or cancelled
+export interface IEventException {
+  originalStartDate: Date; // Start of the occurrence as generated by the recurrence rule
+  cancelled: boolean;
+  title?: string;
+  description?: string;
+  location?: string;
+  startDate?: Date;
+  endDate?: Date | null;
+  allDay?: boolean;
 }
 
 export interface IEvent extends Document {
@@ -18,8 +84,9 @@ export interface IEvent extends Document {
   channelId?: string;
   messageId?: string; // Reference to the original message
   status: 'scheduled' | 'cancelled' | 'completed';
-  reminder?: number; // Minutes before event to remind
-  reminderSent?: boolean; // Track if reminder notification was sent
+  reminder?: number; // Minutes before event to remind (the shortest of reminders, kept for older clients)
+  reminders?: number[]; // Minutes before the event to remind at; events from before this field only have reminder
+  reminderSent?: boolean; // Legacy: set on events that were reminded before reminders were tracked per attendee
   /**
    * Timezone where the event was created (IANA timezone identifier)
    * e.g., "Asia/Kolkata", "America/New_York", "Europe/London"
@@ -31,12 +98,19 @@ export interface IEvent extends Document {
     interval: number;
     endDate?: Date;
   };
+  exceptions: IEventException[]; // Per-occurrence changes of a recurring event
+  seriesId?: string; // _id of the first event of a series that was split by a "this and following" edit
+  proposals: IEventProposal[]; // Times attendees suggested instead
+  capacity?: number | null; // Seats; further "yes" RSVPs go on the waitlist
+  minutes?: IEventMinutes | null;
+  guests: IEventGuest[];
   attachments?: Array<{
     uri: string;
     name: string;
     type: string;
     size?: number;
   }>;
+  icsUid?: string; // UID of the iCalendar event this was imported from, so re-imports update it
   createdAt: Date;
   updatedAt: Date;
 }
@@ -71,10 +145,13 @@ const EventSchema: Schema = new Schema({
       userId: { type: String, required: true },
       status: {
         type: String,
-        enum: ['pending', 'yes', 'no', 'maybe'],
+        enum: ['pending', 'yes', 'no', 'maybe', 'waitlisted'],
         default: 'pending'
       },
-      respondedAt: { type: Date, required: false }
+      respondedAt: { type: Date, required: false },
+      waitlistedAt: { type: Date, required: false },
+      reminders: { type: [Number], default: undefined },
+      reminderChannel: { type: String, enum: ['push', 'kai'], required: false }
     }],
     required: true,
     default: [],
@@ -103,6 +180,10 @@ const EventSchema: Schema = new Schema({
     type: Number,
     required: false,
   },
+  reminders: {
+    type: [Number],
+    default: undefined,
+  },
   reminderSent: {
     type: Boolean,
     default: false,
@@ -122,6 +203,90 @@ const EventSchema: Schema = new Schema({
     interval: Number,
     endDate: Date,
   },
+  exceptions: {
+    type: [{
+      _id: false,
+      originalStartDate: { type: Date, required: true },
+      cancelled: { type: Boolean, default: false },
+      title: String,
+      description: String,
+      location: String,
+      startDate: Date,
+      endDate: Date,
+      allDay: Boolean,
+    }],
+    default: [],
+  },
+  seriesId: {
+    type: String,
+    required: false,
+    index: true,
+  },
+  capacity: {
+    type: Number,
+    required: false,
+    min: 1,
+  },
+  minutes: {
+    type: {
+      _id: false,
+      source: { type: String, enum: ['notes', 'recording'], required: true },
+      notes: String,
+      recordingUri: String,
+      transcript: String,
+      duration: Number,
+      language: String,
+      summary: { type: String, default: '' },
+      keyPoints: { type: [String], default: [] },
+      actionItems: {
+        type: [{
+          _id: false,
+          text: { type: String, required: true },
+          assignees: { type: [String], default: [] },
+          taskId: String,
+        }],
+        default: [],
+      },
+      createdBy: { type: String, required: true },
+      createdAt: { type: Date, default: Date.now },
+    },
+    required: false,
+    default: undefined,
+  },
+  guests: {
+    type: [{
+      phoneNumber: { type: String, required: true },
+      name: { type: String, required: false },
+      status: {
+        type: String,
+        enum: ['pending', 'yes', 'no', 'maybe', 'waitlisted'],
+        default: 'pending'
+      },
+      respondedAt: { type: Date, required: false },
+      waitlistedAt: { type: Date, required: false },
+      invitedBy: { type: String, required: true },
+      invitedAt: { type: Date, default: Date.now },
+      userId: { type: String, required: false },
+      joinedAt: { type: Date, required: false }
+    }],
+    default: [],
+  },
+  proposals: {
+    type: [{
+      userId: { type: String, required: true },
+      startDate: { type: Date, required: true },
+      endDate: { type: Date, required: false },
+      comment: { type: String, required: false },
+      status: {
+        type: String,
+        enum: ['open', 'accepted', 'declined', 'superseded'],
+        default: 'open'
+      },
+      createdAt: { type: Date, default: Date.now },
+      decidedAt: { type: Date, required: false }
+    }],
+    default: [],
+  },
   attachments: {
     type: [{
       uri: { type: String, required: true },
@@ -131,7 +296,11 @@ const EventSchema: Schema = new Schema({
     }],
     required: false,
     default: [],
-  }
+  },
+  icsUid: {
+    type: String,
+    required: false,
+  },
 }, {
   timestamps: true,
 });
@@ -141,5 +310,7 @@ EventSchema.index({ startDate: 1, endDate: 1 });
 EventSchema.index({ 'attendees.userId': 1, startDate: 1 });
 // Index for reminder cron job - finds events needing reminders efficiently
 EventSchema.index({ reminder: 1, reminderSent: 1, status: 1, startDate: 1 });
+// Index for matching re-imported calendar files to the events they created
+EventSchema.index({ organizer: 1, icsUid: 1 }, { sparse: true });
 
 export const Event = mongoose.model<IEvent>('Event', EventSchema);
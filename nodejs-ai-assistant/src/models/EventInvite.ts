@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IEventInvite extends Document {
+  token: string; // Secret in the guest's RSVP link
+  eventId: string;
+  guestId: string; // _id of the guest in the event's guests
+  phoneNumber: string;
+  userId?: string; // The user the guest became when they joined
+  createdAt: Date; // Automatically handled by timestamps: true
+  updatedAt: Date; // Automatically handled by timestamps: true
+}
+
+const EventInviteSchema: Schema = new Schema({
+  token: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  eventId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  guestId: {
+    type: String,
+    required: true,
+  },
+  phoneNumber: {
+    type: String,
+    required: true,
+  },
+  userId: {
+    type: String,
+    required: false,
+  },
+}, {
+  timestamps: true // Adds createdAt and updatedAt automatically
+});
+
+export const EventInvite = mongoose.model<IEventInvite>('EventInvite', EventInviteSchema);
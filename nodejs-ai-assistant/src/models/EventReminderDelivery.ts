@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IEventReminderDelivery extends Document {
+  eventId: string;
+  occurrenceStart: Date; // Original start of the occurrence (the event's start for single events)
+  userId: string;
+  offsetMinutes: number; // Which of the user's reminders this was
+  channel: 'push' | 'kai';
+  status: 'sending' | 'sent' | 'failed' | 'skipped'; // skipped: a later reminder was due at the same time
+  sentAt?: Date;
+  error?: string;
+  createdAt: Date; // Automatically handled by timestamps: true
+  updatedAt: Date; // Automatically handled by timestamps: true
+}
+
+const EventReminderDeliverySchema: Schema = new Schema({
+  eventId: {
+    type: String,
+    required: true,
+  },
+  occurrenceStart: {
+    type: Date,
+    required: true,
+  },
+  userId: {
+    type: String,
+    required: true,
+  },
+  offsetMinutes: {
+    type: Number,
+    required: true,
+  },
+  channel: {
+    type: String,
+    enum: ['push', 'kai'],
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['sending', 'sent', 'failed', 'skipped'],
+    default: 'sending',
+  },
+  sentAt: {
+    type: Date,
+    required: false,
+  },
+  error: {
+    type: String,
+    required: false,
+  },
+}, {
+  timestamps: true // Adds createdAt and updatedAt automatically
+});
+
+// Compound index for ensuring each reminder of an occurrence is delivered to each user once
+EventReminderDeliverySchema.index({ eventId: 1, occurrenceStart: 1, userId: 1, offsetMinutes: 1 }, { unique: true });
+
+export const EventReminderDelivery = mongoose.model<IEventReminderDelivery>('EventReminderDelivery', EventReminderDeliverySchema);
@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type GeofencePresence = 'inside' | 'outside';
+
+export interface IGeofenceState extends Document {
+  userId: string;
+  projectId: string; // Project channel ID, as in AttendanceLog
+  state: GeofencePresence;
+  pendingState?: GeofencePresence | null; // State the recent pings point to, until confirmed
+  pendingCount: number; // Consecutive pings pointing to pendingState
+  lastPingAt: Date;
+  lastDistance?: number; // Meters outside the geofence at the last ping (negative when inside)
+  lastAccuracy?: number;
+  lastTransitionAt?: Date;
+  createdAt: Date; // Automatically handled by timestamps: true
+  updatedAt: Date; // Automatically handled by timestamps: true
+}
+
+const GeofenceStateSchema: Schema = new Schema({
+  userId: {
+    type: String,
+    required: true,
+  },
+  projectId: {
+    type: String,
+    required: true,
+  },
+  state: {
+    type: String,
+    enum: ['inside', 'outside'],
+    default: 'outside',
+  },
+  pendingState: {
+    type: String,
+    enum: ['inside', 'outside', null],
+    default: null,
+  },
+  pendingCount: {
+    type: Number,
+    default: 0,
+  },
+  lastPingAt: {
+    type: Date,
+    required: true,
+  },
+  lastDistance: {
+    type: Number,
+  },
+  lastAccuracy: {
+    type: Number,
+  },
+  lastTransitionAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true // Adds createdAt and updatedAt automatically
+});
+
+// One state per user and project
+GeofenceStateSchema.index({ userId: 1, projectId: 1 }, { unique: true });
+
+// Projects a user is currently inside, so pings far away still register the exit
+GeofenceStateSchema.index({ userId: 1, state: 1 });
+
+export const GeofenceState = mongoose.model<IGeofenceState>('GeofenceState', GeofenceStateSchema);
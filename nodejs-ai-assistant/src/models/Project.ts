@@ -6,16 +6,38 @@ interface IPoint {
   coordinates: [number, number]; // [longitude, latitude]
 }
 
+// Interface for GeoJSON Polygon: an outer ring of [longitude, latitude] positions, then any holes
+export interface IPolygon {
+  type: 'Polygon';
+  coordinates: [number, number][][];
+}
+
+// Geofence radius bounds, in meters
+export const DEFAULT_GEOFENCE_RADIUS = 100;
+export const MAX_GEOFENCE_RADIUS = 5000;
+
+// How attendance turns into timesheet hours; see utils/timesheets for the defaults
+export interface ITimesheetRules {
+  weekStartsOn: number; // ISO weekday the timesheet week starts on (1 = Monday)
+  breakAfterMinutes: number; // Days worked at least this long must include a break
+  breakMinutes: number; // Unpaid break deducted on such days, less any gaps between sessions
+  dailyOvertimeAfterMinutes: number | null; // Paid minutes beyond this on a day are overtime; null for none
+  weeklyOvertimeAfterMinutes: number | null; // Regular minutes beyond this in a week are overtime; null for none
+}
+
 // Interface for ProjectDetails document
 export interface IProjectDetails extends Document {
   projectId: string;
   projectName: string;
   email: string;
   location?: IPoint;
+  geofenceRadius?: number; // Meters around location that count as on site
+  geofence?: IPolygon; // Site boundary; used instead of the radius when set
   description?: string;
   startTime?: Date;
   endTime?: Date;
   timeSheetRequirement?: boolean;
+  timesheetRules?: Partial<ITimesheetRules>;
   swms?: string;
   qrCode?: string;
   phoneNumber?: string;
@@ -36,6 +58,28 @@ const pointSchema = new Schema<IPoint>({
   },
 });
 
+// GeoJSON Polygon Schema
+const polygonSchema = new Schema<IPolygon>({
+  type: {
+    type: String,
+    enum: ['Polygon'],
+    required: true,
+  },
+  coordinates: {
+    type: [[[Number]]],
+    required: true,
+  },
+}, { _id: false });
+
+// Timesheet rules Schema; unset fields use the defaults
+const timesheetRulesSchema = new Schema<ITimesheetRules>({
+  weekStartsOn: { type: Number, min: 1, max: 7 },
+  breakAfterMinutes: { type: Number, min: 0 },
+  breakMinutes: { type: Number, min: 0 },
+  dailyOvertimeAfterMinutes: { type: Number, min: 0 },
+  weeklyOvertimeAfterMinutes: { type: Number, min: 0 },
+}, { _id: false });
+
 // ProjectDetails Schema
 const projectDetailsSchema = new Schema<IProjectDetails>({
   projectId: {
@@ -55,6 +99,16 @@ const projectDetailsSchema = new Schema<IProjectDetails>({
     type: pointSchema,
     required: false,
   },
+  geofenceRadius: {
+    type: Number,
+    min: 1,
+    max: MAX_GEOFENCE_RADIUS,
+    required: false,
+  },
+  geofence: {
+    type: polygonSchema,
+    required: false,
+  },
   description: {
     type: String,
     required: false,
@@ -71,6 +125,10 @@ const projectDetailsSchema = new Schema<IProjectDetails>({
     type: Boolean,
     required: false,
   },
+  timesheetRules: {
+    type: timesheetRulesSchema,
+    required: false,
+  },
   swms: {
     type: String,
     required: false,
@@ -93,6 +151,10 @@ const projectDetailsSchema = new Schema<IProjectDetails>({
   },
 }, { timestamps: true }); // Adds createdAt and updatedAt timestamps
 
+// Geofence lookups: projects near a location ping, and sites whose boundary contains it
+projectDetailsSchema.index({ location: '2dsphere' });
+projectDetailsSchema.index({ geofence: '2dsphere' });
+
 // Create and export the ProjectDetails model
 export const ProjectDetails = mongoose.model<IProjectDetails>('ProjectDetails', projectDetailsSchema);
 
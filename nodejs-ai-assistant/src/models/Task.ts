@@ -1,16 +1,49 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { softDeletePlugin } from '../utils/softDelete';
+
+export interface ITaskRecurrence {
+  type: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval: number;
+  endDate?: Date;
+}
+
+export interface ITaskEstimate {
+  value: number;
+  unit: 'hours' | 'points';
+}
+
+// A stored copy of a file; the attachment itself holds the current version
+export interface ITaskAttachmentVersion {
+  version: number;
+  uri: string;
+  type: string;
+  size?: number;
+  thumbnailUri?: string | null; // Downscaled image, for images and PDFs
+  previewUri?: string | null; // First page of a PDF as an image
+  uploadedBy?: string;
+  uploadedAt?: Date;
+}
+
+export interface ITaskAttachment extends ITaskAttachmentVersion {
+  _id: mongoose.Types.ObjectId; // Stable id, kept when a new version is uploaded
+  name: string;
+  commentId?: string | null;
+  versions: ITaskAttachmentVersion[]; // Earlier versions, oldest first
+}
 
 export interface ITask extends Document {
   name: string;
   assignee: string[]; // Array of userIds of the assignees
+  watchers: string[]; // Users following the task without being assigned, notified of updates and comments
   priority: 'low' | 'medium' | 'high';
   completionDate?: Date;
   channelId: string;
   createdAt: Date;
   updatedAt: Date;
   completed: boolean;
-  status: 'todo' | 'in_progress' | 'completed'; // Task status for workflow
+  status: string; // Status key from the channel's workflow (default: todo | in_progress | completed)
   description?: string; // Optional long text description
+  estimate?: ITaskEstimate | null; // Optional effort estimate, shared evenly between assignees in the workload view
   createdBy: string; // userId of the task creator
   parentTaskId?: string; // Reference to parent task if this is a subtask
   /**
@@ -19,13 +52,16 @@ export interface ITask extends Document {
    * Used for displaying the original due date context to users in different timezones
    */
   timezone?: string;
-  attachments?: Array<{
-    uri: string;
-    name: string;
-    type: string;
-    size?: number;
-    commentId?: string;
-  }>;
+  attachments?: ITaskAttachment[];
+  recurrence?: ITaskRecurrence;
+  seriesId?: string; // Shared by all instances of a recurring task (the first instance's _id)
+  nextInstanceId?: string; // Set once the next instance of the series has been spawned
+  blockedBy: string[]; // Ids of tasks that must be done before this one can start
+  rank?: string; // Fractional rank for manual ordering within a board column (see utils/taskRank)
+  deletedAt?: Date | null; // Set while the task is in the trash
+  deletedBy?: string;
+  deletionId?: string; // _id of the task whose deletion trashed this one, restored together
+  eventId?: string; // Event whose minutes this task was an action item of
 }
 
 const TaskSchema: Schema = new Schema({
@@ -38,6 +74,11 @@ const TaskSchema: Schema = new Schema({
     required: true,
     index: true,
   },
+  watchers: {
+    type: [String],
+    default: [],
+    index: true,
+  },
   priority: {
     type: String,
     enum: ['low', 'medium', 'high'],
@@ -60,7 +101,7 @@ const TaskSchema: Schema = new Schema({
   },
   status: {
     type: String,
-    enum: ['todo', 'in_progress', 'completed'],
+    // Allowed values come from the channel's TaskWorkflow, validated in the controller
     default: 'todo',
     required: true,
   },
@@ -68,6 +109,15 @@ const TaskSchema: Schema = new Schema({
     type: String,
     required: false,
   },
+  estimate: {
+    type: {
+      value: { type: Number, min: 0 },
+      unit: { type: String, enum: ['hours', 'points'] },
+    },
+    required: false,
+    default: undefined,
+    _id: false,
+  },
   createdBy: {
     type: String,
     required: true,
@@ -105,12 +155,87 @@ const TaskSchema: Schema = new Schema({
         required: false,
       },
       commentId: { type: String, required: false, default: null },
+      version: { type: Number, default: 1 },
+      thumbnailUri: { type: String, default: null },
+      previewUri: { type: String, default: null },
+      uploadedBy: { type: String, required: false },
+      uploadedAt: { type: Date, required: false },
+      versions: {
+        type: [{
+          _id: false,
+          version: { type: Number, required: true },
+          uri: { type: String, required: true },
+          type: { type: String, required: true },
+          size: Number,
+          thumbnailUri: { type: String, default: null },
+          previewUri: { type: String, default: null },
+          uploadedBy: String,
+          uploadedAt: Date,
+        }],
+        default: [],
+      },
     }],
     required: false,
     default: [],
-  }
+  },
+  recurrence: {
+    type: {
+      type: String,
+      enum: ['daily', 'weekly', 'monthly', 'yearly'],
+    },
+    interval: Number,
+    endDate: Date,
+  },
+  seriesId: {
+    type: String,
+    required: false,
+    index: true,
+  },
+  nextInstanceId: {
+    type: String,
+    required: false,
+  },
+  blockedBy: {
+    type: [String],
+    default: [],
+    index: true,
+  },
+  rank: {
+    type: String,
+    required: false,
+  },
+  deletedAt: {
+    type: Date,
+    required: false,
+    default: null,
+  },
+  deletedBy: {
+    type: String,
+    required: false,
+  },
+  deletionId: {
+    type: String,
+    required: false,
+    index: true,
+  },
+  eventId: {
+    type: String,
+    required: false,
+    index: true,
+  },
 }, {
   timestamps: true,
 });
 
+// Index for the recurrence cron job - finds due recurring tasks that have not spawned yet
+TaskSchema.index({ 'recurrence.type': 1, nextInstanceId: 1, completionDate: 1 });
+// Index for the board endpoint - tasks of a channel column in manual order
+TaskSchema.index({ channelId: 1, status: 1, rank: 1 });
+// Full-text search over task names and descriptions (see utils/taskSearch)
+TaskSchema.index({ name: 'text', description: 'text' }, { weights: { name: 5, description: 1 }, name: 'task_text_search' });
+// Index for the trash listing and the retention job
+TaskSchema.index({ deletedAt: 1 });
+
+TaskSchema.plugin(softDeletePlugin);
+
 export const Task = mongoose.model<ITask>('Task', TaskSchema);
\ No newline at end of file
@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ITaskFieldChange {
+  field: string;
+  before?: any;
+  after?: any;
+}
+
+export interface ITaskHistory extends Document {
+  taskId: string;
+  parentTaskId?: string; // Lets a parent's history include its subtasks
+  action: 'created' | 'updated' | 'deleted' | 'restored';
+  actor: string; // userId, or "system" for cron jobs
+  changes: ITaskFieldChange[];
+  createdAt: Date;
+}
+
+const TaskFieldChangeSchema: Schema = new Schema({
+  field: {
+    type: String,
+    required: true,
+  },
+  before: {
+    type: Schema.Types.Mixed,
+  },
+  after: {
+    type: Schema.Types.Mixed,
+  },
+}, { _id: false });
+
+const TaskHistorySchema: Schema = new Schema({
+  taskId: {
+    type: String,
+    required: true,
+  },
+  parentTaskId: {
+    type: String,
+    required: false,
+  },
+  action: {
+    type: String,
+    enum: ['created', 'updated', 'deleted', 'restored'],
+    required: true,
+  },
+  actor: {
+    type: String,
+    required: true,
+  },
+  changes: {
+    type: [TaskFieldChangeSchema],
+    default: [],
+  },
+}, {
+  // History entries are never edited
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+// Index for the history endpoint - newest entries of a task (and its subtasks) first
+TaskHistorySchema.index({ taskId: 1, createdAt: -1 });
+TaskHistorySchema.index({ parentTaskId: 1, createdAt: -1 });
+
+export const TaskHistory = mongoose.model<ITaskHistory>('TaskHistory', TaskHistorySchema);
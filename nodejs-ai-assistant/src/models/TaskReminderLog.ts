@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ITaskReminderLog extends Document {
+  taskId: string;
+  userId: string;
+  reminderType: 'due_soon' | 'overdue' | 'escalation';
+  offsetMinutes: number; // Minutes before the due time for due_soon, 0 otherwise
+  dueDate: Date; // Due date the reminder was sent for, so moving the due date re-arms reminders
+  createdAt: Date; // Automatically handled by timestamps: true
+  updatedAt: Date; // Automatically handled by timestamps: true
+}
+
+const TaskReminderLogSchema: Schema = new Schema({
+  taskId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  userId: {
+    type: String,
+    required: true,
+  },
+  reminderType: {
+    type: String,
+    enum: ['due_soon', 'overdue', 'escalation'],
+    required: true,
+  },
+  offsetMinutes: {
+    type: Number,
+    default: 0,
+  },
+  dueDate: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true // Adds createdAt and updatedAt automatically
+});
+
+// Compound index for ensuring each reminder goes out once per user and due date
+TaskReminderLogSchema.index({ taskId: 1, userId: 1, reminderType: 1, offsetMinutes: 1, dueDate: 1 }, { unique: true });
+
+export const TaskReminderLog = mongoose.model<ITaskReminderLog>('TaskReminderLog', TaskReminderLogSchema);
@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Who a templated task is assigned to when the template is used:
+// owner/moderator of the channel, or the person instantiating the template
+export const TEMPLATE_ASSIGNEE_ROLES = ['owner', 'moderator', 'requester'] as const;
+export type TemplateAssigneeRole = typeof TEMPLATE_ASSIGNEE_ROLES[number];
+
+export interface ITemplateSubtask {
+  name: string;
+  description?: string;
+  priority?: 'low' | 'medium' | 'high';
+  assigneeRoles?: TemplateAssigneeRole[]; // Falls back to the template's defaultAssigneeRoles
+  dueOffsetDays?: number; // Days after the start date; falls back to the parent's due date
+}
+
+export interface ITaskTemplate extends Document {
+  channelId: string; // Channel ID without the "messaging:" prefix
+  name: string;
+  description?: string;
+  priority: 'low' | 'medium' | 'high';
+  defaultAssigneeRoles: TemplateAssigneeRole[];
+  dueOffsetDays?: number; // Days after the start date the task is due
+  subtasks: ITemplateSubtask[]; // Created in this order
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TemplateSubtaskSchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: true,
+  },
+  description: {
+    type: String,
+    required: false,
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    required: false,
+  },
+  assigneeRoles: {
+    type: [String],
+    enum: TEMPLATE_ASSIGNEE_ROLES,
+    default: undefined,
+  },
+  dueOffsetDays: {
+    type: Number,
+    required: false,
+    min: 0,
+  },
+}, { _id: false });
+
+const TaskTemplateSchema: Schema = new Schema({
+  channelId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  name: {
+    type: String,
+    required: true,
+  },
+  description: {
+    type: String,
+    required: false,
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    default: 'medium',
+  },
+  defaultAssigneeRoles: {
+    type: [String],
+    enum: TEMPLATE_ASSIGNEE_ROLES,
+    default: ['requester'],
+  },
+  dueOffsetDays: {
+    type: Number,
+    required: false,
+    min: 0,
+  },
+  subtasks: {
+    type: [TemplateSubtaskSchema],
+    default: [],
+  },
+  createdBy: {
+    type: String,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+// Template names are unique within a channel so Kai can look them up by name
+TaskTemplateSchema.index({ channelId: 1, name: 1 }, { unique: true, collation: { locale: 'en', strength: 2 } });
+
+export const TaskTemplate = mongoose.model<ITaskTemplate>('TaskTemplate', TaskTemplateSchema);
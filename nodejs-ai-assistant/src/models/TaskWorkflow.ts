@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IWorkflowStatus {
+  key: string; // Stored on ITask.status, e.g. "quoted"
+  label: string; // Display name, e.g. "Quoted"
+  isTerminal: boolean; // Tasks in a terminal status count as completed
+  transitionsTo?: string[]; // Allowed next statuses; empty means any status in the workflow
+}
+
+export interface ITaskWorkflow extends Document {
+  channelId: string; // Channel ID without the "messaging:" prefix
+  statuses: IWorkflowStatus[]; // Ordered board columns; the first non-terminal status is the initial one
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkflowStatusSchema: Schema = new Schema({
+  key: {
+    type: String,
+    required: true,
+  },
+  label: {
+    type: String,
+    required: true,
+  },
+  isTerminal: {
+    type: Boolean,
+    default: false,
+  },
+  transitionsTo: {
+    type: [String],
+    default: undefined,
+  },
+}, { _id: false });
+
+const TaskWorkflowSchema: Schema = new Schema({
+  channelId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+  },
+  statuses: {
+    type: [WorkflowStatusSchema],
+    required: true,
+  },
+  updatedBy: {
+    type: String,
+    required: false,
+  },
+}, {
+  timestamps: true,
+});
+
+export const TaskWorkflow = mongoose.model<ITaskWorkflow>('TaskWorkflow', TaskWorkflowSchema);
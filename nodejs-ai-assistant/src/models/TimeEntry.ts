@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ITimeEntry extends Document {
+  taskId: string;
+  userId: string;
+  projectId?: string; // Channel ID of the task without the "messaging:" prefix, matches Attendance.projectId
+  startTime: Date;
+  endTime?: Date; // Missing while the timer is running
+  durationSeconds: number; // 0 while the timer is running
+  isRunning: boolean;
+  source: 'timer' | 'manual';
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TimeEntrySchema: Schema = new Schema({
+  taskId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  projectId: {
+    type: String,
+    required: false,
+    index: true,
+  },
+  startTime: {
+    type: Date,
+    required: true,
+  },
+  endTime: {
+    type: Date,
+    required: false,
+  },
+  durationSeconds: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  isRunning: {
+    type: Boolean,
+    default: false,
+  },
+  source: {
+    type: String,
+    enum: ['timer', 'manual'],
+    required: true,
+  },
+  note: {
+    type: String,
+    required: false,
+  },
+}, {
+  timestamps: true,
+});
+
+// A user can only have one running timer at a time
+TimeEntrySchema.index({ userId: 1 }, { unique: true, partialFilterExpression: { isRunning: true }, name: 'one_running_timer_per_user' });
+// Reports load a project's entries for a date range
+TimeEntrySchema.index({ projectId: 1, startTime: 1 });
+TimeEntrySchema.index({ userId: 1, startTime: 1 });
+
+export const TimeEntry = mongoose.model<ITimeEntry>('TimeEntry', TimeEntrySchema);
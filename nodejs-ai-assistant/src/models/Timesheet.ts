@@ -0,0 +1,146 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ITimesheetRules } from './Project';
+
+export type TimesheetStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+export interface ITimesheetSession {
+  checkIn: Date;
+  checkOut: Date | null; // null while the user has not checked out; such sessions count no hours
+  minutes: number;
+}
+
+export interface ITimesheetDay {
+  date: string; // YYYY-MM-DD in the project timezone; sessions count on the day they start
+  sessions: ITimesheetSession[];
+  firstIn: Date | null;
+  lastOut: Date | null;
+  workedMinutes: number; // Sum of closed sessions
+  breakMinutes: number; // Gaps between sessions plus the deducted break
+  deductedBreakMinutes: number; // Unpaid break deducted by the break rule
+  paidMinutes: number; // workedMinutes less deductedBreakMinutes
+  regularMinutes: number;
+  overtimeMinutes: number;
+}
+
+export interface ITimesheetTotals {
+  workedMinutes: number;
+  breakMinutes: number;
+  deductedBreakMinutes: number;
+  paidMinutes: number;
+  regularMinutes: number;
+  overtimeMinutes: number;
+}
+
+export interface ITimesheetHistoryEntry {
+  action: 'submitted' | 'approved' | 'rejected' | 'reopened';
+  by: string;
+  at: Date;
+  comment?: string;
+}
+
+export interface ITimesheet extends Document {
+  userId: string;
+  projectId: string; // Project channel ID, as in Attendance
+  timezone: string;
+  weekStart: Date; // Start of the week in the project timezone
+  weekEnd: Date; // Start of the following week
+  status: TimesheetStatus;
+  rules: ITimesheetRules; // Rules the hours were calculated with
+  days: ITimesheetDay[];
+  totals: ITimesheetTotals;
+  openSessions: number;
+  note?: string; // From the user when submitting
+  submittedAt?: Date;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  history: ITimesheetHistoryEntry[];
+  createdAt: Date; // Automatically handled by timestamps: true
+  updatedAt: Date; // Automatically handled by timestamps: true
+}
+
+const minutesFields = {
+  workedMinutes: { type: Number, default: 0 },
+  breakMinutes: { type: Number, default: 0 },
+  deductedBreakMinutes: { type: Number, default: 0 },
+  paidMinutes: { type: Number, default: 0 },
+  regularMinutes: { type: Number, default: 0 },
+  overtimeMinutes: { type: Number, default: 0 },
+};
+
+const TimesheetDaySchema = new Schema({
+  date: { type: String, required: true },
+  sessions: [{
+    _id: false,
+    checkIn: { type: Date, required: true },
+    checkOut: { type: Date, default: null },
+    minutes: { type: Number, default: 0 },
+  }],
+  firstIn: { type: Date, default: null },
+  lastOut: { type: Date, default: null },
+  ...minutesFields,
+}, { _id: false });
+
+const TimesheetSchema: Schema = new Schema({
+  userId: {
+    type: String,
+    required: true,
+  },
+  projectId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  timezone: {
+    type: String,
+    default: 'UTC',
+  },
+  weekStart: {
+    type: Date,
+    required: true,
+  },
+  weekEnd: {
+    type: Date,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['draft', 'submitted', 'approved', 'rejected'],
+    default: 'draft',
+  },
+  rules: {
+    weekStartsOn: Number,
+    breakAfterMinutes: Number,
+    breakMinutes: Number,
+    dailyOvertimeAfterMinutes: Number,
+    weeklyOvertimeAfterMinutes: Number,
+  },
+  days: [TimesheetDaySchema],
+  totals: minutesFields,
+  openSessions: {
+    type: Number,
+    default: 0,
+  },
+  note: String,
+  submittedAt: Date,
+  reviewedBy: String,
+  reviewedAt: Date,
+  rejectionReason: String,
+  history: [{
+    _id: false,
+    action: { type: String, enum: ['submitted', 'approved', 'rejected', 'reopened'], required: true },
+    by: { type: String, required: true },
+    at: { type: Date, default: Date.now },
+    comment: String,
+  }],
+}, {
+  timestamps: true // Adds createdAt and updatedAt automatically
+});
+
+// One timesheet per user, project and week
+TimesheetSchema.index({ userId: 1, projectId: 1, weekStart: 1 }, { unique: true });
+
+// Review queue of a project, and approved periods that lock attendance
+TimesheetSchema.index({ projectId: 1, status: 1, weekStart: -1 });
+
+export const Timesheet = mongoose.model<ITimesheet>('Timesheet', TimesheetSchema);
@@ -7,6 +7,8 @@ export interface IUser extends Document {
   timezone?: string;
   timezoneOffset?: number;
   timezoneAbbreviation?: string;
+  calendarFeedToken?: string; // Secret in the user's iCalendar feed URL
+  eventReminderChannel?: 'push' | 'kai'; // How event reminders reach the user
   createdAt: Date;
   updatedAt: Date;
 }
@@ -19,6 +21,8 @@ const UserSchema = new Schema<IUser>(
     timezone: { type: String, default: 'UTC' }, // e.g., "America/New_York", "Asia/Kolkata"
     timezoneOffset: { type: Number }, // offset in minutes
     timezoneAbbreviation: { type: String }, // e.g., "EST", "IST"
+    calendarFeedToken: { type: String, unique: true, sparse: true },
+    eventReminderChannel: { type: String, enum: ['push', 'kai'], default: 'push' },
   },
   {
     timestamps: true, // Adds createdAt and updatedAt automatically
@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IWorkloadCapacity extends Document {
+  channelId: string; // Channel ID without the "messaging:" prefix
+  userId: string;
+  hoursPerWeek?: number; // Falls back to TASK_DEFAULT_WEEKLY_CAPACITY_HOURS
+  pointsPerWeek?: number; // Falls back to TASK_DEFAULT_WEEKLY_CAPACITY_POINTS
+  updatedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkloadCapacitySchema: Schema = new Schema({
+  channelId: {
+    type: String,
+    required: true,
+  },
+  userId: {
+    type: String,
+    required: true,
+  },
+  hoursPerWeek: {
+    type: Number,
+    required: false,
+    min: 0,
+  },
+  pointsPerWeek: {
+    type: Number,
+    required: false,
+    min: 0,
+  },
+  updatedBy: {
+    type: String,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+// One capacity per user and channel
+WorkloadCapacitySchema.index({ channelId: 1, userId: 1 }, { unique: true });
+
+export const WorkloadCapacity = mongoose.model<IWorkloadCapacity>('WorkloadCapacity', WorkloadCapacitySchema);
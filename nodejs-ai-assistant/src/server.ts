@@ -3,6 +3,10 @@ import { app } from './index'; // Import the configured app instance
 import { connectDB } from './config/mongodb';
 import { setupAutoAttendanceCronJob } from './cron/autoAttendance';
 import { startEventReminderCron } from './services/eventReminderCron';
+import { startTaskRecurrenceCron } from './services/taskRecurrenceCron';
+import { startTaskTrashCron } from './services/taskTrashCron';
+import { startTaskReminderCron } from './services/taskReminderCron';
+import { startTimesheetCron } from './services/timesheetCron';
 
 const port = process.env.PORT || 3000;
 
@@ -24,6 +28,14 @@ const startServer = async () => {
 
         startEventReminderCron(); // Start event reminder cron job
 
+        startTaskRecurrenceCron(); // Spawn next instances of recurring tasks
+
+        startTaskTrashCron(); // Purge tasks that have been in the trash past the retention period
+
+        startTaskReminderCron(); // Remind assignees of due and overdue tasks
+
+        startTimesheetCron(); // Prepare last week's timesheets for projects that require them
+
       }
     });
   } catch (error) {
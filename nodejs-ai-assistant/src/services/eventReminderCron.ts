@@ -1,83 +1,77 @@
 import cron from 'node-cron';
-import { Event } from '../models/Event';
+import { Event, IEvent, ReminderChannel } from '../models/Event';
+import { EventReminderDelivery } from '../models/EventReminderDelivery';
 import { User } from '../models/User';
+import { serverClient } from '../serverClient';
 import { getStreamFeedsService } from '../utils/getstreamFeedsService';
+import { expandEvent, EventOccurrence } from '../utils/eventRecurrence';
+import {
+  getReminderChannel,
+  getReminderRecipients,
+  getUserReminderOffsets,
+  MAX_REMINDER_MINUTES,
+} from '../utils/eventReminders';
 
 /**
  * Event Reminder Cron Service
  *
  * Runs every minute to check for events that need reminder notifications.
- * Finds events where:
- * - reminder is set (reminder > 0)
- * - reminderSent is false
- * - startDate - reminder minutes <= now
- * - status is 'scheduled' (not cancelled or completed)
+ * Looks at scheduled events (and occurrences of recurring events) starting within MAX_REMINDER_MINUTES.
+ * Each recipient - the organizer and every attendee who has not declined - is reminded at each of their
+ * offsets: the attendee's own reminders for the event if set, else the event's.
+ *
+ * Every reminder is claimed in EventReminderDelivery (per occurrence, user and offset) before it is sent,
+ * so it goes out once and its delivery can be looked up. If several of a user's reminders are due at
+ * once (e.g. the event was created at short notice), only the latest is sent and the others are skipped.
+ *
+ * Users choose whether reminders arrive as push notifications or as messages from Kai in their kai channel.
  */
 
 // Track if cron is already started
 let isRunning = false;
 
+interface ReminderRecipient {
+  channel: ReminderChannel;
+  timezone: string;
+}
+
 /**
  * Process event reminders
  */
 async function processEventReminders(): Promise<void> {
   try {
     const now = new Date();
+    const horizon = new Date(now.getTime() + MAX_REMINDER_MINUTES * 60 * 1000);
+    const recipients = new Map<string, ReminderRecipient>();
 
-    // Find events that need reminders:
-    // - Has reminder set
-    // - Reminder not yet sent
-    // - Event is scheduled (not cancelled/completed)
-    // - Current time >= (startDate - reminder minutes)
-    const eventsNeedingReminders = await Event.find({
-      reminder: { $exists: true, $gt: 0 },
+    // Single events. Ones marked reminderSent were reminded before deliveries were tracked.
+    const events = await Event.find({
+      status: 'scheduled',
       reminderSent: { $ne: true },
+      startDate: { $gt: now, $lte: horizon }, // Event hasn't started yet
+      'recurrence.type': null
+    });
+
+    for (const event of events) {
+      await processOccurrenceReminders(event, event.startDate, event.startDate, event.title, event.location, now, recipients);
+    }
+
+    // Occurrences of recurring events
+    const series = await Event.find({
       status: 'scheduled',
-      startDate: { $gt: now } // Event hasn't started yet
+      'recurrence.type': { $ne: null },
+      startDate: { $lte: horizon },
+      $or: [{ 'recurrence.endDate': null }, { 'recurrence.endDate': { $gte: now } }]
     });
 
-    for (const event of eventsNeedingReminders) {
-      const reminderMinutes = event.reminder || 15;
-      const reminderTime = new Date(event.startDate.getTime() - (reminderMinutes * 60 * 1000));
-
-      // Check if it's time to send the reminder
-      if (now >= reminderTime) {
-        const eventId = (event._id as any).toString();
-        console.log(`⏰ Processing reminder for event: "${event.title}" (${eventId})`);
-
-        // Get all users to notify (organizer + attendees)
-        const attendeeIds = event.attendees.map(a => a.userId);
-        const allUserIds = [...new Set([event.organizer, ...attendeeIds])];
-
-        // Send reminder to each user
-        for (const userId of allUserIds) {
-          try {
-            // Get user's timezone for personalized notification
-            const user = await User.findOne({ userId });
-            const userTimezone = user?.timezone || 'UTC';
-
-            // Format event time in user's timezone
-            const eventTimeFormatted = formatEventTimeForUser(event.startDate, userTimezone);
-
-            await getStreamFeedsService.createNotification(userId, 'event_reminder', eventId, {
-              eventId: eventId,
-              eventTitle: event.title,
-              startDate: event.startDate.toISOString(),
-              location: event.location,
-              minutesUntil: reminderMinutes,
-              userTimezone,
-              eventTimeFormatted
-            });
-
-            console.log(`  ✅ Sent reminder to ${userId} (${userTimezone})`);
-          } catch (err) {
-            console.error(`  ❌ Failed to send reminder to ${userId}:`, err);
-          }
-        }
-
-        // Mark reminder as sent
-        await Event.findByIdAndUpdate(eventId, { reminderSent: true });
-        console.log(`  📌 Marked reminderSent=true for event ${eventId}`);
+    for (const event of series) {
+      const occurrences = expandEvent(event.toObject(), now, horizon)
+        .filter((occurrence) => occurrence.startDate > now && occurrence.startDate <= horizon);
+
+      for (const occurrence of occurrences) {
+        await processOccurrenceReminders(
+          event, occurrence.originalStartDate, occurrence.startDate, occurrence.title, occurrence.location, now, recipients, occurrence
+        );
       }
     }
   } catch (error) {
@@ -85,6 +79,144 @@ async function processEventReminders(): Promise<void> {
   }
 }
 
+/**
+ * Send the reminders of an event (or one occurrence of it) that are due, to each recipient
+ */
+async function processOccurrenceReminders(
+  event: IEvent,
+  occurrenceStart: Date,
+  startDate: Date,
+  title: string,
+  location: string | undefined,
+  now: Date,
+  recipients: Map<string, ReminderRecipient>,
+  occurrence?: EventOccurrence
+): Promise<void> {
+  const eventId = (event._id as any).toString();
+  const minutesUntil = (startDate.getTime() - now.getTime()) / (60 * 1000);
+
+  for (const userId of getReminderRecipients(event)) {
+    const due = getUserReminderOffsets(event, userId).filter((offset) => offset >= minutesUntil);
+    if (due.length === 0) continue;
+
+    const recipient = await getRecipient(userId, recipients);
+    const channel = getReminderChannel(event, userId, recipient.channel);
+
+    // The latest due reminder is sent; earlier ones that were missed are not sent late
+    const offset = Math.min(...due);
+    for (const missed of due.filter((item) => item !== offset)) {
+      await claimReminder(eventId, occurrenceStart, userId, missed, channel, 'skipped');
+    }
+
+    const delivery = await claimReminder(eventId, occurrenceStart, userId, offset, channel, 'sending');
+    if (!delivery) continue; // Already reminded (or it will be retried next run)
+
+    console.log(`⏰ Processing ${offset}-minute reminder for event: "${title}" (${occurrence?.occurrenceId || eventId}) to ${userId}`);
+    try {
+      const deliveredVia = await sendReminder(userId, channel, recipient.timezone, eventId, startDate, title, location,
+        Math.max(1, Math.round(minutesUntil)), offset, occurrence);
+      await EventReminderDelivery.updateOne({ _id: delivery._id }, { status: 'sent', channel: deliveredVia, sentAt: new Date() });
+      console.log(`  ✅ Sent reminder to ${userId} via ${deliveredVia} (${recipient.timezone})`);
+    } catch (err) {
+      console.error(`  ❌ Failed to send reminder to ${userId}:`, err);
+      await EventReminderDelivery.updateOne({ _id: delivery._id }, {
+        status: 'failed',
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+}
+
+/**
+ * Record a reminder before sending it. Returns null if it was already recorded.
+ */
+async function claimReminder(
+  eventId: string,
+  occurrenceStart: Date,
+  userId: string,
+  offsetMinutes: number,
+  channel: ReminderChannel,
+  status: 'sending' | 'skipped'
+) {
+  try {
+    return await new EventReminderDelivery({ eventId, occurrenceStart, userId, offsetMinutes, channel, status }).save();
+  } catch (error: any) {
+    if (error?.code !== 11000) {
+      console.error(`❌ Failed to claim reminder for event ${eventId} (${userId}, ${offsetMinutes} min):`, error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Reminder channel and timezone of a user, looked up once per run
+ */
+async function getRecipient(userId: string, recipients: Map<string, ReminderRecipient>): Promise<ReminderRecipient> {
+  let recipient = recipients.get(userId);
+  if (!recipient) {
+    const user = await User.findOne({ userId }).select('timezone eventReminderChannel').lean();
+    recipient = {
+      channel: (user as any)?.eventReminderChannel || 'push',
+      timezone: (user as any)?.timezone || 'UTC',
+    };
+    recipients.set(userId, recipient);
+  }
+  return recipient;
+}
+
+/**
+ * Remind one user, as a push notification or a message from Kai in their kai channel.
+ * If the Kai message cannot be sent, a push notification is sent instead. Returns the channel used.
+ */
+async function sendReminder(
+  userId: string,
+  channel: ReminderChannel,
+  userTimezone: string,
+  eventId: string,
+  startDate: Date,
+  title: string,
+  location: string | undefined,
+  minutesUntil: number,
+  offsetMinutes: number,
+  occurrence?: EventOccurrence
+): Promise<ReminderChannel> {
+  // Format event time in user's timezone
+  const eventTimeFormatted = formatEventTimeForUser(startDate, userTimezone);
+  const occurrenceFields = occurrence && {
+    occurrenceId: occurrence.occurrenceId,
+    originalStartDate: occurrence.originalStartDate.toISOString()
+  };
+
+  if (channel === 'kai') {
+    try {
+      await serverClient.channel('messaging', `kai${userId}`).sendMessage({
+        user_id: 'Kai',
+        text: `⏰ Reminder: "${title}" starts in ${minutesUntil} minutes (${eventTimeFormatted})${location ? ` at ${location}` : ''}`,
+        type: 'regular',
+        action_type: 'event_reminder',
+        eventId,
+        ...occurrenceFields
+      } as any, { skip_push: false });
+      return 'kai';
+    } catch (error) {
+      console.error(`  ⚠️ Could not send reminder to kai channel of ${userId}, sending a push notification instead:`, error);
+    }
+  }
+
+  await getStreamFeedsService.createNotification(userId, 'event_reminder', eventId, {
+    eventId: eventId,
+    eventTitle: title,
+    startDate: startDate.toISOString(),
+    location,
+    minutesUntil,
+    offsetMinutes,
+    userTimezone,
+    eventTimeFormatted,
+    ...occurrenceFields
+  });
+  return 'push';
+}
+
 /**
  * Format event time for a specific user's timezone
  */
@@ -0,0 +1,74 @@
+import cron from 'node-cron';
+import { Task } from '../models/Task';
+import { spawnNextTaskInstance } from '../utils/taskRecurrence';
+
+/**
+ * Task Recurrence Cron Service
+ *
+ * Runs every 15 minutes and spawns the next instance of recurring tasks whose
+ * due date has passed, even if nobody marked them complete. The new instance is
+ * due at the first occurrence still ahead, so a series that sat overdue does not
+ * catch up with one stale instance per run. Tasks completed via
+ * PATCH /task/:taskId/complete spawn immediately and are skipped here because
+ * nextInstanceId is already set.
+ */
+
+// Track if cron is already started
+let isRunning = false;
+
+/**
+ * Process due recurring tasks
+ */
+async function processRecurringTasks(): Promise<void> {
+  try {
+    const now = new Date();
+
+    const dueRecurringTasks = await Task.find({
+      'recurrence.type': { $exists: true },
+      nextInstanceId: { $exists: false },
+      parentTaskId: { $exists: false },
+      completionDate: { $lte: now },
+    });
+
+    for (const task of dueRecurringTasks) {
+      try {
+        await spawnNextTaskInstance(task);
+      } catch (err) {
+        console.error(`❌ Failed to spawn next instance for task ${task._id}:`, err);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Error processing recurring tasks:', error);
+  }
+}
+
+/**
+ * Start the task recurrence cron job
+ * Runs every 15 minutes
+ */
+export function startTaskRecurrenceCron(): void {
+  if (isRunning) {
+    console.log('⚠️ Task recurrence cron is already running');
+    return;
+  }
+
+  cron.schedule('*/15 * * * *', async () => {
+    await processRecurringTasks();
+  });
+
+  isRunning = true;
+  console.log('🔁 Task recurrence cron started (runs every 15 minutes)');
+
+  // Run once immediately on startup to catch up on anything missed while down
+  processRecurringTasks();
+}
+
+/**
+ * Manually trigger recurrence processing (for testing)
+ */
+export async function triggerRecurrenceProcessing(): Promise<void> {
+  console.log('🔄 Manually triggering task recurrence processing...');
+  await processRecurringTasks();
+}
+
+export default { startTaskRecurrenceCron, triggerRecurrenceProcessing };
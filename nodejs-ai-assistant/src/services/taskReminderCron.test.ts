@@ -0,0 +1,107 @@
+jest.mock('../utils/getstreamFeedsService', () => ({
+  getStreamFeedsService: { createNotification: jest.fn() },
+}));
+jest.mock('../utils/channelRoles', () => ({
+  getChannelRoleMembers: jest.fn(async () => ({ ownerId: 'owner', moderatorIds: ['mod', 'worker'] })),
+}));
+
+import { Task } from '../models/Task';
+import { TaskReminderLog } from '../models/TaskReminderLog';
+import { getStreamFeedsService } from '../utils/getstreamFeedsService';
+import { getReminderOffsets, getTaskDueTime, triggerTaskReminderProcessing } from './taskReminderCron';
+
+const HOUR = 60 * 60 * 1000;
+const createNotification = getStreamFeedsService.createNotification as jest.Mock;
+
+const task = (fields: Record<string, any>) => ({
+  _id: 'task-1',
+  name: 'Pour slab',
+  channelId: 'messaging:site-1',
+  createdBy: 'owner',
+  assignee: ['worker'],
+  timezone: 'UTC',
+  ...fields,
+});
+
+// Remembers claimed reminders like the unique index on TaskReminderLog
+const claimed = new Set<string>();
+
+beforeEach(() => {
+  claimed.clear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(TaskReminderLog.prototype, 'save').mockImplementation(async function (this: any) {
+    const key = [this.taskId, this.userId, this.reminderType, this.offsetMinutes].join('|');
+    if (claimed.has(key)) throw Object.assign(new Error('duplicate key'), { code: 11000 });
+    claimed.add(key);
+    return this;
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  delete process.env.TASK_REMINDER_OFFSETS_MINUTES;
+});
+
+const sentVerbs = () => createNotification.mock.calls.map(([userId, verb]) => `${verb}:${userId}`);
+
+describe('getReminderOffsets', () => {
+  it('parses, deduplicates and sorts the configured offsets', () => {
+    process.env.TASK_REMINDER_OFFSETS_MINUTES = '30, 120,30,abc';
+    expect(getReminderOffsets()).toEqual([120, 30]);
+  });
+
+  it('falls back to a day and an hour', () => {
+    process.env.TASK_REMINDER_OFFSETS_MINUTES = '0,-5';
+    expect(getReminderOffsets()).toEqual([1440, 60]);
+  });
+});
+
+describe('getTaskDueTime', () => {
+  it('treats a date at midnight in the task timezone as due at the end of that day', () => {
+    const due = getTaskDueTime({ completionDate: new Date('2026-03-03T05:00:00Z'), timezone: 'America/New_York' } as any);
+    expect(due?.toISOString()).toBe('2026-03-04T04:59:59.999Z');
+  });
+
+  it('keeps an explicit due time', () => {
+    const due = getTaskDueTime({ completionDate: new Date('2026-03-03T17:00:00Z'), timezone: 'UTC' } as any);
+    expect(due?.toISOString()).toBe('2026-03-03T17:00:00.000Z');
+  });
+});
+
+describe('triggerTaskReminderProcessing', () => {
+  it('sends only the closest reached offset, once', async () => {
+    jest.spyOn(Task, 'find').mockResolvedValue([task({ completionDate: new Date(Date.now() + 30 * 60 * 1000) })] as any);
+
+    await triggerTaskReminderProcessing();
+    await triggerTaskReminderProcessing();
+
+    expect(sentVerbs()).toEqual(['task_due_soon:worker']);
+    expect(createNotification.mock.calls[0][3]).toMatchObject({ timeUntilDue: '1 hour' });
+  });
+
+  it('tells the assignees when overdue and escalates to the creator later', async () => {
+    jest.spyOn(Task, 'find').mockResolvedValue([task({ completionDate: new Date(Date.now() - 25 * HOUR) })] as any);
+
+    await triggerTaskReminderProcessing();
+
+    expect(sentVerbs()).toEqual(['task_overdue:worker', 'task_overdue_escalation:owner']);
+  });
+
+  it('escalates to the channel moderators who are not assigned when the creator is', async () => {
+    jest.spyOn(Task, 'find').mockResolvedValue([
+      task({ createdBy: 'worker', completionDate: new Date(Date.now() - 25 * HOUR) }),
+    ] as any);
+
+    await triggerTaskReminderProcessing();
+
+    expect(sentVerbs()).toEqual(['task_overdue:worker', 'task_overdue_escalation:owner', 'task_overdue_escalation:mod']);
+  });
+
+  it('does not escalate before the escalation delay', async () => {
+    jest.spyOn(Task, 'find').mockResolvedValue([task({ completionDate: new Date(Date.now() - 2 * HOUR) })] as any);
+
+    await triggerTaskReminderProcessing();
+
+    expect(sentVerbs()).toEqual(['task_overdue:worker']);
+  });
+});
@@ -0,0 +1,271 @@
+import cron from 'node-cron';
+import moment from 'moment-timezone';
+import { Task, ITask } from '../models/Task';
+import { TaskReminderLog, ITaskReminderLog } from '../models/TaskReminderLog';
+import { getStreamFeedsService } from '../utils/getstreamFeedsService';
+import { getChannelRoleMembers } from '../utils/channelRoles';
+
+/**
+ * Task Reminder Cron Service
+ *
+ * Runs every 5 minutes and notifies assignees about open tasks with a completionDate:
+ * - before the due time, at each offset in TASK_REMINDER_OFFSETS_MINUTES (default 1440,60)
+ * - once the task is overdue
+ * - after TASK_OVERDUE_ESCALATION_HOURS (default 24) overdue, the task creator is told,
+ *   or the channel moderators if the creator is assigned to the task themselves
+ *
+ * Each reminder is logged in TaskReminderLog before it is sent, so it goes out once per
+ * user and due date even if several server instances run the cron. Moving the due date
+ * re-arms the reminders.
+ */
+
+const DEFAULT_OFFSETS_MINUTES = [24 * 60, 60];
+const DEFAULT_ESCALATION_HOURS = 24;
+// Overdue tasks older than this are left alone, so old backlogs do not get a burst of notices
+const OVERDUE_LOOKBACK_DAYS = 7;
+
+// Track if cron is already started
+let isRunning = false;
+
+/**
+ * Minutes before the due time at which assignees are reminded, largest first
+ */
+export function getReminderOffsets(): number[] {
+  const offsets = (process.env.TASK_REMINDER_OFFSETS_MINUTES || '')
+    .split(',')
+    .map((value) => parseInt(value.trim(), 10))
+    .filter((value) => value > 0);
+  return [...new Set(offsets.length > 0 ? offsets : DEFAULT_OFFSETS_MINUTES)].sort((a, b) => b - a);
+}
+
+export function getEscalationDelayHours(): number {
+  const hours = parseFloat(process.env.TASK_OVERDUE_ESCALATION_HOURS || '');
+  return hours > 0 ? hours : DEFAULT_ESCALATION_HOURS;
+}
+
+const getTaskTimezone = (task: Pick<ITask, 'timezone'>): string =>
+  task.timezone && moment.tz.zone(task.timezone) ? task.timezone : 'UTC';
+
+/**
+ * When a task is actually due.
+ * A due date at midnight in the task's timezone is a date without a time, so the task is due at the end of that day.
+ */
+export function getTaskDueTime(task: Pick<ITask, 'completionDate' | 'timezone'>): Date | null {
+  if (!task.completionDate) return null;
+
+  const due = moment.tz(task.completionDate, getTaskTimezone(task));
+  const isDateOnly = due.hours() === 0 && due.minutes() === 0 && due.seconds() === 0;
+  return isDateOnly ? due.endOf('day').toDate() : due.toDate();
+}
+
+/**
+ * Claim a reminder for a user. Returns false if it was already sent.
+ */
+async function claimReminder(
+  task: ITask,
+  userId: string,
+  reminderType: ITaskReminderLog['reminderType'],
+  offsetMinutes: number = 0
+): Promise<boolean> {
+  try {
+    await new TaskReminderLog({
+      taskId: String(task._id),
+      userId,
+      reminderType,
+      offsetMinutes,
+      dueDate: task.completionDate,
+    }).save();
+    return true;
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Format the due time in the task's timezone, e.g. "Mon, Mar 3, 5:00 PM"
+ */
+function formatDueTime(dueTime: Date, timezone: string): string {
+  return moment.tz(dueTime, timezone).format('ddd, MMM D, h:mm A');
+}
+
+function formatDuration(minutes: number): string {
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return days === 1 ? '1 day' : `${days} days`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return hours === 1 ? '1 hour' : `${hours} hours`;
+  }
+  return `${minutes} minutes`;
+}
+
+async function notifyUsers(userIds: string[], verb: string, task: ITask, extra: Record<string, any>): Promise<void> {
+  const taskId = String(task._id);
+  for (const userId of userIds) {
+    try {
+      await getStreamFeedsService.createNotification(userId, verb, taskId, {
+        taskId,
+        taskName: task.name || 'Untitled Task',
+        channelId: task.channelId,
+        actor: 'system',
+        ...extra,
+      });
+      console.log(`  ✅ Sent ${verb} for task ${taskId} to ${userId}`);
+    } catch (err) {
+      console.error(`  ❌ Failed to send ${verb} for task ${taskId} to ${userId}:`, err);
+    }
+  }
+}
+
+/**
+ * Users that have not had this reminder yet for the task's current due date
+ */
+async function claimForUsers(
+  task: ITask,
+  userIds: string[],
+  reminderType: ITaskReminderLog['reminderType'],
+  offsetMinutes: number = 0
+): Promise<string[]> {
+  const claimed: string[] = [];
+  for (const userId of new Set(userIds.filter(Boolean))) {
+    if (await claimReminder(task, userId, reminderType, offsetMinutes)) {
+      claimed.push(userId);
+    }
+  }
+  return claimed;
+}
+
+async function sendDueSoonReminders(task: ITask, dueTime: Date, now: Date, offsets: number[]): Promise<void> {
+  const minutesUntilDue = (dueTime.getTime() - now.getTime()) / 60000;
+  // Only the closest offset is sent; larger offsets that were missed (e.g. the task was created late) are just logged
+  const reached = offsets.filter((offset) => minutesUntilDue <= offset);
+  if (reached.length === 0) return;
+
+  const closest = reached[reached.length - 1];
+  for (const offset of reached.slice(0, -1)) {
+    await claimForUsers(task, task.assignee || [], 'due_soon', offset);
+  }
+
+  const recipients = await claimForUsers(task, task.assignee || [], 'due_soon', closest);
+  if (recipients.length === 0) return;
+
+  const timezone = getTaskTimezone(task);
+  await notifyUsers(recipients, 'task_due_soon', task, {
+    dueDate: dueTime.toISOString(),
+    dueTimeFormatted: formatDueTime(dueTime, timezone),
+    timezone,
+    timeUntilDue: formatDuration(closest),
+  });
+}
+
+async function sendOverdueNotices(task: ITask, dueTime: Date, now: Date): Promise<void> {
+  const timezone = getTaskTimezone(task);
+  const dueExtra = {
+    dueDate: dueTime.toISOString(),
+    dueTimeFormatted: formatDueTime(dueTime, timezone),
+    timezone,
+  };
+
+  const recipients = await claimForUsers(task, task.assignee || [], 'overdue');
+  if (recipients.length > 0) {
+    await notifyUsers(recipients, 'task_overdue', task, dueExtra);
+  }
+
+  const escalationDelayHours = getEscalationDelayHours();
+  if (now.getTime() - dueTime.getTime() < escalationDelayHours * 60 * 60 * 1000) return;
+
+  // Escalate to the creator, unless they are assigned themselves - then the channel moderators are told instead
+  const assignees = new Set(task.assignee || []);
+  let escalateTo: string[] = task.createdBy && !assignees.has(task.createdBy) ? [task.createdBy] : [];
+  if (escalateTo.length === 0 && task.channelId) {
+    try {
+      const { ownerId, moderatorIds } = await getChannelRoleMembers(task.channelId);
+      escalateTo = [ownerId, ...moderatorIds].filter((id): id is string => !!id && !assignees.has(id));
+    } catch (error) {
+      console.error(`  ❌ Failed to load moderators for task ${task._id}:`, error);
+      return;
+    }
+  }
+
+  const escalationRecipients = await claimForUsers(task, escalateTo, 'escalation');
+  if (escalationRecipients.length > 0) {
+    await notifyUsers(escalationRecipients, 'task_overdue_escalation', task, {
+      ...dueExtra,
+      assignees: task.assignee,
+      overdueHours: Math.floor((now.getTime() - dueTime.getTime()) / (60 * 60 * 1000)),
+    });
+  }
+}
+
+/**
+ * Process task reminders
+ */
+async function processTaskReminders(): Promise<void> {
+  try {
+    const now = new Date();
+    const offsets = getReminderOffsets();
+
+    // completionDate is widened by a day on both ends: date-only due dates are due at the end of the day,
+    // in a timezone that can be up to 14 hours away from UTC
+    const tasks = await Task.find({
+      completed: { $ne: true },
+      completionDate: {
+        $gte: new Date(now.getTime() - (OVERDUE_LOOKBACK_DAYS + 1) * 24 * 60 * 60 * 1000),
+        $lte: new Date(now.getTime() + (offsets[0] + 24 * 60) * 60 * 1000),
+      },
+      'assignee.0': { $exists: true },
+    });
+
+    for (const task of tasks) {
+      try {
+        const dueTime = getTaskDueTime(task);
+        if (!dueTime) continue;
+
+        if (dueTime > now) {
+          await sendDueSoonReminders(task, dueTime, now, offsets);
+        } else if (now.getTime() - dueTime.getTime() <= OVERDUE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000) {
+          await sendOverdueNotices(task, dueTime, now);
+        }
+      } catch (err) {
+        console.error(`❌ Failed to process reminders for task ${task._id}:`, err);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Error processing task reminders:', error);
+  }
+}
+
+/**
+ * Start the task reminder cron job
+ * Runs every 5 minutes
+ */
+export function startTaskReminderCron(): void {
+  if (isRunning) {
+    console.log('⚠️ Task reminder cron is already running');
+    return;
+  }
+
+  cron.schedule('*/5 * * * *', async () => {
+    await processTaskReminders();
+  });
+
+  isRunning = true;
+  console.log('⏰ Task reminder cron started (runs every 5 minutes)');
+
+  // Run once immediately on startup to catch any missed reminders
+  processTaskReminders();
+}
+
+/**
+ * Manually trigger task reminder processing (for testing)
+ */
+export async function triggerTaskReminderProcessing(): Promise<void> {
+  console.log('🔄 Manually triggering task reminder processing...');
+  await processTaskReminders();
+}
+
+export default { startTaskReminderCron, triggerTaskReminderProcessing };
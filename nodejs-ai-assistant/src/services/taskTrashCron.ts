@@ -0,0 +1,55 @@
+import cron from 'node-cron';
+import { purgeExpiredTasks, getTrashRetentionDays } from '../utils/taskTrash';
+
+/**
+ * Task Trash Retention Cron Service
+ *
+ * Runs daily at 03:00 and permanently deletes tasks that have been in the trash longer
+ * than TASK_TRASH_RETENTION_DAYS (default 30), together with their comments and the
+ * attachment files uploaded to S3.
+ */
+
+// Track if cron is already started
+let isRunning = false;
+
+/**
+ * Purge expired tasks from the trash
+ */
+async function processTrashRetention(): Promise<void> {
+  try {
+    const purged = await purgeExpiredTasks();
+    if (purged > 0) {
+      console.log(`🗑️ Purged ${purged} tasks older than ${getTrashRetentionDays()} days from the trash`);
+    }
+  } catch (error) {
+    console.error('❌ Error purging task trash:', error);
+  }
+}
+
+/**
+ * Start the task trash retention cron job
+ * Runs daily at 03:00
+ */
+export function startTaskTrashCron(): void {
+  if (isRunning) {
+    console.log('⚠️ Task trash cron is already running');
+    return;
+  }
+
+  cron.schedule('0 3 * * *', async () => {
+    await processTrashRetention();
+  });
+
+  isRunning = true;
+  console.log(`🗑️ Task trash cron started (runs daily, retention ${getTrashRetentionDays()} days)`);
+}
+
+/**
+ * Manually trigger trash retention (for testing)
+ */
+export async function triggerTrashRetention(): Promise<void> {
+  console.log('🔄 Manually triggering task trash retention...');
+  await processTrashRetention();
+}
+
+export default { startTaskTrashCron, triggerTrashRetention };
@@ -0,0 +1,96 @@
+import cron from 'node-cron';
+import moment from 'moment-timezone';
+import { Attendance } from '../models/Attendance';
+import { ProjectDetails } from '../models/Project';
+import { Timesheet } from '../models/Timesheet';
+import { getTimesheetRules, getWeekRange, notifyTimesheetChange, refreshTimesheet } from '../utils/timesheets';
+
+/**
+ * Timesheet Cron Service
+ *
+ * Runs hourly. For projects with timeSheetRequirement set, once the previous week has ended in the
+ * project timezone, prepares a draft timesheet for everyone with attendance in it and notifies them
+ * to review and submit it. Users who already have a timesheet for that week are left alone.
+ */
+
+// Track if cron is already started
+let isRunning = false;
+
+/**
+ * Prepare last week's timesheets of one project
+ */
+async function prepareProjectTimesheets(project: any): Promise<number> {
+  const timezone = project.timezone && moment.tz.zone(project.timezone) ? project.timezone : 'UTC';
+  const rules = getTimesheetRules(project);
+  const lastWeek = moment.tz(timezone).subtract(7, 'days').toDate();
+  const { weekStart, weekEnd } = getWeekRange(lastWeek, timezone, rules.weekStartsOn);
+
+  const userIds: string[] = await Attendance.distinct('userId', {
+    projectId: project.channelId,
+    datetime: { $gte: weekStart, $lt: weekEnd },
+  });
+
+  let prepared = 0;
+  for (const userId of userIds) {
+    try {
+      if (await Timesheet.exists({ userId, projectId: project.channelId, weekStart })) continue;
+
+      const timesheet = await refreshTimesheet(userId, project.channelId, weekStart);
+      await notifyTimesheetChange(timesheet, 'timesheet_ready', 'system');
+      prepared++;
+    } catch (error) {
+      console.error(`❌ Error preparing timesheet for user ${userId} in project ${project.channelId}:`, error);
+    }
+  }
+  return prepared;
+}
+
+/**
+ * Prepare last week's timesheets of all projects that require them
+ */
+async function processTimesheets(): Promise<void> {
+  try {
+    const projects = await ProjectDetails.find({ timeSheetRequirement: true })
+      .select('channelId timezone timesheetRules')
+      .lean();
+
+    let prepared = 0;
+    for (const project of projects) {
+      prepared += await prepareProjectTimesheets(project);
+    }
+
+    if (prepared > 0) {
+      console.log(`🗓️ Prepared ${prepared} timesheets for last week`);
+    }
+  } catch (error) {
+    console.error('❌ Error preparing timesheets:', error);
+  }
+}
+
+/**
+ * Start the timesheet cron job
+ * Runs every hour at minute 15
+ */
+export function startTimesheetCron(): void {
+  if (isRunning) {
+    console.log('⚠️ Timesheet cron is already running');
+    return;
+  }
+
+  cron.schedule('15 * * * *', async () => {
+    await processTimesheets();
+  });
+
+  isRunning = true;
+  console.log('🗓️ Timesheet cron started (runs hourly)');
+}
+
+/**
+ * Manually trigger timesheet preparation (for testing)
+ */
+export async function triggerTimesheets(): Promise<void> {
+  console.log('🔄 Manually triggering timesheet preparation...');
+  await processTimesheets();
+}
+
+export default { startTimesheetCron, triggerTimesheets };
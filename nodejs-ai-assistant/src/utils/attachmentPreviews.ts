@@ -0,0 +1,129 @@
+import type { Canvas, SKRSContext2D } from '@napi-rs/canvas';
+import { uploadToS3 } from './s3';
+
+// Longest side of a thumbnail / first-page preview, in pixels
+const THUMBNAIL_SIZE = 320;
+const PREVIEW_SIZE = 1024;
+// PDF pages are rendered at this scale before resizing, so text stays legible in the preview
+const PDF_RENDER_SCALE = 2;
+
+export interface AttachmentPreviews {
+  thumbnailUri: string | null;
+  previewUri: string | null;
+}
+
+interface CanvasAndContext {
+  canvas: Canvas;
+  context: SKRSContext2D;
+}
+
+// pdf.js expects a canvas factory in Node; @napi-rs/canvas ships prebuilt binaries
+class NodeCanvasFactory {
+  constructor(private readonly createCanvas: typeof import('@napi-rs/canvas').createCanvas) {}
+
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = this.createCanvas(Math.ceil(width), Math.ceil(height));
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(target: CanvasAndContext, width: number, height: number) {
+    target.canvas.width = Math.ceil(width);
+    target.canvas.height = Math.ceil(height);
+  }
+
+  destroy(target: CanvasAndContext) {
+    target.canvas.width = 0;
+    target.canvas.height = 0;
+  }
+}
+
+// Native image and PDF libraries are only loaded when the first attachment that needs them comes in,
+// so servers that never see one do not pay for them at startup
+const once = <T>(load: () => Promise<T>) => {
+  let loaded: Promise<T> | null = null;
+  return () => (loaded ??= load());
+};
+
+const loadSharp = once(() => import('sharp'));
+const loadCanvas = once(() => import('@napi-rs/canvas'));
+
+// pdf.js needs these globals to render in Node
+const loadPdfjs = once(async () => {
+  const { DOMMatrix, Path2D } = await loadCanvas();
+  const globals = globalThis as typeof globalThis & { DOMMatrix?: unknown; Path2D?: unknown };
+  globals.DOMMatrix = globals.DOMMatrix || DOMMatrix;
+  globals.Path2D = globals.Path2D || Path2D;
+  return import('pdfjs-dist/legacy/build/pdf');
+});
+
+/**
+ * Render the first page of a PDF to a PNG
+ */
+const renderPdfFirstPage = async (buffer: Buffer): Promise<Buffer> => {
+  const [{ createCanvas }, pdfjs] = await Promise.all([loadCanvas(), loadPdfjs()]);
+  const canvasFactory = new NodeCanvasFactory(createCanvas);
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    canvasFactory,
+    isEvalSupported: false,
+    disableFontFace: true,
+    verbosity: 0,
+  }).promise;
+
+  try {
+    const page = await document.getPage(1);
+    const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+    const target = canvasFactory.create(viewport.width, viewport.height);
+    // PDFs without a background would otherwise render onto transparency
+    target.context.fillStyle = '#ffffff';
+    target.context.fillRect(0, 0, target.canvas.width, target.canvas.height);
+    // The @napi-rs context implements what pdf.js draws with, but not every DOM method its type lists
+    const canvasContext = target.context as unknown as CanvasRenderingContext2D;
+    await page.render({ canvasContext, viewport }).promise;
+    return await target.canvas.encode('png');
+  } finally {
+    await document.destroy();
+  }
+};
+
+const resizeToJpeg = async (input: Buffer, size: number): Promise<Buffer> => {
+  const { default: sharp } = await loadSharp();
+  return sharp(input)
+    .rotate() // Respect EXIF orientation from phone cameras
+    .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+};
+
+/**
+ * Generate and upload a thumbnail for images, and a first-page preview plus thumbnail for PDFs.
+ * Other types (e.g. videos) get none. Never throws: the upload itself must not fail because a preview could not be made.
+ */
+export const generateAttachmentPreviews = async (
+  buffer: Buffer,
+  mimeType: string,
+  fileKey: string
+): Promise<AttachmentPreviews> => {
+  const previews: AttachmentPreviews = { thumbnailUri: null, previewUri: null };
+
+  try {
+    let source: Buffer;
+    if (mimeType === 'application/pdf') {
+      source = await renderPdfFirstPage(buffer);
+      const preview = await resizeToJpeg(source, PREVIEW_SIZE);
+      previews.previewUri = await uploadToS3(preview, `previews/${fileKey}.jpg`, 'image/jpeg');
+    } else if (mimeType.startsWith('image/')) {
+      source = buffer;
+    } else {
+      return previews;
+    }
+
+    const thumbnail = await resizeToJpeg(source, THUMBNAIL_SIZE);
+    previews.thumbnailUri = await uploadToS3(thumbnail, `thumbnails/${fileKey}.jpg`, 'image/jpeg');
+  } catch (error) {
+    console.error(`Error generating previews for ${fileKey}:`, error);
+  }
+
+  return previews;
+};
@@ -0,0 +1,104 @@
+import moment from 'moment-timezone';
+import { serverClient } from '../serverClient';
+import { Attendance } from '../models/Attendance';
+import { SentMessageLog } from '../models/SentMessageLog';
+import { convertStreamToEmail } from './index';
+import { getProjectTimezone } from './projectTimezone';
+
+export type AttendancePromptAction = 'checkin' | 'checkout';
+
+export interface AttendancePromptResult {
+  sent: boolean;
+  messageId?: string;
+  reason?: string; // Why no prompt was sent
+  alreadyPrompted?: boolean; // The prompt had been sent today already
+  error?: string; // Sending the prompt failed
+}
+
+/**
+ * Ask a user in their tai channel to check in to (on entering) or out of (on leaving) a project.
+ * The check-in prompt is sent once a day and only while the user has not checked in that day;
+ * the check-out prompt once a day. Days are in the project's timezone.
+ */
+export const sendAttendancePrompt = async (
+  userId: string,
+  projectId: string,
+  projectName: string,
+  action: AttendancePromptAction
+): Promise<AttendancePromptResult> => {
+  const user = await serverClient.queryUsers({ id: userId });
+  const userName = user.users[0]?.name || convertStreamToEmail(userId);
+  const channel = serverClient.channel('messaging', `tai_${userId}`);
+
+  const projectTimezone = await getProjectTimezone(projectId);
+  const todayStart = moment.tz(projectTimezone).startOf('day').toDate();
+  const todayEnd = moment.tz(projectTimezone).endOf('day').toDate();
+  const eventDateForLog = moment.tz(projectTimezone).startOf('day').toDate(); // For SentMessageLog
+
+  if (action === 'checkin') {
+    const todaysCheckins = await Attendance.countDocuments({
+      userId,
+      projectId,
+      status: 'checkin',
+      datetime: {
+        $gte: todayStart,
+        $lte: todayEnd,
+      },
+    });
+    if (todaysCheckins > 0) {
+      return { sent: false, reason: 'Already checked in today. No message sent.' };
+    }
+  }
+
+  const messageType = action === 'checkin' ? 'first_enter_prompt' : 'last_exit_prompt';
+  const existingPromptLog = await SentMessageLog.findOne({
+    userId,
+    projectId,
+    messageType,
+    eventDate: eventDateForLog,
+  });
+  if (existingPromptLog) {
+    return {
+      sent: false,
+      alreadyPrompted: true,
+      reason: action === 'checkin'
+        ? 'First enter prompt already sent today for this project.'
+        : 'Exit prompt already sent today for this project.',
+    };
+  }
+
+  try {
+    await new SentMessageLog({
+      userId,
+      projectId,
+      messageType,
+      eventDate: eventDateForLog,
+    }).save();
+
+    const response = action === 'checkin'
+      ? await channel.sendMessage({
+        user_id: 'tai',
+        text: `Dear ${userName}, Please check in to the project to record your attendance. Your check-in time has not been registered yet.`,
+        type: 'regular',
+        action_type: 'attendance',
+        projectId,
+        checkInTime: moment.tz(projectTimezone).toDate(),
+        projectName,
+      }, {skip_push: false})
+      : await channel.sendMessage({
+        show_in_channel: true,
+        text: `Dear ${userName},\nPlease check out from the project to record your attendance. Your check-out time has not been registered yet.`,
+        type: 'regular',
+        action_type: 'attendance',
+        projectId,
+        projectName,
+        user_id: 'tai',
+        checkOutTime: moment.tz(projectTimezone).toDate(),
+      });
+
+    return { sent: true, messageId: response.message.id };
+  } catch (sendError: any) {
+    console.error(`Error sending ${action === 'checkin' ? 'check-in' : 'check-out'} message:`, sendError);
+    return { sent: false, error: sendError.message };
+  }
+};
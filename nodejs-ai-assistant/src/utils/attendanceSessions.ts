@@ -0,0 +1,45 @@
+import { Attendance } from '../models/Attendance';
+
+export interface AttendanceSession {
+  checkIn: Date;
+  checkOut: Date | null; // null when the user has not checked out (yet)
+}
+
+/**
+ * Pair a user's check-in and check-out records for a project into on-site sessions.
+ *
+ * A repeated check-in while already checked in keeps the earlier one, and a check-out without
+ * a preceding check-in in the range is ignored, so duplicate taps never create extra hours.
+ */
+export const getAttendanceSessions = async (
+  userId: string,
+  projectId: string,
+  from: Date,
+  to: Date
+): Promise<AttendanceSession[]> => {
+  const records = await Attendance.find({
+    userId,
+    projectId,
+    datetime: { $gte: from, $lte: to },
+  }).sort({ datetime: 1 }).lean();
+
+  const sessions: AttendanceSession[] = [];
+  let openCheckIn: Date | null = null;
+
+  for (const record of records) {
+    if (record.status === 'checkin') {
+      if (!openCheckIn) {
+        openCheckIn = record.datetime;
+      }
+    } else if (openCheckIn) {
+      sessions.push({ checkIn: openCheckIn, checkOut: record.datetime });
+      openCheckIn = null;
+    }
+  }
+
+  if (openCheckIn) {
+    sessions.push({ checkIn: openCheckIn, checkOut: null });
+  }
+
+  return sessions;
+};
@@ -0,0 +1,42 @@
+import { serverClient } from '../serverClient';
+
+export interface ChannelRoleMembers {
+  ownerId: string | null;
+  moderatorIds: string[];
+  memberIds: string[];
+}
+
+/**
+ * Owner, moderators and members of a messaging channel
+ */
+export const getChannelRoleMembers = async (channelId: string): Promise<ChannelRoleMembers> => {
+  const normalizedId = channelId.includes(':') ? channelId.split(':')[1] : channelId;
+  const channel = serverClient.channel('messaging', normalizedId);
+  const channelData = await channel.query();
+
+  const ownerId = channelData.channel?.created_by_id ||
+    (channelData.channel?.created_by as any)?.id || null;
+  const members = channelData.members || [];
+
+  return {
+    ownerId,
+    moderatorIds: members
+      .filter((m: any) => m.channel_role === 'channel_moderator' || m.channel_role === 'channel_owner')
+      .map((m: any) => m.user_id || m.user?.id)
+      .filter(Boolean),
+    memberIds: members.map((m: any) => m.user_id || m.user?.id).filter(Boolean),
+  };
+};
+
+// Helper function to check if user is the owner or a moderator of a channel
+export const isChannelAdmin = async (channelId: string, userId: string): Promise<boolean> => {
+  try {
+    if (!channelId || !userId) return false;
+
+    const { ownerId, moderatorIds } = await getChannelRoleMembers(channelId);
+    return ownerId === userId || moderatorIds.includes(userId);
+  } catch (error) {
+    console.error('Error checking channel admin role:', error);
+    return false;
+  }
+};
@@ -0,0 +1,40 @@
+import { parseCsv, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(toCsv(['name', 'note'], [['a, b', 'say "hi"\nbye']])).toBe('name,note\r\n"a, b","say ""hi""\nbye"\r\n');
+  });
+
+  it('writes dates as ISO strings and empty cells for null and undefined', () => {
+    expect(toCsv(['a', 'b', 'c'], [[new Date('2026-01-02T03:04:05Z'), null, undefined]]))
+      .toBe('a,b,c\r\n2026-01-02T03:04:05.000Z,,\r\n');
+  });
+
+  it('prefixes text that would run as a spreadsheet formula with a quote and wraps it in double quotes', () => {
+    expect(toCsv(['a', 'b', 'c', 'd'], [['=HYPERLINK("x")', '+1', '-2', '@SUM(A1)']]))
+      .toBe('a,b,c,d\r\n"\'=HYPERLINK(""x"")","\'+1","\'-2","\'@SUM(A1)"\r\n');
+  });
+
+  it('keeps negative numbers numeric', () => {
+    expect(toCsv(['hours'], [[-1.5]])).toBe('hours\r\n-1.5\r\n');
+  });
+});
+
+describe('parseCsv', () => {
+  it('parses quoted cells, CRLF and LF line endings and skips blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\r\n"x, ""y""","line\nbreak"\n\n1,2')).toEqual([
+      ['a', 'b'],
+      ['x, "y"', 'line\nbreak'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('reads back what toCsv wrote, including formula-like text', () => {
+    const rows = [['=1+1', 'plain', "'quoted", '-']];
+    expect(parseCsv(toCsv(['a', 'b', 'c', 'd'], rows))).toEqual([['a', 'b', 'c', 'd'], ...rows]);
+  });
+
+  it('keeps a leading quote that toCsv did not write', () => {
+    expect(parseCsv("a,b\r\n'+1,'=x\r\n")).toEqual([['a', 'b'], ["'+1", "'=x"]]);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing
+ */
+
+// Text starting with one of these is run as a formula by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Text cells that would run as formulas get a leading quote, which spreadsheets show as plain text,
+// and are always wrapped in double quotes so parseCsv can tell the added quote from one typed by a user.
+// Numbers are written as they are, so negative values stay numeric.
+const escapeCell = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(value)) return `"'${text.replace(/"/g, '""')}"`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize rows to CSV text with a header line. Lines end in CRLF as the RFC asks.
+ */
+export const toCsv = (headers: string[], rows: any[][]): string =>
+  [headers, ...rows].map((row) => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * Parse CSV text into rows of cells. Quoted cells may contain commas, quotes ("") and line breaks.
+ * A leading byte order mark and blank lines are ignored. The quote toCsv puts before formula-like
+ * text is removed again, but only from double-quoted cells, so an unquoted '+1 is kept as it was typed.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endCell = () => {
+    row.push(quoted && cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1)) ? cell.slice(1) : cell);
+    cell = '';
+    quoted = false;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+      quoted = true;
+    } else if (char === ',') {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endCell();
+      rows.push(row);
+      row = [];
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || quoted || row.length > 0) {
+    endCell();
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+};
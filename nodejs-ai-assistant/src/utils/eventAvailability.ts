@@ -0,0 +1,292 @@
+import moment from 'moment-timezone';
+import { Attendance } from '../models/Attendance';
+import { User } from '../models/User';
+import { getAttendanceSessions } from './attendanceSessions';
+import { findCalendarEvents } from './eventCalendar';
+import { expandEvent, expandEvents } from './eventRecurrence';
+
+// Events without an end time block this long
+const DEFAULT_EVENT_MINUTES = 30;
+
+// Occurrences of a recurring event are checked for conflicts this far ahead
+const CONFLICT_HORIZON_DAYS = 90;
+
+export const MAX_FREE_BUSY_DAYS = 62;
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+  source: 'event' | 'shift';
+  // Event details are only filled in for events the viewer organizes or attends
+  eventId?: string;
+  occurrenceId?: string;
+  title?: string;
+  projectId?: string; // Shifts: the project the user was checked in to
+}
+
+export interface UserFreeBusy {
+  userId: string;
+  timezone: string;
+  busy: BusyInterval[];
+}
+
+export interface EventConflict {
+  userId: string;
+  startDate: Date; // The (occurrence of the) new event that clashes
+  endDate: Date;
+  conflictsWith: BusyInterval;
+}
+
+export interface FreeSlotOptions {
+  from: Date;
+  to: Date;
+  workdayStartHour?: number; // Local working hours of each attendee
+  workdayEndHour?: number;
+  includeWeekends?: boolean;
+  stepMinutes?: number; // Slots start on multiples of this
+}
+
+export interface FreeSlot {
+  startDate: Date;
+  endDate: Date;
+  attendees: { userId: string; timezone: string; localStart: string; localEnd: string }[];
+}
+
+type EventTimes = { startDate: Date; endDate?: Date | null; allDay?: boolean; timezone?: string };
+
+const validTimezone = (timezone?: string): string =>
+  timezone && moment.tz.zone(timezone) ? timezone : 'UTC';
+
+/**
+ * End of an event (or occurrence) for availability: all-day events without an end last to the end of
+ * their day, other events without an end DEFAULT_EVENT_MINUTES
+ */
+const getBusyEnd = (event: EventTimes): Date => {
+  const start = new Date(event.startDate);
+  if (event.endDate && new Date(event.endDate) > start) {
+    return new Date(event.endDate);
+  }
+  if (event.allDay) {
+    return moment.tz(start, validTimezone(event.timezone)).endOf('day').toDate();
+  }
+  return new Date(start.getTime() + DEFAULT_EVENT_MINUTES * 60 * 1000);
+};
+
+const overlaps = (a: { start: Date; end: Date }, b: { start: Date; end: Date }): boolean =>
+  a.start < b.end && b.start < a.end;
+
+/**
+ * Timezones of users from their profiles, UTC when unknown
+ */
+export const getUserTimezones = async (userIds: string[]): Promise<Map<string, string>> => {
+  const users = await User.find({ userId: { $in: userIds } }).select('userId timezone').lean();
+  const timezones = new Map<string, string>(users.map((user: any) => [user.userId, validTimezone(user.timezone)]));
+  userIds.forEach((userId) => {
+    if (!timezones.has(userId)) timezones.set(userId, 'UTC');
+  });
+  return timezones;
+};
+
+/**
+ * Attendance shifts of a user (check-in to check-out, in any project) overlapping [from, to].
+ * A shift the user has not checked out of yet is counted as running until now.
+ */
+const getShiftIntervals = async (userId: string, from: Date, to: Date): Promise<BusyInterval[]> => {
+  // Look back a day so shifts that started before the range are paired with their check-out
+  const lookBehind = moment(from).subtract(1, 'day').toDate();
+  const projectIds: string[] = await Attendance.distinct('projectId', { userId, datetime: { $gte: lookBehind, $lte: to } });
+  const now = new Date();
+
+  const intervals: BusyInterval[] = [];
+  for (const projectId of projectIds) {
+    const sessions = await getAttendanceSessions(userId, projectId, lookBehind, to);
+    for (const session of sessions) {
+      const end = session.checkOut || (session.checkIn < now ? now : session.checkIn);
+      const interval: BusyInterval = { start: session.checkIn, end, source: 'shift', projectId };
+      if (overlaps(interval, { start: from, end: to })) {
+        intervals.push(interval);
+      }
+    }
+  }
+  return intervals;
+};
+
+/**
+ * Times a user is busy in [from, to]: occurrences of events they organize or attend (unless they declined
+ * or are waitlisted), and optionally their attendance shifts
+ */
+export const getBusyIntervals = async (
+  userId: string,
+  from: Date,
+  to: Date,
+  options: { includeShifts?: boolean; excludeEventId?: string; viewerId?: string } = {}
+): Promise<BusyInterval[]> => {
+  // Events without an end that started shortly before the range still block its beginning
+  const queryFrom = new Date(from.getTime() - DEFAULT_EVENT_MINUTES * 60 * 1000);
+  const events = (await findCalendarEvents(userId, queryFrom, to, { includeRecurring: true }))
+    .filter((event: any) => String(event._id) !== options.excludeEventId)
+    .filter((event: any) => event.organizer === userId ||
+      !(event.attendees || []).some((attendee: any) => attendee.userId === userId && ['no', 'waitlisted'].includes(attendee.status)));
+
+  const intervals: BusyInterval[] = expandEvents(events, queryFrom, to)
+    .map((occurrence) => {
+      const visible = !!options.viewerId && (occurrence.organizer === options.viewerId ||
+        (occurrence.attendees || []).some((attendee: any) => attendee.userId === options.viewerId));
+      return {
+        start: occurrence.startDate,
+        end: getBusyEnd(occurrence),
+        source: 'event' as const,
+        ...(visible && { eventId: occurrence.eventId, occurrenceId: occurrence.occurrenceId, title: occurrence.title }),
+      };
+    })
+    .filter((interval) => overlaps(interval, { start: from, end: to }));
+
+  if (options.includeShifts) {
+    intervals.push(...await getShiftIntervals(userId, from, to));
+  }
+
+  return intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+/**
+ * Free/busy of several users in [from, to]
+ */
+export const getFreeBusy = async (
+  userIds: string[],
+  from: Date,
+  to: Date,
+  options: { includeShifts?: boolean; viewerId?: string } = {}
+): Promise<UserFreeBusy[]> => {
+  const timezones = await getUserTimezones(userIds);
+  const result: UserFreeBusy[] = [];
+  for (const userId of userIds) {
+    result.push({
+      userId,
+      timezone: timezones.get(userId) || 'UTC',
+      busy: await getBusyIntervals(userId, from, to, options),
+    });
+  }
+  return result;
+};
+
+/**
+ * Where an event (all its occurrences within CONFLICT_HORIZON_DAYS, if it repeats) overlaps other events
+ * of its organizer and attendees. Attendees who declined it or are waitlisted are not checked.
+ */
+export const findEventConflicts = async (event: any, viewerId?: string): Promise<EventConflict[]> => {
+  if (event.status === 'cancelled') return [];
+
+  const eventId = event._id ? String(event._id) : undefined;
+  const first = new Date(event.startDate);
+  const occurrences = expandEvent(
+    { ...event, _id: eventId },
+    first,
+    moment(first).add(CONFLICT_HORIZON_DAYS, 'days').toDate()
+  ).map((occurrence) => ({ start: occurrence.startDate, end: getBusyEnd(occurrence) }));
+  if (occurrences.length === 0) return [];
+
+  const from = new Date(Math.min(...occurrences.map((occurrence) => occurrence.start.getTime())));
+  const to = new Date(Math.max(...occurrences.map((occurrence) => occurrence.end.getTime())));
+  const userIds = [...new Set<string>([
+    event.organizer,
+    ...(event.attendees || [])
+      .filter((attendee: any) => !['no', 'waitlisted'].includes(attendee.status))
+      .map((attendee: any) => attendee.userId),
+  ].filter(Boolean))];
+
+  const conflicts: EventConflict[] = [];
+  for (const userId of userIds) {
+    const busy = await getBusyIntervals(userId, from, to, { excludeEventId: eventId, viewerId });
+    for (const occurrence of occurrences) {
+      busy
+        .filter((interval) => overlaps(interval, occurrence))
+        .forEach((interval) => conflicts.push({
+          userId,
+          startDate: occurrence.start,
+          endDate: occurrence.end,
+          conflictsWith: interval,
+        }));
+    }
+  }
+  return conflicts;
+};
+
+/**
+ * Merge overlapping or touching intervals
+ */
+const mergeIntervals = (intervals: { start: Date; end: Date }[]): { start: Date; end: Date }[] => {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: { start: Date; end: Date }[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+  return merged;
+};
+
+/**
+ * Earliest slot of the given length in [from, to] where all users are free and within their own working hours
+ * (in their User.timezone). Returns null when there is none.
+ */
+export const findFreeSlot = async (
+  userIds: string[],
+  durationMinutes: number,
+  options: FreeSlotOptions
+): Promise<FreeSlot | null> => {
+  const {
+    from,
+    to,
+    workdayStartHour = 9,
+    workdayEndHour = 18,
+    includeWeekends = false,
+    stepMinutes = 15,
+  } = options;
+  const durationMs = durationMinutes * 60 * 1000;
+  const stepMs = stepMinutes * 60 * 1000;
+
+  const timezones = await getUserTimezones(userIds);
+  const busy = mergeIntervals((await Promise.all(
+    userIds.map((userId) => getBusyIntervals(userId, from, to))
+  )).flat());
+
+  const withinWorkingHours = (start: Date, end: Date): boolean =>
+    userIds.every((userId) => {
+      const localStart = moment.tz(start, timezones.get(userId) || 'UTC');
+      if (!includeWeekends && localStart.isoWeekday() > 5) return false;
+      const dayStart = localStart.clone().startOf('day');
+      return localStart.isSameOrAfter(dayStart.clone().hour(workdayStartHour)) &&
+        moment(end).isSameOrBefore(dayStart.clone().hour(workdayEndHour));
+    });
+
+  let start = new Date(Math.ceil(from.getTime() / stepMs) * stepMs);
+  while (start.getTime() + durationMs <= to.getTime()) {
+    const end = new Date(start.getTime() + durationMs);
+    const blocking = busy.find((interval) => overlaps(interval, { start, end }));
+    if (blocking) {
+      // Skip past the busy time
+      start = new Date(Math.ceil(blocking.end.getTime() / stepMs) * stepMs);
+      continue;
+    }
+    if (withinWorkingHours(start, end)) {
+      return {
+        startDate: start,
+        endDate: end,
+        attendees: userIds.map((userId) => {
+          const timezone = timezones.get(userId) || 'UTC';
+          return {
+            userId,
+            timezone,
+            localStart: moment.tz(start, timezone).format('YYYY-MM-DD HH:mm'),
+            localEnd: moment.tz(end, timezone).format('YYYY-MM-DD HH:mm'),
+          };
+        }),
+      };
+    }
+    start = new Date(start.getTime() + stepMs);
+  }
+  return null;
+};
@@ -0,0 +1,434 @@
+import crypto from 'crypto';
+import moment from 'moment-timezone';
+import { Event, IEvent } from '../models/Event';
+import { User } from '../models/User';
+import { getUserNames } from './taskImportExport';
+import { isRecurringEvent } from './eventRecurrence';
+import {
+  DEFAULT_REMINDER_MINUTES,
+  getEventReminderOffsets,
+  MAX_REMINDER_MINUTES,
+  MAX_REMINDERS_PER_EVENT,
+} from './eventReminders';
+import {
+  ICalComponent,
+  buildCalendar,
+  buildVTimezone,
+  contentLine,
+  escapeText,
+  formatDate,
+  formatLocalDateTime,
+  formatUtcDateTime,
+  getProperty,
+  parseDurationMinutes,
+  parseICalDate,
+  parseICalendar,
+  parseRRule,
+  unescapeText,
+} from './ical';
+
+// The feed covers this window around today
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 365;
+export const MAX_IMPORT_EVENTS = 1000;
+
+const RECURRENCE_FREQUENCIES: Record<string, NonNullable<IEvent['recurrence']>['type']> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly',
+};
+
+const PARTSTAT: Record<string, string> = {
+  yes: 'ACCEPTED',
+  no: 'DECLINED',
+  maybe: 'TENTATIVE',
+  pending: 'NEEDS-ACTION',
+  waitlisted: 'TENTATIVE',
+};
+
+const RSVP_LABELS: Record<string, string> = {
+  yes: 'Going', maybe: 'Maybe', no: 'Not going', pending: 'No response', waitlisted: 'Waitlisted',
+};
+
+export interface EventImportResult {
+  uid: string | null;
+  title: string;
+  action: 'created' | 'updated' | 'skipped';
+  eventId?: string;
+  reason?: string;
+  warnings?: string[];
+}
+
+const getEventTimezone = (event: Pick<IEvent, 'timezone'>): string =>
+  event.timezone && moment.tz.zone(event.timezone) ? event.timezone : 'UTC';
+
+/**
+ * Events shown in a user's calendar between start and end: ones they organize or attend that are not cancelled.
+ * Recurring events are included whenever their series may have an occurrence in the range.
+ */
+export const findCalendarEvents = (userId: string, start: Date, end: Date, options: { includeRecurring?: boolean } = {}) =>
+  Event.find({
+    $or: [
+      { 'attendees.userId': { $in: [userId] } },
+      { organizer: userId }
+    ],
+    $and: [
+      {
+        $or: [
+          // Events that start within the range
+          { startDate: { $gte: start, $lte: end } },
+          // Events that span across the range (started before, ends after)
+          { startDate: { $lte: start }, endDate: { $gte: start } },
+          // All-day events on start date
+          { startDate: { $lte: end }, allDay: true },
+          ...(options.includeRecurring ? [{
+            startDate: { $lte: end },
+            'recurrence.type': { $ne: null },
+            $or: [{ 'recurrence.endDate': null }, { 'recurrence.endDate': { $gte: start } }],
+          }] : []),
+        ]
+      }
+    ],
+    status: { $ne: 'cancelled' }
+  })
+    .sort({ startDate: 1 })
+    .lean();
+
+/**
+ * The user's calendar feed token, created on first use. Returns null if the user does not exist.
+ */
+export const getCalendarFeedToken = async (userId: string, reset: boolean = false): Promise<string | null> => {
+  const user = await User.findOne({ userId }).select('calendarFeedToken').lean() as any;
+  if (!user) return null;
+  if (!reset && user.calendarFeedToken) return user.calendarFeedToken;
+
+  const token = crypto.randomBytes(24).toString('hex');
+  await User.updateOne({ userId }, { $set: { calendarFeedToken: token } });
+  return token;
+};
+
+// A DATE or DATE-TIME property in the form the event's DTSTART uses
+const dateLine = (name: string, date: Date, event: { allDay?: boolean }, timezone: string): string => {
+  if (event.allDay) return contentLine(name, formatDate(date, timezone), { VALUE: 'DATE' });
+  if (timezone === 'UTC') return `${name}:${formatUtcDateTime(date)}`;
+  return contentLine(name, formatLocalDateTime(date, timezone), { TZID: timezone });
+};
+
+/**
+ * VEVENT of an event. With recurrenceId, the VEVENT overrides that single occurrence of the series.
+ */
+const eventLines = (event: any, names: Map<string, string>, now: Date, recurrenceId?: Date): string[] => {
+  const timezone = getEventTimezone(event);
+  const nameOf = (userId: string) => names.get(userId) || userId;
+  const lines = [
+    'BEGIN:VEVENT',
+    contentLine('UID', `${event._id}@convoe`),
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    `LAST-MODIFIED:${formatUtcDateTime(event.updatedAt || event.createdAt || now)}`,
+    contentLine('SUMMARY', escapeText(event.title || '')),
+  ];
+  if (recurrenceId) lines.push(dateLine('RECURRENCE-ID', recurrenceId, event, timezone));
+
+  if (event.allDay) {
+    // All-day events end on the last day they cover; DTEND is the (exclusive) day after
+    const lastDay = event.endDate && event.endDate > event.startDate ? event.endDate : event.startDate;
+    lines.push(
+      contentLine('DTSTART', formatDate(event.startDate, timezone), { VALUE: 'DATE' }),
+      contentLine('DTEND', moment.tz(lastDay, timezone).add(1, 'day').format('YYYYMMDD'), { VALUE: 'DATE' })
+    );
+  } else {
+    lines.push(dateLine('DTSTART', event.startDate, event, timezone));
+    if (event.endDate) lines.push(dateLine('DTEND', event.endDate, event, timezone));
+  }
+
+  if (!recurrenceId && isRecurringEvent(event)) {
+    const rule = [`FREQ=${event.recurrence.type.toUpperCase()}`, `INTERVAL=${event.recurrence.interval || 1}`];
+    if (event.recurrence.endDate) rule.push(`UNTIL=${formatUtcDateTime(event.recurrence.endDate)}`);
+    lines.push(`RRULE:${rule.join(';')}`);
+    for (const exception of event.exceptions || []) {
+      if (exception.cancelled) lines.push(dateLine('EXDATE', exception.originalStartDate, event, timezone));
+    }
+  }
+
+  // Most calendar apps only show attendees with an email address, so RSVPs are listed in the description too
+  const attendees: any[] = event.attendees || [];
+  const rsvpSummary = Object.keys(RSVP_LABELS)
+    .map((status) => {
+      const people = attendees.filter((attendee) => attendee.status === status).map((attendee) => nameOf(attendee.userId));
+      return people.length > 0 ? `${RSVP_LABELS[status]}: ${people.join(', ')}` : null;
+    })
+    .filter(Boolean)
+    .join('\n');
+  const description = [event.description, rsvpSummary].filter(Boolean).join('\n\n');
+  if (description) lines.push(contentLine('DESCRIPTION', escapeText(description)));
+  if (event.location) lines.push(contentLine('LOCATION', escapeText(event.location)));
+
+  lines.push(contentLine('ORGANIZER', `urn:convoe:user:${encodeURIComponent(event.organizer)}`, { CN: nameOf(event.organizer) }));
+  for (const attendee of attendees) {
+    lines.push(contentLine('ATTENDEE', `urn:convoe:user:${encodeURIComponent(attendee.userId)}`, {
+      CN: nameOf(attendee.userId),
+      ROLE: 'REQ-PARTICIPANT',
+      PARTSTAT: PARTSTAT[attendee.status] || PARTSTAT.pending,
+    }));
+  }
+  lines.push(`STATUS:${event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`);
+
+  for (const offset of getEventReminderOffsets(event)) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      contentLine('DESCRIPTION', escapeText(event.title || 'Reminder')),
+      `TRIGGER:-PT${offset}M`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * VEVENTs of an event: the event (or series) itself followed by the occurrences that were changed on their own
+ */
+const eventWithExceptionsLines = (event: any, names: Map<string, string>, now: Date): string[] => {
+  const lines = eventLines(event, names, now);
+  if (!isRecurringEvent(event)) return lines;
+
+  for (const exception of event.exceptions || []) {
+    if (exception.cancelled) continue;
+    const durationMs = event.endDate ? new Date(event.endDate).getTime() - new Date(event.startDate).getTime() : null;
+    const startDate = exception.startDate || exception.originalStartDate;
+    const occurrence = {
+      ...event,
+      ...Object.fromEntries(['title', 'description', 'location', 'allDay']
+        .filter((field) => exception[field] !== undefined && exception[field] !== null)
+        .map((field) => [field, exception[field]])),
+      startDate,
+      endDate: exception.endDate !== undefined
+        ? exception.endDate
+        : (durationMs !== null ? new Date(new Date(startDate).getTime() + durationMs) : null),
+    };
+    lines.push(...eventLines(occurrence, names, now, exception.originalStartDate));
+  }
+  return lines;
+};
+
+/**
+ * iCalendar feed of a user's events, from FEED_PAST_DAYS ago to FEED_FUTURE_DAYS ahead
+ */
+export const buildCalendarFeed = async (userId: string, timezone: string, now: Date = new Date()): Promise<string> => {
+  const start = moment(now).subtract(FEED_PAST_DAYS, 'days').toDate();
+  const end = moment(now).add(FEED_FUTURE_DAYS, 'days').toDate();
+  const events = await findCalendarEvents(userId, start, end, { includeRecurring: true });
+
+  const names = await getUserNames(events.flatMap((event) => [event.organizer, ...(event.attendees || []).map((a) => a.userId)]));
+
+  // Each timezone used by a timed event needs a definition covering all its occurrences
+  const earliest = events.reduce((min, event) => (event.startDate < min ? event.startDate : min), start);
+  const timezones = new Set(events.filter((event) => !event.allDay).map(getEventTimezone));
+  timezones.delete('UTC');
+  const timezoneLines = Array.from(timezones).flatMap((zone) => buildVTimezone(zone, earliest, end));
+
+  return buildCalendar('Convoe', timezone, [
+    ...timezoneLines,
+    ...events.flatMap((event) => eventWithExceptionsLines(event, names, now)),
+  ]);
+};
+
+/**
+ * Event fields from a VEVENT. Returns a reason instead when the event cannot be imported.
+ */
+const eventFromComponent = (
+  component: ICalComponent,
+  fallbackTimezone: string
+): { fields: Record<string, any>; warnings: string[] } | { reason: string } => {
+  const warnings: string[] = [];
+  const dtstart = getProperty(component, 'DTSTART');
+  const start = dtstart ? parseICalDate(dtstart, fallbackTimezone) : null;
+  if (!start) return { reason: 'Missing or invalid DTSTART' };
+
+  // Zone-less (UTC) times are shown in the importing user's timezone
+  const timezone = start.timezone || fallbackTimezone;
+  const fields: Record<string, any> = {
+    title: unescapeText(getProperty(component, 'SUMMARY')?.value || '').trim() || 'Untitled event',
+    description: unescapeText(getProperty(component, 'DESCRIPTION')?.value || ''),
+    location: unescapeText(getProperty(component, 'LOCATION')?.value || ''),
+    startDate: start.date,
+    allDay: start.dateOnly,
+    timezone,
+  };
+
+  const dtend = getProperty(component, 'DTEND');
+  const end = dtend ? parseICalDate(dtend, timezone) : null;
+  const durationMinutes = parseDurationMinutes(getProperty(component, 'DURATION')?.value || '');
+  let endDate = end?.date || (durationMinutes !== null ? moment(start.date).add(durationMinutes, 'minutes').toDate() : null);
+  if (endDate && start.dateOnly) {
+    // DTEND of an all-day event is the day after it ends; we keep the end of its last day
+    endDate = moment.tz(endDate, timezone).subtract(1, 'day').endOf('day').toDate();
+  }
+  fields.endDate = endDate && endDate >= start.date ? endDate : null;
+
+  const rrule = getProperty(component, 'RRULE');
+  if (rrule) {
+    const rule = parseRRule(rrule.value);
+    const type = RECURRENCE_FREQUENCIES[rule.FREQ];
+    if (!type) {
+      warnings.push(`Recurrence ${rule.FREQ || rrule.value} is not supported, imported as a single event`);
+    } else {
+      const interval = Math.max(1, parseInt(rule.INTERVAL) || 1);
+      let until: Date | null = null;
+      if (rule.UNTIL) {
+        until = parseICalDate({ name: 'UNTIL', params: {}, value: rule.UNTIL }, timezone)?.date || null;
+      } else if (rule.COUNT) {
+        const unit = ({ daily: 'days', weekly: 'weeks', monthly: 'months', yearly: 'years' } as const)[type];
+        until = moment.tz(start.date, timezone).add((Math.max(1, parseInt(rule.COUNT)) - 1) * interval, unit).toDate();
+      }
+      const unsupported = Object.keys(rule).filter((key) => !['FREQ', 'INTERVAL', 'UNTIL', 'COUNT', 'WKST'].includes(key));
+      if (unsupported.length > 0) {
+        warnings.push(`Recurrence rule parts ${unsupported.join(', ')} are not supported and were ignored`);
+      }
+      fields.recurrence = { type, interval, ...(until && { endDate: until }) };
+      // Occurrences left out of the series become cancelled occurrences
+      fields.exceptions = component.properties
+        .filter((property) => property.name === 'EXDATE')
+        .flatMap((property) => property.value.split(',').map((value) => parseICalDate({ ...property, value }, timezone)))
+        .filter((date): date is NonNullable<typeof date> => !!date)
+        .map((date) => ({ originalStartDate: date.date, cancelled: true }));
+    }
+  }
+
+  // Alarms before the start become reminders; ones beyond what reminders support are dropped
+  const offsets = [...new Set(component.components
+    .filter((child) => child.type === 'VALARM')
+    .map((alarm) => parseDurationMinutes(getProperty(alarm, 'TRIGGER')?.value || ''))
+    .filter((minutes): minutes is number => minutes !== null && minutes < 0 && -minutes <= MAX_REMINDER_MINUTES)
+    .map((minutes) => -minutes))]
+    .sort((a, b) => b - a)
+    .slice(0, MAX_REMINDERS_PER_EVENT);
+  if (offsets.length > 0) {
+    fields.reminders = offsets;
+    fields.reminder = Math.min(...offsets);
+  }
+
+  return { fields, warnings };
+};
+
+/**
+ * Create (or, for a UID imported before, update) events from iCalendar text.
+ * The importing user organizes the events and attends them. Changed or cancelled occurrences
+ * of recurring events (RECURRENCE-ID, EXDATE) are stored as exceptions of their series.
+ */
+export const importCalendarEvents = async (
+  text: string,
+  options: { userId: string; timezone: string; channelId?: string; dryRun?: boolean }
+): Promise<{ results: EventImportResult[]; error?: string }> => {
+  const components = parseICalendar(text).flatMap((root) => (root.type === 'VCALENDAR' ? root.components : [root]));
+  const vevents = components.filter((component) => component.type === 'VEVENT');
+  if (vevents.length === 0) return { results: [], error: 'No events found in the calendar file' };
+  if (vevents.length > MAX_IMPORT_EVENTS) {
+    return { results: [], error: `A calendar file can contain at most ${MAX_IMPORT_EVENTS} events` };
+  }
+
+  const results: EventImportResult[] = [];
+  const skip = (component: ICalComponent, uid: string | null, reason: string) => results.push({
+    uid,
+    title: unescapeText(getProperty(component, 'SUMMARY')?.value || ''),
+    action: 'skipped',
+    reason,
+  });
+
+  // Series are imported before the changes to their single occurrences
+  const isOverride = (component: ICalComponent) => !!getProperty(component, 'RECURRENCE-ID');
+  const series = vevents.filter((component) => !isOverride(component));
+  const overrides = vevents.filter(isOverride);
+  const importedUids = new Set<string>();
+
+  for (const component of series) {
+    const uid = getProperty(component, 'UID')?.value.trim() || null;
+    if (getProperty(component, 'STATUS')?.value.toUpperCase() === 'CANCELLED') {
+      skip(component, uid, 'Event is cancelled');
+      continue;
+    }
+    const parsed = eventFromComponent(component, options.timezone);
+    if ('reason' in parsed) {
+      skip(component, uid, parsed.reason);
+      continue;
+    }
+
+    const { fields, warnings } = parsed;
+    const existing = uid ? await Event.findOne({ organizer: options.userId, icsUid: uid }) : null;
+    const result: EventImportResult = {
+      uid,
+      title: fields.title,
+      action: existing ? 'updated' : 'created',
+      ...(warnings.length > 0 && { warnings }),
+    };
+
+    if (!options.dryRun) {
+      if (existing) {
+        existing.set(fields);
+        await existing.save();
+        result.eventId = String(existing._id);
+      } else {
+        const event = await new Event({
+          ...fields,
+          icsUid: uid,
+          organizer: options.userId,
+          attendees: [{ userId: options.userId, status: 'yes', respondedAt: new Date() }],
+          channelId: options.channelId,
+          status: 'scheduled',
+          reminder: fields.reminder ?? DEFAULT_REMINDER_MINUTES,
+          reminders: fields.reminders ?? [DEFAULT_REMINDER_MINUTES],
+        }).save();
+        result.eventId = String(event._id);
+      }
+    }
+    if (uid) importedUids.add(uid);
+    results.push(result);
+  }
+
+  for (const component of overrides) {
+    const uid = getProperty(component, 'UID')?.value.trim() || null;
+    const event = uid ? await Event.findOne({ organizer: options.userId, icsUid: uid }) : null;
+    if (!event && !(options.dryRun && uid && importedUids.has(uid))) {
+      skip(component, uid, 'The recurring event this occurrence belongs to was not imported');
+      continue;
+    }
+
+    const timezone = event ? getEventTimezone(event) : options.timezone;
+    const recurrenceId = parseICalDate(getProperty(component, 'RECURRENCE-ID')!, timezone);
+    const parsed = eventFromComponent(component, timezone);
+    if (!recurrenceId || 'reason' in parsed) {
+      skip(component, uid, 'reason' in parsed ? parsed.reason : 'Invalid RECURRENCE-ID');
+      continue;
+    }
+
+    const { fields } = parsed;
+    const exception = getProperty(component, 'STATUS')?.value.toUpperCase() === 'CANCELLED'
+      ? { originalStartDate: recurrenceId.date, cancelled: true }
+      : {
+        originalStartDate: recurrenceId.date,
+        cancelled: false,
+        title: fields.title,
+        description: fields.description,
+        location: fields.location,
+        startDate: fields.startDate,
+        endDate: fields.endDate,
+        allDay: fields.allDay,
+      };
+
+    const result: EventImportResult = { uid, title: fields.title, action: 'updated' };
+    if (event && !options.dryRun) {
+      event.exceptions = [
+        ...event.exceptions.filter((item) => item.originalStartDate.getTime() !== recurrenceId.date.getTime()),
+        exception,
+      ];
+      await event.save();
+      result.eventId = String(event._id);
+    }
+    results.push(result);
+  }
+
+  return { results };
+};
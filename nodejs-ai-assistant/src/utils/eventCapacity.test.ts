@@ -0,0 +1,93 @@
+jest.mock('./getstreamFeedsService', () => ({ getStreamFeedsService: {} }));
+
+import mongoose from 'mongoose';
+import { applyRsvp, getSeatsLeft, getWaitlistPosition, promoteWaitlist } from './eventCapacity';
+
+const at = (minute: number) => new Date(Date.UTC(2026, 2, 1, 9, minute));
+
+const guest = (id: string, status: any, waitlistedAt?: Date) => ({
+  _id: new mongoose.Types.ObjectId(id.padStart(24, '0')),
+  phoneNumber: '+15550000000',
+  status,
+  waitlistedAt,
+  invitedBy: 'olivia',
+  invitedAt: at(0),
+});
+
+const buildEvent = () => ({
+  capacity: 2,
+  attendees: [
+    { userId: 'ann', status: 'yes' as const },
+    { userId: 'bob', status: 'yes' as const },
+    { userId: 'cal', status: 'waitlisted' as const, waitlistedAt: at(20) },
+    { userId: 'dee', status: 'waitlisted' as const, waitlistedAt: at(5) },
+    { userId: 'eve', status: 'pending' as const },
+  ],
+  guests: [guest('a1', 'waitlisted', at(10))],
+});
+
+describe('waitlist order', () => {
+  it('lists attendees and guests first come first served', () => {
+    const event = buildEvent();
+    expect(getWaitlistPosition(event, { userId: 'dee' })).toBe(1);
+    expect(getWaitlistPosition(event, { guestId: String(event.guests[0]._id) })).toBe(2);
+    expect(getWaitlistPosition(event, { userId: 'cal' })).toBe(3);
+    expect(getWaitlistPosition(event, { userId: 'ann' })).toBeNull();
+  });
+});
+
+describe('promoteWaitlist', () => {
+  it('fills free seats in waitlist order', () => {
+    const event = buildEvent();
+    event.capacity = 4;
+    expect(promoteWaitlist(event)).toEqual([{ userId: 'dee' }, { guestId: String(event.guests[0]._id) }]);
+    expect(event.attendees.find((attendee) => attendee.userId === 'dee')).toMatchObject({ status: 'yes', waitlistedAt: undefined });
+    expect(event.guests[0].status).toBe('yes');
+    expect(getSeatsLeft(event)).toBe(0);
+    expect(getWaitlistPosition(event, { userId: 'cal' })).toBe(1);
+  });
+
+  it('promotes nobody when the event is full and everyone without a capacity', () => {
+    const event = buildEvent();
+    expect(promoteWaitlist(event)).toEqual([]);
+    event.capacity = null as any;
+    expect(promoteWaitlist(event)).toHaveLength(3);
+  });
+
+  it('does not count guests who joined twice', () => {
+    const event = buildEvent();
+    event.capacity = 3;
+    event.guests = [{ ...guest('a2', 'yes'), userId: 'ann' } as any];
+    expect(getSeatsLeft(event)).toBe(1);
+  });
+});
+
+describe('applyRsvp', () => {
+  it('puts a yes on the waitlist when the event is full', () => {
+    const event = buildEvent();
+    const eve = event.attendees[4];
+    expect(applyRsvp(event, eve, 'yes')).toEqual({ status: 'waitlisted', promoted: [] });
+    expect(eve.waitlistedAt).toBeInstanceOf(Date);
+    expect(getWaitlistPosition(event, { userId: 'eve' })).toBe(4);
+  });
+
+  it('keeps the place of someone already waitlisted who says yes again', () => {
+    const event = buildEvent();
+    const cal = event.attendees[2];
+    expect(applyRsvp(event, cal, 'yes').status).toBe('waitlisted');
+    expect(cal.waitlistedAt).toEqual(at(20));
+  });
+
+  it('gives a seat that is given up to the first on the waitlist', () => {
+    const event = buildEvent();
+    const ann = event.attendees[0];
+    expect(applyRsvp(event, ann, 'no')).toEqual({ status: 'no', promoted: [{ userId: 'dee' }] });
+    expect(getSeatsLeft(event)).toBe(0);
+  });
+
+  it('does not promote anyone when a waitlisted attendee declines', () => {
+    const event = buildEvent();
+    expect(applyRsvp(event, event.attendees[3], 'no').promoted).toEqual([]);
+    expect(getWaitlistPosition(event, { guestId: String(event.guests[0]._id) })).toBe(1);
+  });
+});
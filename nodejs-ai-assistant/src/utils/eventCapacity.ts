@@ -0,0 +1,112 @@
+import { IAttendee, IEventGuest, RsvpStatus } from '../models/Event';
+import { getStreamFeedsService } from './getstreamFeedsService';
+
+type CapacityEvent = {
+  _id?: any;
+  title?: string;
+  capacity?: number | null;
+  attendees: IAttendee[];
+  guests?: IEventGuest[];
+};
+
+type Participant = Pick<IAttendee, 'status' | 'respondedAt' | 'waitlistedAt'>;
+
+export interface PromotedParticipant {
+  userId?: string; // Attendee, or a guest who has joined
+  guestId?: string; // Guest who has not joined
+}
+
+// Guests who joined are counted through their attendee entry
+const getOpenGuests = (event: CapacityEvent): IEventGuest[] => (event.guests || []).filter((guest) => !guest.userId);
+
+/**
+ * Attendees and (not yet joined) guests who are going
+ */
+export const getGoingCount = (event: CapacityEvent): number =>
+  event.attendees.filter((attendee) => attendee.status === 'yes').length +
+  getOpenGuests(event).filter((guest) => guest.status === 'yes').length;
+
+export const getSeatsLeft = (event: CapacityEvent): number | null =>
+  event.capacity ? Math.max(0, event.capacity - getGoingCount(event)) : null;
+
+/**
+ * Waitlisted attendees and guests, first come first served
+ */
+export const getWaitlist = (event: CapacityEvent): Array<{ participant: Participant } & PromotedParticipant> =>
+  [
+    ...event.attendees
+      .filter((attendee) => attendee.status === 'waitlisted')
+      .map((attendee) => ({ participant: attendee as Participant, userId: attendee.userId })),
+    ...getOpenGuests(event)
+      .filter((guest) => guest.status === 'waitlisted')
+      .map((guest) => ({ participant: guest as Participant, guestId: String(guest._id) })),
+  ].sort((a, b) => new Date(a.participant.waitlistedAt || 0).getTime() - new Date(b.participant.waitlistedAt || 0).getTime());
+
+/**
+ * Give free seats to the waitlist, in order. Returns who got a seat; the caller saves the event.
+ */
+export const promoteWaitlist = (event: CapacityEvent): PromotedParticipant[] => {
+  const promoted: PromotedParticipant[] = [];
+  let seatsLeft = getSeatsLeft(event);
+  // Without a capacity everyone on the waitlist fits
+  for (const { participant, userId, guestId } of getWaitlist(event)) {
+    if (seatsLeft !== null && seatsLeft <= 0) break;
+    participant.status = 'yes';
+    participant.waitlistedAt = undefined;
+    promoted.push(userId ? { userId } : { guestId });
+    if (seatsLeft !== null) seatsLeft--;
+  }
+  return promoted;
+};
+
+/**
+ * Record an attendee's or guest's RSVP. A "yes" when the event is full puts them on the waitlist
+ * (keeping their place if they already were on it), and a seat given up goes to the waitlist.
+ */
+export const applyRsvp = (
+  event: CapacityEvent,
+  participant: Participant,
+  response: Exclude<RsvpStatus, 'waitlisted'>
+): { status: RsvpStatus; promoted: PromotedParticipant[] } => {
+  const wasGoing = participant.status === 'yes';
+  const full = !!event.capacity && getGoingCount(event) >= event.capacity;
+
+  if (response === 'yes' && !wasGoing && full) {
+    if (participant.status !== 'waitlisted') participant.waitlistedAt = new Date();
+    participant.status = 'waitlisted';
+  } else {
+    participant.status = response;
+    participant.waitlistedAt = undefined;
+  }
+  participant.respondedAt = new Date();
+
+  const promoted = wasGoing && participant.status !== 'yes' ? promoteWaitlist(event) : [];
+  return { status: participant.status, promoted };
+};
+
+/**
+ * Position (1-based) of an attendee or guest on the waitlist, or null
+ */
+export const getWaitlistPosition = (event: CapacityEvent, who: PromotedParticipant): number | null => {
+  const index = getWaitlist(event).findIndex((entry) =>
+    (who.userId && entry.userId === who.userId) || (who.guestId && entry.guestId === who.guestId));
+  return index === -1 ? null : index + 1;
+};
+
+/**
+ * Tell promoted attendees they have a seat. Guests who have not joined have no notification feed.
+ */
+export const notifyPromoted = async (event: CapacityEvent, promoted: PromotedParticipant[]): Promise<void> => {
+  const eventId = String(event._id);
+  for (const { userId } of promoted) {
+    if (!userId) continue;
+    try {
+      await getStreamFeedsService.createNotification(userId, 'event_waitlist_promoted', eventId, {
+        eventId,
+        eventTitle: event.title,
+      });
+    } catch (error) {
+      console.error(`Failed to notify ${userId} about waitlist promotion:`, error);
+    }
+  }
+};
@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Event, IEvent, IEventGuest } from '../models/Event';
+import { EventInvite, IEventInvite } from '../models/EventInvite';
+import { PromotedParticipant, promoteWaitlist } from './eventCapacity';
+
+export const MAX_GUESTS_PER_REQUEST = 50;
+
+/**
+ * Normalize a phone number to + and digits (e.g. "+1 (555) 123-4567" → "+15551234567").
+ * Returns null for values that are not phone numbers.
+ */
+export const normalizePhoneNumber = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !/^[+\d\s().-]+$/.test(value.trim())) return null;
+  const digits = value.replace(/\D/g, '');
+  return digits.length >= 7 && digits.length <= 15 ? `+${digits}` : null;
+};
+
+/**
+ * Add guests to an event by phone number, each with their own RSVP link token.
+ * Numbers already invited keep their existing invite. The event is saved.
+ */
+export const inviteGuests = async (
+  event: IEvent,
+  guests: Array<{ phoneNumber: string; name?: string }>,
+  invitedBy: string
+): Promise<Array<{ guest: IEventGuest; token: string }>> => {
+  const invited: Array<{ guest: IEventGuest; token: string }> = [];
+  const newInvites: Array<Pick<IEventInvite, 'token' | 'eventId' | 'guestId' | 'phoneNumber'>> = [];
+  const eventId = String(event._id);
+
+  for (const { phoneNumber, name } of guests) {
+    const existing = event.guests.find((guest) => guest.phoneNumber === phoneNumber);
+    if (existing) {
+      const invite = await EventInvite.findOne({ eventId, guestId: String(existing._id) }).select('token').lean();
+      if (invite) invited.push({ guest: existing, token: invite.token });
+      continue;
+    }
+
+    const newGuest: IEventGuest = {
+      _id: new mongoose.Types.ObjectId(),
+      phoneNumber,
+      name,
+      status: 'pending',
+      invitedBy,
+      invitedAt: new Date(),
+    };
+    event.guests.push(newGuest);
+    const guest = event.guests[event.guests.length - 1];
+    const token = crypto.randomBytes(24).toString('hex');
+    newInvites.push({ token, eventId, guestId: String(newGuest._id), phoneNumber });
+    invited.push({ guest, token });
+  }
+
+  await event.save();
+  if (newInvites.length > 0) {
+    await EventInvite.insertMany(newInvites);
+  }
+  return invited;
+};
+
+/**
+ * The event and guest behind an RSVP link token
+ */
+export const findInvite = async (token: string): Promise<{ invite: IEventInvite; event: IEvent; guest: IEventGuest } | null> => {
+  const invite = await EventInvite.findOne({ token });
+  if (!invite) return null;
+  const event = await Event.findById(invite.eventId);
+  const guest = event?.guests.find((item) => String(item._id) === invite.guestId);
+  return event && guest ? { invite, event, guest } : null;
+};
+
+/**
+ * Turn a user's guest invitations into attendance when they join, for the invites whose RSVP link
+ * they opened (tokens). Only the link proves who the guest is: a phone number sent to /join is not
+ * verified, so invites are never claimed by number. Their guest RSVP carries over.
+ * Returns the IDs of the events they were added to.
+ */
+export const attachEventInvites = async (userId: string, tokens: string[]): Promise<string[]> => {
+  if (tokens.length === 0) return [];
+
+  const invites = await EventInvite.find({ token: { $in: tokens }, userId: null });
+  const attached: string[] = [];
+
+  for (const invite of invites) {
+    const event = await Event.findById(invite.eventId);
+    const guest = event?.guests.find((item) => String(item._id) === invite.guestId);
+    if (!event || !guest) continue;
+
+    if (!event.attendees.some((attendee) => attendee.userId === userId)) {
+      event.attendees.push({
+        userId,
+        status: guest.status,
+        respondedAt: guest.respondedAt,
+        waitlistedAt: guest.waitlistedAt,
+      });
+    }
+    guest.userId = userId;
+    guest.joinedAt = new Date();
+    await event.save();
+
+    invite.userId = userId;
+    await invite.save();
+    attached.push(String(event._id));
+  }
+
+  return attached;
+};
+
+/**
+ * Remove a guest and their RSVP link, giving their seat to the waitlist. The event is saved.
+ * Returns who was promoted, or null if there is no such guest.
+ */
+export const removeGuest = async (event: IEvent, guestId: string): Promise<PromotedParticipant[] | null> => {
+  const guest = event.guests.find((item) => String(item._id) === guestId);
+  if (!guest) return null;
+  event.guests = event.guests.filter((item) => String(item._id) !== guestId);
+  const promoted = guest.status === 'yes' && !guest.userId ? promoteWaitlist(event) : [];
+  await event.save();
+  await EventInvite.deleteMany({ eventId: String(event._id), guestId });
+  return promoted;
+};
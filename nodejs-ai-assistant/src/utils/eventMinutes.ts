@@ -0,0 +1,151 @@
+import moment from 'moment-timezone';
+import { IEvent, IEventActionItem, IEventMinutes } from '../models/Event';
+import { Task } from '../models/Task';
+import { summarizeTranscription, transcribeAudio, transcribeAudioFromUrl } from '../services/transcriptionService';
+import { getStreamFeedsService } from './getstreamFeedsService';
+import { uploadToS3 } from './s3';
+import { getUserNames } from './taskImportExport';
+import { getChannelWorkflowStatuses, getInitialStatus } from './taskWorkflow';
+import { recordTaskHistory } from './taskHistory';
+
+// Tasks from action items are due this long after the minutes were taken
+const ACTION_ITEM_DUE_DAYS = 7;
+
+export interface MinutesInput {
+  notes?: string;
+  audio?: { buffer: Buffer; fileName: string; mimeType: string };
+  audioUrl?: string;
+  language?: string;
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (text: string, name: string): boolean =>
+  new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(name)}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+
+/**
+ * Attendees an action item names, by full name, first name or user ID. Falls back to the organizer.
+ */
+export const matchActionItemAssignees = (
+  text: string,
+  candidates: string[],
+  names: Map<string, string>,
+  organizer: string
+): string[] => {
+  const matched = candidates.filter((userId) => {
+    const name = names.get(userId);
+    const firstName = name?.split(/\s+/)[0];
+    return (name && mentions(text, name)) ||
+      (firstName && firstName.length >= 3 && mentions(text, firstName)) ||
+      mentions(text, userId);
+  });
+  return matched.length > 0 ? matched : [organizer];
+};
+
+/**
+ * Minutes of an event from written notes and/or a recording (uploaded, or at a URL).
+ * The recording is transcribed, and notes plus transcript are summarized into key points and action items
+ * the same way as POST /transcribe/summarize. Action items that got a task from earlier minutes are kept
+ * with it, since a new summary rarely words them the same way and they would otherwise get a second task.
+ */
+export const generateEventMinutes = async (
+  event: IEvent,
+  input: MinutesInput,
+  createdBy: string
+): Promise<IEventMinutes> => {
+  let recordingUri: string | undefined;
+  let transcription: { text: string; duration?: number; language?: string } | undefined;
+
+  if (input.audio) {
+    const extension = input.audio.fileName.split('.').pop();
+    const key = `events/${event._id}/minutes-${Date.now()}.${extension}`;
+    recordingUri = await uploadToS3(input.audio.buffer, key, input.audio.mimeType);
+    transcription = await transcribeAudio(input.audio.buffer, input.audio.fileName, input.language);
+  } else if (input.audioUrl) {
+    recordingUri = input.audioUrl;
+    transcription = await transcribeAudioFromUrl(input.audioUrl, input.language);
+  }
+
+  const notes = input.notes?.trim() || undefined;
+  const text = [notes, transcription?.text].filter(Boolean).join('\n\n');
+  const summary = await summarizeTranscription(text);
+
+  const candidates = [...new Set([
+    event.organizer,
+    ...event.attendees.filter((attendee) => attendee.status !== 'no').map((attendee) => attendee.userId),
+  ])];
+  const names = await getUserNames(candidates);
+  const itemsWithTasks = (event.minutes?.actionItems || []).filter((item) => item.taskId);
+  const newItems = summary.actionItems
+    .filter((item) => typeof item === 'string' && item.trim())
+    .map((item) => item.trim())
+    .filter((item) => !itemsWithTasks.some((previous) => previous.text === item));
+
+  return {
+    source: transcription ? 'recording' : 'notes',
+    notes,
+    recordingUri,
+    transcript: transcription?.text,
+    duration: transcription?.duration,
+    language: transcription?.language,
+    summary: summary.summary,
+    keyPoints: summary.keyPoints,
+    actionItems: [
+      ...itemsWithTasks.map(({ text, assignees, taskId }) => ({ text, assignees, taskId })),
+      ...newItems.map((item) => ({
+        text: item,
+        assignees: matchActionItemAssignees(item, candidates, names, event.organizer),
+      })),
+    ],
+    createdBy,
+    createdAt: new Date(),
+  };
+};
+
+/**
+ * Create a task for each action item that does not have one yet, in the event's channel.
+ * Sets taskId on the items; the caller saves the event. Returns the created task IDs.
+ */
+export const createActionItemTasks = async (
+  event: IEvent,
+  actionItems: IEventActionItem[],
+  createdBy: string
+): Promise<string[]> => {
+  const eventId = String(event._id);
+  const timezone = event.timezone || 'UTC';
+  const status = getInitialStatus(await getChannelWorkflowStatuses(event.channelId));
+  const eventDate = moment.tz(event.startDate, timezone).format('MMM D, YYYY');
+  const created: string[] = [];
+
+  for (const item of actionItems) {
+    if (item.taskId) continue;
+
+    const task = new Task({
+      name: item.text,
+      description: `Action item from "${event.title}" (${eventDate})`,
+      priority: 'medium',
+      completionDate: moment().add(ACTION_ITEM_DUE_DAYS, 'days').toDate(),
+      assignee: item.assignees,
+      createdBy,
+      channelId: event.channelId,
+      status,
+      completed: false,
+      timezone,
+      eventId,
+    });
+    await task.save();
+    await recordTaskHistory('created', task, createdBy);
+
+    const taskId = String(task._id);
+    item.taskId = taskId;
+    created.push(taskId);
+
+    try {
+      await getStreamFeedsService.createTaskActivity(taskId, task);
+    } catch (notifError) {
+      console.error('Failed to send task notifications:', notifError);
+    }
+  }
+
+  return created;
+};
@@ -0,0 +1,98 @@
+import { expandEvent, getOccurrenceStarts, isOccurrenceStart } from './eventRecurrence';
+
+const weekly = {
+  _id: 'event1',
+  title: 'Standup',
+  startDate: new Date('2026-03-02T09:00:00Z'), // Monday 10:00 in Berlin
+  endDate: new Date('2026-03-02T09:30:00Z'),
+  timezone: 'Europe/Berlin',
+  recurrence: { type: 'weekly' as const, interval: 1 },
+  exceptions: [] as any[],
+};
+
+describe('getOccurrenceStarts', () => {
+  it('keeps the local start time across a DST change', () => {
+    const starts = getOccurrenceStarts(weekly, new Date('2026-03-20T00:00:00Z'), new Date('2026-04-05T00:00:00Z'));
+    expect(starts.map((start) => start.toISOString())).toEqual([
+      '2026-03-23T09:00:00.000Z',
+      '2026-03-30T08:00:00.000Z', // CEST: 10:00 local is 08:00 UTC
+    ]);
+  });
+
+  it('stops at the end of the series', () => {
+    const event = { ...weekly, recurrence: { ...weekly.recurrence, endDate: new Date('2026-03-16T09:00:00Z') } };
+    expect(getOccurrenceStarts(event, new Date('2026-03-01T00:00:00Z'), new Date('2026-06-01T00:00:00Z'))).toHaveLength(3);
+  });
+
+  it('falls on the last day of shorter months without drifting', () => {
+    const monthly = {
+      startDate: new Date('2026-01-31T12:00:00Z'),
+      timezone: 'UTC',
+      recurrence: { type: 'monthly' as const, interval: 1 },
+    };
+    const starts = getOccurrenceStarts(monthly, new Date('2026-01-01T00:00:00Z'), new Date('2026-04-30T23:59:59Z'));
+    expect(starts.map((start) => start.toISOString().slice(0, 10))).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+  });
+
+  it('returns a single event only when it starts in the range', () => {
+    const single = { startDate: new Date('2026-03-02T09:00:00Z') };
+    expect(getOccurrenceStarts(single, new Date('2026-03-01T00:00:00Z'), new Date('2026-03-03T00:00:00Z'))).toHaveLength(1);
+    expect(getOccurrenceStarts(single, new Date('2026-03-03T00:00:00Z'), new Date('2026-03-04T00:00:00Z'))).toHaveLength(0);
+  });
+
+  it('recognizes occurrence starts', () => {
+    expect(isOccurrenceStart(weekly, new Date('2026-03-09T09:00:00Z'))).toBe(true);
+    expect(isOccurrenceStart(weekly, new Date('2026-03-10T09:00:00Z'))).toBe(false);
+  });
+});
+
+describe('expandEvent', () => {
+  const from = new Date('2026-03-01T00:00:00Z');
+  const to = new Date('2026-03-22T00:00:00Z');
+
+  it('expands occurrences with the event duration and stable IDs', () => {
+    const occurrences = expandEvent(weekly, from, to);
+    expect(occurrences).toHaveLength(3);
+    expect(occurrences[1]).toMatchObject({
+      eventId: 'event1',
+      occurrenceId: 'event1_2026-03-09T09:00:00.000Z',
+      startDate: new Date('2026-03-09T09:00:00Z'),
+      endDate: new Date('2026-03-09T09:30:00Z'),
+      isRecurring: true,
+      isException: false,
+      title: 'Standup',
+    });
+    expect(occurrences[1]).not.toHaveProperty('exceptions');
+  });
+
+  it('applies edited occurrences and leaves out cancelled ones', () => {
+    const event = {
+      ...weekly,
+      exceptions: [
+        { originalStartDate: new Date('2026-03-09T09:00:00Z'), cancelled: true },
+        {
+          originalStartDate: new Date('2026-03-16T09:00:00Z'),
+          cancelled: false,
+          title: 'Retro',
+          startDate: new Date('2026-03-17T13:00:00Z'),
+        },
+      ],
+    };
+    const occurrences = expandEvent(event, from, to);
+    expect(occurrences.map((occurrence) => occurrence.occurrenceId)).toEqual([
+      'event1_2026-03-02T09:00:00.000Z',
+      'event1_2026-03-16T09:00:00.000Z',
+    ]);
+    expect(occurrences[1]).toMatchObject({
+      title: 'Retro',
+      startDate: new Date('2026-03-17T13:00:00Z'),
+      endDate: new Date('2026-03-17T13:30:00Z'),
+      isException: true,
+    });
+  });
+
+  it('includes an occurrence that started before the range and is still running', () => {
+    const occurrences = expandEvent(weekly, new Date('2026-03-09T09:15:00Z'), new Date('2026-03-09T10:00:00Z'));
+    expect(occurrences.map((occurrence) => occurrence.occurrenceId)).toEqual(['event1_2026-03-09T09:00:00.000Z']);
+  });
+});
@@ -0,0 +1,161 @@
+import moment from 'moment-timezone';
+import { IEvent, IEventException } from '../models/Event';
+
+// Upper bound on occurrences generated per event and request, in case of a tiny interval over a huge range
+export const MAX_OCCURRENCES_PER_EVENT = 1000;
+
+const UNITS = { daily: 'days', weekly: 'weeks', monthly: 'months', yearly: 'years' } as const;
+
+type EventLike = Pick<IEvent, 'startDate' | 'endDate' | 'recurrence' | 'timezone'> & {
+  _id?: any;
+  exceptions?: IEventException[];
+  [key: string]: any;
+};
+
+export interface EventOccurrence {
+  [key: string]: any;
+  eventId: string;
+  occurrenceId: string; // `${eventId}_${originalStartDate ISO}`, stable across edits of the occurrence
+  originalStartDate: Date;
+  startDate: Date;
+  endDate: Date | null;
+  isRecurring: boolean;
+  isException: boolean; // This occurrence was edited on its own
+}
+
+const getTimezone = (event: EventLike): string =>
+  event.timezone && moment.tz.zone(event.timezone) ? event.timezone : 'UTC';
+
+const getDurationMs = (event: Pick<EventLike, 'startDate' | 'endDate'>): number =>
+  event.endDate ? Math.max(0, new Date(event.endDate).getTime() - new Date(event.startDate).getTime()) : 0;
+
+export const isRecurringEvent = (event: Pick<EventLike, 'recurrence'>): boolean =>
+  !!event.recurrence?.type && !!UNITS[event.recurrence.type];
+
+/**
+ * Start of the nth occurrence (0 = the event itself).
+ * Each occurrence is computed from the first in the event's timezone, so times stay put across DST changes
+ * and monthly events on the 31st fall on the last day of shorter months without drifting.
+ */
+const nthStart = (event: EventLike, n: number): Date => {
+  const unit = UNITS[event.recurrence!.type];
+  return moment.tz(event.startDate, getTimezone(event)).add(n * (event.recurrence!.interval || 1), unit).toDate();
+};
+
+/**
+ * Original start dates of the occurrences that start in [from, to], ignoring exceptions
+ */
+export const getOccurrenceStarts = (event: EventLike, from: Date, to: Date): Date[] => {
+  const first = new Date(event.startDate);
+  if (!isRecurringEvent(event)) {
+    return first >= from && first <= to ? [first] : [];
+  }
+
+  const unit = UNITS[event.recurrence!.type];
+  const interval = event.recurrence!.interval || 1;
+  const until = event.recurrence!.endDate ? new Date(event.recurrence!.endDate) : null;
+
+  // Jump close to the range instead of walking from the first occurrence
+  const elapsed = from > first ? moment.tz(from, getTimezone(event)).diff(moment.tz(first, getTimezone(event)), unit) : 0;
+  let n = Math.max(0, Math.floor(elapsed / interval) - 1);
+
+  const starts: Date[] = [];
+  while (starts.length < MAX_OCCURRENCES_PER_EVENT) {
+    const start = nthStart(event, n++);
+    if (start > to || (until && start > until)) break;
+    if (start >= from) starts.push(start);
+  }
+  return starts;
+};
+
+/**
+ * Whether a date is the original start of one of the event's occurrences
+ */
+export const isOccurrenceStart = (event: EventLike, date: Date): boolean =>
+  getOccurrenceStarts(event, date, date).some((start) => start.getTime() === date.getTime());
+
+export const findException = (event: EventLike, originalStartDate: Date): IEventException | undefined =>
+  (event.exceptions || []).find((exception) =>
+    new Date(exception.originalStartDate).getTime() === originalStartDate.getTime());
+
+const toOccurrence = (event: EventLike, originalStartDate: Date, exception?: IEventException): EventOccurrence => {
+  const eventId = String(event._id);
+  const duration = getDurationMs(event);
+  const startDate = exception?.startDate ? new Date(exception.startDate) : originalStartDate;
+  let endDate: Date | null = event.endDate ? new Date(startDate.getTime() + duration) : null;
+  if (exception && exception.endDate !== undefined) {
+    endDate = exception.endDate ? new Date(exception.endDate) : null;
+  }
+
+  const { exceptions, ...fields } = event;
+  return {
+    ...fields,
+    ...(exception?.title !== undefined && { title: exception.title }),
+    ...(exception?.description !== undefined && { description: exception.description }),
+    ...(exception?.location !== undefined && { location: exception.location }),
+    ...(exception?.allDay !== undefined && { allDay: exception.allDay }),
+    eventId,
+    occurrenceId: `${eventId}_${originalStartDate.toISOString()}`,
+    originalStartDate,
+    startDate,
+    endDate,
+    isRecurring: isRecurringEvent(event),
+    isException: !!exception,
+  };
+};
+
+const overlaps = (occurrence: EventOccurrence, from: Date, to: Date): boolean => {
+  const end = occurrence.endDate && occurrence.endDate > occurrence.startDate ? occurrence.endDate : occurrence.startDate;
+  return occurrence.startDate <= to && end >= from;
+};
+
+/**
+ * Occurrences of an event that overlap [from, to], with per-occurrence changes applied and cancelled ones left out.
+ * A non-recurring event yields itself if it overlaps the range.
+ */
+export const expandEvent = (event: EventLike, from: Date, to: Date): EventOccurrence[] => {
+  if (!isRecurringEvent(event)) {
+    const single = toOccurrence(event, new Date(event.startDate));
+    return overlaps(single, from, to) ? [single] : [];
+  }
+
+  // Occurrences that started before the range may still be running
+  const lookBehind = new Date(from.getTime() - getDurationMs(event));
+  const exceptions = event.exceptions || [];
+  const occurrences = getOccurrenceStarts(event, lookBehind, to)
+    .filter((start) => !findException(event, start))
+    .map((start) => toOccurrence(event, start));
+
+  // Edited occurrences can have been moved into (or out of) the range
+  for (const exception of exceptions) {
+    if (exception.cancelled) continue;
+    const occurrence = toOccurrence(event, new Date(exception.originalStartDate), exception);
+    occurrences.push(occurrence);
+  }
+
+  return occurrences
+    .filter((occurrence) => overlaps(occurrence, from, to))
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+};
+
+/**
+ * Occurrences of several events in [from, to], in start order
+ */
+export const expandEvents = (events: EventLike[], from: Date, to: Date): EventOccurrence[] =>
+  events
+    .flatMap((event) => expandEvent(event, from, to))
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+/**
+ * Query for events that may have an occurrence starting at or after a date: later single events,
+ * and recurring series that have not ended
+ */
+export const activeAfterQuery = (date: Date) => ({
+  $or: [
+    { startDate: { $gte: date } },
+    {
+      'recurrence.type': { $ne: null },
+      $or: [{ 'recurrence.endDate': null }, { 'recurrence.endDate': { $gte: date } }],
+    },
+  ],
+});
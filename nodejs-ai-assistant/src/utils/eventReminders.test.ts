@@ -0,0 +1,67 @@
+import {
+  buildReminderFields,
+  getReminderChannel,
+  getReminderRecipients,
+  getUserReminderOffsets,
+  MAX_REMINDER_MINUTES,
+  parseReminderOffsets,
+} from './eventReminders';
+
+const event = {
+  organizer: 'olivia',
+  reminders: [60, 10],
+  reminder: 10,
+  attendees: [
+    { userId: 'ann', status: 'yes', reminders: [1440], reminderChannel: 'kai' },
+    { userId: 'bob', status: 'maybe' },
+    { userId: 'cal', status: 'no' },
+    { userId: 'dee', status: 'waitlisted' },
+    { userId: 'olivia', status: 'yes' },
+  ],
+} as any;
+
+describe('parseReminderOffsets', () => {
+  it('deduplicates and sorts longest first', () => {
+    expect(parseReminderOffsets([10, 60, 10, 1440])).toEqual({ offsets: [1440, 60, 10] });
+    expect(parseReminderOffsets([])).toEqual({ offsets: [] });
+  });
+
+  it('rejects invalid offsets and too many reminders', () => {
+    expect(parseReminderOffsets(15).error).toMatch(/array/);
+    expect(parseReminderOffsets([0]).error).toMatch(/between 1 and/);
+    expect(parseReminderOffsets([1.5]).error).toMatch(/whole number/);
+    expect(parseReminderOffsets([MAX_REMINDER_MINUTES + 1]).error).toMatch(/between 1 and/);
+    expect(parseReminderOffsets([1, 2, 3, 4, 5, 6]).error).toMatch(/at most 5/);
+  });
+});
+
+describe('buildReminderFields', () => {
+  it('keeps reminder as the shortest of the list', () => {
+    expect(buildReminderFields([30, 5], undefined)).toEqual({ fields: { reminders: [30, 5], reminder: 5 } });
+    expect(buildReminderFields([], undefined)).toEqual({ fields: { reminders: [], reminder: 0 } });
+  });
+
+  it('accepts the single reminder older clients send', () => {
+    expect(buildReminderFields(undefined, 15)).toEqual({ fields: { reminders: [15], reminder: 15 } });
+    expect(buildReminderFields(undefined, 0)).toEqual({ fields: { reminders: [], reminder: 0 } });
+    expect(buildReminderFields(undefined, undefined)).toEqual({});
+  });
+});
+
+describe('per-attendee reminders', () => {
+  it("uses an attendee's own offsets, else the event's", () => {
+    expect(getUserReminderOffsets(event, 'ann')).toEqual([1440]);
+    expect(getUserReminderOffsets(event, 'bob')).toEqual([60, 10]);
+    expect(getUserReminderOffsets({ organizer: 'olivia', reminder: 15 } as any, 'olivia')).toEqual([15]);
+  });
+
+  it('reminds the organizer and attendees who have not declined or are waitlisted, once each', () => {
+    expect(getReminderRecipients(event)).toEqual(['olivia', 'ann', 'bob']);
+  });
+
+  it("uses the attendee's channel, else the user's default, else push", () => {
+    expect(getReminderChannel(event, 'ann', 'push')).toBe('kai');
+    expect(getReminderChannel(event, 'bob', 'kai')).toBe('kai');
+    expect(getReminderChannel(event, 'bob')).toBe('push');
+  });
+});
@@ -0,0 +1,95 @@
+import { IAttendee, IEvent, ReminderChannel } from '../models/Event';
+
+// Reminders are sent at most this long before an event
+export const MAX_REMINDER_MINUTES = 7 * 24 * 60;
+
+export const MAX_REMINDERS_PER_EVENT = 5;
+
+export const DEFAULT_REMINDER_MINUTES = 15;
+
+type EventReminderFields = Pick<IEvent, 'reminder' | 'reminders' | 'organizer'> & { attendees?: IAttendee[] };
+
+/**
+ * Validate reminder offsets from a request: whole minutes between 1 and MAX_REMINDER_MINUTES,
+ * at most MAX_REMINDERS_PER_EVENT. Returns them deduplicated, longest first, or an error message.
+ */
+export const parseReminderOffsets = (value: unknown): { offsets?: number[]; error?: string } => {
+  if (!Array.isArray(value)) {
+    return { error: 'reminders must be an array of minutes' };
+  }
+  if (value.some((offset) => !Number.isInteger(offset) || offset < 1 || offset > MAX_REMINDER_MINUTES)) {
+    return { error: `Each reminder must be a whole number of minutes between 1 and ${MAX_REMINDER_MINUTES}` };
+  }
+  const offsets = [...new Set(value as number[])].sort((a, b) => b - a);
+  if (offsets.length > MAX_REMINDERS_PER_EVENT) {
+    return { error: `An event can have at most ${MAX_REMINDERS_PER_EVENT} reminders` };
+  }
+  return { offsets };
+};
+
+/**
+ * Reminder offsets of an event. Events from before reminders could be listed use their single reminder.
+ */
+export const getEventReminderOffsets = (event: EventReminderFields): number[] => {
+  if (Array.isArray(event.reminders)) {
+    return event.reminders;
+  }
+  return event.reminder && event.reminder > 0 ? [event.reminder] : [];
+};
+
+/**
+ * The reminder offsets that apply to one user: their own override as an attendee, or the event's
+ */
+export const getUserReminderOffsets = (event: EventReminderFields, userId: string): number[] => {
+  const attendee = (event.attendees || []).find((item) => item.userId === userId);
+  if (attendee && Array.isArray(attendee.reminders)) {
+    return attendee.reminders;
+  }
+  return getEventReminderOffsets(event);
+};
+
+/**
+ * Users to remind about an event: the organizer and every attendee who has not declined or is waitlisted
+ */
+export const getReminderRecipients = (event: EventReminderFields): string[] => [
+  ...new Set([
+    event.organizer,
+    ...(event.attendees || [])
+      .filter((attendee) => attendee.status !== 'no' && attendee.status !== 'waitlisted')
+      .map((attendee) => attendee.userId),
+  ]),
+];
+
+/**
+ * Channel for a user's reminders about an event: the attendee's choice for this event, else their default
+ */
+export const getReminderChannel = (
+  event: EventReminderFields,
+  userId: string,
+  defaultChannel?: ReminderChannel
+): ReminderChannel => {
+  const attendee = (event.attendees || []).find((item) => item.userId === userId);
+  return attendee?.reminderChannel || defaultChannel || 'push';
+};
+
+/**
+ * Reminder fields to store from a request's reminders (list) and reminder (single, from older clients).
+ * reminder is kept as the shortest offset, so clients that only know it still show the last reminder.
+ */
+export const buildReminderFields = (
+  reminders: unknown,
+  reminder: unknown
+): { fields?: { reminders: number[]; reminder: number }; error?: string } => {
+  if (reminders !== undefined) {
+    const { offsets, error } = parseReminderOffsets(reminders);
+    if (error) return { error };
+    return { fields: { reminders: offsets!, reminder: offsets!.length > 0 ? Math.min(...offsets!) : 0 } };
+  }
+  if (reminder !== undefined) {
+    const minutes = Number(reminder) || 0;
+    const { offsets, error } = parseReminderOffsets(minutes > 0 ? [minutes] : []);
+    if (error) return { error };
+    return { fields: { reminders: offsets!, reminder: minutes } };
+  }
+  return {};
+};
@@ -0,0 +1,74 @@
+import { IAttendee, IEventGuest, IEventProposal } from '../models/Event';
+import { getSeatsLeft, getWaitlist } from './eventCapacity';
+
+type RsvpEvent = { attendees: IAttendee[]; proposals?: IEventProposal[]; guests?: IEventGuest[]; capacity?: number | null };
+
+export interface RsvpCounts {
+  yes: number;
+  no: number;
+  maybe: number;
+  pending: number;
+  waitlisted: number;
+}
+
+export const getRsvpCounts = (attendees: Array<Pick<IAttendee, 'status'>>): RsvpCounts => ({
+  yes: attendees.filter(a => a.status === 'yes').length,
+  no: attendees.filter(a => a.status === 'no').length,
+  maybe: attendees.filter(a => a.status === 'maybe').length,
+  pending: attendees.filter(a => a.status === 'pending').length,
+  waitlisted: attendees.filter(a => a.status === 'waitlisted').length,
+});
+
+export const formatProposal = (proposal: IEventProposal) => ({
+  id: String(proposal._id),
+  userId: proposal.userId,
+  startDate: proposal.startDate,
+  endDate: proposal.endDate || null,
+  comment: proposal.comment || null,
+  status: proposal.status,
+  createdAt: proposal.createdAt,
+});
+
+/**
+ * Responses of an event (attendees, and guests who have not joined yet), seats and waitlist,
+ * and the times attendees proposed that the organizer has not decided on.
+ * Proposals for the same time are grouped, so the organizer sees which time suits most people.
+ */
+export const buildRsvpSummary = (event: RsvpEvent) => {
+  const openProposals = (event.proposals || [])
+    .filter((proposal) => proposal.status === 'open')
+    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+
+  const proposedTimes = new Map<string, { startDate: Date; endDate: Date | null; userIds: string[]; proposalIds: string[] }>();
+  for (const proposal of openProposals) {
+    const key = `${new Date(proposal.startDate).getTime()}_${proposal.endDate ? new Date(proposal.endDate).getTime() : ''}`;
+    const time = proposedTimes.get(key) || { startDate: proposal.startDate, endDate: proposal.endDate || null, userIds: [], proposalIds: [] };
+    time.userIds.push(proposal.userId);
+    time.proposalIds.push(String(proposal._id));
+    proposedTimes.set(key, time);
+  }
+
+  const openGuests = (event.guests || []).filter((guest) => !guest.userId);
+
+  return {
+    counts: getRsvpCounts(event.attendees),
+    guestCounts: getRsvpCounts(openGuests),
+    total: event.attendees.length + openGuests.length,
+    capacity: event.capacity || null,
+    seatsLeft: getSeatsLeft(event),
+    waitlist: getWaitlist(event).map(({ userId, guestId }) => (userId ? { userId } : { guestId })),
+    responses: event.attendees.map((attendee) => ({
+      userId: attendee.userId,
+      status: attendee.status,
+      respondedAt: attendee.respondedAt || null,
+    })),
+    guests: openGuests.map((guest) => ({
+      guestId: String(guest._id),
+      name: guest.name || null,
+      status: guest.status,
+      respondedAt: guest.respondedAt || null,
+    })),
+    proposals: openProposals.map(formatProposal),
+    proposedTimes: [...proposedTimes.values()].sort((a, b) => b.userIds.length - a.userIds.length),
+  };
+};
@@ -0,0 +1,119 @@
+jest.mock('../serverClient', () => ({ serverClient: {} }));
+
+import { GeofenceState } from '../models/GeofenceState';
+import {
+  applyPing,
+  GEOFENCE_EXIT_BUFFER,
+  getGeofenceDistance,
+  getPingPresence,
+  haversineDistance,
+  MAX_PING_ACCURACY,
+  validateGeofencePolygon,
+} from './geofence';
+
+// About 111 m per 0.001 degrees of latitude
+const SITE: [number, number] = [13.4, 52.5];
+const north = (meters: number): [number, number] => [SITE[0], SITE[1] + meters / 111195];
+
+const square = {
+  type: 'Polygon' as const,
+  coordinates: [[[13.399, 52.499], [13.401, 52.499], [13.401, 52.501], [13.399, 52.501], [13.399, 52.499]] as [number, number][]],
+};
+
+describe('getGeofenceDistance', () => {
+  it('measures from the radius around the project location', () => {
+    const project = { location: { type: 'Point' as const, coordinates: SITE }, geofenceRadius: 150 };
+    expect(getGeofenceDistance(project, north(100))).toBeCloseTo(-50, 0);
+    expect(getGeofenceDistance(project, north(200))).toBeCloseTo(50, 0);
+  });
+
+  it('uses the default radius when none is set', () => {
+    const project = { location: { type: 'Point' as const, coordinates: SITE } };
+    expect(getGeofenceDistance(project, north(130))).toBeCloseTo(30, 0);
+  });
+
+  it('prefers the polygon and is negative inside it', () => {
+    const project = { location: { type: 'Point' as const, coordinates: [0, 0] as [number, number] }, geofence: square };
+    // The east and west edges are nearest: 0.001 degrees of longitude is about 68 m at this latitude
+    expect(getGeofenceDistance(project, SITE)).toBeCloseTo(-68, 0);
+    expect(getGeofenceDistance(project, north(211))).toBeCloseTo(100, 0);
+  });
+
+  it('treats holes as outside', () => {
+    const withHole = {
+      geofence: {
+        ...square,
+        coordinates: [...square.coordinates, [[13.3995, 52.4995], [13.4005, 52.4995], [13.4005, 52.5005], [13.3995, 52.5005], [13.3995, 52.4995]] as [number, number][]],
+      },
+    };
+    expect(getGeofenceDistance(withHole, SITE)!).toBeGreaterThan(0);
+  });
+
+  it('is null for projects without a location or boundary', () => {
+    expect(getGeofenceDistance({}, SITE)).toBeNull();
+  });
+
+  it('agrees with the haversine distance', () => {
+    expect(haversineDistance(SITE, north(1000))).toBeCloseTo(1000, 0);
+  });
+});
+
+describe('validateGeofencePolygon', () => {
+  it('accepts a closed ring and rejects open or short ones', () => {
+    expect(validateGeofencePolygon(square)).toBeNull();
+    expect(validateGeofencePolygon({ type: 'Point', coordinates: SITE })).toMatch(/GeoJSON Polygon/);
+    expect(validateGeofencePolygon({ type: 'Polygon', coordinates: [square.coordinates[0].slice(0, 3)] })).toMatch(/at least 4/);
+    expect(validateGeofencePolygon({ type: 'Polygon', coordinates: [square.coordinates[0].slice(0, 4)] })).toMatch(/end at its first/);
+  });
+});
+
+describe('getPingPresence', () => {
+  it('is inside at or within the boundary', () => {
+    expect(getPingPresence(-10)).toBe('inside');
+    expect(getPingPresence(0)).toBe('inside');
+  });
+
+  it('is outside only beyond the exit buffer or the accuracy, whichever is larger', () => {
+    expect(getPingPresence(GEOFENCE_EXIT_BUFFER)).toBeNull();
+    expect(getPingPresence(GEOFENCE_EXIT_BUFFER + 1)).toBe('outside');
+    expect(getPingPresence(GEOFENCE_EXIT_BUFFER + 1, 120)).toBeNull();
+    expect(getPingPresence(121, 120)).toBe('outside');
+  });
+
+  it('ignores pings that are too inaccurate', () => {
+    expect(getPingPresence(-100, MAX_PING_ACCURACY + 1)).toBeNull();
+  });
+});
+
+describe('applyPing', () => {
+  const ping = (minute: number) => ({ lat: SITE[1], lng: SITE[0], timestamp: new Date(Date.UTC(2026, 2, 1, 9, minute)) });
+  const newState = () => new GeofenceState({ userId: 'ann', projectId: 'site', state: 'outside', lastPingAt: ping(0).timestamp });
+
+  it('changes state after two agreeing pings', () => {
+    const state = newState();
+    expect(applyPing(state, 'inside', ping(1))).toBeNull();
+    expect(state.state).toBe('outside');
+    expect(applyPing(state, 'inside', ping(2))).toBe('ENTER');
+    expect(state.state).toBe('inside');
+    expect(state.lastTransitionAt).toEqual(ping(2).timestamp);
+    expect(state.pendingCount).toBe(0);
+  });
+
+  it('starts over when a ping disagrees or is in the boundary band', () => {
+    const state = newState();
+    applyPing(state, 'inside', ping(1));
+    expect(applyPing(state, null, ping(2))).toBeNull();
+    expect(applyPing(state, 'inside', ping(3))).toBeNull();
+    applyPing(state, 'outside', ping(4));
+    expect(applyPing(state, 'inside', ping(5))).toBeNull();
+    expect(applyPing(state, 'inside', ping(6))).toBe('ENTER');
+  });
+
+  it('reports an exit after two pings outside', () => {
+    const state = newState();
+    state.state = 'inside';
+    expect(applyPing(state, 'outside', ping(1))).toBeNull();
+    expect(applyPing(state, 'outside', ping(2))).toBe('EXIT');
+    expect(applyPing(state, 'outside', ping(3))).toBeNull();
+  });
+});
@@ -0,0 +1,272 @@
+import { AttendanceLog } from '../models/AttendanceLog';
+import { GeofencePresence, GeofenceState, IGeofenceState } from '../models/GeofenceState';
+import {
+  DEFAULT_GEOFENCE_RADIUS,
+  IProjectDetails,
+  MAX_GEOFENCE_RADIUS,
+  ProjectDetails,
+} from '../models/Project';
+import { AttendancePromptResult, sendAttendancePrompt } from './attendancePrompts';
+import { getMemberChannelIds } from './taskSearch';
+
+// Leaving only counts this far (or the ping's accuracy, if larger) beyond the geofence, so a user
+// standing at the boundary does not flap between ENTER and EXIT
+export const GEOFENCE_EXIT_BUFFER = 50;
+
+// Pings less accurate than this (in meters) are recorded but cannot change the state
+export const MAX_PING_ACCURACY = 200;
+
+// Consecutive pings that must agree before the state changes
+export const GEOFENCE_CONFIRM_PINGS = 2;
+
+const EARTH_RADIUS = 6371008.8; // Meters
+
+type Position = [number, number]; // [longitude, latitude]
+
+export interface LocationPing {
+  lat: number;
+  lng: number;
+  accuracy?: number; // Meters
+  timestamp: Date;
+}
+
+export interface GeofenceResult {
+  projectId: string;
+  projectName: string;
+  state: GeofencePresence;
+  distance: number; // Meters outside the geofence (negative when inside)
+  transition: 'ENTER' | 'EXIT' | null;
+  prompt?: AttendancePromptResult;
+}
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two positions, in meters
+ */
+export const haversineDistance = (a: Position, b: Position): number => {
+  const dLat = toRadians(b[1] - a[1]);
+  const dLng = toRadians(b[0] - a[0]);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a[1])) * Math.cos(toRadians(b[1])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Ray casting; rings are small enough for longitude/latitude to be treated as planar
+const isInRing = (point: Position, ring: Position[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > point[1]) !== (yj > point[1]) &&
+      point[0] < ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Distance from a point to the edges of a ring, in meters, on a local flat projection around the point
+const distanceToRing = (point: Position, ring: Position[]): number => {
+  const metersPerDegree = (EARTH_RADIUS * Math.PI) / 180;
+  const cosLat = Math.cos(toRadians(point[1]));
+  const project = ([lng, lat]: Position): [number, number] =>
+    [(lng - point[0]) * metersPerDegree * cosLat, (lat - point[1]) * metersPerDegree];
+
+  let min = Infinity;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [ax, ay] = project(ring[i]);
+    const [bx, by] = project(ring[i + 1]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+    min = Math.min(min, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return min;
+};
+
+/**
+ * Meters from a position to a project's geofence: positive outside, negative inside.
+ * The polygon is used when set, else the radius around the project location. Null if neither is set.
+ */
+export const getGeofenceDistance = (
+  project: Pick<IProjectDetails, 'location' | 'geofenceRadius' | 'geofence'>,
+  position: Position
+): number | null => {
+  const polygon = project.geofence;
+  if (polygon?.coordinates?.length) {
+    const [outer, ...holes] = polygon.coordinates;
+    const inside = isInRing(position, outer) && !holes.some((hole) => isInRing(position, hole));
+    const edge = Math.min(...polygon.coordinates.map((ring) => distanceToRing(position, ring)));
+    return inside ? -edge : edge;
+  }
+  if (project.location?.coordinates?.length === 2) {
+    return haversineDistance(position, project.location.coordinates) - (project.geofenceRadius || DEFAULT_GEOFENCE_RADIUS);
+  }
+  return null;
+};
+
+/**
+ * Validate a GeoJSON polygon from a request: closed rings of at least 4 [longitude, latitude] positions.
+ * Returns an error message, or null when valid.
+ */
+export const validateGeofencePolygon = (value: any): string | null => {
+  if (!value || value.type !== 'Polygon' || !Array.isArray(value.coordinates) || value.coordinates.length === 0) {
+    return 'geofence must be a GeoJSON Polygon';
+  }
+  for (const ring of value.coordinates) {
+    const valid = Array.isArray(ring) && ring.length >= 4 && ring.every((position: any) =>
+      Array.isArray(position) && position.length === 2 &&
+      Number.isFinite(position[0]) && Math.abs(position[0]) <= 180 &&
+      Number.isFinite(position[1]) && Math.abs(position[1]) <= 90);
+    if (!valid) {
+      return 'Each geofence ring must have at least 4 [longitude, latitude] positions';
+    }
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (first[0] !== last[0] || first[1] !== last[1]) {
+      return 'Each geofence ring must end at its first position';
+    }
+  }
+  return null;
+};
+
+/**
+ * Projects to check a ping against: those of the user's channels whose site is near the ping or whose
+ * boundary contains it (using the 2dsphere indexes), and those the user is currently inside.
+ */
+const findCandidateProjects = async (userId: string, position: Position): Promise<IProjectDetails[]> => {
+  const point = { type: 'Point', coordinates: position };
+  // Restricting to the user's channels first keeps other sites nearby from crowding out their own
+  const channelIds = await getMemberChannelIds(userId);
+  const [nearby, containing, insideStates] = await Promise.all([
+    ProjectDetails.find({
+      channelId: { $in: channelIds },
+      location: {
+        $nearSphere: { $geometry: point, $maxDistance: MAX_GEOFENCE_RADIUS + GEOFENCE_EXIT_BUFFER + MAX_PING_ACCURACY },
+      },
+    }).limit(50),
+    ProjectDetails.find({ channelId: { $in: channelIds }, geofence: { $geoIntersects: { $geometry: point } } }).limit(50),
+    GeofenceState.find({ userId, state: 'inside' }).select('projectId').lean(),
+  ]);
+
+  const candidates = new Map<string, IProjectDetails>();
+  for (const project of [...nearby, ...containing]) {
+    if (!candidates.has(project.channelId)) candidates.set(project.channelId, project);
+  }
+
+  const missing = insideStates.map((state) => state.projectId).filter((projectId) => !candidates.has(projectId));
+  if (missing.length > 0) {
+    const projects = await ProjectDetails.find({ channelId: { $in: missing } });
+    projects.forEach((project) => candidates.set(project.channelId, project));
+  }
+  return [...candidates.values()];
+};
+
+/**
+ * The state a ping points to: inside the geofence, clearly outside it (beyond the exit buffer and
+ * the ping's accuracy), or null when it is too inaccurate or in the band around the boundary
+ */
+export const getPingPresence = (distance: number, accuracy?: number): GeofencePresence | null => {
+  if (accuracy !== undefined && accuracy > MAX_PING_ACCURACY) return null;
+  if (distance <= 0) return 'inside';
+  if (distance > Math.max(GEOFENCE_EXIT_BUFFER, accuracy || 0)) return 'outside';
+  return null;
+};
+
+/**
+ * Apply a ping to a user's state for one project. Returns the transition, if the ping confirmed one.
+ */
+export const applyPing = (
+  state: IGeofenceState,
+  presence: GeofencePresence | null,
+  ping: LocationPing
+): 'ENTER' | 'EXIT' | null => {
+  if (!presence || presence === state.state) {
+    state.pendingState = null;
+    state.pendingCount = 0;
+    return null;
+  }
+
+  state.pendingCount = state.pendingState === presence ? state.pendingCount + 1 : 1;
+  state.pendingState = presence;
+  if (state.pendingCount < GEOFENCE_CONFIRM_PINGS) return null;
+
+  state.state = presence;
+  state.pendingState = null;
+  state.pendingCount = 0;
+  state.lastTransitionAt = ping.timestamp;
+  return presence === 'inside' ? 'ENTER' : 'EXIT';
+};
+
+/**
+ * Evaluate a user's location ping against the geofences of their projects. Confirmed transitions are
+ * written to AttendanceLog and prompt the user to check in or out, as /send-attendance-message does.
+ * Pings older than the last one for a project are ignored for it.
+ */
+export const processLocationPing = async (userId: string, ping: LocationPing): Promise<GeofenceResult[]> => {
+  const position: Position = [ping.lng, ping.lat];
+  const projects = await findCandidateProjects(userId, position);
+  const results: GeofenceResult[] = [];
+
+  for (const project of projects) {
+    const distance = getGeofenceDistance(project, position);
+    if (distance === null) continue;
+
+    const projectId = project.channelId;
+    const state = await GeofenceState.findOne({ userId, projectId }) ||
+      new GeofenceState({ userId, projectId, state: 'outside', lastPingAt: ping.timestamp });
+    if (!state.isNew && ping.timestamp < state.lastPingAt) continue;
+
+    const transition = applyPing(state, getPingPresence(distance, ping.accuracy), ping);
+    state.lastPingAt = ping.timestamp;
+    state.lastDistance = Math.round(distance);
+    state.lastAccuracy = ping.accuracy;
+    try {
+      await state.save();
+    } catch (error: any) {
+      // A concurrent ping created the state first; it has handled this project
+      if (error?.code === 11000) continue;
+      throw error;
+    }
+
+    const result: GeofenceResult = {
+      projectId,
+      projectName: project.projectName,
+      state: state.state,
+      distance: Math.round(distance),
+      transition,
+    };
+
+    if (transition) {
+      console.log(`📍 Geofence ${transition} for user ${userId} at project ${projectId}`);
+      try {
+        await new AttendanceLog({ userId, projectId, action: transition, timestamp: ping.timestamp }).save();
+      } catch (logError) {
+        console.error('Error saving AttendanceLog:', logError);
+      }
+      try {
+        result.prompt = await sendAttendancePrompt(userId, projectId, project.projectName, transition === 'ENTER' ? 'checkin' : 'checkout');
+      } catch (promptError: any) {
+        console.error('Error sending attendance prompt:', promptError);
+        result.prompt = { sent: false, error: promptError.message };
+      }
+    }
+
+    results.push(result);
+  }
+
+  return results;
+};
+
+/**
+ * Geofence settings of a project as returned by the API
+ */
+export const formatGeofence = (project: Pick<IProjectDetails, 'channelId' | 'projectName' | 'location' | 'geofenceRadius' | 'geofence'>) => ({
+  projectId: project.channelId,
+  projectName: project.projectName,
+  location: project.location?.coordinates || null,
+  radius: project.geofenceRadius || DEFAULT_GEOFENCE_RADIUS,
+  polygon: project.geofence || null,
+});
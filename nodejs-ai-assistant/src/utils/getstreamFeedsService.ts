@@ -1,6 +1,7 @@
 import { StreamClient } from "@stream-io/node-sdk";
 import { StreamClient as GetStreamClient } from "getstream";
 import { serverClient } from "../serverClient";
+import { getChannelWorkflowStatuses, getStatusLabel, isTerminalStatus } from "./taskWorkflow";
 
 export interface GetStreamComment {
   id: string;
@@ -258,6 +259,12 @@ export class GetStreamFeedsService {
         };
       case 'task_attachment_added':
         const fileName = extra.fileName || 'a file';
+        if (extra.version > 1) {
+          return {
+            title: 'File Updated on Task',
+            message: `${actor} uploaded a new version of "${fileName}" to "${taskName}"`
+          };
+        }
         return {
           title: 'File Added to Task',
           message: `${actor} added "${fileName}" to "${taskName}"`
@@ -280,7 +287,7 @@ export class GetStreamFeedsService {
           message: `${actor} updated due date for "${taskName}" to ${newDate}`
         };
       case 'task_status_changed':
-        const newStatus = extra.newStatus ? capitalizeFirst(extra.newStatus.replace('_', ' ')) : 'new status';
+        const newStatus = extra.newStatusLabel || (extra.newStatus ? capitalizeFirst(extra.newStatus.replace('_', ' ')) : 'new status');
         return {
           title: 'Task Status Updated',
           message: `${actor} changed status of "${taskName}" to ${newStatus}`
@@ -296,11 +303,40 @@ export class GetStreamFeedsService {
           title: 'Task Renamed',
           message: `${actor} renamed task to "${newName}"`
         };
+      case 'task_unblocked':
+        const blockerTaskName = extra.blockerTaskName || 'a blocking task';
+        return {
+          title: 'Task Ready to Start',
+          message: `"${taskName}" is unblocked now that "${blockerTaskName}" is done`
+        };
+      case 'tasks_bulk_updated':
+        const taskCount = extra.taskCount || 1;
+        return {
+          title: 'Tasks Updated',
+          message: taskCount === 1
+            ? `${actor} updated "${taskName}"`
+            : `${actor} updated ${taskCount} tasks including "${taskName}"`
+        };
       case 'task_unassigned':
         return {
           title: 'Removed from Task',
           message: `${actor} removed you from task "${taskName}"`
         };
+      case 'task_due_soon':
+        return {
+          title: 'Task Due Soon',
+          message: `"${taskName}" is due in ${extra.timeUntilDue || 'a while'} (${extra.dueTimeFormatted})`
+        };
+      case 'task_overdue':
+        return {
+          title: 'Task Overdue',
+          message: `"${taskName}" was due ${extra.dueTimeFormatted} and is not done yet`
+        };
+      case 'task_overdue_escalation':
+        return {
+          title: 'Overdue Task Needs Attention',
+          message: `"${taskName}" is ${extra.overdueHours || 0} hours overdue`
+        };
       case 'comment_added':
         if (extra.action === 'commented') {
           return {
@@ -345,11 +381,58 @@ export class GetStreamFeedsService {
         const rsvpEventTitle = extra.eventTitle || 'your event';
         const responderName = extra.responderName || 'Someone';
         const rsvpResponse = extra.response;
-        const rsvpText = rsvpResponse === 'yes' ? 'accepted' : rsvpResponse === 'no' ? 'declined' : 'responded maybe to';
+        const rsvpText = rsvpResponse === 'yes' ? 'accepted' : rsvpResponse === 'no' ? 'declined'
+          : rsvpResponse === 'waitlisted' ? 'joined the waitlist for' : 'responded maybe to';
         return {
           title: 'Event RSVP',
           message: `${responderName} ${rsvpText} "${rsvpEventTitle}"`
         };
+      case 'event_time_proposed':
+        const proposedEventTitle = extra.eventTitle || 'your event';
+        const proposerName = extra.responderName || 'Someone';
+        return {
+          title: 'New Time Proposed',
+          message: `${proposerName} proposed ${extra.proposedTimeFormatted || 'a new time'} for "${proposedEventTitle}"`
+        };
+      case 'event_waitlist_promoted':
+        return {
+          title: 'You Got a Seat',
+          message: `A seat opened up for "${extra.eventTitle || 'an event'}" - you're going!`
+        };
+      case 'event_rescheduled':
+        const rescheduledTitle = extra.eventTitle || 'an event';
+        const newEventDate = extra.startDate
+          ? new Date(extra.startDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+          : '';
+        return {
+          title: 'Event Time Changed',
+          message: `"${rescheduledTitle}" moved${newEventDate ? ` to ${newEventDate}` : ''}. Please RSVP again`
+        };
+      case 'timesheet_ready':
+        return {
+          title: 'Timesheet Ready',
+          message: `Your timesheet for ${extra.weekLabel || 'last week'} is ready to review and submit`
+        };
+      case 'timesheet_submitted':
+        return {
+          title: 'Timesheet Submitted',
+          message: `${extra.userName || 'A team member'} submitted their timesheet for ${extra.weekLabel || 'the week'}`
+        };
+      case 'timesheet_approved':
+        return {
+          title: 'Timesheet Approved',
+          message: `Your timesheet for ${extra.weekLabel || 'the week'} was approved`
+        };
+      case 'timesheet_rejected':
+        return {
+          title: 'Timesheet Rejected',
+          message: `Your timesheet for ${extra.weekLabel || 'the week'} was sent back${extra.reason ? `: ${extra.reason}` : ''}`
+        };
+      case 'timesheet_reopened':
+        return {
+          title: 'Timesheet Reopened',
+          message: `Your timesheet for ${extra.weekLabel || 'the week'} was reopened for corrections`
+        };
       default:
         return {
           title: 'Convoe Notification',
@@ -549,7 +632,20 @@ export class GetStreamFeedsService {
   /**
    * Create notifications for task updates
    */
-  async createTaskUpdateNotifications(originalTask: any, updatedTask: any, updateData: any): Promise<void> {
+  async createTaskUpdateNotifications(
+    originalTask: any,
+    updatedTask: any,
+    updateData: any,
+    options: { notifyUsers?: boolean } = {}
+  ): Promise<void> {
+    // Bulk updates record the feed activities here but send one digest per user instead
+    const notifyUsers = options.notifyUsers !== false;
+    const notify = async (userId: string, verb: string, object: string, extra: any) => {
+      if (notifyUsers) {
+        await this.createNotification(userId, verb, object, extra);
+      }
+    };
+
     try {
       if (!this.isConnected) {
         await this.connect();
@@ -561,10 +657,11 @@ export class GetStreamFeedsService {
       const actorName = await this.getUserName(actor);
       console.log('createTaskUpdateNotifications - Using actor:', actor, 'actorName:', actorName, 'from updateData:', { actor: updateData.actor, userId: updateData.userId });
 
-      // Get all users to notify (assignees + creator)
+      // Get all users to notify (assignees + creator + watchers)
       const usersToNotify = new Set([
         ...(updatedTask.assignee || []),
-        updatedTask.createdBy
+        updatedTask.createdBy,
+        ...(updatedTask.watchers || [])
       ].filter(Boolean));
 
       // Check for specific changes and create notifications + activities
@@ -601,7 +698,7 @@ export class GetStreamFeedsService {
           // Notify newly assigned users
           for (const assigneeId of newAssignees) {
             if (!originalAssignees.has(assigneeId)) {
-              await this.createNotification(assigneeId as string, 'task_assigned', taskId, {
+              await notify(assigneeId as string, 'task_assigned', taskId, {
                 taskId: taskId,
                 taskName: updatedTask.name || 'Untitled Task',
                 priority: updatedTask.priority || 'medium',
@@ -618,7 +715,7 @@ export class GetStreamFeedsService {
           // Notify unassigned users
           for (const assigneeId of originalAssignees) {
             if (!newAssignees.has(assigneeId)) {
-              await this.createNotification(assigneeId as string, 'task_unassigned', taskId, {
+              await notify(assigneeId as string, 'task_unassigned', taskId, {
                 taskId: taskId,
                 taskName: updatedTask.name || 'Untitled Task',
                 action: 'unassigned',
@@ -651,7 +748,7 @@ export class GetStreamFeedsService {
         
         // Send notifications to users
         for (const userId of usersToNotify) {
-          await this.createNotification(userId, 'task_priority_changed', taskId, {
+          await notify(userId, 'task_priority_changed', taskId, {
             taskId: taskId,
             taskName: updatedTask.name || 'Untitled Task',
             oldPriority: originalTask.priority,
@@ -685,7 +782,7 @@ export class GetStreamFeedsService {
         
         // Send notifications to users
         for (const userId of usersToNotify) {
-          await this.createNotification(userId, 'task_date_changed', taskId, {
+          await notify(userId, 'task_date_changed', taskId, {
             taskId: taskId,
             taskName: updatedTask.name || 'Untitled Task',
             oldDate: originalTask.completionDate,
@@ -718,7 +815,7 @@ export class GetStreamFeedsService {
         
         // Send notifications to users
         for (const userId of usersToNotify) {
-          await this.createNotification(userId, 'task_description_changed', taskId, {
+          await notify(userId, 'task_description_changed', taskId, {
             taskId: taskId,
             taskName: updatedTask.name || 'Untitled Task',
             oldDescription: originalTask.description,
@@ -745,6 +842,12 @@ export class GetStreamFeedsService {
           ? updateData.status
           : (updateData.completed ? 'completed' : 'in_progress');
 
+        // Resolve display labels from the channel's workflow so custom statuses read naturally
+        const workflowStatuses = await getChannelWorkflowStatuses(updatedTask.channelId);
+        const oldStatusLabel = getStatusLabel(workflowStatuses, oldStatus);
+        const newStatusLabel = getStatusLabel(workflowStatuses, newStatus);
+        const isTerminal = isTerminalStatus(workflowStatuses, newStatus);
+
         // Add activity to tasks feed
         const tasksFeed = this.getstreamClient.feed('tasks', taskId);
         await tasksFeed.addActivity({
@@ -756,6 +859,9 @@ export class GetStreamFeedsService {
             taskName: updatedTask.name || 'Untitled Task',
             oldStatus: oldStatus,
             newStatus: newStatus,
+            oldStatusLabel: oldStatusLabel,
+            newStatusLabel: newStatusLabel,
+            isTerminal: isTerminal,
             actor: actor,
             actorName: actorName
           }
@@ -775,6 +881,9 @@ export class GetStreamFeedsService {
               subtaskName: updatedTask.name || 'Untitled Subtask',
               oldStatus: oldStatus,
               newStatus: newStatus,
+              oldStatusLabel: oldStatusLabel,
+              newStatusLabel: newStatusLabel,
+              isTerminal: isTerminal,
               actor: actor,
               actorName: actorName
             }
@@ -783,11 +892,14 @@ export class GetStreamFeedsService {
 
         // Send notifications to users
         for (const userId of usersToNotify) {
-          await this.createNotification(userId, 'task_status_changed', taskId, {
+          await notify(userId, 'task_status_changed', taskId, {
             taskId: taskId,
             taskName: updatedTask.name || 'Untitled Task',
             oldStatus: oldStatus,
             newStatus: newStatus,
+            oldStatusLabel: oldStatusLabel,
+            newStatusLabel: newStatusLabel,
+            isTerminal: isTerminal,
             action: 'status_changed',
             actor: actor
           });
@@ -815,7 +927,7 @@ export class GetStreamFeedsService {
         
         // Send notifications to users
         for (const userId of usersToNotify) {
-          await this.createNotification(userId, 'task_name_changed', taskId, {
+          await notify(userId, 'task_name_changed', taskId, {
             taskId: taskId,
             oldName: originalTask.name,
             newName: updateData.name,
@@ -832,9 +944,34 @@ export class GetStreamFeedsService {
   }
 
   /**
-   * Add a comment to a task activity
+   * Send one digest notification per user for a batch of task changes (bulk operations)
    */
-  async addComment(taskId: string, userId: string, message: string, commentId?: string): Promise<GetStreamComment | null> {
+  async createTaskDigestNotifications(
+    actor: string,
+    action: string,
+    changesByUser: Map<string, Array<{ taskId: string; taskName: string; change: string }>>
+  ): Promise<void> {
+    for (const [userId, changes] of changesByUser) {
+      if (changes.length === 0) continue;
+      try {
+        await this.createNotification(userId, 'tasks_bulk_updated', changes[0].taskId, {
+          actor,
+          action,
+          taskCount: changes.length,
+          taskName: changes[0].taskName,
+          tasks: changes.slice(0, 20),
+        });
+      } catch (error) {
+        console.error(`Error sending task digest to ${userId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Add a comment to a task activity.
+   * Users in mentionedUserIds already got a mention notification and are not notified again.
+   */
+  async addComment(taskId: string, userId: string, message: string, commentId?: string, mentionedUserIds: string[] = []): Promise<GetStreamComment | null> {
     try {
       if (!this.isConnected) {
         await this.connect();
@@ -865,11 +1002,12 @@ export class GetStreamFeedsService {
         const task = await Task.findById(taskId);
         
         if (task) {
-          // Create a set of all users to notify (assignees + creator)
+          // Create a set of all users to notify (assignees + creator + watchers)
           const usersToNotify = new Set([
             ...(task.assignee || []),
-            task.createdBy
-          ].filter(Boolean)); // Remove any undefined values
+            task.createdBy,
+            ...(task.watchers || [])
+          ].filter((id) => id && !mentionedUserIds.includes(id))); // Remove any undefined values
           
           console.log('Users to notify about comment:', Array.from(usersToNotify));
           
@@ -898,7 +1036,8 @@ export class GetStreamFeedsService {
               actor: userId
             });
             
-            const userType = userIdToNotify === task.createdBy ? 'task creator' : 'assignee';
+            const userType = userIdToNotify === task.createdBy ? 'task creator'
+              : task.assignee?.includes(userIdToNotify) ? 'assignee' : 'watcher';
             console.log(`✅ Created comment notification for ${userType} ${userIdToNotify}`);
           }
         } else {
@@ -1126,7 +1265,7 @@ export class GetStreamFeedsService {
   /**
    * Get ALL activities for a task (including system updates like assignee changes, priority changes, etc.)
    */
-  async getTaskActivities(taskId: string, limit: number = 100): Promise<any[]> {
+  async getTaskActivities(taskId: string, limit: number = 100, options: { throwOnError?: boolean } = {}): Promise<any[]> {
     try {
       if (!this.isConnected) {
         await this.connect();
@@ -1157,6 +1296,9 @@ export class GetStreamFeedsService {
       return [];
     } catch (error) {
       console.error('Error getting task activities:', error);
+      if (options.throwOnError) {
+        throw error;
+      }
       return [];
     }
   }
@@ -0,0 +1,127 @@
+import {
+  buildVTimezone,
+  contentLine,
+  escapeText,
+  getProperty,
+  parseDurationMinutes,
+  parseICalDate,
+  parseICalendar,
+  parseRRule,
+  unescapeText,
+} from './ical';
+
+describe('text values', () => {
+  it('escapes and unescapes separators and line breaks', () => {
+    const text = 'Room 1; floor 2, back\\side\nbring badge';
+    expect(escapeText(text)).toBe('Room 1\\; floor 2\\, back\\\\side\\nbring badge');
+    expect(unescapeText(escapeText(text))).toBe(text);
+  });
+});
+
+describe('contentLine', () => {
+  it('quotes parameter values with separators and skips empty ones', () => {
+    expect(contentLine('ATTENDEE', 'mailto:a@example.com', { CN: 'Doe, Jane', ROLE: undefined, RSVP: '' }))
+      .toBe('ATTENDEE;CN="Doe, Jane":mailto:a@example.com');
+  });
+
+  it('folds lines at 75 octets without splitting multi-byte characters', () => {
+    const line = contentLine('SUMMARY', 'é'.repeat(60));
+    const parts = line.split('\r\n');
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75);
+    }
+    expect(parts.slice(1).every((part) => part.startsWith(' '))).toBe(true);
+    expect(parts[0] + parts.slice(1).map((part) => part.slice(1)).join('')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+  });
+});
+
+describe('parseICalendar', () => {
+  const text = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'BEGIN:VEVENT',
+    'SUMMARY:Planning\\, Q3',
+    'DESCRIPTION:A long description that was folded',
+    '  across two lines',
+    'LOCATION;ALTREP="http://example.com/a:b":HQ',
+    'BEGIN:VALARM',
+    'TRIGGER:-PT15M',
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+  it('nests components and unfolds continuation lines', () => {
+    const [calendar] = parseICalendar(text);
+    expect(calendar.type).toBe('VCALENDAR');
+    const [event] = calendar.components;
+    expect(event.type).toBe('VEVENT');
+    expect(unescapeText(getProperty(event, 'SUMMARY')!.value)).toBe('Planning, Q3');
+    expect(getProperty(event, 'DESCRIPTION')!.value).toBe('A long description that was folded across two lines');
+    expect(event.components[0].type).toBe('VALARM');
+  });
+
+  it('does not split at colons inside quoted parameters', () => {
+    const [calendar] = parseICalendar(text);
+    const location = getProperty(calendar.components[0], 'LOCATION')!;
+    expect(location.params.ALTREP).toBe('http://example.com/a:b');
+    expect(location.value).toBe('HQ');
+  });
+
+  it('reads back a folded content line', () => {
+    const line = contentLine('SUMMARY', escapeText('x'.repeat(120) + ', done'));
+    const [event] = parseICalendar(`BEGIN:VEVENT\r\n${line}\r\nEND:VEVENT`);
+    expect(unescapeText(getProperty(event, 'SUMMARY')!.value)).toBe('x'.repeat(120) + ', done');
+  });
+});
+
+describe('parseICalDate', () => {
+  it('reads UTC, zoned, floating and date-only values', () => {
+    expect(parseICalDate({ name: 'DTSTART', params: {}, value: '20260301T090000Z' }, 'UTC'))
+      .toEqual({ date: new Date('2026-03-01T09:00:00Z'), dateOnly: false, timezone: null });
+    expect(parseICalDate({ name: 'DTSTART', params: { TZID: 'Europe/Berlin' }, value: '20260301T090000' }, 'UTC')!.date)
+      .toEqual(new Date('2026-03-01T08:00:00Z'));
+    expect(parseICalDate({ name: 'DTSTART', params: {}, value: '20260301T090000' }, 'America/New_York')!.date)
+      .toEqual(new Date('2026-03-01T14:00:00Z'));
+    expect(parseICalDate({ name: 'DTSTART', params: { VALUE: 'DATE' }, value: '20260301' }, 'UTC'))
+      .toEqual({ date: new Date('2026-03-01T00:00:00Z'), dateOnly: true, timezone: 'UTC' });
+  });
+
+  it('uses the fallback timezone for unknown TZIDs and rejects invalid values', () => {
+    expect(parseICalDate({ name: 'DTSTART', params: { TZID: 'Custom Zone' }, value: '20260301T090000' }, 'UTC')!.timezone).toBe('UTC');
+    expect(parseICalDate({ name: 'DTSTART', params: {}, value: '2026-03-01' }, 'UTC')).toBeNull();
+  });
+});
+
+describe('parseDurationMinutes and parseRRule', () => {
+  it('reads durations', () => {
+    expect(parseDurationMinutes('-PT15M')).toBe(-15);
+    expect(parseDurationMinutes('P1DT2H')).toBe(26 * 60);
+    expect(parseDurationMinutes('P1W')).toBe(7 * 24 * 60);
+    expect(parseDurationMinutes('15 minutes')).toBeNull();
+  });
+
+  it('splits recurrence rules', () => {
+    expect(parseRRule('FREQ=WEEKLY;interval=2;UNTIL=20260101T000000Z;bad')).toEqual({
+      FREQ: 'WEEKLY',
+      INTERVAL: '2',
+      UNTIL: '20260101T000000Z',
+    });
+  });
+});
+
+describe('buildVTimezone', () => {
+  it('lists the offset changes in the range', () => {
+    const lines = buildVTimezone('Europe/Berlin', new Date('2026-01-01T00:00:00Z'), new Date('2026-12-31T00:00:00Z'));
+    expect(lines[0]).toBe('BEGIN:VTIMEZONE');
+    expect(lines).toContain('BEGIN:DAYLIGHT');
+    expect(lines).toContain('DTSTART:20260329T020000');
+    expect(lines).toContain('DTSTART:20261025T030000');
+    expect(lines[lines.length - 1]).toBe('END:VTIMEZONE');
+  });
+
+  it('returns nothing for unknown zones', () => {
+    expect(buildVTimezone('Nowhere/City', new Date(), new Date())).toEqual([]);
+  });
+});
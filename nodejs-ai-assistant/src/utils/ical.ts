@@ -0,0 +1,237 @@
+/**
+ * Minimal RFC 5545 (iCalendar) reading and writing
+ */
+import moment from 'moment-timezone';
+
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface ICalComponent {
+  type: string; // VEVENT, VALARM, ...
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+export interface ICalDate {
+  date: Date;
+  dateOnly: boolean; // VALUE=DATE, e.g. all-day events
+  timezone: string | null; // IANA zone the value was given in, null for UTC
+}
+
+// Content lines are folded at 75 octets
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and line breaks)
+ */
+export const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+export const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Parameter values with separators must be quoted; quotes themselves are not allowed
+const formatParam = (value: string): string => {
+  const clean = value.replace(/"/g, "'");
+  return /[;:,]/.test(clean) ? `"${clean}"` : clean;
+};
+
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their length
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+};
+
+/**
+ * One content line, e.g. contentLine('DTSTART', '20250301T090000', { TZID: 'Europe/London' })
+ */
+export const contentLine = (name: string, value: string, params: Record<string, string | undefined> = {}): string => {
+  const paramText = Object.entries(params)
+    .filter(([, paramValue]) => paramValue !== undefined && paramValue !== '')
+    .map(([key, paramValue]) => `;${key}=${formatParam(paramValue as string)}`)
+    .join('');
+  return foldLine(`${name}${paramText}:${value}`);
+};
+
+export const formatUtcDateTime = (date: Date): string => moment.utc(date).format('YYYYMMDD[T]HHmmss[Z]');
+
+export const formatLocalDateTime = (date: Date, timezone: string): string =>
+  moment.tz(date, timezone).format('YYYYMMDD[T]HHmmss');
+
+export const formatDate = (date: Date, timezone: string): string => moment.tz(date, timezone).format('YYYYMMDD');
+
+const formatOffset = (minutesEast: number): string => {
+  const sign = minutesEast < 0 ? '-' : '+';
+  const absolute = Math.abs(minutesEast);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`;
+};
+
+/**
+ * VTIMEZONE definition for an IANA zone, listing its offset changes between from and to.
+ * The changes are spelled out one by one from the tz database rather than as rules, so they are exact.
+ */
+export const buildVTimezone = (timezone: string, from: Date, to: Date): string[] => {
+  const zone = moment.tz.zone(timezone);
+  if (!zone) return [];
+
+  const lines = ['BEGIN:VTIMEZONE', contentLine('TZID', timezone)];
+  // moment stores offsets as minutes west of UTC
+  const initial = -zone.utcOffset(from.getTime());
+  lines.push(
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${formatOffset(initial)}`,
+    `TZOFFSETTO:${formatOffset(initial)}`,
+    contentLine('TZNAME', zone.abbr(from.getTime())),
+    'END:STANDARD'
+  );
+
+  zone.untils.forEach((until, index) => {
+    if (until <= from.getTime() || until > to.getTime() || index + 1 >= zone.offsets.length) return;
+    const offsetFrom = -zone.offsets[index];
+    const offsetTo = -zone.offsets[index + 1];
+    const type = offsetTo > offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${type}`,
+      `DTSTART:${moment.utc(until).utcOffset(offsetFrom).format('YYYYMMDD[T]HHmmss')}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      contentLine('TZNAME', zone.abbrs[index + 1]),
+      `END:${type}`
+    );
+  });
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+/**
+ * Wrap content lines of components in a VCALENDAR and join them with CRLF
+ */
+export const buildCalendar = (name: string, timezone: string, bodyLines: string[]): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Convoe//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    contentLine('X-WR-CALNAME', escapeText(name)),
+    contentLine('X-WR-TIMEZONE', timezone),
+    ...bodyLines,
+    'END:VCALENDAR',
+  ].join('\r\n') + '\r\n';
+
+const parseContentLine = (line: string): ICalProperty | null => {
+  // The name and parameters end at the first colon that is not inside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const head = line.slice(0, colon);
+  const segments = head.match(/(?:[^;"]|"[^"]*")+/g) || [];
+  const params: Record<string, string> = {};
+  for (const segment of segments.slice(1)) {
+    const equals = segment.indexOf('=');
+    if (equals === -1) continue;
+    params[segment.slice(0, equals).toUpperCase()] = segment.slice(equals + 1).replace(/^"|"$/g, '');
+  }
+
+  return { name: (segments[0] || '').toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+/**
+ * Parse iCalendar text into its top-level components (usually a single VCALENDAR)
+ */
+export const parseICalendar = (text: string): ICalComponent[] => {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r?\n[ \t]/g, '') // Unfold continuation lines
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '');
+
+  const roots: ICalComponent[] = [];
+  const stack: ICalComponent[] = [];
+  for (const line of lines) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = { type: property.value.trim().toUpperCase(), properties: [], components: [] };
+      (stack.length > 0 ? stack[stack.length - 1].components : roots).push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      stack.pop();
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+  return roots;
+};
+
+export const getProperty = (component: ICalComponent, name: string): ICalProperty | undefined =>
+  component.properties.find((property) => property.name === name);
+
+/**
+ * Read a DATE or DATE-TIME value. Floating times and unknown TZIDs are read in the fallback timezone.
+ */
+export const parseICalDate = (property: ICalProperty, fallbackTimezone: string): ICalDate | null => {
+  const value = property.value.trim();
+  const dateOnly = property.params.VALUE === 'DATE' || /^\d{8}$/.test(value);
+  const tzid = property.params.TZID;
+  const timezone = tzid && moment.tz.zone(tzid) ? tzid : fallbackTimezone;
+
+  if (dateOnly) {
+    const parsed = moment.tz(value, 'YYYYMMDD', true, timezone);
+    return parsed.isValid() ? { date: parsed.toDate(), dateOnly: true, timezone } : null;
+  }
+  if (value.endsWith('Z')) {
+    const parsed = moment.utc(value, 'YYYYMMDD[T]HHmmss[Z]', true);
+    return parsed.isValid() ? { date: parsed.toDate(), dateOnly: false, timezone: null } : null;
+  }
+  const parsed = moment.tz(value, 'YYYYMMDD[T]HHmmss', true, timezone);
+  return parsed.isValid() ? { date: parsed.toDate(), dateOnly: false, timezone } : null;
+};
+
+/**
+ * Read a DURATION value such as -PT15M or P1DT2H into minutes
+ */
+export const parseDurationMinutes = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = (parseInt(weeks || '0') * 7 * 24 * 60) + (parseInt(days || '0') * 24 * 60) +
+    (parseInt(hours || '0') * 60) + parseInt(minutes || '0') + Math.round(parseInt(seconds || '0') / 60);
+  return sign === '-' ? -total : total;
+};
+
+/**
+ * Split a recurrence rule such as FREQ=WEEKLY;INTERVAL=2;UNTIL=20250101T000000Z into its parts
+ */
+export const parseRRule = (value: string): Record<string, string> =>
+  Object.fromEntries(value.split(';')
+    .map((part) => part.split('='))
+    .filter((pair) => pair.length === 2)
+    .map(([key, partValue]) => [key.toUpperCase(), partValue]));
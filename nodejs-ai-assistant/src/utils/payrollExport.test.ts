@@ -0,0 +1,140 @@
+jest.mock('../serverClient', () => ({ serverClient: {} }));
+jest.mock('./getstreamFeedsService', () => ({ getStreamFeedsService: {} }));
+
+import { Timesheet } from '../models/Timesheet';
+import {
+  buildProjectPayroll,
+  DEFAULT_ROUNDING,
+  parseRoundingRules,
+  PayrollDay,
+  payrollToCsv,
+  roundMinutes,
+  roundPunch,
+} from './payrollExport';
+import { DEFAULT_TIMESHEET_RULES, summarizeWorkDay } from './timesheets';
+
+describe('roundMinutes', () => {
+  it('rounds to the nearest increment, up or down', () => {
+    expect(roundMinutes(52, { ...DEFAULT_ROUNDING, increment: 15, mode: 'nearest' })).toBe(45);
+    expect(roundMinutes(53, { ...DEFAULT_ROUNDING, increment: 15, mode: 'nearest' })).toBe(60);
+    expect(roundMinutes(46, { ...DEFAULT_ROUNDING, increment: 15, mode: 'up' })).toBe(60);
+    expect(roundMinutes(59, { ...DEFAULT_ROUNDING, increment: 15, mode: 'down' })).toBe(45);
+    expect(roundMinutes(64, { ...DEFAULT_ROUNDING, increment: 6, mode: 'nearest' })).toBe(66);
+  });
+
+  it('leaves minutes as they are with an increment of 1', () => {
+    expect(roundMinutes(52.5, DEFAULT_ROUNDING)).toBe(52.5);
+  });
+});
+
+describe('roundPunch', () => {
+  it('rounds on the local clock of the project timezone', () => {
+    // 09:07 in Kolkata (UTC+5:30); quarter hours line up with the local clock, not with UTC
+    const punch = roundPunch(new Date('2026-03-02T03:37:00Z'), 'Asia/Kolkata', { ...DEFAULT_ROUNDING, increment: 15, mode: 'nearest' });
+    expect(punch.toISOString()).toBe('2026-03-02T03:30:00.000Z');
+  });
+});
+
+describe('parseRoundingRules', () => {
+  it('defaults to no rounding of daily totals', () => {
+    expect(parseRoundingRules({})).toEqual({ rounding: DEFAULT_ROUNDING });
+  });
+
+  it('reads the rounding query parameters', () => {
+    expect(parseRoundingRules({ roundTo: '15', roundMode: 'up', roundApplyTo: 'punches' }))
+      .toEqual({ rounding: { increment: 15, mode: 'up', applyTo: 'punches' } });
+  });
+
+  it('rejects unsupported values', () => {
+    expect(parseRoundingRules({ roundTo: '7' }).error).toMatch(/roundTo must be one of/);
+    expect(parseRoundingRules({ roundMode: 'sideways' }).error).toBe('roundMode must be nearest, up or down');
+    expect(parseRoundingRules({ roundApplyTo: 'weekly' }).error).toBe('roundApplyTo must be punches or daily');
+  });
+});
+
+describe('buildProjectPayroll with approvedOnly', () => {
+  const project = { channelId: 'site-1', projectName: 'Site', timezone: 'UTC', timesheetRules: DEFAULT_TIMESHEET_RULES };
+  // Approved when daily overtime was off; the project counts it after 8 hours today
+  const approvedRules = { ...DEFAULT_TIMESHEET_RULES, dailyOvertimeAfterMinutes: null };
+  const session = { checkIn: new Date('2026-03-02T08:07:00Z'), checkOut: new Date('2026-03-02T17:52:00Z') };
+  const approved = {
+    userId: 'user-1',
+    projectId: 'site-1',
+    timezone: 'UTC',
+    status: 'approved',
+    weekStart: new Date('2026-03-02T00:00:00Z'),
+    weekEnd: new Date('2026-03-09T00:00:00Z'),
+    rules: approvedRules,
+    days: [summarizeWorkDay('2026-03-02', [session], approvedRules)],
+  };
+
+  beforeEach(() => {
+    jest.spyOn(Timesheet, 'find').mockReturnValue({ sort: () => ({ lean: async () => [approved] }) } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses the hours stored on the approved timesheet', async () => {
+    const rows = await buildProjectPayroll(project, { from: '2026-03-01', to: '2026-03-31', rounding: DEFAULT_ROUNDING, approvedOnly: true });
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      date: '2026-03-02',
+      userId: 'user-1',
+      workedMinutes: 585,
+      paidMinutes: 555,
+      regularMinutes: 555,
+      overtimeMinutes: 0,
+      timesheetStatus: 'approved',
+    });
+  });
+
+  it('rounds the approved punches with the approved rules', async () => {
+    const rounding = { increment: 15, mode: 'up' as const, applyTo: 'punches' as const };
+    const rows = await buildProjectPayroll(project, { from: '2026-03-01', to: '2026-03-31', rounding, approvedOnly: true });
+    expect(rows[0]).toMatchObject({ workedMinutes: 585, paidMinutes: 555, overtimeMinutes: 0 });
+    expect(rows[0].firstIn).toBe('2026-03-02T08:15:00Z');
+    expect(rows[0].lastOut).toBe('2026-03-02T18:00:00Z');
+  });
+
+  it('leaves out approved days outside the range', async () => {
+    const rows = await buildProjectPayroll(project, { from: '2026-03-03', to: '2026-03-31', rounding: DEFAULT_ROUNDING, approvedOnly: true });
+    expect(rows).toEqual([]);
+  });
+});
+
+describe('payrollToCsv', () => {
+  const row: PayrollDay = {
+    date: '2026-03-02',
+    userId: 'user-1',
+    userName: '=HYPERLINK("http://example.com")',
+    projectId: 'site-1',
+    projectName: 'Site',
+    timezone: 'Asia/Kolkata',
+    firstIn: '2026-03-02T09:00:00+05:30',
+    lastOut: '2026-03-02T17:30:00+05:30',
+    sessions: 1,
+    workedMinutes: 510,
+    breakMinutes: 30,
+    paidMinutes: 480,
+    regularMinutes: 480,
+    overtimeMinutes: 0,
+    openSessions: 0,
+    inferredCheckouts: 0,
+    timesheetStatus: 'approved',
+  };
+
+  it('writes hours with two decimals and neutralizes formulas', () => {
+    const [, line] = payrollToCsv([row], 'csv').split('\r\n');
+    expect(line).toContain(`"'=HYPERLINK(""http://example.com"")"`);
+    expect(line).toContain('2026-03-02T09:00:00+05:30');
+    expect(line).toContain('8.50,0.50,8.00,8.00,0.00');
+  });
+
+  it('writes local times and a byte order mark for Excel', () => {
+    const csv = payrollToCsv([row], 'excel');
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    expect(csv).toContain('2026-03-02 09:00:00,2026-03-02 17:30:00');
+  });
+});
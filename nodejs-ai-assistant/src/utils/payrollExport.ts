@@ -0,0 +1,362 @@
+import moment from 'moment-timezone';
+import { Attendance } from '../models/Attendance';
+import { AttendanceLog } from '../models/AttendanceLog';
+import { IProjectDetails } from '../models/Project';
+import { ITimesheetDay, Timesheet, TimesheetStatus } from '../models/Timesheet';
+import { AttendanceSession } from './attendanceSessions';
+import { toCsv } from './csv';
+import { getUserNames } from './taskImportExport';
+import { calculateTimesheetWeek, getSessionsStartingIn, getTimesheetRules, getWeekRange } from './timesheets';
+
+// Longest date range one export may cover
+export const MAX_PAYROLL_EXPORT_DAYS = 93;
+
+// Rounding increments payroll systems commonly use, in minutes
+export const ROUNDING_INCREMENTS = [1, 5, 6, 10, 12, 15, 30, 60];
+
+// A check-in without a check-out is closed by a geofence EXIT at most this long after it
+const MAX_INFERRED_SHIFT_HOURS = 24;
+
+export type PayrollFormat = 'csv' | 'excel' | 'json';
+
+export interface RoundingRules {
+  increment: number; // Minutes; 1 means no rounding
+  mode: 'nearest' | 'up' | 'down';
+  applyTo: 'punches' | 'daily'; // Round each check-in and check-out, or each day's totals
+}
+
+export const DEFAULT_ROUNDING: RoundingRules = { increment: 1, mode: 'nearest', applyTo: 'daily' };
+
+export interface PayrollExportOptions {
+  from: string; // YYYY-MM-DD, in each project's timezone
+  to: string; // YYYY-MM-DD, inclusive
+  userIds?: string[];
+  rounding: RoundingRules;
+  approvedOnly?: boolean; // Only days in weeks whose timesheet is approved
+}
+
+export interface PayrollDay {
+  date: string;
+  userId: string;
+  userName: string;
+  projectId: string;
+  projectName: string;
+  timezone: string;
+  firstIn: string | null; // Local time with offset
+  lastOut: string | null;
+  sessions: number;
+  workedMinutes: number;
+  breakMinutes: number;
+  paidMinutes: number;
+  regularMinutes: number;
+  overtimeMinutes: number;
+  openSessions: number; // Check-ins still without a check-out
+  inferredCheckouts: number; // Check-outs taken from a geofence EXIT
+  timesheetStatus: TimesheetStatus | null;
+}
+
+type PayrollProject = Pick<IProjectDetails, 'channelId' | 'projectName' | 'timezone' | 'timesheetRules'>;
+
+const DATE_FORMAT = 'YYYY-MM-DD';
+
+/**
+ * Validate rounding rules from a request. Returns the rules (defaults for what is not given) or an error message.
+ */
+export const parseRoundingRules = (query: {
+  roundTo?: unknown;
+  roundMode?: unknown;
+  roundApplyTo?: unknown;
+}): { rounding?: RoundingRules; error?: string } => {
+  const rounding = { ...DEFAULT_ROUNDING };
+  if (query.roundTo !== undefined) {
+    const increment = Number(query.roundTo);
+    if (!ROUNDING_INCREMENTS.includes(increment)) {
+      return { error: `roundTo must be one of ${ROUNDING_INCREMENTS.join(', ')} minutes` };
+    }
+    rounding.increment = increment;
+  }
+  if (query.roundMode !== undefined) {
+    if (!['nearest', 'up', 'down'].includes(query.roundMode as string)) {
+      return { error: 'roundMode must be nearest, up or down' };
+    }
+    rounding.mode = query.roundMode as RoundingRules['mode'];
+  }
+  if (query.roundApplyTo !== undefined) {
+    if (!['punches', 'daily'].includes(query.roundApplyTo as string)) {
+      return { error: 'roundApplyTo must be punches or daily' };
+    }
+    rounding.applyTo = query.roundApplyTo as RoundingRules['applyTo'];
+  }
+  return { rounding };
+};
+
+export const roundMinutes = (minutes: number, rounding: RoundingRules): number => {
+  if (rounding.increment <= 1) return minutes;
+  const steps = minutes / rounding.increment;
+  const rounded = rounding.mode === 'up' ? Math.ceil(steps) : rounding.mode === 'down' ? Math.floor(steps) : Math.round(steps);
+  return rounded * rounding.increment;
+};
+
+// Round a time of day in the project timezone, so increments line up with the local clock
+export const roundPunch = (time: Date, timezone: string, rounding: RoundingRules): Date => {
+  const local = moment.tz(time, timezone);
+  const dayStart = local.clone().startOf('day');
+  return dayStart.add(roundMinutes(local.diff(dayStart, 'seconds') / 60, rounding), 'minutes').toDate();
+};
+
+/**
+ * Close a session the user never checked out of with their last geofence EXIT from the project
+ * (AttendanceLog) before their next check-in, within MAX_INFERRED_SHIFT_HOURS
+ */
+const closeWithGeofenceExits = async (
+  userId: string,
+  projectId: string,
+  sessions: AttendanceSession[]
+): Promise<{ sessions: AttendanceSession[]; inferred: Set<AttendanceSession> }> => {
+  const inferred = new Set<AttendanceSession>();
+  const closed: AttendanceSession[] = [];
+  for (const session of sessions) {
+    if (session.checkOut) {
+      closed.push(session);
+      continue;
+    }
+    const nextCheckIn = await Attendance.findOne({ userId, projectId, status: 'checkin', datetime: { $gt: session.checkIn } })
+      .sort({ datetime: 1 })
+      .select('datetime')
+      .lean();
+    const limit = moment(session.checkIn).add(MAX_INFERRED_SHIFT_HOURS, 'hours').toDate();
+    const until = nextCheckIn && nextCheckIn.datetime < limit ? nextCheckIn.datetime : limit;
+    const exit = await AttendanceLog.findOne({ userId, projectId, action: 'EXIT', timestamp: { $gt: session.checkIn, $lt: until } })
+      .sort({ timestamp: -1 })
+      .lean();
+
+    if (exit) {
+      const inferredSession = { checkIn: session.checkIn, checkOut: exit.timestamp };
+      inferred.add(inferredSession);
+      closed.push(inferredSession);
+    } else {
+      closed.push(session);
+    }
+  }
+  return { sessions: closed, inferred };
+};
+
+type PayrollSession = AttendanceSession & { inferred: boolean };
+
+// Payroll rows of one user's week, for the days in [options.from, options.to] that have sessions
+const toPayrollRows = (
+  project: PayrollProject,
+  userId: string,
+  timezone: string,
+  days: ITimesheetDay[],
+  sessions: PayrollSession[],
+  status: TimesheetStatus | null,
+  options: PayrollExportOptions
+): PayrollDay[] => {
+  const format = (time: Date | null) => (time ? moment.tz(time, timezone).format() : null);
+  const daily = options.rounding.applyTo === 'daily';
+
+  return days
+    .filter((day) => day.sessions.length > 0 && day.date >= options.from && day.date <= options.to)
+    .map((day) => {
+      const daySessions = sessions.filter((session) => moment.tz(session.checkIn, timezone).format(DATE_FORMAT) === day.date);
+      const paidMinutes = daily ? roundMinutes(day.paidMinutes, options.rounding) : day.paidMinutes;
+      const overtimeMinutes = Math.min(paidMinutes, daily ? roundMinutes(day.overtimeMinutes, options.rounding) : day.overtimeMinutes);
+
+      return {
+        date: day.date,
+        userId,
+        userName: userId, // Filled in by buildPayrollExport
+        projectId: project.channelId,
+        projectName: project.projectName,
+        timezone,
+        firstIn: format(day.firstIn),
+        lastOut: format(day.lastOut),
+        sessions: day.sessions.length,
+        workedMinutes: daily ? roundMinutes(day.workedMinutes, options.rounding) : day.workedMinutes,
+        breakMinutes: daily ? roundMinutes(day.breakMinutes, options.rounding) : day.breakMinutes,
+        paidMinutes,
+        regularMinutes: paidMinutes - overtimeMinutes,
+        overtimeMinutes,
+        openSessions: daySessions.filter((session) => !session.checkOut).length,
+        inferredCheckouts: daySessions.filter((session) => session.inferred).length,
+        timesheetStatus: status,
+      };
+    });
+};
+
+const roundSessions = (sessions: PayrollSession[], timezone: string, rounding: RoundingRules): PayrollSession[] =>
+  sessions.map((session) => ({
+    checkIn: roundPunch(session.checkIn, timezone, rounding),
+    checkOut: session.checkOut ? roundPunch(session.checkOut, timezone, rounding) : null,
+    inferred: session.inferred,
+  }));
+
+/**
+ * Payroll rows of the approved timesheets of one project that overlap [from, to]. Hours are the
+ * approved ones: each timesheet's stored days, rules and timezone, not today's attendance and rules.
+ */
+const buildApprovedPayroll = async (project: PayrollProject, options: PayrollExportOptions): Promise<PayrollDay[]> => {
+  // Widened by a day on each side: the range is in local dates and timesheets may be in any timezone
+  const rangeStart = moment.utc(options.from, DATE_FORMAT).subtract(1, 'day').toDate();
+  const rangeEnd = moment.utc(options.to, DATE_FORMAT).add(2, 'days').toDate();
+  const query: any = { projectId: project.channelId, status: 'approved', weekStart: { $lt: rangeEnd }, weekEnd: { $gt: rangeStart } };
+  if (options.userIds) query.userId = { $in: options.userIds };
+  const timesheets = await Timesheet.find(query).sort({ userId: 1, weekStart: 1 }).lean();
+
+  const rows: PayrollDay[] = [];
+  for (const timesheet of timesheets) {
+    const timezone = timesheet.timezone && moment.tz.zone(timesheet.timezone) ? timesheet.timezone : 'UTC';
+    const sessions = timesheet.days.flatMap((day) =>
+      day.sessions.map((session) => ({ checkIn: session.checkIn, checkOut: session.checkOut, inferred: false })));
+
+    if (options.rounding.applyTo === 'punches') {
+      const rounded = roundSessions(sessions, timezone, options.rounding);
+      const { days } = calculateTimesheetWeek(rounded, timezone, timesheet.weekStart, timesheet.rules);
+      rows.push(...toPayrollRows(project, timesheet.userId, timezone, days, rounded, timesheet.status, options));
+    } else {
+      rows.push(...toPayrollRows(project, timesheet.userId, timezone, timesheet.days, sessions, timesheet.status, options));
+    }
+  }
+  return rows;
+};
+
+/**
+ * Per-user, per-day hours of one project over [from, to] (local dates in the project timezone).
+ * Hours follow the project's timesheet rules: days are counted in whole timesheet weeks so weekly
+ * overtime is the same as on the timesheet, and only the days in the range are returned.
+ * With approvedOnly, hours are those of the approved timesheets (see buildApprovedPayroll).
+ */
+export const buildProjectPayroll = async (project: PayrollProject, options: PayrollExportOptions): Promise<PayrollDay[]> => {
+  if (options.approvedOnly) {
+    return buildApprovedPayroll(project, options);
+  }
+
+  const timezone = project.timezone && moment.tz.zone(project.timezone) ? project.timezone : 'UTC';
+  const rules = getTimesheetRules(project);
+  const projectId = project.channelId;
+  const from = moment.tz(options.from, DATE_FORMAT, timezone);
+  const to = moment.tz(options.to, DATE_FORMAT, timezone);
+  const rangeStart = getWeekRange(from.toDate(), timezone, rules.weekStartsOn).weekStart;
+  const rangeEnd = getWeekRange(to.toDate(), timezone, rules.weekStartsOn).weekEnd;
+
+  const userQuery: any = { projectId, datetime: { $gte: rangeStart, $lt: rangeEnd } };
+  if (options.userIds) userQuery.userId = { $in: options.userIds };
+  const userIds: string[] = (await Attendance.distinct('userId', userQuery)).sort();
+
+  const timesheets = await Timesheet.find({ projectId, userId: { $in: userIds }, weekStart: { $gte: rangeStart, $lt: rangeEnd } })
+    .select('userId weekStart status')
+    .lean();
+  const timesheetStatus = new Map(timesheets.map((timesheet) => [`${timesheet.userId}|${timesheet.weekStart.getTime()}`, timesheet.status]));
+
+  const rows: PayrollDay[] = [];
+  for (const userId of userIds) {
+    const attendance = await getSessionsStartingIn(userId, projectId, rangeStart, rangeEnd);
+    const { sessions, inferred } = await closeWithGeofenceExits(userId, projectId, attendance);
+    const marked = sessions.map((session) => ({ ...session, inferred: inferred.has(session) }));
+    const counted = options.rounding.applyTo === 'punches' ? roundSessions(marked, timezone, options.rounding) : marked;
+
+    for (let weekStart = moment.tz(rangeStart, timezone); weekStart.isBefore(rangeEnd); weekStart.add(7, 'days')) {
+      const start = weekStart.toDate();
+      const end = weekStart.clone().add(7, 'days').toDate();
+      const weekSessions = counted.filter((session) => session.checkIn >= start && session.checkIn < end);
+      if (weekSessions.length === 0) continue;
+
+      const { days } = calculateTimesheetWeek(weekSessions, timezone, start, rules);
+      const status = timesheetStatus.get(`${userId}|${start.getTime()}`) || null;
+      rows.push(...toPayrollRows(project, userId, timezone, days, weekSessions, status, options));
+    }
+  }
+
+  return rows;
+};
+
+/**
+ * Payroll rows of several projects, ordered by date, user and project
+ */
+export const buildPayrollExport = async (projects: PayrollProject[], options: PayrollExportOptions): Promise<PayrollDay[]> => {
+  const rows: PayrollDay[] = [];
+  for (const project of projects) {
+    rows.push(...await buildProjectPayroll(project, options));
+  }
+
+  const userNames = await getUserNames(rows.map((row) => row.userId));
+  rows.forEach((row) => { row.userName = userNames.get(row.userId) || row.userId; });
+  return rows.sort((a, b) =>
+    a.date.localeCompare(b.date) || a.userName.localeCompare(b.userName) || a.projectName.localeCompare(b.projectName));
+};
+
+/**
+ * Totals per user over the export
+ */
+export const summarizePayroll = (rows: PayrollDay[]) => {
+  const totals = new Map<string, { userId: string; userName: string; days: number; workedMinutes: number; breakMinutes: number; paidMinutes: number; regularMinutes: number; overtimeMinutes: number }>();
+  for (const row of rows) {
+    const total = totals.get(row.userId) ||
+      { userId: row.userId, userName: row.userName, days: 0, workedMinutes: 0, breakMinutes: 0, paidMinutes: 0, regularMinutes: 0, overtimeMinutes: 0 };
+    total.days++;
+    total.workedMinutes += row.workedMinutes;
+    total.breakMinutes += row.breakMinutes;
+    total.paidMinutes += row.paidMinutes;
+    total.regularMinutes += row.regularMinutes;
+    total.overtimeMinutes += row.overtimeMinutes;
+    totals.set(row.userId, total);
+  }
+  return [...totals.values()];
+};
+
+export const PAYROLL_CSV_COLUMNS = [
+  'date',
+  'userId',
+  'userName',
+  'projectId',
+  'projectName',
+  'timezone',
+  'firstIn',
+  'lastOut',
+  'sessions',
+  'workedHours',
+  'breakHours',
+  'paidHours',
+  'regularHours',
+  'overtimeHours',
+  'openSessions',
+  'inferredCheckouts',
+  'timesheetStatus',
+];
+
+const toHours = (minutes: number): string => (minutes / 60).toFixed(2);
+
+/**
+ * Payroll rows as CSV, hours in decimal. The excel variant opens directly in Excel and is safe to
+ * import into XLSX: a UTF-8 byte order mark and local times without offset (Excel cannot read offsets).
+ * Text cells that would run as formulas are quoted by toCsv in both variants.
+ */
+export const payrollToCsv = (rows: PayrollDay[], format: 'csv' | 'excel'): string => {
+  const excel = format === 'excel';
+  const time = (value: string | null) =>
+    value && excel ? moment.parseZone(value).format('YYYY-MM-DD HH:mm:ss') : value;
+
+  const csvRows = rows.map((row) => [
+    row.date,
+    row.userId,
+    row.userName,
+    row.projectId,
+    row.projectName,
+    row.timezone,
+    time(row.firstIn),
+    time(row.lastOut),
+    row.sessions,
+    toHours(row.workedMinutes),
+    toHours(row.breakMinutes),
+    toHours(row.paidMinutes),
+    toHours(row.regularMinutes),
+    toHours(row.overtimeMinutes),
+    row.openSessions,
+    row.inferredCheckouts,
+    row.timesheetStatus || '',
+  ]);
+
+  const csv = toCsv(PAYROLL_CSV_COLUMNS, csvRows);
+  return excel ? `\uFEFF${csv}` : csv;
+};
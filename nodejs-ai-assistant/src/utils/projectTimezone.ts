@@ -0,0 +1,35 @@
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import { ProjectDetails } from '../models/Project';
+
+// Attendance stores the project's channel ID as projectId, while some older callers pass the
+// ProjectDetails document ID, so both are looked up
+const projectConditions = (projectId: string): any[] => {
+  const conditions: any[] = [{ projectId }, { channelId: projectId }];
+  if (mongoose.isValidObjectId(projectId)) {
+    conditions.push({ _id: projectId });
+  }
+  return conditions;
+};
+
+/**
+ * A project by its channel ID, projectId or ProjectDetails document ID
+ */
+export const findProjectDetails = async (projectId: string) =>
+  ProjectDetails.findOne({ $or: projectConditions(projectId) });
+
+/**
+ * Timezone of a project, falling back to UTC
+ */
+export const getProjectTimezone = async (projectId: string): Promise<string> => {
+  try {
+    const project = await ProjectDetails.findOne({ $or: projectConditions(projectId) }).select('timezone').lean();
+    if (project?.timezone && moment.tz.zone(project.timezone)) {
+      return project.timezone;
+    }
+    console.warn(`Project timezone not found for projectId: ${projectId}. Defaulting to UTC.`);
+  } catch (error) {
+    console.warn(`Error fetching project details for projectId: ${projectId}. Defaulting to UTC. Error: ${error}`);
+  }
+  return 'UTC';
+};
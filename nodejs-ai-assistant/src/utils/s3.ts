@@ -35,3 +35,48 @@ export const uploadToS3 = async (fileBuffer: Buffer, fileName: string, contentTy
     throw error;
   }
 };
+
+/**
+ * Delete objects previously uploaded with uploadToS3, given their public URLs.
+ * URLs that do not point at our bucket are skipped.
+ */
+export const deleteFromS3 = async (fileUrls: string[]): Promise<number> => {
+  if (!bucketName) {
+    throw new Error('S3_BUCKET_NAME environment variable is not set.');
+  }
+
+  const keys = fileUrls
+    .map((fileUrl) => {
+      try {
+        const url = new URL(fileUrl);
+        // Virtual-hosted style (bucket.s3.region.amazonaws.com/key) or path style (s3.amazonaws.com/bucket/key)
+        if (url.hostname.startsWith(`${bucketName}.`)) {
+          return decodeURIComponent(url.pathname.slice(1));
+        }
+        if (url.pathname.startsWith(`/${bucketName}/`)) {
+          return decodeURIComponent(url.pathname.slice(bucketName.length + 2));
+        }
+      } catch (error) {
+        // Not a URL, e.g. a local file uri
+      }
+      return null;
+    })
+    .filter((key): key is string => !!key);
+
+  let deleted = 0;
+  // deleteObjects accepts at most 1000 keys per call
+  for (let i = 0; i < keys.length; i += 1000) {
+    const batch = keys.slice(i, i + 1000);
+    try {
+      await s3.deleteObjects({
+        Bucket: bucketName,
+        Delete: { Objects: batch.map((Key) => ({ Key })), Quiet: true },
+      }).promise();
+      deleted += batch.length;
+    } catch (error) {
+      console.error('Error deleting from S3:', error);
+      throw error;
+    }
+  }
+  return deleted;
+};
@@ -0,0 +1,34 @@
+import { Schema, MongooseQueryMiddleware } from 'mongoose';
+
+const QUERY_HOOKS: MongooseQueryMiddleware[] = [
+  'find',
+  'findOne',
+  'countDocuments',
+  'distinct',
+  'findOneAndUpdate',
+  'updateOne',
+  'updateMany',
+];
+
+/**
+ * Hide soft-deleted documents from reads and updates.
+ *
+ * Soft-deleted documents keep a deletedAt date until the trash retention job removes them.
+ * Queries that filter on deletedAt themselves (trash listing, restore) or set the withDeleted
+ * option see everything, and deletes are never filtered so purging works.
+ */
+export const softDeletePlugin = (schema: Schema) => {
+  schema.pre(QUERY_HOOKS, function (this: any) {
+    if (this.getFilter().deletedAt === undefined && !this.getOptions().withDeleted) {
+      this.where({ deletedAt: null });
+    }
+  });
+
+  schema.pre('aggregate', function () {
+    const pipeline = this.pipeline();
+    const firstStage: any = pipeline[0];
+    if (firstStage?.$match?.deletedAt === undefined) {
+      pipeline.unshift({ $match: { deletedAt: null } });
+    }
+  });
+};
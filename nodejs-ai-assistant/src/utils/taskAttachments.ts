@@ -0,0 +1,158 @@
+import mongoose from 'mongoose';
+import { Task, ITask, ITaskAttachment, ITaskAttachmentVersion } from '../models/Task';
+import { uploadToS3 } from './s3';
+import { generateAttachmentPreviews } from './attachmentPreviews';
+
+// Times a new version is retried when someone else changed the attachment in between
+const MAX_VERSION_RETRIES = 3;
+
+// Fields the server maintains; clients replacing the attachment list cannot overwrite them
+const SERVER_FIELDS = ['version', 'versions', 'thumbnailUri', 'previewUri', 'uploadedBy', 'uploadedAt'] as const;
+
+export interface UploadedFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+  size: number;
+}
+
+export const isAttachmentId = (value: string): boolean => /^[a-f0-9]{24}$/i.test(value);
+
+const versionOf = (attachment: ITaskAttachmentVersion): ITaskAttachmentVersion => ({
+  version: attachment.version || 1,
+  uri: attachment.uri,
+  type: attachment.type,
+  size: attachment.size,
+  thumbnailUri: attachment.thumbnailUri || null,
+  previewUri: attachment.previewUri || null,
+  uploadedBy: attachment.uploadedBy,
+  uploadedAt: attachment.uploadedAt,
+});
+
+/**
+ * Client-facing shape of an attachment: the current version next to its stable id
+ */
+export const formatAttachment = (attachment: ITaskAttachment) => ({
+  id: attachment._id ? String(attachment._id) : null,
+  uri: attachment.uri,
+  name: attachment.name,
+  type: attachment.type,
+  size: attachment.size,
+  commentId: attachment.commentId || null,
+  thumbnailUri: attachment.thumbnailUri || null,
+  previewUri: attachment.previewUri || null,
+  version: attachment.version || 1,
+  versionCount: (attachment.versions?.length || 0) + 1,
+  uploadedBy: attachment.uploadedBy || null,
+  uploadedAt: attachment.uploadedAt || null,
+});
+
+/**
+ * All versions of an attachment, newest first
+ */
+export const getAttachmentVersions = (attachment: ITaskAttachment): ITaskAttachmentVersion[] =>
+  [versionOf(attachment), ...(attachment.versions || []).map(versionOf)].sort((a, b) => b.version - a.version);
+
+/**
+ * Every stored file of the attachments, including earlier versions and generated previews
+ */
+export const getAttachmentFileUrls = (attachments: ITaskAttachment[] = []): string[] =>
+  attachments.flatMap((attachment) => [attachment, ...(attachment.versions || [])])
+    .flatMap((version) => [version.uri, version.thumbnailUri, version.previewUri])
+    .filter((uri): uri is string => !!uri);
+
+/**
+ * Keep server-maintained fields (versions, previews) when a client sends the whole attachment list back.
+ * Attachments are matched on their id.
+ */
+export const mergeClientAttachments = (existing: ITaskAttachment[] = [], incoming: any[]): any[] => {
+  const byId = new Map(existing.filter((attachment) => attachment._id).map((attachment) => [String(attachment._id), attachment]));
+  return incoming.map((attachment) => {
+    const id = attachment?._id || attachment?.id;
+    const current = id ? byId.get(String(id)) : undefined;
+    if (!current) return attachment;
+
+    const merged: any = { ...attachment, _id: current._id };
+    delete merged.id;
+    delete merged.versionCount;
+    for (const field of SERVER_FIELDS) {
+      merged[field] = (current as any)[field];
+    }
+    return merged;
+  });
+};
+
+/**
+ * The attachment an upload replaces: the one with the given id, or else the one with the same file name
+ * (case-insensitive) on the same comment
+ */
+const findReplacedAttachment = (task: ITask, fileName: string, commentId: string | null, attachmentId?: string) => {
+  const attachments = task.attachments || [];
+  if (attachmentId) {
+    return attachments.find((attachment) => String(attachment._id) === attachmentId);
+  }
+  const name = fileName.toLowerCase();
+  return attachments.find((attachment) =>
+    attachment._id && attachment.name?.toLowerCase() === name && (attachment.commentId || null) === commentId);
+};
+
+/**
+ * Upload a file to a task. A file with the same name as an existing attachment (or sent with its attachmentId)
+ * becomes a new version of it; the earlier version is kept in its history.
+ * Updates are made on the single attachment, so concurrent uploads and deletions do not overwrite each other.
+ */
+export const saveTaskAttachment = async (
+  task: ITask,
+  file: UploadedFile,
+  options: { uploadedBy?: string; commentId?: string | null; attachmentId?: string }
+): Promise<{ task: ITask | null; attachment: ITaskAttachment | null; isNewVersion: boolean }> => {
+  const commentId = options.commentId || null;
+  const fileKey = `${Date.now()}-${file.originalname}`;
+  const uri = await uploadToS3(file.buffer, fileKey, file.mimetype);
+  const previews = await generateAttachmentPreviews(file.buffer, file.mimetype, fileKey);
+
+  const upload = {
+    uri,
+    type: file.mimetype,
+    size: file.size,
+    thumbnailUri: previews.thumbnailUri,
+    previewUri: previews.previewUri,
+    uploadedBy: options.uploadedBy,
+    uploadedAt: new Date(),
+  };
+
+  let current: ITask | null = task;
+  for (let attempt = 0; current && attempt < MAX_VERSION_RETRIES; attempt++) {
+    const replaced = findReplacedAttachment(current, file.originalname, commentId, options.attachmentId);
+    if (!replaced) break;
+
+    // Only applies if the attachment is still on the version we read
+    const updated = await Task.findOneAndUpdate(
+      { _id: task._id, attachments: { $elemMatch: { _id: replaced._id, uri: replaced.uri } } },
+      {
+        $push: { 'attachments.$.versions': versionOf(replaced) },
+        $set: {
+          'attachments.$.name': file.originalname,
+          'attachments.$.version': (replaced.version || 1) + 1,
+          ...Object.fromEntries(Object.entries(upload).map(([field, value]) => [`attachments.$.${field}`, value])),
+        },
+      },
+      { new: true }
+    );
+    if (updated) {
+      const attachment = updated.attachments?.find((item) => String(item._id) === String(replaced._id)) || null;
+      return { task: updated, attachment, isNewVersion: true };
+    }
+    current = await Task.findById(task._id);
+  }
+
+  // Nothing to replace, or the attachment picked by id was removed in the meantime: add the upload as a new attachment
+  const attachmentId = new mongoose.Types.ObjectId();
+  const updated = await Task.findByIdAndUpdate(
+    task._id,
+    { $push: { attachments: { _id: attachmentId, name: file.originalname, commentId, version: 1, versions: [], ...upload } } },
+    { new: true }
+  );
+  const attachment = updated?.attachments?.find((item) => String(item._id) === String(attachmentId)) || null;
+  return { task: updated, attachment, isNewVersion: false };
+};
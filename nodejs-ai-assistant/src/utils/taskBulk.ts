@@ -0,0 +1,85 @@
+import mongoose, { ClientSession } from 'mongoose';
+
+export const BULK_ACTIONS = ['reassign', 'reprioritize', 'change_status', 'change_due_date', 'delete'] as const;
+export type BulkAction = typeof BULK_ACTIONS[number];
+
+export const MAX_BULK_TASKS = 100;
+
+const PRIORITIES = ['low', 'medium', 'high'];
+
+export interface BulkItemResult {
+  taskId: string;
+  success: boolean;
+  error?: string;
+  task?: any;
+}
+
+/**
+ * Validate a bulk request body.
+ * Returns an error message, or null if the request is valid.
+ */
+export const validateBulkRequest = (body: any): string | null => {
+  const { taskIds, action } = body || {};
+
+  if (!Array.isArray(taskIds) || taskIds.length === 0) {
+    return 'taskIds must be a non-empty array';
+  }
+  if (taskIds.length > MAX_BULK_TASKS) {
+    return `At most ${MAX_BULK_TASKS} tasks can be changed at once`;
+  }
+  if (!BULK_ACTIONS.includes(action)) {
+    return `action must be one of: ${BULK_ACTIONS.join(', ')}`;
+  }
+
+  switch (action as BulkAction) {
+    case 'reassign':
+      if (!Array.isArray(body.assignee) || body.assignee.length === 0) {
+        return 'assignee must be a non-empty array';
+      }
+      break;
+    case 'reprioritize':
+      if (!PRIORITIES.includes(body.priority)) {
+        return `priority must be one of: ${PRIORITIES.join(', ')}`;
+      }
+      break;
+    case 'change_status':
+      if (typeof body.status !== 'string' || body.status === '') {
+        return 'status is required';
+      }
+      break;
+    case 'change_due_date':
+      // null clears the due date
+      if (body.completionDate === undefined ||
+          (body.completionDate !== null && isNaN(new Date(body.completionDate).getTime()))) {
+        return 'completionDate must be a valid date or null';
+      }
+      break;
+  }
+  return null;
+};
+
+/**
+ * Run writes in a transaction when the database supports it.
+ * Standalone MongoDB servers (local development) have no transactions, so the writes run without one.
+ */
+export const withOptionalTransaction = async <T>(
+  work: (session?: ClientSession) => Promise<T>
+): Promise<{ result: T; transactional: boolean }> => {
+  let session: ClientSession | null = null;
+  try {
+    session = await mongoose.startSession();
+    let result: T | undefined;
+    await session.withTransaction(async () => {
+      result = await work(session!);
+    });
+    return { result: result as T, transactional: true };
+  } catch (error: any) {
+    // IllegalOperation: "Transaction numbers are only allowed on a replica set member or mongos"
+    if (error?.code === 20 || /replica set|Transaction numbers/i.test(error?.message || '')) {
+      return { result: await work(undefined), transactional: false };
+    }
+    throw error;
+  } finally {
+    await session?.endSession();
+  }
+};
@@ -0,0 +1,213 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../models/Task';
+import { getStreamFeedsService } from './getstreamFeedsService';
+
+// Upper bound on tasks visited when walking the dependency graph
+const MAX_GRAPH_NODES = 500;
+
+export interface DependencyGraphNode {
+  _id: string;
+  name: string;
+  status: string;
+  completed: boolean;
+  assignee: string[];
+  isBlocked: boolean;
+}
+
+export interface DependencyGraphEdge {
+  from: string; // blocker task id
+  to: string; // blocked task id
+}
+
+export interface DependencyGraph {
+  rootTaskId: string;
+  nodes: DependencyGraphNode[];
+  edges: DependencyGraphEdge[];
+  hasCycle: boolean;
+  cycle: string[] | null;
+  truncated: boolean;
+}
+
+export const isTaskOpen = (task: Pick<ITask, 'completed' | 'status'>): boolean =>
+  !task.completed && task.status !== 'completed';
+
+/**
+ * Get the blockers of a task that are not done yet
+ */
+export const getOpenBlockers = async (task: ITask): Promise<ITask[]> => {
+  if (!task.blockedBy || task.blockedBy.length === 0) {
+    return [];
+  }
+  const blockers = await Task.find({ _id: { $in: task.blockedBy } });
+  return blockers.filter(isTaskOpen);
+};
+
+/**
+ * Check whether making taskId blocked by blockerId would close a loop.
+ * Walks the blockedBy chain starting from the blocker; reaching taskId means a cycle.
+ */
+export const wouldCreateCycle = async (taskId: string, blockerId: string): Promise<boolean> => {
+  if (taskId === blockerId) {
+    return true;
+  }
+
+  const visited = new Set<string>();
+  let frontier = [blockerId];
+
+  while (frontier.length > 0 && visited.size < MAX_GRAPH_NODES) {
+    frontier.forEach((id) => visited.add(id));
+    const tasks = await Task.find({ _id: { $in: frontier } }).select('blockedBy').lean();
+
+    const next: string[] = [];
+    for (const task of tasks) {
+      for (const id of task.blockedBy || []) {
+        if (id === taskId) {
+          return true;
+        }
+        if (!visited.has(id)) {
+          next.push(id);
+        }
+      }
+    }
+    frontier = [...new Set(next)];
+  }
+
+  return false;
+};
+
+/**
+ * Build the dependency graph around a task, following both blockers and blocked tasks,
+ * and report the first cycle found (if any).
+ */
+export const buildDependencyGraph = async (rootTaskId: string): Promise<DependencyGraph> => {
+  const tasksById = new Map<string, any>();
+  const expanded = new Set<string>();
+  let frontier = [rootTaskId];
+
+  while (frontier.length > 0 && tasksById.size < MAX_GRAPH_NODES) {
+    frontier.forEach((id) => expanded.add(id));
+    const [tasks, blockedTasks] = await Promise.all([
+      Task.find({ _id: { $in: frontier } }).lean(),
+      Task.find({ blockedBy: { $in: frontier } }).lean(),
+    ]);
+
+    const next = new Set<string>();
+    for (const task of [...tasks, ...blockedTasks]) {
+      const id = String(task._id);
+      tasksById.set(id, task);
+      next.add(id);
+      for (const blockerId of task.blockedBy || []) {
+        next.add(blockerId);
+      }
+    }
+    frontier = [...next].filter((id) => !expanded.has(id) && mongoose.isValidObjectId(id));
+  }
+
+  const edges: DependencyGraphEdge[] = [];
+  for (const [id, task] of tasksById) {
+    for (const blockerId of task.blockedBy || []) {
+      if (tasksById.has(blockerId)) {
+        edges.push({ from: blockerId, to: id });
+      }
+    }
+  }
+
+  const nodes: DependencyGraphNode[] = Array.from(tasksById.values()).map((task) => ({
+    _id: String(task._id),
+    name: task.name,
+    status: task.status || (task.completed ? 'completed' : 'todo'),
+    completed: !!task.completed,
+    assignee: task.assignee || [],
+    isBlocked: (task.blockedBy || []).some((blockerId: string) => {
+      const blocker = tasksById.get(blockerId);
+      return blocker ? isTaskOpen(blocker) : false;
+    }),
+  }));
+
+  const cycle = findCycle(nodes.map((n) => n._id), edges);
+
+  return {
+    rootTaskId,
+    nodes,
+    edges,
+    hasCycle: cycle !== null,
+    cycle,
+    truncated: tasksById.size >= MAX_GRAPH_NODES,
+  };
+};
+
+/**
+ * Depth-first search for a cycle. Returns the task ids forming the cycle, or null.
+ */
+const findCycle = (nodeIds: string[], edges: DependencyGraphEdge[]): string[] | null => {
+  const adjacency = new Map<string, string[]>();
+  for (const edge of edges) {
+    adjacency.set(edge.from, [...(adjacency.get(edge.from) || []), edge.to]);
+  }
+
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    state.set(id, 'visiting');
+    path.push(id);
+    for (const nextId of adjacency.get(id) || []) {
+      if (state.get(nextId) === 'visiting') {
+        return [...path.slice(path.indexOf(nextId)), nextId];
+      }
+      if (!state.has(nextId)) {
+        const found = visit(nextId);
+        if (found) return found;
+      }
+    }
+    path.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const id of nodeIds) {
+    if (!state.has(id)) {
+      const found = visit(id);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+/**
+ * After a task is completed, notify assignees of every task it was blocking
+ * that now has no open blockers left.
+ */
+export const notifyUnblockedTasks = async (completedTask: ITask, actor: string): Promise<string[]> => {
+  const completedTaskId = String(completedTask._id);
+  const dependents = await Task.find({ blockedBy: completedTaskId });
+  const unblockedIds: string[] = [];
+
+  for (const dependent of dependents) {
+    if (!isTaskOpen(dependent)) continue;
+
+    const openBlockers = await getOpenBlockers(dependent);
+    if (openBlockers.length > 0) continue;
+
+    const dependentId = String(dependent._id);
+    unblockedIds.push(dependentId);
+
+    for (const assigneeId of dependent.assignee || []) {
+      try {
+        await getStreamFeedsService.createNotification(assigneeId, 'task_unblocked', dependentId, {
+          taskId: dependentId,
+          taskName: dependent.name || 'Untitled Task',
+          blockerTaskId: completedTaskId,
+          blockerTaskName: completedTask.name || 'Untitled Task',
+          channelId: dependent.channelId,
+          action: 'unblocked',
+          actor
+        });
+      } catch (error) {
+        console.error(`Error notifying ${assigneeId} about unblocked task ${dependentId}:`, error);
+      }
+    }
+  }
+
+  return unblockedIds;
+};
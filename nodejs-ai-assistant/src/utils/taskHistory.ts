@@ -0,0 +1,229 @@
+import { Task } from '../models/Task';
+import { TaskHistory, ITaskHistory, ITaskFieldChange } from '../models/TaskHistory';
+import { getStreamFeedsService } from './getstreamFeedsService';
+
+// Fields whose changes are recorded; ranks and bookkeeping fields are left out on purpose
+const TRACKED_FIELDS = [
+  'name',
+  'description',
+  'estimate',
+  'assignee',
+  'watchers',
+  'priority',
+  'completionDate',
+  'status',
+  'completed',
+  'channelId',
+  'parentTaskId',
+  'timezone',
+  'recurrence',
+  'blockedBy',
+  'attachments',
+] as const;
+
+type TaskSnapshot = Partial<Record<typeof TRACKED_FIELDS[number], any>>;
+
+// Plain, comparable copy of a value: dates as ISO strings, ObjectIds as strings
+const normalizeValue = (field: string, value: any): any => {
+  if (value === undefined || value === null) return null;
+  if (field === 'attachments') {
+    return (value as any[]).map((attachment) => ({
+      id: attachment._id ? String(attachment._id) : null,
+      name: attachment.name,
+      uri: attachment.uri,
+      version: attachment.version || 1,
+    }));
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'object' && typeof value.toHexString === 'function') return value.toHexString();
+  if (typeof value === 'object') {
+    const plain = typeof value.toObject === 'function' ? value.toObject() : value;
+    return JSON.parse(JSON.stringify(plain));
+  }
+  return value;
+};
+
+const isEmpty = (value: any): boolean =>
+  value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const snapshotTask = (task: any): TaskSnapshot => {
+  const snapshot: TaskSnapshot = {};
+  for (const field of TRACKED_FIELDS) {
+    snapshot[field] = normalizeValue(field, task?.[field]);
+  }
+  return snapshot;
+};
+
+/**
+ * Field-level differences between two versions of a task
+ */
+export const diffTasks = (before: any, after: any): ITaskFieldChange[] => {
+  const beforeSnapshot = snapshotTask(before);
+  const afterSnapshot = snapshotTask(after);
+
+  return TRACKED_FIELDS
+    .filter((field) => JSON.stringify(beforeSnapshot[field]) !== JSON.stringify(afterSnapshot[field]))
+    // Treat missing and empty values as equal so defaults do not show up as changes
+    .filter((field) => !(isEmpty(beforeSnapshot[field]) && isEmpty(afterSnapshot[field])))
+    .map((field) => ({ field, before: beforeSnapshot[field], after: afterSnapshot[field] }));
+};
+
+/**
+ * Persist an audit entry for a task.
+ * For "updated" pass the task before and after the change; nothing is written if no tracked field changed.
+ * Never throws - a failed history write must not fail the change itself.
+ */
+export const recordTaskHistory = async (
+  action: ITaskHistory['action'],
+  task: any,
+  actor: string | null | undefined,
+  before?: any
+): Promise<void> => {
+  try {
+    if (!task) return;
+
+    const changes = action === 'created'
+      ? diffTasks(null, task)
+      : action === 'updated' ? diffTasks(before, task) : [];
+    if (action === 'updated' && changes.length === 0) return;
+
+    await TaskHistory.create({
+      taskId: String(task._id),
+      ...(task.parentTaskId && { parentTaskId: String(task.parentTaskId) }),
+      action,
+      actor: actor || 'system',
+      changes,
+    });
+  } catch (error) {
+    console.error('Error recording task history:', error);
+  }
+};
+
+/**
+ * Record updates made with updateMany: pass the tasks as they were before the write,
+ * they are reloaded to diff against their new state
+ */
+export const recordTaskUpdates = async (beforeTasks: any[], actor: string | null | undefined): Promise<void> => {
+  if (beforeTasks.length === 0) return;
+  try {
+    const afterTasks = await Task.find({ _id: { $in: beforeTasks.map((task) => task._id) } })
+      .setOptions({ withDeleted: true })
+      .lean();
+    const afterById = new Map(afterTasks.map((task) => [String(task._id), task]));
+    for (const before of beforeTasks) {
+      await recordTaskHistory('updated', afterById.get(String(before._id)), actor, before);
+    }
+  } catch (error) {
+    console.error('Error recording task history:', error);
+  }
+};
+
+/**
+ * Record a delete or restore for each task, including subtasks trashed or restored with their parent
+ */
+export const recordTaskEvents = async (
+  action: 'deleted' | 'restored',
+  taskIds: string[],
+  actor: string | null | undefined
+): Promise<void> => {
+  if (taskIds.length === 0) return;
+  try {
+    const tasks = await Task.find({ _id: { $in: taskIds } })
+      .select('_id parentTaskId')
+      .setOptions({ withDeleted: true })
+      .lean();
+    for (const task of tasks) {
+      await recordTaskHistory(action, task, actor);
+    }
+  } catch (error) {
+    console.error('Error recording task history:', error);
+  }
+};
+
+// Activity verbs and extra keys used by the GetStream task feed, per tracked field
+const FIELD_ACTIVITIES: Record<string, { verb: string; oldKey: string; newKey: string }> = {
+  name: { verb: 'task_name_changed', oldKey: 'oldName', newKey: 'newName' },
+  description: { verb: 'task_description_changed', oldKey: 'oldDescription', newKey: 'newDescription' },
+  priority: { verb: 'task_priority_changed', oldKey: 'oldPriority', newKey: 'newPriority' },
+  completionDate: { verb: 'task_date_changed', oldKey: 'oldDate', newKey: 'newDate' },
+  status: { verb: 'task_status_changed', oldKey: 'oldStatus', newKey: 'newStatus' },
+  assignee: { verb: 'task_assignee_changed', oldKey: 'oldAssignees', newKey: 'newAssignees' },
+};
+
+const listDifference = (from: any[] | null | undefined, without: any[] | null | undefined, key: (item: any) => string) => {
+  const excluded = new Set((without || []).map(key));
+  return (from || []).filter((item) => !excluded.has(key(item)));
+};
+
+/**
+ * Task activities rebuilt from the stored history, shaped like the GetStream feed activities
+ * so clients can render them the same way when the feed is unavailable
+ */
+export const getHistoryActivities = async (taskId: string, limit: number = 100): Promise<any[]> => {
+  const [task, entries] = await Promise.all([
+    Task.findById(taskId).select('name channelId').setOptions({ withDeleted: true }).lean(),
+    TaskHistory.find({ taskId }).sort({ createdAt: -1 }).limit(limit).lean(),
+  ]);
+
+  const actorNames = new Map<string, string>();
+  for (const actor of new Set(entries.map((entry) => entry.actor))) {
+    actorNames.set(actor, actor === 'system' ? 'Someone' : await getStreamFeedsService.getUserName(actor));
+  }
+
+  const activities: any[] = [];
+  for (const entry of entries) {
+    const base = {
+      taskId,
+      taskName: task?.name || 'Untitled Task',
+      actor: entry.actor,
+      actorName: actorNames.get(entry.actor),
+      channelId: task?.channelId,
+      isFallback: true,
+    };
+    const toActivity = (verb: string, extra: Record<string, any> = {}, suffix: string = '') => ({
+      id: `history-${entry._id}${suffix}`,
+      actor: entry.actor,
+      verb,
+      object: taskId,
+      time: entry.createdAt,
+      extra: { ...base, ...extra },
+    });
+
+    if (entry.action !== 'updated') {
+      activities.push(toActivity(`task_${entry.action}`));
+      continue;
+    }
+
+    for (const change of entry.changes) {
+      const mapped = FIELD_ACTIVITIES[change.field];
+      if (mapped) {
+        activities.push(toActivity(mapped.verb, { [mapped.oldKey]: change.before, [mapped.newKey]: change.after }, `-${change.field}`));
+      } else if (change.field === 'attachments') {
+        // A new version keeps the attachment id: it shows up as added with its version number, not as a removal
+        const byUri = (attachment: any) => attachment.uri;
+        listDifference(change.after, change.before, byUri).forEach((attachment, index) =>
+          activities.push(toActivity('task_attachment_added', {
+            fileName: attachment.name,
+            attachmentId: attachment.id,
+            version: attachment.version,
+          }, `-attachment-added-${index}`)));
+        const remainingIds = new Set((change.after || []).map((attachment: any) => attachment.id).filter(Boolean));
+        listDifference(change.before, change.after, byUri)
+          .filter((attachment) => !attachment.id || !remainingIds.has(attachment.id))
+          .forEach((attachment, index) =>
+            activities.push(toActivity('task_attachment_removed', { fileName: attachment.name }, `-attachment-removed-${index}`)));
+      } else if (change.field === 'blockedBy') {
+        listDifference(change.after, change.before, String).forEach((blockerTaskId) =>
+          activities.push(toActivity('task_dependency_added', { blockerTaskId }, `-dependency-added-${blockerTaskId}`)));
+        listDifference(change.before, change.after, String).forEach((blockerTaskId) =>
+          activities.push(toActivity('task_dependency_removed', { blockerTaskId }, `-dependency-removed-${blockerTaskId}`)));
+      } else if (change.field !== 'completed' || !entry.changes.some((other) => other.field === 'status')) {
+        // The completed flag follows the status, so it only gets its own activity when the status stayed put
+        activities.push(toActivity('task_updated', { field: change.field, before: change.before, after: change.after }, `-${change.field}`));
+      }
+    }
+  }
+
+  return activities;
+};
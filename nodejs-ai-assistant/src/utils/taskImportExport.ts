@@ -0,0 +1,448 @@
+import moment from 'moment-timezone';
+import { Task, ITask } from '../models/Task';
+import { Comment } from '../models/Comment';
+import { UserContacts } from '../models/Contact';
+import { serverClient } from '../serverClient';
+import { getChannelRoleMembers } from './channelRoles';
+import { getChannelWorkflowStatuses, getInitialStatus, findStatus, isTerminalStatus } from './taskWorkflow';
+import { getBottomRank, ranksAfter } from './taskRank';
+import { validateEstimate, normalizeEstimate } from './taskWorkload';
+import { recordTaskHistory } from './taskHistory';
+import { toCsv } from './csv';
+
+export const MAX_IMPORT_ROWS = 500;
+
+const PRIORITIES = ['low', 'medium', 'high'];
+const QUERY_USERS_BATCH = 100;
+
+// Columns of the CSV export; the import reads the same columns, so an export can be imported elsewhere
+export const TASK_CSV_COLUMNS = [
+  'id', 'parentId', 'name', 'description', 'status', 'priority', 'completed',
+  'assignees', 'assigneeIds', 'dueDate', 'timezone', 'estimate', 'estimateUnit',
+  'createdBy', 'createdAt', 'comments', 'attachments',
+];
+
+export interface ImportRow {
+  row: number; // 1-based position in the file, after the CSV header
+  id?: string; // Reference for subtasks in the same file
+  parentId?: string;
+  name?: string;
+  description?: string;
+  status?: string;
+  priority?: string;
+  assignees: string[]; // Names, phone numbers or user IDs
+  dueDate?: string;
+  timezone?: string;
+  estimate?: string | number;
+  estimateUnit?: string;
+}
+
+export interface ImportRowResult {
+  row: number;
+  id?: string;
+  name?: string;
+  valid: boolean;
+  errors: string[];
+  task?: Record<string, any>; // What will be (or was) created
+  taskId?: string;
+}
+
+const splitList = (value: any): string[] => {
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => (item && typeof item === 'object' ? item.userId || item.id || item.name : item))
+      .filter((item) => item !== undefined && item !== null && String(item).trim() !== '')
+      .map((item) => String(item).trim());
+  }
+  if (typeof value !== 'string') return [];
+  return value.split(/[;\n]/).map((item) => item.trim()).filter(Boolean);
+};
+
+const asText = (value: any): string | undefined =>
+  value === undefined || value === null || String(value).trim() === '' ? undefined : String(value).trim();
+
+/**
+ * Display names of GetStream users, fetched in batches
+ */
+export const getUserNames = async (userIds: string[]): Promise<Map<string, string>> => {
+  const names = new Map<string, string>();
+  const ids = [...new Set(userIds.filter(Boolean))];
+  for (let i = 0; i < ids.length; i += QUERY_USERS_BATCH) {
+    try {
+      const { users } = await serverClient.queryUsers({ id: { $in: ids.slice(i, i + QUERY_USERS_BATCH) } });
+      users.forEach((user: any) => user.name && names.set(user.id, user.name));
+    } catch (error) {
+      console.error('Error fetching user names:', error);
+    }
+  }
+  return names;
+};
+
+/**
+ * A channel's tasks with their subtasks, comments and attachment links, for the JSON export
+ */
+export const buildTaskExport = async (channelId: string, options: { includeCompleted: boolean }) => {
+  const extractedId = channelId.includes(':') ? channelId.split(':')[1] : channelId;
+  const channelFilter = { $or: [{ channelId: extractedId }, { channelId: `messaging:${extractedId}` }] };
+
+  const topLevel = await Task.find({
+    ...channelFilter,
+    parentTaskId: { $exists: false },
+    ...(!options.includeCompleted && { completed: { $ne: true } }),
+  }).sort({ createdAt: 1 }).lean();
+  const subtasks = await Task.find({ parentTaskId: { $in: topLevel.map((task) => String(task._id)) } })
+    .sort({ createdAt: 1 })
+    .lean();
+  const allTasks = [...topLevel, ...subtasks];
+
+  const comments = await Comment.find({ taskId: { $in: allTasks.map((task) => String(task._id)) } })
+    .sort({ createdAt: 1 })
+    .lean();
+
+  const names = await getUserNames([
+    ...allTasks.flatMap((task) => [...(task.assignee || []), task.createdBy]),
+    ...comments.map((comment) => comment.userId),
+  ]);
+  const person = (userId: string) => ({ userId, name: names.get(userId) || userId });
+
+  const commentsByTask = new Map<string, typeof comments>();
+  comments.forEach((comment) => {
+    const list = commentsByTask.get(comment.taskId) || [];
+    list.push(comment);
+    commentsByTask.set(comment.taskId, list);
+  });
+
+  const toExport = (task: any) => ({
+    id: String(task._id),
+    name: task.name,
+    description: task.description || '',
+    status: task.status,
+    priority: task.priority,
+    completed: !!task.completed,
+    assignees: (task.assignee || []).map(person),
+    dueDate: task.completionDate || null,
+    timezone: task.timezone || 'UTC',
+    estimate: task.estimate || null,
+    createdBy: person(task.createdBy),
+    createdAt: task.createdAt,
+    attachments: (task.attachments || []).map((attachment: any) => ({
+      id: attachment._id ? String(attachment._id) : null,
+      name: attachment.name,
+      uri: attachment.uri,
+      type: attachment.type,
+      size: attachment.size,
+      version: attachment.version || 1,
+      thumbnailUri: attachment.thumbnailUri || null,
+      previewUri: attachment.previewUri || null,
+    })),
+    comments: (commentsByTask.get(String(task._id)) || []).map((comment) => ({
+      ...person(comment.userId),
+      message: comment.message,
+      createdAt: comment.createdAt,
+    })),
+  });
+
+  return topLevel.map((task) => ({
+    ...toExport(task),
+    subtasks: subtasks.filter((subtask) => subtask.parentTaskId === String(task._id)).map(toExport),
+  }));
+};
+
+/**
+ * Flatten the JSON export to CSV: one line per task, each subtask follows its parent and refers to it in parentId
+ */
+export const taskExportToCsv = (tasks: Awaited<ReturnType<typeof buildTaskExport>>): string => {
+  const toRow = (task: any, parentId: string) => [
+    task.id,
+    parentId,
+    task.name,
+    task.description,
+    task.status,
+    task.priority,
+    task.completed,
+    task.assignees.map((assignee: any) => assignee.name).join('; '),
+    task.assignees.map((assignee: any) => assignee.userId).join('; '),
+    task.dueDate,
+    task.timezone,
+    task.estimate?.value ?? '',
+    task.estimate?.unit ?? '',
+    task.createdBy.name,
+    task.createdAt,
+    task.comments
+      .map((comment: any) => `[${new Date(comment.createdAt).toISOString()}] ${comment.name}: ${comment.message}`)
+      .join('\n'),
+    task.attachments.map((attachment: any) => attachment.uri).join('\n'),
+  ];
+
+  const rows = tasks.flatMap((task) => [toRow(task, ''), ...task.subtasks.map((subtask: any) => toRow(subtask, task.id))]);
+  return toCsv(TASK_CSV_COLUMNS, rows);
+};
+
+/**
+ * Read import rows from parsed CSV (header line first). Headers are matched case-insensitively;
+ * assigneeIds wins over assignees when both are filled in, as in our own export.
+ */
+export const rowsFromCsv = (cells: string[][]): ImportRow[] => {
+  const [header = [], ...lines] = cells;
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const get = (line: string[], column: string) => {
+    const index = columns.indexOf(column.toLowerCase());
+    return index >= 0 ? asText(line[index]) : undefined;
+  };
+
+  return lines.map((line, index) => ({
+    row: index + 1,
+    id: get(line, 'id'),
+    parentId: get(line, 'parentId'),
+    name: get(line, 'name'),
+    description: get(line, 'description'),
+    status: get(line, 'status'),
+    priority: get(line, 'priority'),
+    assignees: splitList(get(line, 'assigneeIds') || get(line, 'assignees') || ''),
+    dueDate: get(line, 'dueDate'),
+    timezone: get(line, 'timezone'),
+    estimate: get(line, 'estimate'),
+    estimateUnit: get(line, 'estimateUnit'),
+  }));
+};
+
+/**
+ * Read import rows from JSON: an array of tasks, each optionally with nested subtasks (the JSON export format works)
+ */
+export const rowsFromJson = (tasks: any[]): ImportRow[] => {
+  const rows: ImportRow[] = [];
+  const add = (task: any, parentId?: string) => {
+    const row = rows.length + 1;
+    const id = asText(task?.id) || (Array.isArray(task?.subtasks) && task.subtasks.length > 0 ? `row-${row}` : undefined);
+    rows.push({
+      row,
+      id,
+      parentId: parentId || asText(task?.parentId),
+      name: asText(task?.name),
+      description: asText(task?.description),
+      status: asText(task?.status),
+      priority: asText(task?.priority),
+      assignees: splitList(task?.assignees ?? task?.assignee),
+      dueDate: asText(task?.dueDate ?? task?.completionDate),
+      timezone: asText(task?.timezone),
+      estimate: task?.estimate && typeof task.estimate === 'object' ? task.estimate.value : task?.estimate,
+      estimateUnit: task?.estimate && typeof task.estimate === 'object' ? task.estimate.unit : task?.estimateUnit,
+    });
+    if (Array.isArray(task?.subtasks)) {
+      task.subtasks.forEach((subtask: any) => add(subtask, id));
+    }
+  };
+  tasks.forEach((task) => add(task));
+  return rows;
+};
+
+/**
+ * Map assignee names, phone numbers or IDs to GetStream user IDs using the importer's contacts
+ * (UserContacts nicknames and phone numbers) and the channel's members
+ */
+export const createAssigneeResolver = async (importerId: string, channelId: string) => {
+  const userContacts = await UserContacts.findOne({ userId: importerId }).lean();
+  const contacts = userContacts?.contacts || [];
+
+  let memberIds: string[] = [];
+  try {
+    memberIds = (await getChannelRoleMembers(channelId)).memberIds;
+  } catch (error) {
+    console.error('Error fetching channel members for import:', error);
+  }
+
+  const knownIds = new Set([importerId, ...memberIds, ...contacts.map((contact) => contact.contactUserId)]);
+  const names = await getUserNames(Array.from(knownIds));
+
+  const byName = new Map<string, Set<string>>();
+  const byPhone = new Map<string, Set<string>>();
+  const addKey = (map: Map<string, Set<string>>, key: string | undefined, userId: string) => {
+    if (!key) return;
+    const ids = map.get(key) || new Set<string>();
+    ids.add(userId);
+    map.set(key, ids);
+  };
+  // Compare phone numbers on their last 10 digits so country codes and formatting do not matter
+  const phoneKey = (value: string) => {
+    const digits = value.replace(/\D/g, '');
+    return digits.length >= 7 ? digits.slice(-10) : undefined;
+  };
+
+  for (const contact of contacts) {
+    addKey(byName, contact.nickname?.trim().toLowerCase(), contact.contactUserId);
+    addKey(byPhone, contact.phoneNumber && phoneKey(contact.phoneNumber), contact.contactUserId);
+  }
+  for (const userId of knownIds) {
+    addKey(byName, names.get(userId)?.trim().toLowerCase(), userId);
+    // Users who signed up by phone have their number as ID
+    if (/^\+?\d{10,15}$/.test(userId)) addKey(byPhone, phoneKey(userId), userId);
+  }
+
+  return (value: string): { userId?: string; error?: string } => {
+    if (knownIds.has(value)) return { userId: value };
+
+    const isPhone = /^[+\d][\d\s().-]{6,}$/.test(value);
+    const matches = isPhone ? byPhone.get(phoneKey(value) || '') : byName.get(value.toLowerCase());
+    if (!matches || matches.size === 0) {
+      return { error: `No contact or channel member matches "${value}"` };
+    }
+    if (matches.size > 1) {
+      return { error: `"${value}" matches more than one person, use their phone number instead` };
+    }
+    return { userId: Array.from(matches)[0] };
+  };
+};
+
+const parseDueDate = (value: string, timezone: string): Date | null => {
+  // A plain date is midnight in the task's timezone, which reminders treat as "due by the end of the day"
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? moment.tz(value, 'YYYY-MM-DD', true, timezone)
+    : moment(new Date(value));
+  return date.isValid() ? date.toDate() : null;
+};
+
+/**
+ * Validate import rows and resolve assignees.
+ * Rows without assignees go to the importer. Subtasks must refer to a top-level row of the same file.
+ */
+export const validateImportRows = async (
+  rows: ImportRow[],
+  options: { importerId: string; channelId: string; timezone: string }
+): Promise<ImportRowResult[]> => {
+  const resolveAssignee = await createAssigneeResolver(options.importerId, options.channelId);
+  const statuses = await getChannelWorkflowStatuses(options.channelId);
+
+  const rowsById = new Map<string, ImportRow>();
+  const duplicateIds = new Set<string>();
+  rows.forEach((row) => {
+    if (!row.id) return;
+    if (rowsById.has(row.id)) duplicateIds.add(row.id);
+    rowsById.set(row.id, row);
+  });
+
+  const results: ImportRowResult[] = rows.map((row) => {
+    const errors: string[] = [];
+
+    if (!row.name) errors.push('name is required');
+    if (row.id && duplicateIds.has(row.id)) errors.push(`id "${row.id}" is used by more than one row`);
+
+    if (row.parentId) {
+      const parent = rowsById.get(row.parentId);
+      if (!parent) errors.push(`parentId "${row.parentId}" does not match the id of another row`);
+      else if (parent.parentId) errors.push('Subtasks cannot have subtasks of their own');
+    }
+
+    const priority = (row.priority || 'medium').toLowerCase();
+    if (!PRIORITIES.includes(priority)) errors.push(`priority must be one of: ${PRIORITIES.join(', ')}`);
+
+    // Statuses can be given by key or label
+    const status = row.status
+      ? (findStatus(statuses, row.status) ||
+          statuses.find((s) => s.label.toLowerCase() === row.status!.toLowerCase()))?.key
+      : getInitialStatus(statuses);
+    if (!status) errors.push(`status "${row.status}" is not part of this channel's workflow`);
+
+    const timezone = row.timezone || options.timezone;
+    if (!moment.tz.zone(timezone)) errors.push(`Invalid timezone "${timezone}"`);
+
+    let completionDate: Date | null = null;
+    if (row.dueDate) {
+      completionDate = parseDueDate(row.dueDate, moment.tz.zone(timezone) ? timezone : 'UTC');
+      if (!completionDate) errors.push(`dueDate "${row.dueDate}" is not a valid date`);
+    }
+
+    let estimate: ReturnType<typeof normalizeEstimate> = null;
+    if (row.estimate !== undefined && row.estimate !== '') {
+      const candidate = { value: Number(row.estimate), unit: (row.estimateUnit || 'hours').toLowerCase() };
+      const estimateError = validateEstimate(candidate);
+      if (estimateError) errors.push(estimateError);
+      else estimate = normalizeEstimate(candidate);
+    }
+
+    const assignees: string[] = [];
+    for (const value of row.assignees) {
+      const { userId, error } = resolveAssignee(value);
+      if (error) errors.push(error);
+      else if (userId && !assignees.includes(userId)) assignees.push(userId);
+    }
+    if (row.assignees.length === 0) assignees.push(options.importerId);
+
+    return {
+      row: row.row,
+      id: row.id,
+      name: row.name,
+      valid: errors.length === 0,
+      errors,
+      task: {
+        name: row.name,
+        description: row.description,
+        priority,
+        status,
+        completed: status ? isTerminalStatus(statuses, status) : false,
+        assignee: assignees,
+        ...(completionDate && { completionDate }),
+        ...(estimate && { estimate }),
+        timezone,
+        parentId: row.parentId,
+      },
+    };
+  });
+
+  // A subtask cannot be imported without its parent
+  const invalidIds = new Set(results.filter((result) => !result.valid && result.id).map((result) => result.id));
+  for (const result of results) {
+    if (result.valid && result.task!.parentId && invalidIds.has(result.task!.parentId)) {
+      result.valid = false;
+      result.errors.push('The parent row has errors, so this subtask cannot be imported');
+    }
+  }
+  return results;
+};
+
+/**
+ * Create the tasks of valid rows. Subtasks whose parent row is invalid are reported as errors.
+ * Results are updated in place with the created task IDs.
+ */
+export const createImportedTasks = async (
+  results: ImportRowResult[],
+  options: { importerId: string; channelId: string }
+): Promise<ITask[]> => {
+  const created: ITask[] = [];
+  const createdByRowId = new Map<string, ITask>();
+
+  const topLevel = results.filter((result) => result.valid && !result.task!.parentId);
+  const subtasks = results.filter((result) => result.valid && result.task!.parentId);
+
+  // Imported tasks go to the bottom of their board columns, in file order
+  const ranksByStatus = new Map<string, string[]>();
+  for (const status of new Set(topLevel.map((result) => result.task!.status as string))) {
+    const count = topLevel.filter((result) => result.task!.status === status).length;
+    const firstRank = await getBottomRank(options.channelId, status);
+    ranksByStatus.set(status, [firstRank, ...ranksAfter(firstRank, count - 1)]);
+  }
+
+  const save = async (result: ImportRowResult, extra: Record<string, any>) => {
+    const { parentId, ...fields } = result.task!;
+    const task: ITask = new Task({ ...fields, channelId: options.channelId, createdBy: options.importerId, ...extra });
+    await task.save();
+    await recordTaskHistory('created', task, options.importerId);
+    result.taskId = String(task._id);
+    if (result.id) createdByRowId.set(result.id, task);
+    created.push(task);
+  };
+
+  for (const result of topLevel) {
+    await save(result, { rank: ranksByStatus.get(result.task!.status)!.shift() });
+  }
+  for (const result of subtasks) {
+    const parent = createdByRowId.get(result.task!.parentId);
+    if (!parent) {
+      result.valid = false;
+      result.errors.push('The parent row has errors, so this subtask was not imported');
+      continue;
+    }
+    await save(result, { parentTaskId: String(parent._id) });
+  }
+
+  return created;
+};
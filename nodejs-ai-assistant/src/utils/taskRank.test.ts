@@ -0,0 +1,51 @@
+import { rankBetween, ranksAfter } from './taskRank';
+
+const isBetween = (rank: string, prev: string | null, next: string | null) =>
+  (prev === null || rank > prev) && (next === null || rank < next);
+
+describe('rankBetween', () => {
+  it('ranks an empty column in the middle of the range', () => {
+    expect(rankBetween(null, null)).toBe('i');
+  });
+
+  it('sorts strictly between its neighbours', () => {
+    const cases: [string | null, string | null][] = [
+      [null, 'i'],
+      ['i', null],
+      ['a', 'b'],
+      ['a', 'a1'],
+      ['az', 'b'],
+      ['zz', null],
+      [null, '01'],
+      ['abc', 'abd'],
+    ];
+    for (const [prev, next] of cases) {
+      const rank = rankBetween(prev, next);
+      expect(isBetween(rank, prev, next)).toBe(true);
+      expect(rank.endsWith('0')).toBe(false);
+    }
+  });
+
+  it('keeps finding room when inserting repeatedly at the same spot', () => {
+    let next = 'b';
+    for (let i = 0; i < 50; i++) {
+      const rank = rankBetween('a', next);
+      expect(isBetween(rank, 'a', next)).toBe(true);
+      next = rank;
+    }
+  });
+
+  it('rejects a range that is out of order', () => {
+    expect(() => rankBetween('b', 'a')).toThrow('Invalid rank range');
+    expect(() => rankBetween('b', 'b')).toThrow('Invalid rank range');
+  });
+});
+
+describe('ranksAfter', () => {
+  it('returns ascending ranks after the given one', () => {
+    const ranks = ranksAfter('i', 5);
+    expect(ranks).toHaveLength(5);
+    expect([...ranks].sort()).toEqual(ranks);
+    expect(ranks[0] > 'i').toBe(true);
+  });
+});
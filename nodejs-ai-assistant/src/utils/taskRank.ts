@@ -0,0 +1,77 @@
+/**
+ * Fractional ranks for manual task ordering on the board.
+ *
+ * Ranks are base-36 strings compared lexicographically. A new rank can always be generated
+ * between any two existing ranks without touching other tasks, so a move only writes the
+ * moved task. Ranks never end in "0", which guarantees there is room below every rank.
+ */
+
+import { Task } from '../models/Task';
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+const BASE = DIGITS.length;
+
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    // Shared prefix (treating a missing digit in a as "0") carries over unchanged
+    let n = 0;
+    while ((a[n] || '0') === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : BASE;
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.floor((digitA + digitB) / 2)];
+  }
+  // Adjacent first digits: either shorten b, or extend a with a further digit
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+/**
+ * Generate a rank that sorts strictly between prev and next.
+ * Pass null for prev to rank at the top of a column, null for next to rank at the bottom.
+ */
+export const rankBetween = (prev: string | null | undefined, next: string | null | undefined): string => {
+  const a = prev || '';
+  const b = next || null;
+  if (b !== null && a >= b) {
+    throw new Error(`Invalid rank range: "${a}" must sort before "${b}"`);
+  }
+  return midpoint(a, b);
+};
+
+/**
+ * Generate count ranks in ascending order after prev, used to backfill unranked tasks
+ */
+export const ranksAfter = (prev: string | null | undefined, count: number): string[] => {
+  const ranks: string[] = [];
+  let last = prev || null;
+  for (let i = 0; i < count; i++) {
+    last = rankBetween(last, null);
+    ranks.push(last);
+  }
+  return ranks;
+};
+
+/**
+ * Rank that places a new top-level task at the bottom of its board column
+ */
+export const getBottomRank = async (channelId: string, status: string): Promise<string> => {
+  const extractedId = channelId.includes(':') ? channelId.split(':')[1] : channelId;
+  const lastTask = await Task.findOne({
+    $or: [{ channelId: extractedId }, { channelId: `messaging:${extractedId}` }],
+    status,
+    parentTaskId: { $exists: false },
+    rank: { $exists: true }
+  }).sort({ rank: -1 }).select('rank').lean();
+  return rankBetween(lastTask?.rank, null);
+};
@@ -0,0 +1,67 @@
+jest.mock('../serverClient', () => ({ serverClient: {} }));
+jest.mock('./getstreamFeedsService', () => ({ getStreamFeedsService: {} }));
+
+import { ITaskRecurrence } from '../models/Task';
+import { getFirstOccurrenceAfter, getNextOccurrenceDate, normalizeRecurrence, validateRecurrence } from './taskRecurrence';
+
+describe('validateRecurrence', () => {
+  it('accepts a valid rule', () => {
+    expect(validateRecurrence({ type: 'weekly', interval: 2, endDate: '2026-12-31' })).toBeNull();
+  });
+
+  it('rejects unknown types, bad intervals and bad end dates', () => {
+    expect(validateRecurrence(null)).toBe('Recurrence must be an object');
+    expect(validateRecurrence({ type: 'hourly' })).toMatch(/type must be one of/);
+    expect(validateRecurrence({ type: 'daily', interval: 0 })).toMatch(/positive integer/);
+    expect(validateRecurrence({ type: 'daily', interval: 1.5 })).toMatch(/positive integer/);
+    expect(validateRecurrence({ type: 'daily', endDate: 'soon' })).toMatch(/valid date/);
+  });
+
+  it('defaults the interval to 1', () => {
+    expect(normalizeRecurrence({ type: 'daily' })).toEqual({ type: 'daily', interval: 1 });
+  });
+});
+
+describe('getNextOccurrenceDate', () => {
+  it('keeps the local time across a DST change', () => {
+    const recurrence: ITaskRecurrence = { type: 'daily', interval: 1 };
+    // 09:00 in New York the day before clocks go forward (EST, UTC-5)
+    const next = getNextOccurrenceDate(new Date('2026-03-07T14:00:00Z'), recurrence, 'America/New_York');
+    // 09:00 the next day is EDT, UTC-4
+    expect(next.toISOString()).toBe('2026-03-08T13:00:00.000Z');
+  });
+
+  it('falls back to UTC for an unknown timezone', () => {
+    const next = getNextOccurrenceDate(new Date('2026-01-01T10:00:00Z'), { type: 'weekly', interval: 2 }, 'Nowhere/City');
+    expect(next.toISOString()).toBe('2026-01-15T10:00:00.000Z');
+  });
+});
+
+describe('getFirstOccurrenceAfter', () => {
+  const due = new Date('2026-01-05T09:00:00Z');
+
+  it('returns the next step when it is still ahead', () => {
+    const next = getFirstOccurrenceAfter(due, { type: 'daily', interval: 1 }, new Date('2026-01-05T12:00:00Z'));
+    expect(next.toISOString()).toBe('2026-01-06T09:00:00.000Z');
+  });
+
+  it('skips occurrences missed while the series was overdue', () => {
+    const next = getFirstOccurrenceAfter(due, { type: 'daily', interval: 1 }, new Date('2026-01-20T12:00:00Z'));
+    expect(next.toISOString()).toBe('2026-01-21T09:00:00.000Z');
+  });
+
+  it('counts whole intervals from the original date', () => {
+    const next = getFirstOccurrenceAfter(due, { type: 'weekly', interval: 2 }, new Date('2026-02-03T00:00:00Z'));
+    expect(next.toISOString()).toBe('2026-02-16T09:00:00.000Z');
+  });
+
+  it('does not return an occurrence exactly at the given time', () => {
+    const next = getFirstOccurrenceAfter(due, { type: 'daily', interval: 1 }, new Date('2026-01-06T09:00:00Z'));
+    expect(next.toISOString()).toBe('2026-01-07T09:00:00.000Z');
+  });
+
+  it('does not drift at month ends', () => {
+    const next = getFirstOccurrenceAfter(new Date('2026-01-31T09:00:00Z'), { type: 'monthly', interval: 1 }, new Date('2026-03-01T00:00:00Z'));
+    expect(next.toISOString()).toBe('2026-03-31T09:00:00.000Z');
+  });
+});
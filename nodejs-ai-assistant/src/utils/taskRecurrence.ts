@@ -0,0 +1,166 @@
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import { Task, ITask, ITaskRecurrence } from '../models/Task';
+import { getStreamFeedsService } from './getstreamFeedsService';
+import { getChannelWorkflowStatuses, getInitialStatus } from './taskWorkflow';
+import { recordTaskHistory } from './taskHistory';
+
+const RECURRENCE_TYPES = ['daily', 'weekly', 'monthly', 'yearly'] as const;
+
+const RECURRENCE_UNITS: Record<ITaskRecurrence['type'], moment.unitOfTime.DurationConstructor> = {
+  daily: 'days',
+  weekly: 'weeks',
+  monthly: 'months',
+  yearly: 'years',
+};
+
+/**
+ * Validate a recurrence rule sent by the client.
+ * Returns an error message, or null if the rule is valid.
+ */
+export const validateRecurrence = (recurrence: any): string | null => {
+  if (!recurrence || typeof recurrence !== 'object') {
+    return 'Recurrence must be an object';
+  }
+  if (!RECURRENCE_TYPES.includes(recurrence.type)) {
+    return `Recurrence type must be one of: ${RECURRENCE_TYPES.join(', ')}`;
+  }
+  if (recurrence.interval !== undefined && (!Number.isInteger(recurrence.interval) || recurrence.interval < 1)) {
+    return 'Recurrence interval must be a positive integer';
+  }
+  if (recurrence.endDate && isNaN(new Date(recurrence.endDate).getTime())) {
+    return 'Recurrence endDate must be a valid date';
+  }
+  return null;
+};
+
+/**
+ * Normalize a validated recurrence rule into the shape stored on the task
+ */
+export const normalizeRecurrence = (recurrence: any): ITaskRecurrence => ({
+  type: recurrence.type,
+  interval: recurrence.interval || 1,
+  ...(recurrence.endDate && { endDate: new Date(recurrence.endDate) }),
+});
+
+/**
+ * Shift a date by one recurrence step in the given timezone.
+ * Working in the task's timezone keeps the local wall-clock time stable across DST changes.
+ */
+export const getNextOccurrenceDate = (date: Date, recurrence: ITaskRecurrence, timezone: string = 'UTC'): Date => {
+  const tz = moment.tz.zone(timezone) ? timezone : 'UTC';
+  return moment.tz(date, tz)
+    .add(recurrence.interval || 1, RECURRENCE_UNITS[recurrence.type])
+    .toDate();
+};
+
+/**
+ * First occurrence of a series after a given time, counting whole recurrence steps from the date.
+ * Occurrences that were missed in between (e.g. while a series sat overdue) are skipped.
+ */
+export const getFirstOccurrenceAfter = (
+  date: Date,
+  recurrence: ITaskRecurrence,
+  after: Date,
+  timezone: string = 'UTC'
+): Date => {
+  const tz = moment.tz.zone(timezone) ? timezone : 'UTC';
+  const interval = recurrence.interval || 1;
+  // Each step is counted from the original date so month ends do not drift (Jan 31 -> Feb 28 -> Mar 31)
+  let steps = 1;
+  let next = getNextOccurrenceDate(date, recurrence, tz);
+  while (next <= after) {
+    steps++;
+    next = moment.tz(date, tz).add(steps * interval, RECURRENCE_UNITS[recurrence.type]).toDate();
+  }
+  return next;
+};
+
+/**
+ * Create the next instance of a recurring task, copying its subtasks and assignees.
+ * It is due at the series' first occurrence after now; occurrences missed while overdue are skipped.
+ *
+ * Safe to call more than once for the same task: the source task is claimed atomically
+ * through nextInstanceId, so only one caller ever creates the follow-up instance.
+ * Returns null if the task does not recur, the series has ended, or it was already spawned.
+ */
+export const spawnNextTaskInstance = async (task: ITask): Promise<ITask | null> => {
+  if (!task.recurrence?.type || task.parentTaskId || task.nextInstanceId) {
+    return null;
+  }
+
+  const timezone = task.timezone || 'UTC';
+  // Tasks without a due date recur relative to when they were completed. A series that sat overdue
+  // continues with its first occurrence still ahead instead of one stale instance per missed step.
+  const now = new Date();
+  const baseDate = task.completionDate || now;
+  const nextDate = getFirstOccurrenceAfter(baseDate, task.recurrence, now, timezone);
+
+  if (task.recurrence.endDate && nextDate > task.recurrence.endDate) {
+    console.log(`🔁 Series ${task.seriesId} ended, no further instance after task ${task._id}`);
+    return null;
+  }
+
+  const nextId = new mongoose.Types.ObjectId();
+  const claimed = await Task.findOneAndUpdate(
+    { _id: task._id, nextInstanceId: { $exists: false } },
+    { $set: { nextInstanceId: String(nextId) } },
+    { new: true }
+  );
+  if (!claimed) {
+    return null;
+  }
+
+  const initialStatus = getInitialStatus(await getChannelWorkflowStatuses(task.channelId));
+
+  const nextTask: ITask = new Task({
+    _id: nextId,
+    name: task.name,
+    assignee: task.assignee,
+    priority: task.priority,
+    completionDate: nextDate,
+    channelId: task.channelId,
+    status: initialStatus,
+    description: task.description,
+    ...(task.estimate && { estimate: task.estimate }),
+    createdBy: task.createdBy,
+    timezone,
+    recurrence: task.recurrence,
+    seriesId: task.seriesId || String(task._id),
+  });
+  await nextTask.save();
+  await recordTaskHistory('created', nextTask, 'system');
+
+  // Subtasks keep the same offset from the parent due date they had in the previous instance
+  const subtasks = await Task.find({ parentTaskId: task._id });
+  for (const subtask of subtasks) {
+    const offset = subtask.completionDate && task.completionDate
+      ? subtask.completionDate.getTime() - task.completionDate.getTime()
+      : null;
+
+    const nextSubtask = await new Task({
+      name: subtask.name,
+      assignee: subtask.assignee,
+      priority: subtask.priority,
+      ...(offset !== null && { completionDate: new Date(nextDate.getTime() + offset) }),
+      channelId: subtask.channelId,
+      description: subtask.description,
+      ...(subtask.estimate && { estimate: subtask.estimate }),
+      createdBy: subtask.createdBy,
+      parentTaskId: nextTask._id,
+      status: initialStatus,
+      timezone: subtask.timezone || timezone,
+    }).save();
+    await recordTaskHistory('created', nextSubtask, 'system');
+  }
+
+  console.log(`🔁 Spawned next instance ${nextId} of series ${nextTask.seriesId} due ${nextDate.toISOString()}`);
+
+  try {
+    await getStreamFeedsService.createTaskActivity(String(nextTask._id), nextTask);
+  } catch (error) {
+    console.error('Error creating activity for recurring task instance:', error);
+  }
+
+  return nextTask;
+};
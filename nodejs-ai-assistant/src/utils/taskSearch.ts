@@ -0,0 +1,284 @@
+import moment from 'moment-timezone';
+import { Task } from '../models/Task';
+import { Comment } from '../models/Comment';
+import { serverClient } from '../serverClient';
+
+// Upper bound of matches pulled per source before ranking, keeps a broad query from loading everything
+const MAX_CANDIDATES = 500;
+const SNIPPET_RADIUS = 60;
+
+// How much a match in each source contributes to the parent task's relevance
+const SOURCE_WEIGHTS = {
+  task: 1,
+  subtask: 0.5,
+  comment: 0.3,
+};
+
+// 'past' holds completed tasks whose due date has gone by, so 'overdue' only lists open work
+export const DUE_BUCKETS = ['overdue', 'today', 'this_week', 'later', 'past', 'no_due_date'] as const;
+export type DueBucket = typeof DUE_BUCKETS[number];
+
+export interface TaskSearchFilters {
+  priority?: string[];
+  status?: string[];
+  assignee?: string[];
+  channelId?: string[];
+  due?: DueBucket[];
+}
+
+export interface SearchHighlight {
+  field: 'name' | 'description' | 'subtask' | 'comment';
+  sourceId: string; // Task, subtask or comment the snippet was taken from
+  snippet: string;
+  ranges: Array<[number, number]>; // [start, end) offsets of matched terms within the snippet
+}
+
+export interface TaskSearchOptions {
+  query: string;
+  userId: string;
+  filters: TaskSearchFilters;
+  timezone?: string;
+  limit: number;
+  offset: number;
+}
+
+type FacetCounts = Record<string, number>;
+
+/**
+ * Channel IDs (both plain and "messaging:" forms) of every channel the user belongs to
+ */
+export const getMemberChannelIds = async (userId: string): Promise<string[]> => {
+  const channelIds: string[] = [];
+  const pageSize = 100;
+  for (let offset = 0; ; offset += pageSize) {
+    const channels = await serverClient.queryChannels(
+      { members: { $in: [userId] } },
+      {},
+      { limit: pageSize, offset, state: false, watch: false }
+    );
+    for (const channel of channels) {
+      if (channel.id) {
+        channelIds.push(channel.id, `messaging:${channel.id}`);
+      }
+    }
+    if (channels.length < pageSize) break;
+  }
+  return channelIds;
+};
+
+const normalizeChannelId = (channelId?: string): string =>
+  channelId && channelId.includes(':') ? channelId.split(':')[1] : channelId || '';
+
+/**
+ * Lowercased words of the query used for highlighting, ignoring punctuation and single letters
+ */
+const getSearchTerms = (query: string): string[] =>
+  Array.from(new Set(
+    query
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((term) => term.length >= 2)
+  ));
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Cut a snippet around the first matched term and return the match offsets within it.
+ * Terms match at the start of a word so "inspect" also highlights "inspection".
+ */
+export const buildHighlight = (
+  text: string | undefined,
+  terms: string[],
+  field: SearchHighlight['field'],
+  sourceId: string
+): SearchHighlight | null => {
+  if (!text || terms.length === 0) return null;
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})`, 'giu');
+  const matches = Array.from(text.matchAll(pattern));
+  if (matches.length === 0) return null;
+
+  const first = matches[0].index!;
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS * 2);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  const ranges = matches
+    .filter((m) => m.index! >= start && m.index! + m[0].length <= end)
+    .map((m) => [m.index! - start + prefix.length, m.index! - start + prefix.length + m[0].length] as [number, number]);
+
+  return {
+    field,
+    sourceId,
+    snippet: `${prefix}${text.slice(start, end)}${suffix}`,
+    ranges,
+  };
+};
+
+/**
+ * Due-date bucket of a task, evaluated in the requester's timezone
+ */
+export const getDueBucket = (task: { completionDate?: Date; completed?: boolean }, timezone: string, now: Date = new Date()): DueBucket => {
+  if (!task.completionDate) return 'no_due_date';
+
+  const tz = moment.tz.zone(timezone) ? timezone : 'UTC';
+  const due = moment.tz(task.completionDate, tz);
+  const current = moment.tz(now, tz);
+
+  if (due.isBefore(current) && !due.isSame(current, 'day')) {
+    return task.completed ? 'past' : 'overdue';
+  }
+  if (due.isSame(current, 'day')) return 'today';
+  if (due.isSameOrBefore(current.clone().endOf('isoWeek'))) return 'this_week';
+  return 'later';
+};
+
+interface ScoredTask {
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+const MAX_HIGHLIGHTS_PER_TASK = 3;
+
+const addMatch = (
+  scored: Map<string, ScoredTask>,
+  taskId: string,
+  score: number,
+  highlight: SearchHighlight | null
+) => {
+  const entry = scored.get(taskId) || { score: 0, highlights: [] };
+  entry.score += score;
+  if (highlight && entry.highlights.length < MAX_HIGHLIGHTS_PER_TASK) {
+    entry.highlights.push(highlight);
+  }
+  scored.set(taskId, entry);
+};
+
+const getFacetValues = (task: any, timezone: string, now: Date): Record<keyof TaskSearchFilters, string[]> => ({
+  priority: [task.priority || 'medium'],
+  status: [task.status || (task.completed ? 'completed' : 'todo')],
+  assignee: task.assignee?.length ? task.assignee : ['unassigned'],
+  channelId: [normalizeChannelId(task.channelId) || 'none'],
+  due: [getDueBucket(task, timezone, now)],
+});
+
+const FACET_KEYS: Array<keyof TaskSearchFilters> = ['priority', 'status', 'assignee', 'channelId', 'due'];
+
+/**
+ * Full-text search over tasks, their subtasks and comments.
+ *
+ * Subtask and comment matches are credited to their top-level task, so every hit is a task the
+ * user can open. Facet counts for a dimension ignore that dimension's own filter, which lets the
+ * client show how many results selecting another value would give.
+ */
+export const searchTasks = async (options: TaskSearchOptions) => {
+  const { query, userId, filters, limit, offset } = options;
+  const timezone = options.timezone && moment.tz.zone(options.timezone) ? options.timezone : 'UTC';
+  const terms = getSearchTerms(query);
+  const now = new Date();
+
+  // Users only see tasks from channels they are a member of, plus their own channel-less tasks
+  const memberChannelIds = await getMemberChannelIds(userId);
+  const accessFilter = {
+    $or: [
+      { channelId: { $in: memberChannelIds } },
+      { assignee: { $in: [userId] } },
+      { createdBy: userId },
+    ],
+  };
+
+  // Comments carry no channel, so each match is joined to its task and kept only if the user can see
+  // that task. Both text queries are narrowed before MAX_CANDIDATES applies, so matches elsewhere
+  // cannot crowd out the user's own.
+  const [taskMatches, commentMatches] = await Promise.all([
+    Task.find({ $text: { $search: query }, ...accessFilter }, { score: { $meta: 'textScore' } })
+      .select('_id name description parentTaskId')
+      .sort({ score: { $meta: 'textScore' } })
+      .limit(MAX_CANDIDATES)
+      .lean(),
+    Comment.aggregate([
+      // deletedAt is matched here so the soft-delete hook keeps $text in the first stage
+      { $match: { $text: { $search: query }, deletedAt: null } },
+      { $addFields: { score: { $meta: 'textScore' } } },
+      {
+        $lookup: {
+          from: Task.collection.name,
+          let: { taskId: { $convert: { input: '$taskId', to: 'objectId', onError: null, onNull: null } } },
+          pipeline: [
+            { $match: { $expr: { $eq: ['$_id', '$$taskId'] }, deletedAt: null, ...accessFilter } },
+            { $project: { _id: 1, parentTaskId: 1 } },
+          ],
+          as: 'task',
+        },
+      },
+      { $unwind: '$task' },
+      { $sort: { score: -1 } },
+      { $limit: MAX_CANDIDATES },
+      { $project: { _id: 1, message: 1, score: 1, task: 1 } },
+    ]),
+  ]);
+
+  const scored = new Map<string, ScoredTask>();
+
+  for (const match of taskMatches as any[]) {
+    const taskId = String(match._id);
+    if (match.parentTaskId) {
+      addMatch(scored, String(match.parentTaskId), match.score * SOURCE_WEIGHTS.subtask,
+        buildHighlight(match.name, terms, 'subtask', taskId) || buildHighlight(match.description, terms, 'subtask', taskId));
+    } else {
+      addMatch(scored, taskId, match.score * SOURCE_WEIGHTS.task, buildHighlight(match.name, terms, 'name', taskId));
+      const descriptionHighlight = buildHighlight(match.description, terms, 'description', taskId);
+      if (descriptionHighlight) {
+        addMatch(scored, taskId, 0, descriptionHighlight);
+      }
+    }
+  }
+
+  // Comments may sit on subtasks; credit them to the top-level task
+  for (const comment of commentMatches) {
+    addMatch(scored, String(comment.task.parentTaskId || comment.task._id), comment.score * SOURCE_WEIGHTS.comment,
+      buildHighlight(comment.message, terms, 'comment', String(comment._id)));
+  }
+
+  // Access is checked on the top-level task, which also drops hits from channels the user left
+  const candidates = scored.size > 0
+    ? await Task.find({ _id: { $in: Array.from(scored.keys()) }, parentTaskId: { $exists: false }, ...accessFilter })
+      .select('_id name status priority completionDate channelId createdAt updatedAt createdBy assignee description completed')
+      .lean()
+    : [];
+
+  const withFacetValues = candidates.map((task) => ({ task, values: getFacetValues(task, timezone, now) }));
+
+  const matchesFilter = (values: Record<keyof TaskSearchFilters, string[]>, key: keyof TaskSearchFilters) => {
+    const selected = filters[key] as string[] | undefined;
+    if (!selected || selected.length === 0) return true;
+    return values[key].some((value) => selected.includes(value));
+  };
+
+  const facets = {} as Record<keyof TaskSearchFilters, FacetCounts>;
+  for (const key of FACET_KEYS) {
+    facets[key] = {};
+    for (const { values } of withFacetValues) {
+      if (!FACET_KEYS.every((other) => other === key || matchesFilter(values, other))) continue;
+      for (const value of values[key]) {
+        facets[key][value] = (facets[key][value] || 0) + 1;
+      }
+    }
+  }
+
+  const results = withFacetValues
+    .filter(({ values }) => FACET_KEYS.every((key) => matchesFilter(values, key)))
+    .map(({ task }) => ({
+      ...task,
+      score: Math.round(scored.get(String(task._id))!.score * 1000) / 1000,
+      highlights: scored.get(String(task._id))!.highlights,
+    }))
+    .sort((a, b) => b.score - a.score || new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+
+  return {
+    total: results.length,
+    results: results.slice(offset, offset + limit),
+    facets,
+  };
+};
@@ -0,0 +1,217 @@
+import moment from 'moment-timezone';
+import { Task, ITask } from '../models/Task';
+import { ITaskTemplate, TaskTemplate, TEMPLATE_ASSIGNEE_ROLES, TemplateAssigneeRole } from '../models/TaskTemplate';
+import { getStreamFeedsService } from './getstreamFeedsService';
+import { getChannelWorkflowStatuses, getInitialStatus } from './taskWorkflow';
+import { getChannelRoleMembers, ChannelRoleMembers } from './channelRoles';
+import { getBottomRank } from './taskRank';
+import { getMemberChannelIds } from './taskSearch';
+import { recordTaskHistory } from './taskHistory';
+
+const PRIORITIES = ['low', 'medium', 'high'];
+const MAX_TEMPLATE_SUBTASKS = 50;
+
+// Case-insensitive name matching, same collation as the unique index
+export const TEMPLATE_NAME_COLLATION = { locale: 'en', strength: 2 };
+
+export interface InstantiateTemplateOptions {
+  requesterId: string; // Becomes createdBy and fills the "requester" role
+  channelId?: string; // Defaults to the template's channel
+  name?: string; // Overrides the template name
+  assignees?: string[]; // Overrides role-based assignment for the parent task
+  startDate?: Date; // Anchor for due offsets, defaults to now
+  timezone?: string;
+}
+
+const isValidRoles = (roles: any): boolean =>
+  Array.isArray(roles) && roles.every((role) => TEMPLATE_ASSIGNEE_ROLES.includes(role));
+
+const isValidOffset = (offset: any): boolean =>
+  offset === undefined || offset === null || (Number.isInteger(offset) && offset >= 0);
+
+/**
+ * Validate a template sent by the client.
+ * Returns an error message, or null if the template is valid.
+ */
+export const validateTaskTemplate = (template: any): string | null => {
+  if (!template || typeof template.name !== 'string' || template.name.trim() === '') {
+    return 'Template name is required';
+  }
+  if (template.priority !== undefined && !PRIORITIES.includes(template.priority)) {
+    return `priority must be one of: ${PRIORITIES.join(', ')}`;
+  }
+  if (template.defaultAssigneeRoles !== undefined && !isValidRoles(template.defaultAssigneeRoles)) {
+    return `defaultAssigneeRoles must only contain: ${TEMPLATE_ASSIGNEE_ROLES.join(', ')}`;
+  }
+  if (!isValidOffset(template.dueOffsetDays)) {
+    return 'dueOffsetDays must be a non-negative integer';
+  }
+  if (template.subtasks !== undefined) {
+    if (!Array.isArray(template.subtasks) || template.subtasks.length > MAX_TEMPLATE_SUBTASKS) {
+      return `subtasks must be an array of at most ${MAX_TEMPLATE_SUBTASKS} items`;
+    }
+    for (const [index, subtask] of template.subtasks.entries()) {
+      if (!subtask || typeof subtask.name !== 'string' || subtask.name.trim() === '') {
+        return `Subtask ${index + 1} needs a name`;
+      }
+      if (subtask.priority !== undefined && !PRIORITIES.includes(subtask.priority)) {
+        return `Subtask "${subtask.name}" has an invalid priority`;
+      }
+      if (subtask.assigneeRoles !== undefined && !isValidRoles(subtask.assigneeRoles)) {
+        return `Subtask "${subtask.name}" has invalid assigneeRoles`;
+      }
+      if (!isValidOffset(subtask.dueOffsetDays)) {
+        return `Subtask "${subtask.name}" needs a non-negative integer dueOffsetDays`;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Normalize a validated template into the fields stored on the document
+ */
+export const normalizeTaskTemplate = (template: any) => ({
+  name: template.name.trim(),
+  description: template.description,
+  priority: template.priority || 'medium',
+  defaultAssigneeRoles: template.defaultAssigneeRoles?.length ? template.defaultAssigneeRoles : ['requester'],
+  dueOffsetDays: template.dueOffsetDays ?? undefined,
+  subtasks: (template.subtasks || []).map((subtask: any) => ({
+    name: subtask.name.trim(),
+    description: subtask.description,
+    priority: subtask.priority,
+    assigneeRoles: subtask.assigneeRoles?.length ? subtask.assigneeRoles : undefined,
+    dueOffsetDays: subtask.dueOffsetDays ?? undefined,
+  })),
+});
+
+/**
+ * Find a template by name, preferring the first channel in the list
+ */
+export const findTemplateByName = async (name: string, channelIds: string[]): Promise<ITaskTemplate | null> => {
+  const normalized = channelIds.map((id) => (id.includes(':') ? id.split(':')[1] : id));
+  const templates = await TaskTemplate.find({ channelId: { $in: normalized }, name: name.trim() })
+    .collation(TEMPLATE_NAME_COLLATION);
+  if (templates.length === 0) return null;
+  return templates.sort((a, b) => normalized.indexOf(a.channelId) - normalized.indexOf(b.channelId))[0];
+};
+
+/**
+ * Find a template by name for Kai: the current channel wins, then any channel the user belongs to.
+ * When nothing matches, the names of the templates the user could use are returned instead.
+ */
+export const findTemplateForUser = async (
+  name: string,
+  userId: string,
+  currentChannelId?: string
+): Promise<{ template: ITaskTemplate | null; availableNames: string[] }> => {
+  const memberChannelIds = await getMemberChannelIds(userId);
+  const channelIds = currentChannelId ? [currentChannelId, ...memberChannelIds] : memberChannelIds;
+
+  const template = await findTemplateByName(name, channelIds);
+  if (template) {
+    return { template, availableNames: [] };
+  }
+
+  const normalized = channelIds.map((id) => (id.includes(':') ? id.split(':')[1] : id));
+  const availableNames: string[] = await TaskTemplate.distinct('name', { channelId: { $in: normalized } });
+  return { template: null, availableNames: availableNames.slice(0, 20) };
+};
+
+const resolveRoles = (roles: TemplateAssigneeRole[], members: ChannelRoleMembers | null, requesterId: string): string[] => {
+  const assignees = new Set<string>();
+  for (const role of roles) {
+    if (role === 'requester') {
+      assignees.add(requesterId);
+    } else if (role === 'owner' && members?.ownerId) {
+      assignees.add(members.ownerId);
+    } else if (role === 'moderator') {
+      members?.moderatorIds.forEach((id) => assignees.add(id));
+    }
+  }
+  // A role nobody holds falls back to the person using the template
+  return assignees.size > 0 ? Array.from(assignees) : [requesterId];
+};
+
+const getDueDate = (start: Date, offsetDays: number | undefined, timezone: string): Date | undefined =>
+  offsetDays === undefined || offsetDays === null
+    ? undefined
+    : moment.tz(start, timezone).add(offsetDays, 'days').toDate();
+
+/**
+ * Create a task and its ordered subtasks from a template
+ */
+export const instantiateTaskTemplate = async (
+  template: ITaskTemplate,
+  options: InstantiateTemplateOptions
+): Promise<{ task: ITask; subtasks: ITask[] }> => {
+  const { requesterId } = options;
+  const channelId = options.channelId || template.channelId;
+  const timezone = options.timezone && moment.tz.zone(options.timezone) ? options.timezone : 'UTC';
+  const startDate = options.startDate || new Date();
+
+  const needsRoles = [template.defaultAssigneeRoles, ...template.subtasks.map((s) => s.assigneeRoles || [])]
+    .some((roles) => roles.some((role) => role !== 'requester'));
+  let members: ChannelRoleMembers | null = null;
+  if (needsRoles) {
+    try {
+      members = await getChannelRoleMembers(channelId);
+    } catch (error) {
+      console.error('Error fetching channel roles for template:', error);
+    }
+  }
+
+  const defaultAssignees = resolveRoles(template.defaultAssigneeRoles, members, requesterId);
+  const parentAssignees = options.assignees?.length ? options.assignees : defaultAssignees;
+  const parentDueDate = getDueDate(startDate, template.dueOffsetDays, timezone);
+
+  const initialStatus = getInitialStatus(await getChannelWorkflowStatuses(channelId));
+
+  const task: ITask = new Task({
+    name: options.name || template.name,
+    assignee: parentAssignees,
+    priority: template.priority,
+    ...(parentDueDate && { completionDate: parentDueDate }),
+    channelId,
+    description: template.description,
+    createdBy: requesterId,
+    status: initialStatus,
+    timezone,
+    rank: await getBottomRank(channelId, initialStatus),
+  });
+  await task.save();
+  await recordTaskHistory('created', task, requesterId);
+
+  const subtasks: ITask[] = [];
+  for (const templateSubtask of template.subtasks) {
+    const subtaskDueDate = getDueDate(startDate, templateSubtask.dueOffsetDays, timezone) || parentDueDate;
+    const subtask: ITask = new Task({
+      name: templateSubtask.name,
+      assignee: templateSubtask.assigneeRoles?.length
+        ? resolveRoles(templateSubtask.assigneeRoles, members, requesterId)
+        : parentAssignees,
+      priority: templateSubtask.priority || template.priority,
+      ...(subtaskDueDate && { completionDate: subtaskDueDate }),
+      channelId,
+      description: templateSubtask.description,
+      createdBy: requesterId,
+      parentTaskId: task._id,
+      status: initialStatus,
+      timezone,
+    });
+    await subtask.save();
+    await recordTaskHistory('created', subtask, requesterId);
+    subtasks.push(subtask);
+  }
+
+  console.log(`📋 Created task ${task._id} from template "${template.name}" with ${subtasks.length} subtasks`);
+
+  try {
+    await getStreamFeedsService.createTaskActivity(String(task._id), task);
+  } catch (error) {
+    console.error('Error creating activity for templated task:', error);
+  }
+
+  return { task, subtasks };
+};
@@ -0,0 +1,101 @@
+import { ClientSession } from 'mongoose';
+import { Task } from '../models/Task';
+import { Comment } from '../models/Comment';
+import { deleteFromS3 } from './s3';
+import { getAttachmentFileUrls } from './taskAttachments';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_BATCH_SIZE = 200;
+
+/**
+ * Days a deleted task stays in the trash before it is purged (TASK_TRASH_RETENTION_DAYS)
+ */
+export const getTrashRetentionDays = (): number => {
+  const days = parseInt(process.env.TASK_TRASH_RETENTION_DAYS || '', 10);
+  return days > 0 ? days : DEFAULT_RETENTION_DAYS;
+};
+
+export const getPurgeDate = (deletedAt: Date): Date =>
+  new Date(deletedAt.getTime() + getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+
+/**
+ * Move tasks to the trash together with their subtasks and comments.
+ * Everything trashed with a task shares its deletionId so a restore brings it all back.
+ * Returns the IDs of all trashed tasks.
+ */
+export const softDeleteTasks = async (taskIds: string[], userId: string, session?: ClientSession): Promise<string[]> => {
+  const deletedAt = new Date();
+  const trashedIds: string[] = [];
+
+  for (const taskId of taskIds) {
+    const subtasks = await Task.find({ parentTaskId: taskId }).select('_id').session(session || null);
+    const ids = [taskId, ...subtasks.map((subtask) => String(subtask._id))];
+
+    await Task.updateMany(
+      { _id: { $in: ids } },
+      { $set: { deletedAt, deletedBy: userId, deletionId: taskId } },
+      { session }
+    );
+    await Comment.updateMany(
+      { taskId: { $in: ids } },
+      { $set: { deletedAt, deletionId: taskId } },
+      { session }
+    );
+    trashedIds.push(...ids);
+  }
+
+  return trashedIds;
+};
+
+/**
+ * Bring a trashed task back with everything that was trashed along with it
+ */
+export const restoreTask = async (taskId: string): Promise<number> => {
+  const restore = { $set: { deletedAt: null }, $unset: { deletedBy: 1, deletionId: 1 } };
+  const result = await Task.updateMany({ deletionId: taskId, deletedAt: { $ne: null } }, restore);
+  await Comment.updateMany({ deletionId: taskId, deletedAt: { $ne: null } }, restore);
+  return result.modifiedCount;
+};
+
+/**
+ * Permanently delete tasks that have been in the trash longer than the retention period,
+ * including their comments and uploaded attachment files
+ */
+export const purgeExpiredTasks = async (now: Date = new Date()): Promise<number> => {
+  const cutoff = new Date(now.getTime() - getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+  let purged = 0;
+
+  while (true) {
+    const tasks = await Task.find({ deletedAt: { $ne: null, $lte: cutoff } })
+      .select('_id attachments')
+      .limit(PURGE_BATCH_SIZE)
+      .lean();
+    if (tasks.length === 0) break;
+
+    const ids = tasks.map((task) => String(task._id));
+    const fileUrls = tasks.flatMap((task) => getAttachmentFileUrls(task.attachments));
+
+    // Keep the documents if the files could not be removed, so the next run retries
+    if (fileUrls.length > 0) {
+      try {
+        await deleteFromS3(fileUrls);
+      } catch (error) {
+        console.error('❌ Failed to delete trashed attachments from S3, will retry next run:', error);
+        break;
+      }
+    }
+
+    await Comment.deleteMany({ taskId: { $in: ids } });
+    await Task.deleteMany({ _id: { $in: ids } });
+    // Drop dependency links pointing at the purged tasks, including from other trashed tasks
+    await Task.updateMany(
+      { blockedBy: { $in: ids } },
+      { $pull: { blockedBy: { $in: ids } } }
+    ).setOptions({ withDeleted: true });
+
+    purged += ids.length;
+    if (tasks.length < PURGE_BATCH_SIZE) break;
+  }
+
+  return purged;
+};
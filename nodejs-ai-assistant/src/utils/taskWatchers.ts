@@ -0,0 +1,90 @@
+import { Task, ITask } from '../models/Task';
+import { getStreamFeedsService } from './getstreamFeedsService';
+import { recordTaskHistory } from './taskHistory';
+
+/**
+ * Check a list of user IDs sent by the client; returns the de-duplicated IDs, or null if the list is invalid
+ */
+export const parseUserIds = (value: any): string[] | null => {
+  if (!Array.isArray(value) || !value.every((id) => typeof id === 'string' && id.trim() !== '')) {
+    return null;
+  }
+  return [...new Set(value.map((id: string) => id.trim()))];
+};
+
+/**
+ * Everyone who hears about changes to a task: assignees, creator and watchers
+ */
+export const getTaskFollowers = (task: Pick<ITask, 'assignee' | 'createdBy' | 'watchers'>): string[] =>
+  [...new Set([...(task.assignee || []), task.createdBy, ...(task.watchers || [])].filter(Boolean))];
+
+/**
+ * Add watchers to a task. Returns the updated task, or null if it does not exist.
+ */
+export const addTaskWatchers = async (taskId: string, userIds: string[], actor: string): Promise<ITask | null> => {
+  const task = await Task.findById(taskId);
+  if (!task) return null;
+
+  const updatedTask = await Task.findByIdAndUpdate(
+    taskId,
+    { $addToSet: { watchers: { $each: userIds } } },
+    { new: true }
+  );
+  await recordTaskHistory('updated', updatedTask, actor, task);
+  return updatedTask;
+};
+
+/**
+ * Remove a watcher from a task. Returns the updated task, or null if it does not exist.
+ */
+export const removeTaskWatcher = async (taskId: string, userId: string, actor: string): Promise<ITask | null> => {
+  const task = await Task.findById(taskId);
+  if (!task) return null;
+
+  const updatedTask = await Task.findByIdAndUpdate(
+    taskId,
+    { $pull: { watchers: userId } },
+    { new: true }
+  );
+  await recordTaskHistory('updated', updatedTask, actor, task);
+  return updatedTask;
+};
+
+/**
+ * Users @mentioned in a comment start watching the task (unless they already hear about it)
+ * and get a mention notification. Returns the users that were notified.
+ */
+export const handleCommentMentions = async (
+  task: ITask,
+  mentionedUserIds: string[],
+  commenterId: string,
+  commentId: string,
+  message: string
+): Promise<string[]> => {
+  const mentioned = mentionedUserIds.filter((id) => id !== commenterId);
+  if (mentioned.length === 0) return [];
+
+  const followers = new Set(getTaskFollowers(task));
+  const newWatchers = mentioned.filter((id) => !followers.has(id));
+  if (newWatchers.length > 0) {
+    await addTaskWatchers(String(task._id), newWatchers, commenterId);
+  }
+
+  const taskId = String(task._id);
+  for (const userId of mentioned) {
+    try {
+      await getStreamFeedsService.createNotification(userId, 'mention', taskId, {
+        taskId,
+        commentId,
+        commentPreview: message.substring(0, 100),
+        commentedBy: commenterId,
+        taskName: task.name || 'Untitled Task',
+        channelId: task.channelId,
+        actor: commenterId
+      });
+    } catch (error) {
+      console.error(`Error sending mention notification to ${userId}:`, error);
+    }
+  }
+  return mentioned;
+};
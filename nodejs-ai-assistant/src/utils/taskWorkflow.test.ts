@@ -0,0 +1,79 @@
+import { IWorkflowStatus } from '../models/TaskWorkflow';
+import {
+  DEFAULT_WORKFLOW_STATUSES,
+  getDefaultTerminalStatus,
+  getInitialStatus,
+  getStatusLabel,
+  getTerminalStatusKeys,
+  validateStatusTransition,
+  validateWorkflowStatuses,
+} from './taskWorkflow';
+
+const REVIEW_WORKFLOW: IWorkflowStatus[] = [
+  { key: 'backlog', label: 'Backlog', isTerminal: false, transitionsTo: ['doing'] },
+  { key: 'doing', label: 'Doing', isTerminal: false, transitionsTo: ['review', 'backlog'] },
+  { key: 'review', label: 'Review', isTerminal: false },
+  { key: 'done', label: 'Done', isTerminal: true },
+  { key: 'wont_do', label: "Won't do", isTerminal: true },
+];
+
+describe('workflow statuses', () => {
+  it('starts tasks in the first non-terminal status and completes them in the first terminal one', () => {
+    expect(getInitialStatus(DEFAULT_WORKFLOW_STATUSES)).toBe('todo');
+    expect(getDefaultTerminalStatus(DEFAULT_WORKFLOW_STATUSES)).toBe('completed');
+    expect(getDefaultTerminalStatus(REVIEW_WORKFLOW)).toBe('done');
+    expect(getTerminalStatusKeys(REVIEW_WORKFLOW)).toEqual(['done', 'wont_do']);
+  });
+
+  it('labels unknown keys by humanizing them', () => {
+    expect(getStatusLabel(REVIEW_WORKFLOW, 'wont_do')).toBe("Won't do");
+    expect(getStatusLabel(REVIEW_WORKFLOW, 'on_hold')).toBe('On hold');
+    expect(getStatusLabel(REVIEW_WORKFLOW, null)).toBe('');
+  });
+});
+
+describe('validateStatusTransition', () => {
+  it('allows listed transitions and staying in place', () => {
+    expect(validateStatusTransition(REVIEW_WORKFLOW, 'doing', 'review')).toBeNull();
+    expect(validateStatusTransition(REVIEW_WORKFLOW, 'backlog', 'backlog')).toBeNull();
+  });
+
+  it('rejects transitions the current status does not list', () => {
+    expect(validateStatusTransition(REVIEW_WORKFLOW, 'backlog', 'done')).toBe('Cannot move task from "Backlog" to "Done"');
+  });
+
+  it('allows any move from a status without transitions or outside the workflow', () => {
+    expect(validateStatusTransition(REVIEW_WORKFLOW, 'review', 'backlog')).toBeNull();
+    expect(validateStatusTransition(REVIEW_WORKFLOW, 'in_progress', 'done')).toBeNull();
+  });
+
+  it('rejects unknown target statuses', () => {
+    expect(validateStatusTransition(REVIEW_WORKFLOW, 'doing', 'archived')).toMatch(/^Invalid status "archived"/);
+  });
+});
+
+describe('validateWorkflowStatuses', () => {
+  it('accepts a valid workflow', () => {
+    expect(validateWorkflowStatuses(REVIEW_WORKFLOW)).toBeNull();
+  });
+
+  it('rejects malformed workflows', () => {
+    expect(validateWorkflowStatuses([{ key: 'only', label: 'Only', isTerminal: true }])).toMatch(/at least two/);
+    expect(validateWorkflowStatuses([
+      { key: 'Todo', label: 'To Do' },
+      { key: 'done', label: 'Done', isTerminal: true },
+    ])).toMatch(/lowercase/);
+    expect(validateWorkflowStatuses([
+      { key: 'todo', label: 'To Do' },
+      { key: 'todo', label: 'Again', isTerminal: true },
+    ])).toBe('Duplicate status key "todo"');
+    expect(validateWorkflowStatuses([
+      { key: 'todo', label: 'To Do' },
+      { key: 'doing', label: 'Doing' },
+    ])).toBe('At least one status must be terminal');
+    expect(validateWorkflowStatuses([
+      { key: 'todo', label: 'To Do', transitionsTo: ['done', 'gone'] },
+      { key: 'done', label: 'Done', isTerminal: true },
+    ])).toBe('Status "todo" transitions to unknown status "gone"');
+  });
+});
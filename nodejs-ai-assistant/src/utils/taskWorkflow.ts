@@ -0,0 +1,132 @@
+import { TaskWorkflow, IWorkflowStatus } from '../models/TaskWorkflow';
+
+/**
+ * Workflow used by channels that have not defined their own statuses.
+ * Matches the original fixed todo → in_progress → completed board.
+ */
+export const DEFAULT_WORKFLOW_STATUSES: IWorkflowStatus[] = [
+  { key: 'todo', label: 'To Do', isTerminal: false },
+  { key: 'in_progress', label: 'In Progress', isTerminal: false },
+  { key: 'completed', label: 'Completed', isTerminal: true },
+];
+
+const STATUS_KEY_PATTERN = /^[a-z0-9_]{1,40}$/;
+
+/**
+ * Strip the "messaging:" prefix so workflows are keyed the same way regardless of how
+ * the client sent the channel ID
+ */
+export const normalizeWorkflowChannelId = (channelId: string): string =>
+  channelId.includes(':') ? channelId.split(':')[1] : channelId;
+
+/**
+ * Get the ordered statuses for a channel, falling back to the default workflow
+ */
+export const getChannelWorkflowStatuses = async (channelId?: string | null): Promise<IWorkflowStatus[]> => {
+  if (!channelId) {
+    return DEFAULT_WORKFLOW_STATUSES;
+  }
+  const workflow = await TaskWorkflow.findOne({ channelId: normalizeWorkflowChannelId(channelId) }).lean();
+  return workflow?.statuses?.length ? workflow.statuses : DEFAULT_WORKFLOW_STATUSES;
+};
+
+export const findStatus = (statuses: IWorkflowStatus[], key?: string | null): IWorkflowStatus | undefined =>
+  statuses.find((s) => s.key === key);
+
+export const isTerminalStatus = (statuses: IWorkflowStatus[], key?: string | null): boolean =>
+  !!findStatus(statuses, key)?.isTerminal;
+
+export const getTerminalStatusKeys = (statuses: IWorkflowStatus[]): string[] =>
+  statuses.filter((s) => s.isTerminal).map((s) => s.key);
+
+/**
+ * Status new tasks start in: the first non-terminal status of the workflow
+ */
+export const getInitialStatus = (statuses: IWorkflowStatus[]): string =>
+  (statuses.find((s) => !s.isTerminal) || statuses[0]).key;
+
+/**
+ * Status a task moves to when it is ticked complete without naming a status
+ */
+export const getDefaultTerminalStatus = (statuses: IWorkflowStatus[]): string =>
+  (statuses.find((s) => s.isTerminal) || statuses[statuses.length - 1]).key;
+
+/**
+ * Display label for a status key, falling back to a humanized key
+ */
+export const getStatusLabel = (statuses: IWorkflowStatus[], key?: string | null): string => {
+  if (!key) return '';
+  const status = findStatus(statuses, key);
+  if (status) return status.label;
+  const humanized = key.replace(/_/g, ' ');
+  return humanized.charAt(0).toUpperCase() + humanized.slice(1);
+};
+
+/**
+ * Validate moving a task between two statuses.
+ * Returns an error message, or null if the transition is allowed.
+ */
+export const validateStatusTransition = (
+  statuses: IWorkflowStatus[],
+  fromKey: string | undefined,
+  toKey: string
+): string | null => {
+  const target = findStatus(statuses, toKey);
+  if (!target) {
+    return `Invalid status "${toKey}". Allowed statuses: ${statuses.map((s) => s.key).join(', ')}`;
+  }
+  if (!fromKey || fromKey === toKey) {
+    return null;
+  }
+  // Tasks whose current status is no longer part of the workflow may move anywhere
+  const current = findStatus(statuses, fromKey);
+  if (current?.transitionsTo && current.transitionsTo.length > 0 && !current.transitionsTo.includes(toKey)) {
+    return `Cannot move task from "${current.label}" to "${target.label}"`;
+  }
+  return null;
+};
+
+/**
+ * Validate a workflow definition sent by the client.
+ * Returns an error message, or null if the statuses are valid.
+ */
+export const validateWorkflowStatuses = (statuses: any): string | null => {
+  if (!Array.isArray(statuses) || statuses.length < 2) {
+    return 'statuses must be an array with at least two entries';
+  }
+
+  const keys = new Set<string>();
+  for (const status of statuses) {
+    if (!status || typeof status.key !== 'string' || !STATUS_KEY_PATTERN.test(status.key)) {
+      return 'Each status needs a key of lowercase letters, digits or underscores';
+    }
+    if (typeof status.label !== 'string' || status.label.trim() === '') {
+      return `Status "${status.key}" needs a label`;
+    }
+    if (keys.has(status.key)) {
+      return `Duplicate status key "${status.key}"`;
+    }
+    keys.add(status.key);
+  }
+
+  if (!statuses.some((s: any) => s.isTerminal === true)) {
+    return 'At least one status must be terminal';
+  }
+  if (!statuses.some((s: any) => s.isTerminal !== true)) {
+    return 'At least one status must be non-terminal';
+  }
+
+  for (const status of statuses) {
+    if (status.transitionsTo !== undefined) {
+      if (!Array.isArray(status.transitionsTo)) {
+        return `transitionsTo of "${status.key}" must be an array`;
+      }
+      const unknown = status.transitionsTo.find((key: string) => !keys.has(key));
+      if (unknown) {
+        return `Status "${status.key}" transitions to unknown status "${unknown}"`;
+      }
+    }
+  }
+
+  return null;
+};
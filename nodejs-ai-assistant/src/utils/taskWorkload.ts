@@ -0,0 +1,280 @@
+import moment from 'moment-timezone';
+import { Task } from '../models/Task';
+import { WorkloadCapacity } from '../models/WorkloadCapacity';
+import { getChannelRoleMembers } from './channelRoles';
+import { normalizeWorkflowChannelId } from './taskWorkflow';
+
+export const ESTIMATE_UNITS = ['hours', 'points'] as const;
+export type EstimateUnit = typeof ESTIMATE_UNITS[number];
+
+export const MAX_WORKLOAD_WEEKS = 12;
+const MAX_CANDIDATES = 3;
+const DEFAULT_CAPACITY_HOURS = 40;
+
+// Low priority work is suggested for reassignment first
+const PRIORITY_ORDER: Record<string, number> = { low: 0, medium: 1, high: 2 };
+
+type Load = Record<EstimateUnit, number>;
+type Capacity = Record<EstimateUnit, number | null>;
+
+interface TaskShare {
+  taskId: string;
+  name: string;
+  priority: string;
+  status: string;
+  completionDate: Date;
+  unit: EstimateUnit;
+  share: number; // This assignee's part of the estimate
+  overdue: boolean;
+}
+
+export interface WorkloadWeek {
+  weekStart: string; // YYYY-MM-DD (Monday) in the requested timezone
+  load: Load;
+  overAllocated: boolean;
+  overBy: Load;
+  tasks: TaskShare[];
+}
+
+export interface UserWorkload {
+  userId: string;
+  capacity: Capacity;
+  weeks: WorkloadWeek[];
+  unscheduled: Load; // Estimated open work without a due date
+  unestimatedTaskCount: number; // Open tasks in the period that have no estimate
+}
+
+export interface ReassignmentSuggestion {
+  taskId: string;
+  taskName: string;
+  weekStart: string;
+  fromUserId: string;
+  unit: EstimateUnit;
+  amount: number;
+  candidates: Array<{ userId: string; spare: number }>;
+}
+
+export interface WorkloadOptions {
+  from?: Date; // Any date in the first week, defaults to now
+  weeks: number;
+  timezone: string;
+}
+
+const emptyLoad = (): Load => ({ hours: 0, points: 0 });
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Validate an estimate sent by the client; null clears it.
+ * Returns an error message, or null if the estimate is valid.
+ */
+export const validateEstimate = (estimate: any): string | null => {
+  if (estimate === null) return null;
+  if (typeof estimate !== 'object' || typeof estimate.value !== 'number' ||
+      !isFinite(estimate.value) || estimate.value <= 0) {
+    return 'estimate.value must be a positive number';
+  }
+  if (!ESTIMATE_UNITS.includes(estimate.unit)) {
+    return `estimate.unit must be one of: ${ESTIMATE_UNITS.join(', ')}`;
+  }
+  return null;
+};
+
+export const normalizeEstimate = (estimate: any): { value: number; unit: EstimateUnit } | null =>
+  estimate ? { value: estimate.value, unit: estimate.unit } : null;
+
+/**
+ * Weekly capacity for users without their own (TASK_DEFAULT_WEEKLY_CAPACITY_HOURS / _POINTS).
+ * There is no default for points, so point estimates are only flagged for users with a capacity set.
+ */
+export const getDefaultCapacity = (): Capacity => {
+  const hours = parseFloat(process.env.TASK_DEFAULT_WEEKLY_CAPACITY_HOURS || '');
+  const points = parseFloat(process.env.TASK_DEFAULT_WEEKLY_CAPACITY_POINTS || '');
+  return {
+    hours: hours >= 0 ? hours : DEFAULT_CAPACITY_HOURS,
+    points: points >= 0 ? points : null,
+  };
+};
+
+/**
+ * Open estimated work per assignee per week of a channel, with over-allocation flags and reassignment suggestions.
+ * Tasks are placed in the week they are due; overdue tasks count towards the first week.
+ * A parent task whose subtasks carry estimates is counted through its subtasks only.
+ */
+export const buildChannelWorkload = async (
+  channelId: string,
+  options: WorkloadOptions
+): Promise<{ weekStarts: string[]; users: UserWorkload[]; suggestions: ReassignmentSuggestion[] }> => {
+  const normalizedId = normalizeWorkflowChannelId(channelId);
+  const channelFilter = { $or: [{ channelId: normalizedId }, { channelId: `messaging:${normalizedId}` }] };
+
+  const start = moment.tz(options.from || new Date(), options.timezone).startOf('isoWeek');
+  const end = start.clone().add(options.weeks, 'weeks');
+  const weekStarts = Array.from({ length: options.weeks }, (_, i) => start.clone().add(i, 'weeks').format('YYYY-MM-DD'));
+
+  const [tasks, parentsWithEstimatedSubtasks, capacities] = await Promise.all([
+    Task.find({
+      ...channelFilter,
+      completed: { $ne: true },
+      $and: [{ $or: [{ completionDate: { $lt: end.toDate() } }, { completionDate: null }] }],
+    })
+      .select('_id name priority status completionDate assignee estimate parentTaskId')
+      .lean(),
+    Task.distinct('parentTaskId', { ...channelFilter, parentTaskId: { $exists: true }, 'estimate.value': { $gt: 0 } }),
+    WorkloadCapacity.find({ channelId: normalizedId }).lean(),
+  ]);
+  const skipParents = new Set(parentsWithEstimatedSubtasks.map(String));
+
+  let memberIds: string[] = [];
+  try {
+    memberIds = (await getChannelRoleMembers(normalizedId)).memberIds;
+  } catch (error) {
+    console.error('Error fetching channel members for workload:', error);
+  }
+
+  const defaultCapacity = getDefaultCapacity();
+  const capacityByUser = new Map(capacities.map((c) => [c.userId, c]));
+  const users = new Map<string, UserWorkload>();
+  const getUser = (userId: string): UserWorkload => {
+    let user = users.get(userId);
+    if (!user) {
+      const own = capacityByUser.get(userId);
+      user = {
+        userId,
+        capacity: {
+          hours: own?.hoursPerWeek ?? defaultCapacity.hours,
+          points: own?.pointsPerWeek ?? defaultCapacity.points,
+        },
+        weeks: weekStarts.map((weekStart) => ({
+          weekStart,
+          load: emptyLoad(),
+          overAllocated: false,
+          overBy: emptyLoad(),
+          tasks: [],
+        })),
+        unscheduled: emptyLoad(),
+        unestimatedTaskCount: 0,
+      };
+      users.set(userId, user);
+    }
+    return user;
+  };
+  memberIds.forEach(getUser);
+
+  for (const task of tasks) {
+    const assignees: string[] = task.assignee || [];
+    if (assignees.length === 0 || skipParents.has(String(task._id))) continue;
+
+    const estimate = task.estimate;
+    if (!estimate?.value || !estimate.unit) {
+      assignees.forEach((userId) => getUser(userId).unestimatedTaskCount++);
+      continue;
+    }
+
+    // Shared tasks are split evenly between their assignees
+    const share = estimate.value / assignees.length;
+    for (const userId of assignees) {
+      const user = getUser(userId);
+      if (!task.completionDate) {
+        user.unscheduled[estimate.unit] += share;
+        continue;
+      }
+
+      const due = moment.tz(task.completionDate, options.timezone);
+      const overdue = due.isBefore(start);
+      const week = user.weeks[overdue ? 0 : due.diff(start, 'weeks')];
+      week.load[estimate.unit] += share;
+      week.tasks.push({
+        taskId: String(task._id),
+        name: task.name,
+        priority: task.priority,
+        status: task.status,
+        completionDate: task.completionDate,
+        unit: estimate.unit,
+        share,
+        overdue,
+      });
+    }
+  }
+
+  for (const user of users.values()) {
+    for (const week of user.weeks) {
+      for (const unit of ESTIMATE_UNITS) {
+        const capacity = user.capacity[unit];
+        week.overBy[unit] = capacity !== null ? Math.max(0, week.load[unit] - capacity) : 0;
+      }
+      week.overAllocated = ESTIMATE_UNITS.some((unit) => week.overBy[unit] > 0);
+    }
+  }
+
+  const suggestions = suggestReassignments(Array.from(users.values()), new Set(memberIds));
+
+  const result = Array.from(users.values())
+    .map((user) => ({
+      ...user,
+      weeks: user.weeks.map((week) => ({
+        ...week,
+        load: { hours: round(week.load.hours), points: round(week.load.points) },
+        overBy: { hours: round(week.overBy.hours), points: round(week.overBy.points) },
+        tasks: week.tasks.map((task) => ({ ...task, share: round(task.share) })),
+      })),
+      unscheduled: { hours: round(user.unscheduled.hours), points: round(user.unscheduled.points) },
+    }))
+    .sort((a, b) => b.weeks.filter((w) => w.overAllocated).length - a.weeks.filter((w) => w.overAllocated).length ||
+      a.userId.localeCompare(b.userId));
+
+  return { weekStarts, users: result, suggestions };
+};
+
+/**
+ * Greedily move tasks off over-allocated weeks to channel members with the most spare capacity that week.
+ * Loads are updated as suggestions are made so the same spare capacity is not offered twice.
+ */
+const suggestReassignments = (users: UserWorkload[], memberIds: Set<string>): ReassignmentSuggestion[] => {
+  const suggestions: ReassignmentSuggestion[] = [];
+  const load = new Map(users.map((user) => [user.userId, user.weeks.map((week) => ({ ...week.load }))]));
+  const candidatesPool = users.filter((user) => memberIds.has(user.userId));
+
+  for (const user of users) {
+    user.weeks.forEach((week, weekIndex) => {
+      for (const unit of ESTIMATE_UNITS) {
+        const capacity = user.capacity[unit];
+        if (capacity === null) continue;
+
+        const tasks = week.tasks
+          .filter((task) => task.unit === unit)
+          .sort((a, b) => (PRIORITY_ORDER[a.priority] ?? 1) - (PRIORITY_ORDER[b.priority] ?? 1) || b.share - a.share);
+
+        for (const task of tasks) {
+          const ownLoad = load.get(user.userId)![weekIndex];
+          if (ownLoad[unit] <= capacity) break;
+
+          const candidates = candidatesPool
+            .filter((candidate) => candidate.userId !== user.userId && candidate.capacity[unit] !== null &&
+              !candidate.weeks[weekIndex].tasks.some((t) => t.taskId === task.taskId))
+            .map((candidate) => ({
+              userId: candidate.userId,
+              spare: candidate.capacity[unit]! - load.get(candidate.userId)![weekIndex][unit],
+            }))
+            .filter((candidate) => candidate.spare >= task.share)
+            .sort((a, b) => b.spare - a.spare)
+            .slice(0, MAX_CANDIDATES);
+          if (candidates.length === 0) continue;
+
+          suggestions.push({
+            taskId: task.taskId,
+            taskName: task.name,
+            weekStart: week.weekStart,
+            fromUserId: user.userId,
+            unit,
+            amount: round(task.share),
+            candidates: candidates.map((candidate) => ({ ...candidate, spare: round(candidate.spare) })),
+          });
+          ownLoad[unit] -= task.share;
+          load.get(candidates[0].userId)![weekIndex][unit] += task.share;
+        }
+      }
+    });
+  }
+
+  return suggestions;
+};
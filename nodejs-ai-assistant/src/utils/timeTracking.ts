@@ -0,0 +1,186 @@
+import moment from 'moment-timezone';
+import { TimeEntry, ITimeEntry } from '../models/TimeEntry';
+import { Attendance } from '../models/Attendance';
+import { getAttendanceSessions } from './attendanceSessions';
+import { getProjectTimezone } from './projectTimezone';
+
+// Reports cover at most this many days per request
+export const MAX_REPORT_DAYS = 31;
+
+type Interval = [number, number]; // [start, end) in epoch milliseconds
+
+/**
+ * Project ID a task's time is booked against: its channel ID without the "messaging:" prefix,
+ * the same ID attendance is recorded under
+ */
+export const getTaskProjectId = (channelId?: string): string | undefined =>
+  channelId ? (channelId.includes(':') ? channelId.split(':')[1] : channelId) : undefined;
+
+/**
+ * Close a running timer
+ */
+export const stopTimeEntry = async (entry: ITimeEntry, endTime: Date = new Date()): Promise<ITimeEntry> => {
+  const end = endTime < entry.startTime ? entry.startTime : endTime;
+  entry.endTime = end;
+  entry.durationSeconds = Math.round((end.getTime() - entry.startTime.getTime()) / 1000);
+  entry.isRunning = false;
+  await entry.save();
+  return entry;
+};
+
+/**
+ * Duration of an entry in seconds, counting a running timer up to now
+ */
+export const getEntrySeconds = (entry: Pick<ITimeEntry, 'isRunning' | 'startTime' | 'durationSeconds'>, now: Date = new Date()): number =>
+  entry.isRunning
+    ? Math.max(0, Math.round((now.getTime() - new Date(entry.startTime).getTime()) / 1000))
+    : entry.durationSeconds || 0;
+
+/**
+ * Sum entry durations grouped by a key (user, task, project)
+ */
+export const sumSecondsBy = <T extends Pick<ITimeEntry, 'isRunning' | 'startTime' | 'durationSeconds'>>(
+  entries: T[],
+  getKey: (entry: T) => string | undefined
+): Record<string, number> => {
+  const now = new Date();
+  const totals: Record<string, number> = {};
+  for (const entry of entries) {
+    const key = getKey(entry) || 'none';
+    totals[key] = (totals[key] || 0) + getEntrySeconds(entry, now);
+  }
+  return totals;
+};
+
+const toMinutes = (ms: number): number => Math.round(ms / 60000);
+
+// Merge overlapping intervals so time is never counted twice
+const mergeIntervals = (intervals: Interval[]): Interval[] => {
+  const sorted = intervals.filter(([s, e]) => e > s).sort((a, b) => a[0] - b[0]);
+  const merged: Interval[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+};
+
+const clip = ([start, end]: Interval, [dayStart, dayEnd]: Interval): Interval =>
+  [Math.max(start, dayStart), Math.min(end, dayEnd)];
+
+const totalLength = (intervals: Interval[]): number =>
+  intervals.reduce((sum, [s, e]) => sum + (e - s), 0);
+
+// Overlap between two sets of merged intervals
+const overlapLength = (a: Interval[], b: Interval[]): number => {
+  let total = 0;
+  for (const [aStart, aEnd] of a) {
+    for (const [bStart, bEnd] of b) {
+      total += Math.max(0, Math.min(aEnd, bEnd) - Math.max(aStart, bStart));
+    }
+  }
+  return total;
+};
+
+export interface ReconciliationDay {
+  userId: string;
+  date: string; // YYYY-MM-DD in the project timezone
+  firstCheckIn: Date | null;
+  lastCheckOut: Date | null;
+  missingCheckout: boolean; // A past session without a check-out is left out of onSiteMinutes
+  onSiteMinutes: number;
+  loggedMinutes: number; // Sum of task time entries, overlapping entries counted separately
+  allocatedMinutes: number; // Task time that falls inside the on-site window
+  unallocatedMinutes: number; // On-site time no task time was logged against
+  loggedOutsideSiteMinutes: number; // Task time logged while not checked in
+}
+
+/**
+ * Reconcile task time against the check-in/check-out window per user and day for a project.
+ * Days are cut in the project timezone; from and to are YYYY-MM-DD dates (inclusive).
+ */
+export const buildReconciliationReport = async (
+  projectId: string,
+  from: string,
+  to: string,
+  userId?: string
+): Promise<{ timezone: string; days: ReconciliationDay[] }> => {
+  const timezone = await getProjectTimezone(projectId);
+  const rangeStart = moment.tz(from, 'YYYY-MM-DD', timezone).startOf('day');
+  const rangeEnd = moment.tz(to, 'YYYY-MM-DD', timezone).endOf('day');
+  const now = Date.now();
+
+  const entryQuery: any = {
+    projectId,
+    startTime: { $lte: rangeEnd.toDate() },
+    $or: [{ isRunning: true }, { endTime: { $gte: rangeStart.toDate() } }],
+  };
+  if (userId) entryQuery.userId = userId;
+  const entries = await TimeEntry.find(entryQuery).lean();
+
+  // Everyone who was on site or logged time in the range
+  const userIds = userId
+    ? [userId]
+    : Array.from(new Set([
+      ...(await Attendance.distinct('userId', {
+        projectId,
+        datetime: { $gte: rangeStart.toDate(), $lte: rangeEnd.toDate() },
+      })),
+      ...entries.map((e) => e.userId),
+    ]));
+
+  const days: ReconciliationDay[] = [];
+
+  for (const user of userIds) {
+    // Start a day early so sessions running over midnight into the range are paired
+    const sessions = await getAttendanceSessions(user, projectId, rangeStart.clone().subtract(1, 'day').toDate(), rangeEnd.toDate());
+    const userEntries = entries.filter((e) => e.userId === user);
+
+    for (const day = rangeStart.clone(); day.isBefore(rangeEnd); day.add(1, 'day')) {
+      const dayInterval: Interval = [day.valueOf(), day.clone().endOf('day').valueOf() + 1];
+      if (dayInterval[0] > now) break;
+
+      const daySessions = sessions.filter((s) =>
+        s.checkIn.getTime() < dayInterval[1] && (!s.checkOut || s.checkOut.getTime() >= dayInterval[0]));
+      // An open session only counts while it can still be running, i.e. up to now on the current day
+      const missingCheckout = daySessions.some((s) => !s.checkOut && dayInterval[1] <= now);
+      const siteIntervals = mergeIntervals(daySessions
+        .filter((s) => s.checkOut || dayInterval[1] > now)
+        .map((s) => clip([s.checkIn.getTime(), s.checkOut ? s.checkOut.getTime() : now], dayInterval)));
+
+      const entryIntervals = userEntries
+        .map((e) => clip([
+          new Date(e.startTime).getTime(),
+          e.isRunning ? now : new Date(e.endTime!).getTime()
+        ], dayInterval))
+        .filter(([s, e]) => e > s);
+
+      if (daySessions.length === 0 && entryIntervals.length === 0) continue;
+
+      const mergedEntries = mergeIntervals(entryIntervals);
+      const onSite = totalLength(siteIntervals);
+      const allocated = overlapLength(mergedEntries, siteIntervals);
+      const checkOuts = daySessions.filter((s) => s.checkOut).map((s) => s.checkOut!.getTime());
+
+      days.push({
+        userId: user,
+        date: day.format('YYYY-MM-DD'),
+        firstCheckIn: daySessions.length > 0 ? daySessions[0].checkIn : null,
+        lastCheckOut: checkOuts.length > 0 ? new Date(Math.max(...checkOuts)) : null,
+        missingCheckout,
+        onSiteMinutes: toMinutes(onSite),
+        loggedMinutes: toMinutes(totalLength(entryIntervals)),
+        allocatedMinutes: toMinutes(allocated),
+        unallocatedMinutes: toMinutes(onSite - allocated),
+        loggedOutsideSiteMinutes: toMinutes(totalLength(mergedEntries) - allocated),
+      });
+    }
+  }
+
+  days.sort((a, b) => a.date.localeCompare(b.date) || a.userId.localeCompare(b.userId));
+  return { timezone, days };
+};
@@ -0,0 +1,204 @@
+jest.mock('../serverClient', () => ({ serverClient: {} }));
+jest.mock('./getstreamFeedsService', () => ({ getStreamFeedsService: {} }));
+
+import { Attendance } from '../models/Attendance';
+import { ITimesheetRules, ProjectDetails } from '../models/Project';
+import { Timesheet } from '../models/Timesheet';
+import {
+  applyWeeklyOvertime,
+  calculateTimesheetWeek,
+  DEFAULT_TIMESHEET_RULES,
+  getTimesheetRules,
+  getWeekRange,
+  isAttendanceLocked,
+  summarizeWorkDay,
+  validateTimesheetRules,
+} from './timesheets';
+
+const rules: ITimesheetRules = { ...DEFAULT_TIMESHEET_RULES };
+
+// A session on 2 March 2026 (a Monday), times in UTC
+const shift = (from: string, to: string | null, date = '2026-03-02') => ({
+  checkIn: new Date(`${date}T${from}:00Z`),
+  checkOut: to ? new Date(`${date}T${to}:00Z`) : null,
+});
+
+describe('summarizeWorkDay', () => {
+  it('deducts the break on days worked at least breakAfterMinutes', () => {
+    const day = summarizeWorkDay('2026-03-02', [shift('09:00', '15:00')], rules);
+    expect(day).toMatchObject({
+      workedMinutes: 360,
+      deductedBreakMinutes: 30,
+      breakMinutes: 30,
+      paidMinutes: 330,
+      regularMinutes: 330,
+      overtimeMinutes: 0,
+    });
+  });
+
+  it('does not deduct a break on shorter days', () => {
+    const day = summarizeWorkDay('2026-03-02', [shift('09:00', '13:59')], rules);
+    expect(day).toMatchObject({ workedMinutes: 299, deductedBreakMinutes: 0, paidMinutes: 299 });
+  });
+
+  it('counts gaps between sessions towards the break', () => {
+    const day = summarizeWorkDay('2026-03-02', [shift('13:20', '17:00'), shift('09:00', '13:00')], rules);
+    expect(day).toMatchObject({
+      workedMinutes: 460,
+      breakMinutes: 30, // 20 minute gap, 10 deducted
+      deductedBreakMinutes: 10,
+      paidMinutes: 450,
+    });
+    expect(day.firstIn).toEqual(new Date('2026-03-02T09:00:00Z'));
+    expect(day.lastOut).toEqual(new Date('2026-03-02T17:00:00Z'));
+
+    const longLunch = summarizeWorkDay('2026-03-02', [shift('09:00', '12:00'), shift('13:00', '17:00')], rules);
+    expect(longLunch).toMatchObject({ workedMinutes: 420, breakMinutes: 60, deductedBreakMinutes: 0, paidMinutes: 420 });
+  });
+
+  it('counts paid minutes past the daily threshold as overtime', () => {
+    const day = summarizeWorkDay('2026-03-02', [shift('07:00', '17:00')], rules);
+    expect(day).toMatchObject({ workedMinutes: 600, paidMinutes: 570, regularMinutes: 480, overtimeMinutes: 90 });
+  });
+
+  it('has no daily overtime when the threshold is switched off', () => {
+    const day = summarizeWorkDay('2026-03-02', [shift('07:00', '17:00')], { ...rules, dailyOvertimeAfterMinutes: null });
+    expect(day).toMatchObject({ regularMinutes: 570, overtimeMinutes: 0 });
+  });
+
+  it('leaves open sessions out of the hours', () => {
+    const day = summarizeWorkDay('2026-03-02', [shift('09:00', '11:00'), shift('12:00', null)], rules);
+    expect(day).toMatchObject({ workedMinutes: 120, paidMinutes: 120 });
+    expect(day.sessions[1].minutes).toBe(0);
+    expect(day.lastOut).toEqual(new Date('2026-03-02T11:00:00Z'));
+  });
+});
+
+describe('applyWeeklyOvertime', () => {
+  const days = (regular: number[]) =>
+    regular.map((minutes, index) => ({ ...summarizeWorkDay(`2026-03-0${index + 2}`, [], rules), regularMinutes: minutes }));
+
+  it('moves regular minutes past the weekly threshold to overtime, from the day it is crossed', () => {
+    const week = days([540, 540, 540, 540, 540, 240]);
+    applyWeeklyOvertime(week, { ...rules, weeklyOvertimeAfterMinutes: 2400 });
+    expect(week.map((day) => day.regularMinutes)).toEqual([540, 540, 540, 540, 240, 0]);
+    expect(week.map((day) => day.overtimeMinutes)).toEqual([0, 0, 0, 0, 300, 240]);
+  });
+
+  it('does nothing when the threshold is switched off', () => {
+    const week = days([600, 600, 600, 600, 600]);
+    applyWeeklyOvertime(week, { ...rules, weeklyOvertimeAfterMinutes: null });
+    expect(week.every((day) => day.overtimeMinutes === 0)).toBe(true);
+  });
+});
+
+describe('calculateTimesheetWeek', () => {
+  it('adds daily and weekly overtime without counting minutes twice', () => {
+    // Monday to Friday 08:00-18:00: 600 worked, 570 paid, 90 daily overtime each
+    const sessions = ['02', '03', '04', '05', '06'].map((day) => shift('08:00', '18:00', `2026-03-${day}`));
+    const weekStart = new Date('2026-03-02T00:00:00Z');
+    const { days, totals, openSessions } = calculateTimesheetWeek(sessions, 'UTC', weekStart, rules);
+
+    expect(days).toHaveLength(7);
+    expect(days.map((day) => day.date)).toEqual([
+      '2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06', '2026-03-07', '2026-03-08',
+    ]);
+    // 5 x 480 regular = 2400, exactly the weekly threshold
+    expect(totals).toEqual({
+      workedMinutes: 3000,
+      breakMinutes: 150,
+      deductedBreakMinutes: 150,
+      paidMinutes: 2850,
+      regularMinutes: 2400,
+      overtimeMinutes: 450,
+    });
+    expect(openSessions).toBe(0);
+  });
+
+  it('groups sessions by their local start date', () => {
+    // 23:00 UTC on Monday is already Tuesday in Berlin
+    const weekStart = getWeekRange(new Date('2026-03-03T12:00:00Z'), 'Europe/Berlin', 1).weekStart;
+    const { days } = calculateTimesheetWeek([shift('23:00', null)], 'Europe/Berlin', weekStart, rules);
+    expect(days[1].sessions).toHaveLength(1);
+  });
+});
+
+describe('getWeekRange', () => {
+  it('starts on the configured weekday in the timezone', () => {
+    expect(getWeekRange(new Date('2026-03-04T12:00:00Z'), 'UTC', 1)).toEqual({
+      weekStart: new Date('2026-03-02T00:00:00Z'),
+      weekEnd: new Date('2026-03-09T00:00:00Z'),
+    });
+    expect(getWeekRange(new Date('2026-03-04T12:00:00Z'), 'America/New_York', 7).weekStart)
+      .toEqual(new Date('2026-03-01T05:00:00Z'));
+  });
+});
+
+describe('timesheet rules', () => {
+  it('fills in defaults and keeps switched off thresholds', () => {
+    expect(getTimesheetRules({ timesheetRules: { breakMinutes: 45, weeklyOvertimeAfterMinutes: null } as any })).toEqual({
+      ...DEFAULT_TIMESHEET_RULES,
+      breakMinutes: 45,
+      weeklyOvertimeAfterMinutes: null,
+    });
+    expect(getTimesheetRules(null)).toEqual(DEFAULT_TIMESHEET_RULES);
+  });
+
+  it('validates rules from a request', () => {
+    expect(validateTimesheetRules({ weekStartsOn: 7, dailyOvertimeAfterMinutes: null })).toEqual({
+      rules: { weekStartsOn: 7, dailyOvertimeAfterMinutes: null },
+    });
+    expect(validateTimesheetRules({ weekStartsOn: 0 }).error).toMatch(/ISO weekday/);
+    expect(validateTimesheetRules({ breakMinutes: null }).error).toMatch(/whole number/);
+    expect(validateTimesheetRules({ breakMinutes: 12.5 }).error).toMatch(/whole number/);
+  });
+});
+
+describe('isAttendanceLocked', () => {
+  // The week of 2 March 2026 is approved
+  const approvedWeek = { weekStart: new Date('2026-03-02T00:00:00Z'), weekEnd: new Date('2026-03-09T00:00:00Z') };
+  const inApprovedWeek = (condition: any) =>
+    condition.$or.some(({ weekStart, weekEnd }: any) =>
+      approvedWeek.weekStart <= weekStart.$lte && approvedWeek.weekEnd > weekEnd.$gt);
+
+  beforeEach(() => {
+    jest.spyOn(ProjectDetails, 'findOne').mockResolvedValue({ channelId: 'site-1' } as any);
+    jest.spyOn(Timesheet, 'exists').mockImplementation((async (condition: any) =>
+      (inApprovedWeek(condition) ? { _id: 'timesheet-1' } : null)) as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const mockAttendance = (lastCheckOut: Date | null, checkIn: Date | null) => {
+    jest.spyOn(Attendance, 'findOne').mockImplementation(((condition: any) => ({
+      sort: () => ({
+        lean: async () => {
+          const datetime = condition.status === 'checkout' ? lastCheckOut : checkIn;
+          return datetime ? { datetime } : null;
+        },
+      }),
+    })) as any);
+  };
+
+  it('locks a check-out after the week boundary that closes a session checked in during an approved week', async () => {
+    mockAttendance(new Date('2026-03-08T18:00:00Z'), new Date('2026-03-08T22:00:00Z'));
+
+    expect(await isAttendanceLocked('worker', 'site-1', new Date('2026-03-09T02:00:00Z'), 'checkout')).toBe(true);
+  });
+
+  it('leaves a check-out alone when its session was checked in after the approved week', async () => {
+    mockAttendance(new Date('2026-03-08T18:00:00Z'), new Date('2026-03-09T07:00:00Z'));
+
+    expect(await isAttendanceLocked('worker', 'site-1', new Date('2026-03-09T15:00:00Z'), 'checkout')).toBe(false);
+  });
+
+  it('checks a check-in only against its own week', async () => {
+    const findAttendance = jest.spyOn(Attendance, 'findOne');
+
+    expect(await isAttendanceLocked('worker', 'site-1', new Date('2026-03-08T22:00:00Z'))).toBe(true);
+    expect(await isAttendanceLocked('worker', 'site-1', new Date('2026-03-09T07:00:00Z'))).toBe(false);
+    expect(findAttendance).not.toHaveBeenCalled();
+  });
+});
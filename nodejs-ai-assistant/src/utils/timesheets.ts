@@ -0,0 +1,326 @@
+import moment from 'moment-timezone';
+import { Attendance, IAttendance } from '../models/Attendance';
+import { IProjectDetails, ITimesheetRules } from '../models/Project';
+import { ITimesheet, ITimesheetDay, ITimesheetTotals, Timesheet } from '../models/Timesheet';
+import { AttendanceSession, getAttendanceSessions } from './attendanceSessions';
+import { getChannelRoleMembers } from './channelRoles';
+import { getStreamFeedsService } from './getstreamFeedsService';
+import { findProjectDetails } from './projectTimezone';
+import { getUserNames } from './taskImportExport';
+
+export const DEFAULT_TIMESHEET_RULES: ITimesheetRules = {
+  weekStartsOn: 1,
+  breakAfterMinutes: 5 * 60,
+  breakMinutes: 30,
+  dailyOvertimeAfterMinutes: 8 * 60,
+  weeklyOvertimeAfterMinutes: 40 * 60,
+};
+
+const RULE_KEYS = Object.keys(DEFAULT_TIMESHEET_RULES) as (keyof ITimesheetRules)[];
+
+// Overtime thresholds can be switched off with null
+const NULLABLE_RULES: (keyof ITimesheetRules)[] = ['dailyOvertimeAfterMinutes', 'weeklyOvertimeAfterMinutes'];
+
+export type TimesheetVerb = 'timesheet_ready' | 'timesheet_submitted' | 'timesheet_approved' | 'timesheet_rejected' | 'timesheet_reopened';
+
+/**
+ * Timesheet rules of a project, with defaults for anything it does not set
+ */
+export const getTimesheetRules = (project?: Pick<IProjectDetails, 'timesheetRules'> | null): ITimesheetRules => {
+  const rules = { ...DEFAULT_TIMESHEET_RULES };
+  const custom: any = project?.timesheetRules || {};
+  for (const key of RULE_KEYS) {
+    if (custom[key] !== undefined && (custom[key] !== null || NULLABLE_RULES.includes(key))) {
+      (rules as any)[key] = custom[key];
+    }
+  }
+  return rules;
+};
+
+/**
+ * Validate timesheet rules from a request: whole minutes of at least 0, weekStartsOn an ISO weekday (1-7),
+ * null to switch off an overtime threshold. Returns the given rules or an error message.
+ */
+export const validateTimesheetRules = (value: any): { rules?: Partial<ITimesheetRules>; error?: string } => {
+  if (!value || typeof value !== 'object') {
+    return { error: 'rules must be an object' };
+  }
+  const rules: Partial<ITimesheetRules> = {};
+  for (const key of RULE_KEYS) {
+    const rule = value[key];
+    if (rule === undefined) continue;
+    if (rule === null && NULLABLE_RULES.includes(key)) {
+      (rules as any)[key] = null;
+      continue;
+    }
+    const valid = key === 'weekStartsOn'
+      ? Number.isInteger(rule) && rule >= 1 && rule <= 7
+      : Number.isInteger(rule) && rule >= 0 && rule <= 7 * 24 * 60;
+    if (!valid) {
+      return { error: key === 'weekStartsOn' ? 'weekStartsOn must be an ISO weekday from 1 (Monday) to 7 (Sunday)' : `${key} must be a whole number of minutes` };
+    }
+    (rules as any)[key] = rule;
+  }
+  return { rules };
+};
+
+/**
+ * The timesheet week containing a date, in a timezone: [weekStart, weekEnd)
+ */
+export const getWeekRange = (date: Date, timezone: string, weekStartsOn: number): { weekStart: Date; weekEnd: Date } => {
+  const day = moment.tz(date, timezone).startOf('day');
+  const start = day.clone().subtract((day.isoWeekday() - weekStartsOn + 7) % 7, 'days');
+  return { weekStart: start.toDate(), weekEnd: start.clone().add(7, 'days').toDate() };
+};
+
+const minutesBetween = (from: Date, to: Date): number =>
+  Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000));
+
+/**
+ * Hours of one day from its sessions. Gaps between sessions count as break; on days worked at least
+ * breakAfterMinutes, whatever is missing to breakMinutes is deducted. Paid minutes beyond the daily
+ * overtime threshold are overtime.
+ */
+export const summarizeWorkDay = (date: string, sessions: AttendanceSession[], rules: ITimesheetRules): ITimesheetDay => {
+  const sorted = [...sessions].sort((a, b) => a.checkIn.getTime() - b.checkIn.getTime());
+  const closed = sorted.filter((session) => session.checkOut);
+
+  const workedMinutes = closed.reduce((sum, session) => sum + minutesBetween(session.checkIn, session.checkOut!), 0);
+  let gapMinutes = 0;
+  for (let i = 1; i < closed.length; i++) {
+    gapMinutes += minutesBetween(closed[i - 1].checkOut!, closed[i].checkIn);
+  }
+
+  const deductedBreakMinutes = workedMinutes > 0 && workedMinutes >= rules.breakAfterMinutes
+    ? Math.min(workedMinutes, Math.max(0, rules.breakMinutes - gapMinutes))
+    : 0;
+  const paidMinutes = workedMinutes - deductedBreakMinutes;
+  const overtimeMinutes = rules.dailyOvertimeAfterMinutes !== null
+    ? Math.max(0, paidMinutes - rules.dailyOvertimeAfterMinutes)
+    : 0;
+
+  return {
+    date,
+    sessions: sorted.map((session) => ({
+      checkIn: session.checkIn,
+      checkOut: session.checkOut,
+      minutes: session.checkOut ? minutesBetween(session.checkIn, session.checkOut) : 0,
+    })),
+    firstIn: sorted[0]?.checkIn || null,
+    lastOut: closed.length > 0 ? closed[closed.length - 1].checkOut : null,
+    workedMinutes,
+    breakMinutes: gapMinutes + deductedBreakMinutes,
+    deductedBreakMinutes,
+    paidMinutes,
+    regularMinutes: paidMinutes - overtimeMinutes,
+    overtimeMinutes,
+  };
+};
+
+/**
+ * Once the week's regular minutes pass the weekly overtime threshold, count the rest as overtime.
+ * days must be the days of one week in order.
+ */
+export const applyWeeklyOvertime = (days: ITimesheetDay[], rules: ITimesheetRules): void => {
+  if (rules.weeklyOvertimeAfterMinutes === null) return;
+  let regularSoFar = 0;
+  for (const day of days) {
+    const allowed = Math.max(0, rules.weeklyOvertimeAfterMinutes - regularSoFar);
+    const excess = Math.max(0, day.regularMinutes - allowed);
+    day.regularMinutes -= excess;
+    day.overtimeMinutes += excess;
+    regularSoFar += day.regularMinutes;
+  }
+};
+
+export const sumTimesheetDays = (days: ITimesheetDay[]): ITimesheetTotals => {
+  const totals: ITimesheetTotals = {
+    workedMinutes: 0,
+    breakMinutes: 0,
+    deductedBreakMinutes: 0,
+    paidMinutes: 0,
+    regularMinutes: 0,
+    overtimeMinutes: 0,
+  };
+  for (const day of days) {
+    (Object.keys(totals) as (keyof ITimesheetTotals)[]).forEach((key) => { totals[key] += day[key]; });
+  }
+  return totals;
+};
+
+/**
+ * Sessions grouped by the local date (YYYY-MM-DD) they start on
+ */
+export const groupSessionsByDay = (sessions: AttendanceSession[], timezone: string): Map<string, AttendanceSession[]> => {
+  const byDay = new Map<string, AttendanceSession[]>();
+  for (const session of sessions) {
+    const date = moment.tz(session.checkIn, timezone).format('YYYY-MM-DD');
+    byDay.set(date, [...(byDay.get(date) || []), session]);
+  }
+  return byDay;
+};
+
+/**
+ * Days (all seven, in order) and totals of a week from the sessions that start in it
+ */
+export const calculateTimesheetWeek = (
+  sessions: AttendanceSession[],
+  timezone: string,
+  weekStart: Date,
+  rules: ITimesheetRules
+): { days: ITimesheetDay[]; totals: ITimesheetTotals; openSessions: number } => {
+  const byDay = groupSessionsByDay(sessions, timezone);
+  const start = moment.tz(weekStart, timezone);
+  const days = Array.from({ length: 7 }, (_, index) => {
+    const date = start.clone().add(index, 'days').format('YYYY-MM-DD');
+    return summarizeWorkDay(date, byDay.get(date) || [], rules);
+  });
+  applyWeeklyOvertime(days, rules);
+
+  return {
+    days,
+    totals: sumTimesheetDays(days),
+    openSessions: sessions.filter((session) => !session.checkOut).length,
+  };
+};
+
+/**
+ * Attendance sessions of a user that start in [from, to). Check-outs up to a day after `to` are
+ * included, so a shift that runs past midnight at the end of the range is complete.
+ */
+export const getSessionsStartingIn = async (
+  userId: string,
+  projectId: string,
+  from: Date,
+  to: Date
+): Promise<AttendanceSession[]> => {
+  const sessions = await getAttendanceSessions(userId, projectId, from, moment(to).add(1, 'day').toDate());
+  return sessions.filter((session) => session.checkIn < to);
+};
+
+/**
+ * A user's timesheet for the week containing weekOf, recalculated from attendance while it is a draft
+ * or was rejected. Submitted and approved timesheets are returned as they are.
+ * projectId may be the project's channel ID, projectId or ProjectDetails ID; timesheets use the channel ID.
+ */
+export const refreshTimesheet = async (userId: string, projectId: string, weekOf: Date): Promise<ITimesheet> => {
+  const project = await findProjectDetails(projectId);
+  const channelId = project?.channelId || projectId;
+  const timezone = project?.timezone && moment.tz.zone(project.timezone) ? project.timezone : 'UTC';
+  const rules = getTimesheetRules(project);
+  const { weekStart, weekEnd } = getWeekRange(weekOf, timezone, rules.weekStartsOn);
+
+  const existing = await Timesheet.findOne({ userId, projectId: channelId, weekStart });
+  if (existing && (existing.status === 'submitted' || existing.status === 'approved')) {
+    return existing;
+  }
+
+  const sessions = await getSessionsStartingIn(userId, channelId, weekStart, weekEnd);
+  const { days, totals, openSessions } = calculateTimesheetWeek(sessions, timezone, weekStart, rules);
+
+  const timesheet = existing || new Timesheet({ userId, projectId: channelId, weekStart, weekEnd, status: 'draft' });
+  timesheet.timezone = timezone;
+  timesheet.weekEnd = weekEnd;
+  timesheet.rules = rules;
+  timesheet.days = days;
+  timesheet.totals = totals;
+  timesheet.openSessions = openSessions;
+
+  try {
+    await timesheet.save();
+  } catch (error: any) {
+    // Created by a concurrent request in the meantime
+    if (error?.code === 11000) {
+      return (await Timesheet.findOne({ userId, projectId: channelId, weekStart }))!;
+    }
+    throw error;
+  }
+  return timesheet;
+};
+
+/**
+ * Whether attendance of a user at a time falls in a week whose timesheet is approved, and so is locked.
+ * Timesheets count a session in the week of its check-in, so a check-out is also locked when the
+ * session it closes was checked in during an approved week.
+ * projectId may be the project's channel ID or its ProjectDetails _id; timesheets are keyed by channel ID.
+ */
+export const isAttendanceLocked = async (
+  userId: string,
+  projectId: string,
+  datetime: Date,
+  status: IAttendance['status'] = 'checkin'
+): Promise<boolean> => {
+  const project = await findProjectDetails(projectId);
+  const projectIds = [...new Set([projectId, project?.channelId || projectId])];
+  const times = [datetime];
+  if (status === 'checkout') {
+    const checkIn = await findOpenCheckIn(userId, projectIds, datetime);
+    if (checkIn) times.push(checkIn);
+  }
+  return !!(await Timesheet.exists({
+    userId,
+    projectId: project?.channelId || projectId,
+    status: 'approved',
+    $or: times.map((time) => ({ weekStart: { $lte: time }, weekEnd: { $gt: time } })),
+  }));
+};
+
+// Check-in of the session a check-out at a time would close, paired like getAttendanceSessions
+const findOpenCheckIn = async (userId: string, projectIds: string[], before: Date): Promise<Date | null> => {
+  const lastCheckOut = await Attendance.findOne({
+    userId,
+    projectId: { $in: projectIds },
+    status: 'checkout',
+    datetime: { $lte: before },
+  }).sort({ datetime: -1 }).lean();
+  const checkIn = await Attendance.findOne({
+    userId,
+    projectId: { $in: projectIds },
+    status: 'checkin',
+    datetime: lastCheckOut ? { $gt: lastCheckOut.datetime, $lte: before } : { $lte: before },
+  }).sort({ datetime: 1 }).lean();
+  return checkIn?.datetime || null;
+};
+
+export const formatWeekLabel = (timesheet: Pick<ITimesheet, 'weekStart' | 'weekEnd' | 'timezone'>): string => {
+  const start = moment.tz(timesheet.weekStart, timesheet.timezone);
+  const end = moment.tz(timesheet.weekEnd, timesheet.timezone).subtract(1, 'day');
+  return `${start.format('MMM D')} - ${end.format('MMM D, YYYY')}`;
+};
+
+/**
+ * Notify about a timesheet state change: reviewers (project owner and moderators) when it is submitted,
+ * the user for every other change
+ */
+export const notifyTimesheetChange = async (
+  timesheet: ITimesheet,
+  verb: TimesheetVerb,
+  actorId: string,
+  extra: Record<string, any> = {}
+): Promise<void> => {
+  const timesheetId = String(timesheet._id);
+  let recipients = [timesheet.userId];
+  let userName: string | undefined;
+  if (verb === 'timesheet_submitted') {
+    const { ownerId, moderatorIds } = await getChannelRoleMembers(timesheet.projectId);
+    recipients = [...new Set([ownerId, ...moderatorIds].filter((id): id is string => !!id && id !== timesheet.userId))];
+    userName = (await getUserNames([timesheet.userId])).get(timesheet.userId);
+  }
+
+  for (const recipient of recipients) {
+    try {
+      await getStreamFeedsService.createNotification(recipient, verb, timesheetId, {
+        actor: actorId,
+        timesheetId,
+        projectId: timesheet.projectId,
+        userId: timesheet.userId,
+        weekLabel: formatWeekLabel(timesheet),
+        paidMinutes: timesheet.totals.paidMinutes,
+        ...(userName && { userName }),
+        ...extra,
+      });
+    } catch (error) {
+      console.error(`Failed to notify ${recipient} about timesheet ${timesheetId}:`, error);
+    }
+  }
+};